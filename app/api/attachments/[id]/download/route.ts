@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
+import { isLinkUrl } from '@/lib/attachment-utils';
+
+// GET /api/attachments/[id]/download - Stream an uploaded file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const attachment = await prisma.attachment.findFirst({
+      where: { id, task: { userId: user.id } },
+    });
+
+    if (!attachment) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      );
+    }
+
+    // Attachments linked by URL have nothing stored here. Only web links are
+    // followed, in case an older record holds something else.
+    if (!attachment.storageKey) {
+      if (!isLinkUrl(attachment.url)) {
+        return NextResponse.json(
+          { error: 'Attachment link is not a web address' },
+          { status: 400 }
+        );
+      }
+      return NextResponse.redirect(attachment.url);
+    }
+
+    const stream = await getStorage().get(attachment.storageKey);
+    if (!stream) {
+      return NextResponse.json(
+        { error: 'Attachment file not found' },
+        { status: 404 }
+      );
+    }
+
+    const disposition = request.nextUrl.searchParams.get('inline') === 'true' ? 'inline' : 'attachment';
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': attachment.type,
+        'Content-Length': attachment.size.toString(),
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.name)}`,
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+  } catch (error) {
+    console.error('Error downloading attachment:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Failed to download attachment' },
+      { status: 500 }
+    );
+  }
+}
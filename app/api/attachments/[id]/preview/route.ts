@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { getPreview } from '@/lib/previews';
+
+// GET /api/attachments/[id]/preview - Thumbnail or text snippet of an uploaded file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const attachment = await prisma.attachment.findFirst({
+      where: { id, task: { userId: user.id } },
+    });
+
+    if (!attachment) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      );
+    }
+
+    const preview = attachment.storageKey
+      ? await getPreview(attachment.storageKey, attachment.type)
+      : null;
+
+    if (!preview) {
+      return NextResponse.json(
+        { error: 'Preview not available' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(preview.body, {
+      headers: {
+        'Content-Type': preview.contentType,
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, max-age=86400',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching attachment preview:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Failed to fetch attachment preview' },
+      { status: 500 }
+    );
+  }
+}
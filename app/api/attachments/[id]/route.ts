@@ -1,16 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { isOwnedBy } from '@/lib/ownership';
+import { deleteAttachment } from '@/lib/db-utils';
 
-// DELETE /api/attachments/[id] - Delete an attachment
+// DELETE /api/attachments/[id] - Delete an attachment and its stored file
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
   try {
-    await prisma.attachment.delete({
-      where: { id },
-    });
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    if (!(await isOwnedBy('attachment', id, user.id))) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      );
+    }
+
+    // Removes the stored file too, for uploaded attachments
+    await deleteAttachment(id);
 
     return NextResponse.json({ message: 'Attachment deleted successfully' });
   } catch (error) {
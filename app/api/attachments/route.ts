@@ -1,11 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { findForeignReference } from '@/lib/ownership';
+import { createUploadedAttachment } from '@/lib/db-utils';
+import { ALLOWED_ATTACHMENT_TYPES, MAX_ATTACHMENT_SIZE } from '@/lib/storage';
+import { isLinkUrl } from '@/lib/attachment-utils';
 import { z } from 'zod';
 
-// POST /api/attachments - Upload a file and create an attachment
+// POST /api/attachments - Upload a file and create an attachment.
+// Accepts multipart form data with "file" and "taskId", or JSON linking an external URL.
+const uploadAttachmentSchema = z.object({
+  file: z
+    .instanceof(File, { message: 'File is required' })
+    .refine((file) => file.size > 0, 'File must not be empty')
+    .refine(
+      (file) => file.size <= MAX_ATTACHMENT_SIZE,
+      `File must be ${Math.round(MAX_ATTACHMENT_SIZE / (1024 * 1024))}MB or smaller`
+    )
+    .refine((file) => ALLOWED_ATTACHMENT_TYPES.includes(file.type), 'File type is not allowed'),
+  taskId: z.string().min(1, 'Task ID is required'),
+});
+
 const createAttachmentSchema = z.object({
   name: z.string().min(1, 'File name is required'),
-  url: z.string().url('Valid URL is required'),
+  url: z.string().refine(isLinkUrl, 'URL must start with http:// or https://'),
   type: z.string().min(1, 'File type is required'),
   size: z.number().min(1, 'File size must be greater than 0'),
   taskId: z.string().min(1, 'Task ID is required'),
@@ -13,9 +31,41 @@ const createAttachmentSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      const formData = await request.formData();
+      const { file, taskId } = uploadAttachmentSchema.parse({
+        file: formData.get('file'),
+        taskId: formData.get('taskId'),
+      });
+
+      const foreignReference = await findForeignReference(user.id, { taskId });
+      if (foreignReference) {
+        return NextResponse.json(
+          { error: foreignReference },
+          { status: 404 }
+        );
+      }
+
+      const attachment = await createUploadedAttachment(taskId, file);
+      return NextResponse.json(attachment, { status: 201 });
+    }
+
     const body = await request.json();
     const validatedData = createAttachmentSchema.parse(body);
 
+    const foreignReference = await findForeignReference(user.id, { taskId: validatedData.taskId });
+    if (foreignReference) {
+      return NextResponse.json(
+        { error: foreignReference },
+        { status: 404 }
+      );
+    }
+
     const attachment = await prisma.attachment.create({
       data: validatedData,
     });
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { z } from 'zod';
+import { verifyPassword, createSession, setSessionCookie, toPublicUser } from '@/lib/auth';
+
+// POST /api/auth/login - Sign in with email and password
+const loginSchema = z.object({
+  email: z.string().email('Valid email is required'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validatedData = loginSchema.parse(body);
+
+    const user = await prisma.user.findUnique({
+      where: { email: validatedData.email.toLowerCase() },
+    });
+
+    // Use the same response for unknown emails and wrong passwords
+    if (!user || !user.passwordHash || !(await verifyPassword(validatedData.password, user.passwordHash))) {
+      return NextResponse.json(
+        { error: 'Invalid email or password' },
+        { status: 401 }
+      );
+    }
+
+    const { token, expiresAt } = await createSession(user.id);
+    const response = NextResponse.json(toPublicUser(user));
+    setSessionCookie(response, token, expiresAt);
+
+    return response;
+  } catch (error) {
+    console.error('Error logging in:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to log in' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { destroySession, clearSessionCookie } from '@/lib/auth';
+
+// POST /api/auth/logout - End the current session
+export async function POST(request: NextRequest) {
+  try {
+    await destroySession(request);
+
+    const response = NextResponse.json({ message: 'Logged out successfully' });
+    clearSessionCookie(response);
+
+    return response;
+  } catch (error) {
+    console.error('Error logging out:', error);
+    return NextResponse.json(
+      { error: 'Failed to log out' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { z } from 'zod';
+import { createUser } from '@/lib/db-utils';
+import { hashPassword, createSession, setSessionCookie, toPublicUser } from '@/lib/auth';
+
+// POST /api/auth/register - Create an account and sign in
+const registerSchema = z.object({
+  email: z.string().email('Valid email is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  name: z.string().optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validatedData = registerSchema.parse(body);
+    const email = validatedData.email.toLowerCase();
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (existingUser) {
+      return NextResponse.json(
+        { error: 'Email is already registered' },
+        { status: 409 }
+      );
+    }
+
+    const user = await createUser({
+      email,
+      name: validatedData.name,
+      passwordHash: await hashPassword(validatedData.password),
+    });
+
+    const { token, expiresAt } = await createSession(user.id);
+    const response = NextResponse.json(toPublicUser(user), { status: 201 });
+    setSessionCookie(response, token, expiresAt);
+
+    return response;
+  } catch (error) {
+    console.error('Error registering user:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to register user' },
+      { status: 500 }
+    );
+  }
+}
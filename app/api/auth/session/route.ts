@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorizedResponse, toPublicUser } from '@/lib/auth';
+
+// GET /api/auth/session - Get the signed-in user
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    return NextResponse.json(toPublicUser(user));
+  } catch (error) {
+    console.error('Error fetching session:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getCalendarFeedUser } from '@/lib/auth';
+import { buildCalendar } from '@/lib/ical';
+import { z } from 'zod';
+
+// GET /api/calendar/[token].ics - iCalendar feed of the user's dated tasks.
+// ?listId= and ?labelId= (both repeatable) limit it to some lists or labels;
+// completed tasks are left out unless ?completed=true.
+const feedQuerySchema = z.object({
+  listId: z.array(z.string()),
+  labelId: z.array(z.string()),
+  completed: z.enum(['true', 'false']).optional(),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  try {
+    const user = await getCalendarFeedUser(token.replace(/\.ics$/, ''));
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Calendar not found' },
+        { status: 404 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const query = feedQuerySchema.parse({
+      listId: searchParams.getAll('listId'),
+      labelId: searchParams.getAll('labelId'),
+      completed: searchParams.get('completed') ?? undefined,
+    });
+
+    const tasks = await prisma.task.findMany({
+      where: {
+        userId: user.id,
+        OR: [{ date: { not: null } }, { deadline: { not: null } }],
+        ...(query.listId.length > 0 ? { listId: { in: query.listId } } : {}),
+        ...(query.labelId.length > 0 ? { labels: { some: { id: { in: query.labelId } } } } : {}),
+        ...(query.completed === 'true' ? {} : { completedAt: null }),
+      },
+      include: {
+        labels: { select: { name: true } },
+        reminders: { select: { datetime: true, anchor: true, offsetMinutes: true } },
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    // Skipped occurrences of the exported series
+    const seriesIds = tasks.filter(task => task.isRecurring).map(task => task.seriesId ?? task.id);
+    const skipped = seriesIds.length > 0
+      ? await prisma.recurrenceException.findMany({
+          where: { userId: user.id, seriesId: { in: seriesIds }, isSkipped: true },
+          select: { seriesId: true, originalDate: true },
+        })
+      : [];
+
+    const lists = query.listId.length === 1
+      ? await prisma.list.findMany({ where: { id: query.listId[0], userId: user.id }, select: { name: true } })
+      : [];
+
+    const calendar = buildCalendar(
+      tasks.map(task => ({
+        ...task,
+        skippedDates: skipped
+          .filter(exception => exception.seriesId === (task.seriesId ?? task.id))
+          .map(exception => exception.originalDate),
+      })),
+      { name: lists[0] ? `Daily Task Planner: ${lists[0].name}` : 'Daily Task Planner' }
+    );
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="tasks.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error building calendar feed:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to build calendar feed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { createCalendarToken, getSessionUser, unauthorizedResponse } from '@/lib/auth';
+
+// GET /api/calendar - Whether the signed-in user has a calendar feed
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    return NextResponse.json({ enabled: !!user.calendarTokenHash });
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Failed to fetch calendar feed' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/calendar - Create a new feed URL. Only a hash of the token is
+// stored, so the URL is shown this once; older URLs stop working.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const token = await createCalendarToken(user.id);
+
+    return NextResponse.json(
+      { enabled: true, url: `${request.nextUrl.origin}/api/calendar/${token}.ics` },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating calendar feed:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Failed to create calendar feed' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/calendar - Turn the feed off
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { calendarTokenHash: null },
+    });
+
+    return NextResponse.json({ enabled: false });
+  } catch (error) {
+    console.error('Error deleting calendar feed:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Failed to delete calendar feed' },
+      { status: 500 }
+    );
+  }
+}
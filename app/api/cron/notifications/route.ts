@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronRequest, unauthorizedResponse } from '@/lib/auth';
+import { isEmailConfigured, processDigests, processOverdueNotifications } from '@/lib/email';
+
+// GET /api/cron/notifications - Send daily digests and overdue emails (called by a cron job)
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      return unauthorizedResponse();
+    }
+
+    if (!isEmailConfigured()) {
+      return NextResponse.json({ digests: 0, overdue: 0, failed: 0 });
+    }
+
+    const digests = await processDigests();
+    const overdue = await processOverdueNotifications();
+    return NextResponse.json({
+      digests: digests.digests,
+      overdue: overdue.overdue,
+      failed: digests.failed + overdue.failed,
+    });
+  } catch (error) {
+    console.error('Error processing notifications:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Failed to process notifications' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/cron/notifications - Same as GET, for schedulers that only POST
+export const POST = GET;
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronRequest, unauthorizedResponse } from '@/lib/auth';
+import { processDueReminders } from '@/lib/reminder-delivery';
+
+// GET /api/cron/reminders - Deliver due reminders (called by a cron job)
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      return unauthorizedResponse();
+    }
+
+    const summary = await processDueReminders();
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Error processing reminders:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Failed to process reminders' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/cron/reminders - Same as GET, for schedulers that only POST
+export const POST = GET;
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronRequest, unauthorizedResponse } from '@/lib/auth';
+import { processRollovers } from '@/lib/db-utils';
+
+// GET /api/cron/rollover - Move yesterday's unfinished tasks to today for users who turned it on (called by a cron job)
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      return unauthorizedResponse();
+    }
+
+    const summary = await processRollovers();
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Error processing rollovers:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Failed to process rollovers' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/cron/rollover - Same as GET, for schedulers that only POST
+export const POST = GET;
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { exportAccount } from '@/lib/backup';
+import { getBackupFileName } from '@/lib/backup-utils';
+
+// GET /api/export - Download a JSON backup of the user's lists, labels and tasks
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const backup = await exportAccount(user.id);
+
+    return NextResponse.json(backup, {
+      headers: {
+        'Content-Disposition': `attachment; filename="${getBackupFileName(backup.exportedAt)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting account:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Failed to export account' },
+      { status: 500 }
+    );
+  }
+}
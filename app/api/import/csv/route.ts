@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { findForeignReference } from '@/lib/ownership';
+import { CSV_IMPORT_COLUMNS, CsvFieldError, parseCsv, readCsvRow } from '@/lib/csv';
+import { createTaskSchema } from '@/lib/task-schemas';
+import { getImportListId, ImportedTask, importTasks } from '@/lib/task-import';
+import { z } from 'zod';
+
+const MAX_CSV_SIZE = 2 * 1024 * 1024;
+
+type RowErrors = {
+  // Line in the file, counting the header as line 1
+  row: number;
+  errors: CsvFieldError[];
+};
+
+// POST /api/import/csv - Import tasks from a CSV file with a header row.
+// Multipart form data with "file", "mapping" (JSON of task field -> column
+// index), optional "listId" for rows without a list, "dryRun=true" to only
+// validate, and "partial=true" to import the valid rows when others fail.
+// The rows are saved in one transaction, so a failed import saves nothing.
+const importCsvSchema = z.object({
+  file: z
+    .instanceof(File, { message: 'File is required' })
+    .refine((file) => file.size > 0, 'File must not be empty')
+    .refine((file) => file.size <= MAX_CSV_SIZE, 'File must be 2MB or smaller'),
+  mapping: z
+    .string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Mapping must be JSON' });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.record(z.enum(CSV_IMPORT_COLUMNS), z.number().int().min(0)))
+    .refine((mapping) => mapping.name !== undefined, 'Map a column to the task name'),
+  listId: z.string().min(1).optional(),
+  dryRun: z.enum(['true', 'false']).optional().transform(val => val === 'true'),
+  partial: z.enum(['true', 'false']).optional().transform(val => val === 'true'),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const formData = await request.formData();
+    const { file, mapping, listId, dryRun, partial } = importCsvSchema.parse({
+      file: formData.get('file'),
+      mapping: formData.get('mapping'),
+      listId: formData.get('listId') ?? undefined,
+      dryRun: formData.get('dryRun') ?? undefined,
+      partial: formData.get('partial') ?? undefined,
+    });
+
+    const foreignReference = await findForeignReference(user.id, { listId });
+    if (foreignReference) {
+      return NextResponse.json(
+        { error: foreignReference },
+        { status: 404 }
+      );
+    }
+
+    const targetListId = listId ?? await getImportListId(user.id);
+    if (!targetListId) {
+      return NextResponse.json(
+        { error: 'Create a list to import tasks into' },
+        { status: 400 }
+      );
+    }
+
+    // Rows are checked with the same rules as tasks created through the API
+    const tasks: ImportedTask[] = [];
+    const rowErrors: RowErrors[] = [];
+    parseCsv(await file.text()).slice(1).forEach((row, index) => {
+      const { values, errors } = readCsvRow(row, mapping);
+      const result = createTaskSchema.safeParse({
+        name: values.name,
+        description: values.description,
+        date: values.date,
+        deadline: values.deadline,
+        estimates: values.estimates,
+        priority: values.priority,
+        listId: targetListId,
+        labels: values.labels,
+      });
+      if (!result.success) {
+        errors.push(...result.error.issues.map(issue => ({
+          field: String(issue.path[0] ?? 'row'),
+          message: issue.message,
+        })));
+      }
+
+      if (errors.length > 0 || !result.success) {
+        rowErrors.push({ row: index + 2, errors });
+        return;
+      }
+
+      tasks.push({
+        uid: null,
+        name: result.data.name,
+        description: result.data.description ?? null,
+        date: result.data.date ? new Date(result.data.date) : null,
+        deadline: result.data.deadline ? new Date(result.data.deadline) : null,
+        priority: result.data.priority,
+        estimates: result.data.estimates ?? null,
+        completedAt: values.completedAt ? new Date(values.completedAt) : null,
+        recurringPattern: null,
+        list: values.list ?? null,
+        labels: values.labels,
+        reminders: [],
+        warnings: [],
+      });
+    });
+
+    if (rowErrors.length > 0 && !partial && !dryRun) {
+      return NextResponse.json(
+        { error: 'Validation error', rows: rowErrors },
+        { status: 400 }
+      );
+    }
+
+    const summary = await importTasks(user.id, targetListId, tasks, { dryRun, source: 'csv' });
+    return NextResponse.json({ ...summary, rows: rowErrors }, { status: dryRun ? 200 : 201 });
+  } catch (error) {
+    console.error('Error importing CSV:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to import CSV' },
+      { status: 500 }
+    );
+  }
+}
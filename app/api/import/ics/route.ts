@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { findForeignReference } from '@/lib/ownership';
+import { ICalError, parseTodos } from '@/lib/ical';
+import { getImportListId, importTasks } from '@/lib/task-import';
+import { z } from 'zod';
+
+const MAX_ICS_SIZE = 2 * 1024 * 1024;
+
+// POST /api/import/ics - Import the VTODOs of an iCalendar file as tasks.
+// Multipart form data with "file", optional "listId" (defaults to the default
+// list) and "dryRun=true" to only preview what would be imported.
+const importIcsSchema = z.object({
+  file: z
+    .instanceof(File, { message: 'File is required' })
+    .refine((file) => file.size > 0, 'File must not be empty')
+    .refine((file) => file.size <= MAX_ICS_SIZE, 'File must be 2MB or smaller'),
+  listId: z.string().min(1).optional(),
+  dryRun: z.enum(['true', 'false']).optional().transform(val => val === 'true'),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const formData = await request.formData();
+    const { file, listId, dryRun } = importIcsSchema.parse({
+      file: formData.get('file'),
+      listId: formData.get('listId') ?? undefined,
+      dryRun: formData.get('dryRun') ?? undefined,
+    });
+
+    const foreignReference = await findForeignReference(user.id, { listId });
+    if (foreignReference) {
+      return NextResponse.json(
+        { error: foreignReference },
+        { status: 404 }
+      );
+    }
+
+    const targetListId = listId ?? await getImportListId(user.id);
+    if (!targetListId) {
+      return NextResponse.json(
+        { error: 'Create a list to import tasks into' },
+        { status: 400 }
+      );
+    }
+
+    let todos;
+    try {
+      todos = parseTodos(await file.text(), { timeZone: user.timezone });
+    } catch (error) {
+      if (error instanceof ICalError) {
+        return NextResponse.json(
+          { error: 'Invalid iCalendar file', details: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const summary = await importTasks(user.id, targetListId, todos, { dryRun, source: 'ics' });
+    return NextResponse.json(summary, { status: dryRun ? 200 : 201 });
+  } catch (error) {
+    console.error('Error importing calendar:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to import calendar' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { restoreBackup } from '@/lib/backup';
+import { BACKUP_FORMAT, BackupError, CONFLICT_STRATEGIES, upgradeBackup } from '@/lib/backup-utils';
+import { isLinkUrl } from '@/lib/attachment-utils';
+import { z } from 'zod';
+
+// POST /api/import - Restore a JSON backup from GET /api/export into the
+// user's account. The body is the backup; ?strategy=skip|overwrite|duplicate
+// decides what happens to records that already exist (default skip).
+const importQuerySchema = z.object({
+  strategy: z.enum(CONFLICT_STRATEGIES).default('skip'),
+});
+
+const date = z.coerce.date();
+
+// Fields that older backups may not have default to null
+const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int(),
+  exportedAt: date,
+  lists: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    emoji: z.string().nullable().default(null),
+    color: z.string().nullable().default(null),
+    isDefault: z.boolean().default(false),
+    isFavorite: z.boolean().default(false),
+    createdAt: date,
+  })),
+  labels: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    color: z.string(),
+    createdAt: date,
+  })),
+  tasks: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    description: z.string().nullable().default(null),
+    date: date.nullable().default(null),
+    deadline: date.nullable().default(null),
+    estimates: z.number().int().nullable().default(null),
+    actualTime: z.number().int().nullable().default(null),
+    priority: z.number().int().min(0).max(3).default(0),
+    status: z.string().nullable().default(null),
+    isRecurring: z.boolean().default(false),
+    recurringPattern: z.string().nullable().default(null),
+    seriesId: z.string().nullable().default(null),
+    occurrenceDate: date.nullable().default(null),
+    completedAt: date.nullable().default(null),
+    icalUid: z.string().nullable().default(null),
+    listId: z.string().min(1),
+    parentId: z.string().nullable().default(null),
+    order: z.number().int().default(0),
+    createdAt: date,
+    labelIds: z.array(z.string()).default([]),
+    blockedByIds: z.array(z.string()).default([]),
+    reminders: z.array(z.object({
+      datetime: date,
+      anchor: z.string().nullable().default(null),
+      offsetMinutes: z.number().int().nullable().default(null),
+      snoozedUntil: date.nullable().default(null),
+      status: z.string().default('pending'),
+      deliveredAt: date.nullable().default(null),
+    })).default([]),
+    attachments: z.array(z.object({
+      id: z.string(),
+      name: z.string(),
+      url: z.string(),
+      type: z.string(),
+      size: z.number().int(),
+      storageKey: z.string().nullable().default(null),
+      createdAt: date,
+    }).refine(attachment => attachment.storageKey !== null || isLinkUrl(attachment.url), {
+      message: 'Linked attachments need an http or https URL',
+      path: ['url'],
+    })).default([]),
+    history: z.array(z.object({
+      action: z.string(),
+      oldValue: z.string().nullable().default(null),
+      newValue: z.string().nullable().default(null),
+      createdAt: date,
+    })).default([]),
+  })),
+  recurrenceExceptions: z.array(z.object({
+    seriesId: z.string(),
+    originalDate: date,
+    isSkipped: z.boolean().default(false),
+    newDate: date.nullable().default(null),
+    overrides: z.string().nullable().default(null),
+    originalValues: z.string().nullable().default(null),
+  })).default([]),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { strategy } = importQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams.entries()));
+
+    let document: unknown;
+    try {
+      document = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid backup', details: 'The file is not valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const backup = backupSchema.parse(upgradeBackup(document));
+    const summary = await restoreBackup(user.id, backup, strategy);
+
+    return NextResponse.json(summary, { status: 201 });
+  } catch (error) {
+    console.error('Error importing backup:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof BackupError) {
+      return NextResponse.json(
+        { error: 'Invalid backup', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to import backup' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { isOwnedBy } from '@/lib/ownership';
 import { z } from 'zod';
 
 // GET /api/labels/[id] - Get single label
@@ -9,8 +11,13 @@ export async function GET(
 ) {
   const { id } = await params;
   try {
-    const label = await prisma.label.findUnique({
-      where: { id },
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const label = await prisma.label.findFirst({
+      where: { id, userId: user.id },
       include: {
         tasks: true,
       },
@@ -37,7 +44,6 @@ export async function GET(
 const updateLabelSchema = z.object({
   name: z.string().min(1, 'Label name is required').optional(),
   color: z.string().min(1, 'Label color is required').optional(),
-  userId: z.string().optional(),
 });
 
 export async function PUT(
@@ -46,9 +52,21 @@ export async function PUT(
 ) {
   const { id } = await params;
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     const validatedData = updateLabelSchema.parse(body);
 
+    if (!(await isOwnedBy('label', id, user.id))) {
+      return NextResponse.json(
+        { error: 'Label not found' },
+        { status: 404 }
+      );
+    }
+
     const label = await prisma.label.update({
       where: { id },
       data: validatedData,
@@ -91,6 +109,18 @@ export async function DELETE(
 ) {
   const { id } = await params;
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    if (!(await isOwnedBy('label', id, user.id))) {
+      return NextResponse.json(
+        { error: 'Label not found' },
+        { status: 404 }
+      );
+    }
+
     // Remove label from all tasks
     const tasksWithLabel = await prisma.task.findMany({
       where: { labels: { some: { id } } },
@@ -1,16 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
 import { z } from 'zod';
 
 // GET /api/labels - Get all labels
 export async function GET(request: NextRequest) {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const userId = searchParams.get('userId');
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
 
-    const where: any = {};
-    // Add default user filter if not provided (TODO: Replace with actual user authentication)
-    where.userId = userId || 'cmki1ekso0000i4ezi4fhaecm';
+    const where: any = { userId: user.id };
 
     const labels = await prisma.label.findMany({
       where,
@@ -31,16 +32,23 @@ export async function GET(request: NextRequest) {
 const createLabelSchema = z.object({
   name: z.string().min(1, 'Label name is required'),
   color: z.string().min(1, 'Label color is required'),
-  userId: z.string().min(1, 'User ID is required'),
 });
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     const validatedData = createLabelSchema.parse(body);
 
     const label = await prisma.label.create({
-      data: validatedData,
+      data: {
+        ...validatedData,
+        userId: user.id,
+      },
     });
 
     return NextResponse.json(label, { status: 201 });
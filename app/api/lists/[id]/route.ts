@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { isOwnedBy } from '@/lib/ownership';
+import { getAttachmentStorageKeys } from '@/lib/db-utils';
+import { deleteStoredFiles } from '@/lib/storage';
 import { z } from 'zod';
 
 // GET /api/lists/[id] - Get single list
@@ -9,8 +13,13 @@ export async function GET(
 ) {
   const { id } = await params;
   try {
-    const list = await prisma.list.findUnique({
-      where: { id },
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const list = await prisma.list.findFirst({
+      where: { id, userId: user.id },
       include: {
         tasks: {
           include: {
@@ -50,7 +59,6 @@ const updateListSchema = z.object({
   color: z.string().optional(),
   isDefault: z.boolean().optional(),
   isFavorite: z.boolean().optional(),
-  userId: z.string().optional(),
 });
 
 export async function PUT(
@@ -59,9 +67,21 @@ export async function PUT(
 ) {
   const { id } = await params;
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     const validatedData = updateListSchema.parse(body);
 
+    if (!(await isOwnedBy('list', id, user.id))) {
+      return NextResponse.json(
+        { error: 'List not found' },
+        { status: 404 }
+      );
+    }
+
     // If this is a default list, make sure other lists are not default
     if (validatedData.isDefault) {
       const list = await prisma.list.findUnique({
@@ -125,9 +145,14 @@ export async function DELETE(
 ) {
   const { id } = await params;
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     // Find list with user info
-    const list = await prisma.list.findUnique({
-      where: { id },
+    const list = await prisma.list.findFirst({
+      where: { id, userId: user.id },
       include: { user: true },
     });
 
@@ -154,10 +179,21 @@ export async function DELETE(
         data: { listId: defaultList.id },
       });
     } else {
-      // If no default list, delete all tasks in this list
+      // If no default list, delete all tasks in this list along with their attachments
+      const tasks = await prisma.task.findMany({
+        where: { listId: id },
+        select: { id: true },
+      });
+      const taskIds = tasks.map(task => task.id);
+      const storageKeys = await getAttachmentStorageKeys(taskIds);
+
+      await prisma.attachment.deleteMany({
+        where: { taskId: { in: taskIds } },
+      });
       await prisma.task.deleteMany({
         where: { listId: id },
       });
+      await deleteStoredFiles(storageKeys);
     }
 
     // Delete the list
@@ -1,17 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
 import { z } from 'zod';
 
 // GET /api/lists - Get all lists
 export async function GET(request: NextRequest) {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const userId = searchParams.get('userId');
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
 
-    const where: any = {};
-    // Add default user filter if not provided (TODO: Replace with actual user authentication)
-    // We're using 'cmki1ekso0000i4ezi4fhaecm' as the default user id since that's what the init-db script creates
-    where.userId = userId || 'cmki1ekso0000i4ezi4fhaecm';
+    const where: any = { userId: user.id };
 
     const lists = await prisma.list.findMany({
       where,
@@ -50,24 +50,31 @@ const createListSchema = z.object({
   color: z.string().optional(),
   isDefault: z.boolean().default(false),
   isFavorite: z.boolean().default(false),
-  userId: z.string().min(1, 'User ID is required'),
 });
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     const validatedData = createListSchema.parse(body);
 
     // If this is a default list, make sure other lists are not default
     if (validatedData.isDefault) {
       await prisma.list.updateMany({
-        where: { userId: validatedData.userId, isDefault: true },
+        where: { userId: user.id, isDefault: true },
         data: { isDefault: false },
       });
     }
 
     const list = await prisma.list.create({
-      data: validatedData,
+      data: {
+        ...validatedData,
+        userId: user.id,
+      },
       include: {
         tasks: {
           where: { completedAt: null },
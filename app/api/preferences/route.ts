@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { findForeignReference } from '@/lib/ownership';
+import { isValidTimeZone } from '@/lib/notification-utils';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+
+const preferencesSelect = {
+  timezone: true,
+  emailNotifications: true,
+  digestEnabled: true,
+  digestTime: true,
+  autoRollover: true,
+  matrixUrgentDays: true,
+  matrixImportantPriority: true,
+  matrixImportantLabelIds: true,
+} as const;
+
+// The important labels are stored as JSON
+function toPreferences({ matrixImportantLabelIds, ...preferences }: Prisma.UserGetPayload<{ select: typeof preferencesSelect }>) {
+  return { ...preferences, matrixImportantLabelIds: JSON.parse(matrixImportantLabelIds) as string[] };
+}
+
+// GET /api/preferences - Get the signed-in user's notification preferences
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const preferences = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: preferencesSelect,
+    });
+
+    return NextResponse.json(preferences && toPreferences(preferences));
+  } catch (error) {
+    console.error('Error fetching preferences:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Failed to fetch preferences' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/preferences - Update notification, rollover and Eisenhower matrix preferences
+const updatePreferencesSchema = z.object({
+  timezone: z.string().refine(isValidTimeZone, 'Unknown timezone').optional(),
+  emailNotifications: z.boolean().optional(),
+  digestEnabled: z.boolean().optional(),
+  digestTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Digest time must be HH:mm').optional(),
+  autoRollover: z.boolean().optional(),
+  matrixUrgentDays: z.number().int().min(0).max(30).optional(),
+  matrixImportantPriority: z.number().int().min(1).max(3).optional(),
+  matrixImportantLabelIds: z.array(z.string()).optional(),
+});
+
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const { matrixImportantLabelIds, ...data } = updatePreferencesSchema.parse(body);
+
+    const foreignReference = await findForeignReference(user.id, { labelIds: matrixImportantLabelIds });
+    if (foreignReference) {
+      return NextResponse.json(
+        { error: foreignReference },
+        { status: 404 }
+      );
+    }
+
+    const preferences = await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        ...data,
+        matrixImportantLabelIds: matrixImportantLabelIds ? JSON.stringify(matrixImportantLabelIds) : undefined,
+      },
+      select: preferencesSelect,
+    });
+
+    return NextResponse.json(toPreferences(preferences));
+  } catch (error) {
+    console.error('Error updating preferences:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update preferences' },
+      { status: 500 }
+    );
+  }
+}
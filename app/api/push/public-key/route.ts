@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { getVapidDetails } from '@/lib/web-push';
+
+// GET /api/push/public-key - VAPID key browsers need to subscribe
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const vapid = getVapidDetails();
+    if (!vapid) {
+      return NextResponse.json(
+        { error: 'Push notifications are not configured' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ publicKey: vapid.publicKey });
+  } catch (error) {
+    console.error('Error fetching push public key:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Failed to fetch push public key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { isAllowedPushEndpoint } from '@/lib/web-push';
+import { z } from 'zod';
+
+// POST /api/push/subscriptions - Save this browser's push subscription
+const createSubscriptionSchema = z.object({
+  endpoint: z.string().url('Valid endpoint URL is required').refine(isAllowedPushEndpoint, 'Endpoint must be an HTTPS URL of a known push service'),
+  keys: z.object({
+    p256dh: z.string().min(1, 'p256dh key is required'),
+    auth: z.string().min(1, 'auth key is required'),
+  }),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const { endpoint, keys } = createSubscriptionSchema.parse(body);
+
+    // Endpoints are unique per browser, so a browser that signs in as someone
+    // else moves over to the new user
+    const data = {
+      userId: user.id,
+      p256dh: keys.p256dh,
+      auth: keys.auth,
+      userAgent: request.headers.get('user-agent'),
+    };
+    const subscription = await prisma.pushSubscription.upsert({
+      where: { endpoint },
+      create: { endpoint, ...data },
+      update: data,
+    });
+
+    return NextResponse.json(subscription, { status: 201 });
+  } catch (error) {
+    console.error('Error saving push subscription:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save push subscription' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/push/subscriptions - Stop pushing to a browser
+const deleteSubscriptionSchema = z.object({
+  endpoint: z.string().min(1, 'Endpoint is required'),
+});
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const { endpoint } = deleteSubscriptionSchema.parse(body);
+
+    const { count } = await prisma.pushSubscription.deleteMany({
+      where: { endpoint, userId: user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Push subscription not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Push subscription deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting push subscription:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to delete push subscription' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { isOwnedBy, findForeignReference } from '@/lib/ownership';
+import { pendingDeliveryState } from '@/lib/reminder-delivery';
+import { REMINDER_ANCHORS, ReminderSpec, isReminderAnchor, resolveReminder } from '@/lib/reminder-utils';
 import { z } from 'zod';
 
 // GET /api/reminders/[id] - Get single reminder
@@ -9,8 +13,14 @@ export async function GET(
 ) {
   const { id } = await params;
   try {
-    const reminder = await prisma.reminder.findUnique({
-      where: { id },
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const reminder = await prisma.reminder.findFirst({
+      where: { id, task: { userId: user.id } },
+      include: { snoozes: { orderBy: { createdAt: 'asc' } } },
     });
 
     if (!reminder) {
@@ -30,10 +40,16 @@ export async function GET(
   }
 }
 
-// PUT /api/reminders/[id] - Update reminder
+// PUT /api/reminders/[id] - Update reminder. A datetime makes it absolute;
+// anchor and offsetMinutes make it relative to the task again.
 const updateReminderSchema = z.object({
   datetime: z.string().optional(),
+  anchor: z.enum(REMINDER_ANCHORS).optional(),
+  offsetMinutes: z.number().int().optional(),
   taskId: z.string().min(1, 'Task ID is required').optional(),
+}).refine(data => !data.datetime || (data.anchor === undefined && data.offsetMinutes === undefined), {
+  message: 'Use either datetime or anchor and offsetMinutes',
+  path: ['datetime'],
 });
 
 export async function PUT(
@@ -42,9 +58,30 @@ export async function PUT(
 ) {
   const { id } = await params;
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     const validatedData = updateReminderSchema.parse(body);
 
+    if (!(await isOwnedBy('reminder', id, user.id))) {
+      return NextResponse.json(
+        { error: 'Reminder not found' },
+        { status: 404 }
+      );
+    }
+
+    // Moving a reminder is only allowed onto another task the caller owns
+    const foreignReference = await findForeignReference(user.id, { taskId: validatedData.taskId });
+    if (foreignReference) {
+      return NextResponse.json(
+        { error: foreignReference },
+        { status: 404 }
+      );
+    }
+
     // Validate date if provided
     if (validatedData.datetime) {
       const date = new Date(validatedData.datetime);
@@ -56,11 +93,37 @@ export async function PUT(
       }
     }
 
+    const existing = await prisma.reminder.findUniqueOrThrow({
+      where: { id },
+      include: { task: { select: { date: true, deadline: true } } },
+    });
+    const task = validatedData.taskId
+      ? await prisma.task.findUniqueOrThrow({ where: { id: validatedData.taskId }, select: { date: true, deadline: true } })
+      : existing.task;
+
+    // A datetime makes the reminder absolute; a relative one follows its (possibly new) task
+    const anchor = validatedData.anchor ?? existing.anchor;
+    const offsetMinutes = validatedData.offsetMinutes ?? existing.offsetMinutes;
+    const spec: ReminderSpec | null = validatedData.datetime
+      ?? (isReminderAnchor(anchor) && offsetMinutes !== null ? { anchor, offsetMinutes } : null);
+    const resolved = spec ? resolveReminder(spec, task) : null;
+    if (spec && !resolved) {
+      return NextResponse.json(
+        { error: 'Validation error', details: [{ path: ['anchor'], message: `Task has no ${anchor}` }] },
+        { status: 400 }
+      );
+    }
+
+    const isMoved = !!resolved && resolved.datetime.getTime() !== existing.datetime.getTime();
     const reminder = await prisma.reminder.update({
       where: { id },
       data: {
-        ...validatedData,
-        ...(validatedData.datetime ? { datetime: new Date(validatedData.datetime) } : {}),
+        ...(validatedData.taskId ? { taskId: validatedData.taskId } : {}),
+        ...(resolved ? { anchor: resolved.anchor, offsetMinutes: resolved.offsetMinutes } : {}),
+        // A moved reminder goes back in the delivery queue
+        ...(isMoved
+          ? { datetime: resolved!.datetime, snoozedUntil: null, ...pendingDeliveryState, deliveries: { deleteMany: {} } }
+          : {}),
       },
     });
 
@@ -97,6 +160,18 @@ export async function DELETE(
 ) {
   const { id } = await params;
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    if (!(await isOwnedBy('reminder', id, user.id))) {
+      return NextResponse.json(
+        { error: 'Reminder not found' },
+        { status: 404 }
+      );
+    }
+
     await prisma.reminder.delete({
       where: { id },
     });
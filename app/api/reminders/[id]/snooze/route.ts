@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { isOwnedBy } from '@/lib/ownership';
+import { pendingDeliveryState } from '@/lib/reminder-delivery';
+import { z } from 'zod';
+
+// POST /api/reminders/[id]/snooze - Fire the reminder again in a few minutes.
+// The original datetime is kept; each snooze is recorded in the history.
+const snoozeReminderSchema = z.object({
+  minutes: z.number().int().min(1).max(24 * 60),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const { minutes } = snoozeReminderSchema.parse(body);
+
+    if (!(await isOwnedBy('reminder', id, user.id))) {
+      return NextResponse.json(
+        { error: 'Reminder not found' },
+        { status: 404 }
+      );
+    }
+
+    const until = new Date(Date.now() + minutes * 60 * 1000);
+    const reminder = await prisma.reminder.update({
+      where: { id },
+      data: {
+        snoozedUntil: until,
+        ...pendingDeliveryState,
+        deliveries: { deleteMany: {} },
+        snoozes: { create: { minutes, until } },
+      },
+      include: { snoozes: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    return NextResponse.json(reminder);
+  } catch (error) {
+    console.error('Error snoozing reminder:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to snooze reminder' },
+      { status: 500 }
+    );
+  }
+}
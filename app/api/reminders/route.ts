@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { findForeignReference } from '@/lib/ownership';
+import { REMINDER_ANCHORS, resolveReminder } from '@/lib/reminder-utils';
 import { z } from 'zod';
 
 // GET /api/reminders - Get all reminders
@@ -11,13 +14,19 @@ const getRemindersQuerySchema = z.object({
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const query = getRemindersQuerySchema.parse(Object.fromEntries(searchParams.entries()));
 
     const { page, limit, taskId } = query;
     const skip = (page - 1) * limit;
 
-    const where: any = {};
+    // Only reminders on the signed-in user's tasks
+    const where: any = { task: { userId: user.id } };
     if (taskId) where.taskId = taskId;
 
     const [reminders, total] = await Promise.all([
@@ -48,22 +57,51 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST /api/reminders - Create new reminder
+// POST /api/reminders - Create new reminder at a datetime, or relative to
+// the task's date or deadline (offsetMinutes before it)
 const createReminderSchema = z.object({
-  datetime: z.string(),
+  datetime: z.string().optional(),
+  anchor: z.enum(REMINDER_ANCHORS).optional(),
+  offsetMinutes: z.number().int().optional(),
   taskId: z.string().min(1, 'Task ID is required'),
+}).refine(data => !!data.datetime !== (data.anchor !== undefined && data.offsetMinutes !== undefined), {
+  message: 'Either datetime or anchor and offsetMinutes is required',
+  path: ['datetime'],
 });
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     const validatedData = createReminderSchema.parse(body);
 
+    const foreignReference = await findForeignReference(user.id, { taskId: validatedData.taskId });
+    if (foreignReference) {
+      return NextResponse.json(
+        { error: foreignReference },
+        { status: 404 }
+      );
+    }
+
+    const { datetime, anchor, offsetMinutes, taskId } = validatedData;
+    const task = await prisma.task.findUniqueOrThrow({
+      where: { id: taskId },
+      select: { date: true, deadline: true },
+    });
+    const resolved = resolveReminder(datetime ?? { anchor: anchor!, offsetMinutes: offsetMinutes! }, task);
+    if (!resolved) {
+      return NextResponse.json(
+        { error: 'Validation error', details: [{ path: ['anchor'], message: `Task has no ${anchor}` }] },
+        { status: 400 }
+      );
+    }
+
     const reminder = await prisma.reminder.create({
-      data: {
-        datetime: new Date(validatedData.datetime),
-        taskId: validatedData.taskId,
-      },
+      data: { ...resolved, taskId },
     });
 
     return NextResponse.json(reminder, { status: 201 });
@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { getQueryContext } from '@/lib/db-utils';
+import { buildSearchIndex, getSnippets, SearchDocument, SearchHit, searchIndex } from '@/lib/search-index';
+import { compileQuery } from '@/lib/task-query';
 import { z } from 'zod';
 
-// GET /api/search - Search tasks with fuzzy search
+// GET /api/search - Full-text search over task names, descriptions, labels,
+// subtasks, lists and attachment names, ranked with typo tolerance. The
+// query may contain filters such as "list:Work priority>=2 due<friday"
+// (see lib/task-query.ts); a query of only filters lists every match.
 const searchQuerySchema = z.object({
   q: z.string().min(1, 'Search query is required'),
   page: z.string().optional().transform(val => val ? parseInt(val) : 1),
@@ -14,20 +21,19 @@ const searchQuerySchema = z.object({
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const query = searchQuerySchema.parse(Object.fromEntries(searchParams.entries()));
 
     const { q, page, limit, listId, completed, priority } = query;
     const skip = (page - 1) * limit;
 
-    // Build where clause
-    const where: any = {
-      OR: [
-        { name: { contains: q } },
-        { description: { contains: q } },
-      ],
-    };
-
+    // Filters narrow the tasks that are searched, always scoped to the signed-in user
+    const where: any = { userId: user.id };
     if (listId) where.listId = listId;
     if (completed !== undefined) {
       if (completed) {
@@ -38,59 +44,71 @@ export async function GET(request: NextRequest) {
     }
     if (priority !== undefined) where.priority = priority;
 
-    const [tasks, total] = await Promise.all([
-      prisma.task.findMany({
-        where,
-        skip,
-        take: limit,
-        include: {
-          list: true,
-          labels: true,
-          subtasks: true,
-          attachments: true,
-          reminders: true,
-        },
-        orderBy: [
-          { priority: 'desc' },
-          { createdAt: 'desc' },
-        ],
-      }),
-      prisma.task.count({ where }),
-    ]);
+    const compiled = compileQuery(q, await getQueryContext(user));
+    if (compiled.errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid query', details: compiled.errors },
+        { status: 400 }
+      );
+    }
+    if (compiled.conditions.length > 0) where.AND = compiled.conditions;
 
-    // Calculate search relevance score for each task (simple matching score)
-    const tasksWithScore = tasks.map(task => {
-      let score = 0;
-      
-      // Exact match in name
-      if (task.name.toLowerCase() === q.toLowerCase()) {
-        score += 100;
-      } else if (task.name.toLowerCase().includes(q.toLowerCase())) {
-        score += 50;
-      }
-      
-      // Match in description
-      if (task.description && task.description.toLowerCase().includes(q.toLowerCase())) {
-        score += 30;
-      }
-      
-      // Match in labels
-      if (task.labels.length > 0) {
-        task.labels.forEach(label => {
-          if (label.name.toLowerCase().includes(q.toLowerCase())) {
-            score += 20;
-          }
-        });
-      }
-      
-      return {
-        ...task,
-        score,
-      };
+    // The index is built from the user's tasks on every search, so it never
+    // goes stale. Ranking happens before paging.
+    const candidates = await prisma.task.findMany({
+      where,
+      orderBy: [
+        { priority: 'desc' },
+        { createdAt: 'desc' },
+      ],
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        list: { select: { name: true } },
+        labels: { select: { name: true } },
+        subtasks: { select: { name: true } },
+        attachments: { select: { name: true } },
+      },
+    });
+    const documents: SearchDocument[] = candidates.map(task => ({
+      id: task.id,
+      fields: {
+        name: task.name,
+        description: task.description ?? undefined,
+        list: task.list.name,
+        labels: task.labels.map(label => label.name).join(', '),
+        subtasks: task.subtasks.map(subtask => subtask.name).join('; '),
+        attachments: task.attachments.map(attachment => attachment.name).join(', '),
+      },
+    }));
+
+    const hits: SearchHit[] = compiled.text
+      ? searchIndex(buildSearchIndex(documents), compiled.text)
+      : documents.map(document => ({ id: document.id, score: 0, terms: [] }));
+    const total = hits.length;
+    const pageHits = hits.slice(skip, skip + limit);
+
+    const tasks = await prisma.task.findMany({
+      where: { id: { in: pageHits.map(hit => hit.id) } },
+      include: {
+        list: true,
+        labels: true,
+        subtasks: true,
+        attachments: true,
+        reminders: true,
+      },
     });
+    const tasksById = new Map(tasks.map(task => [task.id, task]));
+    const documentsById = new Map(documents.map(document => [document.id, document]));
 
-    // Sort by score descending
-    tasksWithScore.sort((a, b) => b.score - a.score);
+    const tasksWithScore = pageHits
+      .filter(hit => tasksById.has(hit.id))
+      .map(hit => ({
+        ...tasksById.get(hit.id)!,
+        score: Math.round(hit.score * 1000) / 1000,
+        snippets: getSnippets(documentsById.get(hit.id)!, hit.terms),
+      }));
 
     return NextResponse.json({
       data: tasksWithScore,
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { findForeignReference, isOwnedBy } from '@/lib/ownership';
+import { getQueryContext, withTaskCounts } from '@/lib/db-utils';
+import { buildSmartListConditions } from '@/lib/smart-list-utils';
+import { smartListFiltersSchema } from '@/lib/task-schemas';
+import { z } from 'zod';
+
+// PUT /api/smart-lists/[id] - Rename, reorder, favorite or change the filters of a smart list
+const updateSmartListSchema = z.object({
+  name: z.string().min(1, 'Smart list name is required').optional(),
+  emoji: z.string().optional(),
+  color: z.string().optional(),
+  isFavorite: z.boolean().optional(),
+  order: z.number().int().min(0).optional(),
+  filters: smartListFiltersSchema.optional(),
+});
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const { filters, ...validatedData } = updateSmartListSchema.parse(body);
+
+    if (!(await isOwnedBy('smartList', id, user.id))) {
+      return NextResponse.json(
+        { error: 'Smart list not found' },
+        { status: 404 }
+      );
+    }
+
+    const context = await getQueryContext(user);
+    if (filters) {
+      const foreignReference = await findForeignReference(user.id, {
+        listId: filters.listId ?? undefined,
+        labelIds: filters.labelId ? [filters.labelId] : undefined,
+      });
+      if (foreignReference) {
+        return NextResponse.json(
+          { error: foreignReference },
+          { status: 404 }
+        );
+      }
+
+      const { errors } = buildSmartListConditions(filters, context);
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid query', details: errors },
+          { status: 400 }
+        );
+      }
+    }
+
+    const smartList = await prisma.smartList.update({
+      where: { id },
+      data: {
+        ...validatedData,
+        filters: filters ? JSON.stringify(filters) : undefined,
+      },
+    });
+
+    const [updated] = await withTaskCounts([smartList], context, user.id);
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error updating smart list:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update smart list' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/smart-lists/[id] - Delete a smart list; its tasks are untouched
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    if (!(await isOwnedBy('smartList', id, user.id))) {
+      return NextResponse.json(
+        { error: 'Smart list not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.smartList.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ message: 'Smart list deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting smart list:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Failed to delete smart list' },
+      { status: 500 }
+    );
+  }
+}
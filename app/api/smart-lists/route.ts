@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { findForeignReference } from '@/lib/ownership';
+import { getQueryContext, smartListOrderBy, withTaskCounts } from '@/lib/db-utils';
+import { buildSmartListConditions } from '@/lib/smart-list-utils';
+import { smartListFiltersSchema } from '@/lib/task-schemas';
+import { z } from 'zod';
+
+// GET /api/smart-lists - Get all smart lists with their open task counts
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const smartLists = await prisma.smartList.findMany({
+      where: { userId: user.id },
+      orderBy: smartListOrderBy,
+    });
+
+    return NextResponse.json(await withTaskCounts(smartLists, await getQueryContext(user), user.id));
+  } catch (error) {
+    console.error('Error fetching smart lists:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Failed to fetch smart lists' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/smart-lists - Save a combination of filters as a smart list
+const createSmartListSchema = z.object({
+  name: z.string().min(1, 'Smart list name is required'),
+  emoji: z.string().optional(),
+  color: z.string().optional(),
+  isFavorite: z.boolean().default(false),
+  filters: smartListFiltersSchema,
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const { filters, ...validatedData } = createSmartListSchema.parse(body);
+
+    const foreignReference = await findForeignReference(user.id, {
+      listId: filters.listId ?? undefined,
+      labelIds: filters.labelId ? [filters.labelId] : undefined,
+    });
+    if (foreignReference) {
+      return NextResponse.json(
+        { error: foreignReference },
+        { status: 404 }
+      );
+    }
+
+    const context = await getQueryContext(user);
+    const { errors } = buildSmartListConditions(filters, context);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid query', details: errors },
+        { status: 400 }
+      );
+    }
+
+    // New smart lists go to the end
+    const last = await prisma.smartList.findFirst({
+      where: { userId: user.id },
+      orderBy: { order: 'desc' },
+      select: { order: true },
+    });
+
+    const smartList = await prisma.smartList.create({
+      data: {
+        ...validatedData,
+        filters: JSON.stringify(filters),
+        order: (last?.order ?? -1) + 1,
+        userId: user.id,
+      },
+    });
+
+    const [created] = await withTaskCounts([smartList], context, user.id);
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error('Error creating smart list:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create smart list' },
+      { status: 500 }
+    );
+  }
+}
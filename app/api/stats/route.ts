@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { computeTaskStats } from '@/lib/stats-utils';
+import { z } from 'zod';
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+const dateString = z.string().refine(val => !isNaN(Date.parse(val)), 'Invalid date');
+
+// GET /api/stats - Completion statistics for a date range (defaults to the last 30 days)
+const getStatsQuerySchema = z.object({
+  from: dateString.optional(),
+  to: dateString.optional(),
+}).refine(data => !data.from || !data.to || Date.parse(data.from) <= Date.parse(data.to), {
+  message: 'from must be before to',
+  path: ['from'],
+}).refine(data => !data.from || Date.parse(data.to ?? new Date().toISOString()) - Date.parse(data.from) <= MAX_RANGE_DAYS * 24 * 60 * 60 * 1000, {
+  message: `Range can't be longer than ${MAX_RANGE_DAYS} days`,
+  path: ['from'],
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const query = getStatsQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams.entries()));
+    const now = new Date();
+    const to = query.to ? new Date(query.to) : now;
+    const from = query.from
+      ? new Date(query.from)
+      : new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+    const [tasks, lists, labels] = await Promise.all([
+      prisma.task.findMany({
+        where: { userId: user.id, parentId: null },
+        select: {
+          id: true,
+          listId: true,
+          createdAt: true,
+          completedAt: true,
+          date: true,
+          deadline: true,
+          estimates: true,
+          actualTime: true,
+          labels: { select: { id: true } },
+        },
+      }),
+      prisma.list.findMany({
+        where: { userId: user.id },
+        select: { id: true, name: true, color: true },
+      }),
+      prisma.label.findMany({
+        where: { userId: user.id },
+        select: { id: true, name: true, color: true },
+      }),
+    ]);
+
+    return NextResponse.json(computeTaskStats({
+      tasks,
+      lists,
+      labels,
+      from,
+      to,
+      now,
+      timeZone: user.timezone,
+    }));
+  } catch (error) {
+    console.error('Error fetching stats:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch stats' },
+      { status: 500 }
+    );
+  }
+}
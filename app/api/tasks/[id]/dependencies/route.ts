@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { isOwnedBy, findForeignReference } from '@/lib/ownership';
+import { dependencySummary, wouldCreateCycle } from '@/lib/dependency-utils';
+import { z } from 'zod';
+
+// Dependencies are given from the point of view of the task in the URL:
+// blockerId blocks it, or it blocks blockedId
+const dependencySchema = z.object({
+  blockerId: z.string().min(1).optional(),
+  blockedId: z.string().min(1).optional(),
+}).refine(data => !!data.blockerId !== !!data.blockedId, {
+  message: 'Provide either blockerId or blockedId',
+  path: ['blockerId'],
+});
+
+async function getDependencies(id: string) {
+  return prisma.task.findUnique({
+    where: { id },
+    select: {
+      blockedBy: dependencySummary,
+      blocks: dependencySummary,
+    },
+  });
+}
+
+// GET /api/tasks/[id]/dependencies - List the tasks blocking and blocked by a task
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    if (!(await isOwnedBy('task', id, user.id))) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(await getDependencies(id));
+  } catch (error) {
+    console.error('Error fetching dependencies:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Failed to fetch dependencies' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tasks/[id]/dependencies - Add a dependency, rejecting ones that would create a cycle
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const validatedData = dependencySchema.parse(body);
+
+    const blockerId = validatedData.blockerId ?? id;
+    const blockedId = validatedData.blockedId ?? id;
+
+    if (!(await isOwnedBy('task', id, user.id))) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
+
+    // The other side of the dependency has to belong to the user as well
+    const foreignReference = await findForeignReference(user.id, { taskId: validatedData.blockerId ?? validatedData.blockedId });
+    if (foreignReference) {
+      return NextResponse.json(
+        { error: foreignReference },
+        { status: 404 }
+      );
+    }
+
+    const tasks = await prisma.task.findMany({
+      where: { userId: user.id, blocks: { some: {} } },
+      select: { id: true, blocks: { select: { id: true } } },
+    });
+    const edges = tasks.flatMap(task => task.blocks.map(blocked => ({ blockerId: task.id, blockedId: blocked.id })));
+
+    if (wouldCreateCycle(edges, blockerId, blockedId)) {
+      return NextResponse.json(
+        { error: 'This dependency would create a cycle' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.task.update({
+      where: { id: blockedId },
+      data: { blockedBy: { connect: { id: blockerId } } },
+    });
+
+    return NextResponse.json(await getDependencies(id), { status: 201 });
+  } catch (error) {
+    console.error('Error adding dependency:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to add dependency' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tasks/[id]/dependencies?blockerId=|blockedId= - Remove a dependency
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const validatedData = dependencySchema.parse(Object.fromEntries(request.nextUrl.searchParams.entries()));
+
+    if (!(await isOwnedBy('task', id, user.id))) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
+
+    // Disconnecting an unrelated or foreign task is a no-op
+    await prisma.task.update({
+      where: { id },
+      data: validatedData.blockerId
+        ? { blockedBy: { disconnect: { id: validatedData.blockerId } } }
+        : { blocks: { disconnect: { id: validatedData.blockedId } } },
+    });
+
+    return NextResponse.json(await getDependencies(id));
+  } catch (error) {
+    console.error('Error removing dependency:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to remove dependency' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { changeOccurrence, getSeriesExceptions } from '@/lib/db-utils';
+import { getOccurrencesBetween, isSeriesOccurrence, MAX_OCCURRENCE_RANGE_DAYS } from '@/lib/recurring-utils';
+import { z } from 'zod';
+
+const dateString = z.string().refine(val => !isNaN(Date.parse(val)), 'Invalid date');
+
+// GET /api/tasks/[id]/occurrences - List upcoming occurrences of a recurring task
+const getOccurrencesQuerySchema = z.object({
+  from: dateString.optional(),
+  to: dateString.optional(),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const query = getOccurrencesQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams.entries()));
+
+    const task = await prisma.task.findFirst({
+      where: { id, userId: user.id },
+    });
+
+    if (!task) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
+
+    const from = query.from ? new Date(query.from) : new Date(task.date ?? Date.now());
+    const to = query.to ? new Date(query.to) : new Date(from.getTime() + 90 * 24 * 60 * 60 * 1000);
+    const days = (to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000);
+    if (days < 0 || days > MAX_OCCURRENCE_RANGE_DAYS) {
+      return NextResponse.json(
+        { error: `Range must be between 0 and ${MAX_OCCURRENCE_RANGE_DAYS} days` },
+        { status: 400 }
+      );
+    }
+    const exceptions = task.seriesId ? await getSeriesExceptions(task.seriesId) : [];
+
+    const occurrences = getOccurrencesBetween(task, from, to, exceptions).map(occurrence => ({
+      date: occurrence.date,
+      originalDate: occurrence.originalDate,
+      isMoved: !!occurrence.exception?.newDate,
+      overrides: occurrence.exception?.overrides ? JSON.parse(occurrence.exception.overrides) : null,
+    }));
+
+    return NextResponse.json({
+      data: occurrences,
+      skipped: exceptions.filter(exception => exception.isSkipped).map(exception => exception.originalDate),
+    });
+  } catch (error) {
+    console.error('Error fetching occurrences:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch occurrences' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tasks/[id]/occurrences - Skip, reschedule, edit or restore one occurrence
+const occurrenceChangeSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('skip'),
+    originalDate: dateString.optional(),
+  }),
+  z.object({
+    action: z.literal('reschedule'),
+    originalDate: dateString.optional(),
+    newDate: dateString,
+  }),
+  z.object({
+    action: z.literal('edit'),
+    originalDate: dateString.optional(),
+    overrides: z.object({
+      name: z.string().min(1, 'Task name is required').optional(),
+      description: z.string().optional(),
+      priority: z.number().optional(),
+      estimates: z.number().optional(),
+    }),
+  }),
+  z.object({
+    action: z.literal('restore'),
+    originalDate: dateString.optional(),
+  }),
+]);
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const validatedData = occurrenceChangeSchema.parse(body);
+
+    const task = await prisma.task.findFirst({
+      where: { id, userId: user.id },
+    });
+
+    if (!task) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!task.isRecurring || !task.date) {
+      return NextResponse.json(
+        { error: 'Task is not recurring' },
+        { status: 400 }
+      );
+    }
+
+    // Defaults to the occurrence the task itself stands for
+    const originalDate = validatedData.originalDate
+      ? new Date(validatedData.originalDate)
+      : task.occurrenceDate ?? task.date;
+
+    if (!isSeriesOccurrence(task, originalDate)) {
+      return NextResponse.json(
+        { error: 'Date is not an upcoming occurrence of this task' },
+        { status: 400 }
+      );
+    }
+
+    const updatedTask = await changeOccurrence(task, originalDate, validatedData.action === 'reschedule'
+      ? { action: 'reschedule', newDate: new Date(validatedData.newDate) }
+      : validatedData);
+
+    if (!updatedTask) {
+      return NextResponse.json(
+        { error: 'This is the last occurrence and cannot be skipped' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.taskHistory.create({
+      data: {
+        taskId: task.id,
+        action: 'updated',
+        oldValue: JSON.stringify(task),
+        newValue: JSON.stringify({ occurrence: { ...validatedData, originalDate } }),
+        changedBy: user.id,
+      },
+    });
+
+    return NextResponse.json(updatedTask);
+  } catch (error) {
+    console.error('Error updating occurrence:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update occurrence' },
+      { status: 500 }
+    );
+  }
+}
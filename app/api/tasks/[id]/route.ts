@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { isRRuleString, isValidRRule } from '@/lib/rrule';
+import { isOwnedBy, findForeignReference } from '@/lib/ownership';
+import { createNextRecurringInstance, changeOccurrence, deleteTask, syncRelativeReminders } from '@/lib/db-utils';
+import { dependencySummary, getOpenBlockers } from '@/lib/dependency-utils';
+import { REMINDER_ANCHORS, ResolvedReminder, diffReminders, resolveReminder } from '@/lib/reminder-utils';
 import { z } from 'zod';
 
 // GET /api/tasks/[id] - Get single task
@@ -9,8 +15,13 @@ export async function GET(
 ) {
   const { id } = await params;
   try {
-    const task = await prisma.task.findUnique({
-      where: { id },
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const task = await prisma.task.findFirst({
+      where: { id, userId: user.id },
       include: {
         list: true,
         labels: true,
@@ -18,6 +29,8 @@ export async function GET(
         attachments: true,
         reminders: true,
         history: true,
+        blockedBy: dependencySummary,
+        blocks: dependencySummary,
       },
     });
 
@@ -40,12 +53,16 @@ export async function GET(
 
 // Recurring pattern schema for API validation (update)
 const apiUpdateRecurringPatternSchema = z.object({
-  type: z.enum(["daily", "weekly", "weekday", "monthly", "yearly", "custom"]).optional(),
+  type: z.enum(["daily", "weekly", "weekday", "monthly", "yearly", "custom", "rrule"]).optional(),
   interval: z.number().min(1).optional(),
   daysOfWeek: z.array(z.number().min(0).max(6)).optional(),
   dayOfMonth: z.number().min(1).max(31).optional(),
   month: z.number().min(1).max(12).optional(),
   endDate: z.string().optional(),
+  rrule: z.string().refine(isValidRRule, { message: "Invalid RRULE" }).optional(),
+}).refine(data => data.type !== "rrule" || !!data.rrule, {
+  message: "RRULE is required for rrule patterns",
+  path: ["rrule"],
 })
 
 // PUT /api/tasks/[id] - Update task
@@ -55,8 +72,8 @@ const updateTaskSchema = z.object({
   date: z.string().optional(),
   deadline: z.string().optional(),
   estimates: z.number().optional(),
-  actualTime: z.number().optional(),
   priority: z.number().optional(),
+  status: z.string().trim().min(1).max(50).nullable().optional(),
   isRecurring: z.boolean().optional(),
   recurringPattern: z.union([
     z.string(),
@@ -71,7 +88,18 @@ const updateTaskSchema = z.object({
     name: z.string().min(1),
     completedAt: z.string().optional(),
   })).optional(),
-  reminders: z.array(z.string()).optional(),
+  // Absolute ISO datetimes, or relative to the task's date or deadline
+  reminders: z.array(z.union([
+    z.string(),
+    z.object({
+      anchor: z.enum(REMINDER_ANCHORS),
+      offsetMinutes: z.number().int(),
+    }),
+  ])).optional(),
+  // For recurring tasks: change just this occurrence, this and following ones, or the whole series
+  scope: z.enum(['this', 'following', 'all']).optional(),
+  // Complete the task even if tasks blocking it are still open
+  force: z.boolean().optional(),
 }).refine(data => {
   if (data.isRecurring === true && !data.recurringPattern) {
     return false
@@ -88,6 +116,11 @@ export async function PUT(
 ) {
   const { id } = await params;
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     const validatedData = updateTaskSchema.parse(body);
 
@@ -95,16 +128,21 @@ export async function PUT(
     let parsedRecurringPattern = validatedData.recurringPattern
     if (validatedData.isRecurring === true || validatedData.recurringPattern) {
       if (typeof validatedData.recurringPattern === "string") {
-        try {
-          parsedRecurringPattern = JSON.parse(validatedData.recurringPattern)
-        } catch (e) {
-          // If JSON parsing fails, treat as legacy string format or default to custom
-          const allowedTypes = ["daily", "weekly", "weekday", "monthly", "yearly", "custom"]
-          const isAllowedType = allowedTypes.includes(validatedData.recurringPattern.toLowerCase())
+        if (isRRuleString(validatedData.recurringPattern)) {
+          // Standard iCalendar RRULE, e.g. "FREQ=MONTHLY;BYDAY=-1FR"
+          parsedRecurringPattern = { type: "rrule", interval: 1, rrule: validatedData.recurringPattern }
+        } else {
+          try {
+            parsedRecurringPattern = JSON.parse(validatedData.recurringPattern)
+          } catch (e) {
+            // If JSON parsing fails, treat as legacy string format or default to custom
+            const allowedTypes = ["daily", "weekly", "weekday", "monthly", "yearly", "custom"]
+            const isAllowedType = allowedTypes.includes(validatedData.recurringPattern.toLowerCase())
           
-          parsedRecurringPattern = {
-            type: isAllowedType ? (validatedData.recurringPattern.toLowerCase() as "daily" | "weekly" | "weekday" | "monthly" | "yearly" | "custom") : "custom",
-            interval: 1,
+            parsedRecurringPattern = {
+              type: isAllowedType ? (validatedData.recurringPattern.toLowerCase() as "daily" | "weekly" | "weekday" | "monthly" | "yearly" | "custom") : "custom",
+              interval: 1,
+            }
           }
         }
       }
@@ -116,13 +154,14 @@ export async function PUT(
     }
 
     // Get old task data for comparison
-    const oldTask = await prisma.task.findUnique({
-      where: { id },
+    const oldTask = await prisma.task.findFirst({
+      where: { id, userId: user.id },
       include: {
         labels: true,
         subtasks: true,
         reminders: true,
         attachments: true,
+        blockedBy: dependencySummary,
       },
     });
 
@@ -133,7 +172,124 @@ export async function PUT(
       );
     }
 
-    const { labels, subtasks, recurringPattern, listId, reminders, ...taskData } = validatedData;
+    const openBlockers = getOpenBlockers(oldTask.blockedBy);
+    if (validatedData.completedAt && !oldTask.completedAt && openBlockers.length > 0 && !validatedData.force) {
+      return NextResponse.json(
+        {
+          error: 'Validation error',
+          details: [{
+            path: ['completedAt'],
+            message: `Task is blocked by ${openBlockers.length} open task${openBlockers.length !== 1 ? 's' : ''}`,
+          }],
+          blockers: openBlockers,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { labels, subtasks, recurringPattern, listId, reminders, scope, force, ...changes } = validatedData;
+    let taskData: Omit<typeof changes, 'isRecurring'> & { isRecurring?: boolean } = changes;
+    let seriesData: { occurrenceDate?: null; seriesId?: string } = {};
+
+    // Reject references to lists or labels owned by someone else
+    const foreignReference = await findForeignReference(user.id, { listId, labelIds: labels });
+    if (foreignReference) {
+      return NextResponse.json(
+        { error: foreignReference },
+        { status: 404 }
+      );
+    }
+
+    // Dates the task will have after this update, for relative reminders. A
+    // new date for one occurrence is recorded on the series, not on the task.
+    const occurrenceOnly = oldTask.isRecurring && !!oldTask.date && scope === 'this';
+    const nextDates = {
+      id,
+      date: taskData.date && !occurrenceOnly ? new Date(taskData.date) : oldTask.date,
+      deadline: taskData.deadline ? new Date(taskData.deadline) : oldTask.deadline,
+    };
+
+    // Checked before anything is written, so a rejected update changes nothing
+    const resolvedReminders = reminders?.map(reminder => resolveReminder(reminder, nextDates));
+    if (resolvedReminders?.includes(null)) {
+      return NextResponse.json(
+        { error: 'Validation error', details: [{ path: ['reminders'], message: 'Relative reminders need the task date or deadline they refer to' }] },
+        { status: 400 }
+      );
+    }
+
+    if (oldTask.isRecurring && oldTask.date) {
+      const originalDate = oldTask.occurrenceDate ?? oldTask.date;
+
+      if (occurrenceOnly) {
+        // Record the changes as an exception for this occurrence only and leave the series alone
+        const { name, description, priority, estimates, date, isRecurring, ...rest } = taskData;
+        const overrides = Object.fromEntries(
+          Object.entries({ name, description, priority, estimates })
+            .filter(([field, value]) => value !== undefined && value !== oldTask[field as keyof typeof oldTask])
+        );
+
+        if (Object.keys(overrides).length > 0) {
+          await changeOccurrence(oldTask, originalDate, { action: 'edit', overrides });
+        }
+        if (date && new Date(date).getTime() !== oldTask.date.getTime()) {
+          await changeOccurrence(oldTask, originalDate, { action: 'reschedule', newDate: new Date(date) });
+        }
+
+        taskData = rest;
+        parsedRecurringPattern = undefined;
+      } else if (taskData.date || parsedRecurringPattern !== undefined) {
+        // A new date or pattern restarts the recurrence from this task. Unless the
+        // whole series is edited, earlier tasks are left in a series of their own.
+        seriesData = {
+          occurrenceDate: null,
+          ...(scope !== 'all' && oldTask.seriesId && oldTask.seriesId !== id ? { seriesId: id } : {}),
+        };
+      }
+
+      if (scope === 'all' && oldTask.seriesId) {
+        const { name, description, priority, estimates } = taskData;
+        await prisma.task.updateMany({
+          where: { seriesId: oldTask.seriesId, id: { not: id } },
+          data: {
+            ...Object.fromEntries(Object.entries({ name, description, priority, estimates }).filter(([, value]) => value !== undefined)),
+            ...(listId ? { listId } : {}),
+            ...(parsedRecurringPattern !== undefined ? { recurringPattern: JSON.stringify(parsedRecurringPattern) } : {}),
+          },
+        });
+      }
+    }
+
+    // Handle reminders if provided
+    if (resolvedReminders !== undefined) {
+      // Unchanged reminders are kept so they aren't sent again
+      const existingReminders = await prisma.reminder.findMany({
+        where: { taskId: id },
+      });
+      const { create, remove } = diffReminders(existingReminders, resolvedReminders as ResolvedReminder[]);
+
+      if (remove.length > 0) {
+        await prisma.reminder.deleteMany({
+          where: { id: { in: remove.map(reminder => reminder.id) } },
+        });
+      }
+      if (create.length > 0) {
+        await prisma.reminder.createMany({
+          data: create.map(reminder => ({
+            ...reminder,
+            taskId: id,
+          })),
+        });
+      }
+    }
+
+    if (
+      nextDates.date?.getTime() !== oldTask.date?.getTime() ||
+      nextDates.deadline?.getTime() !== oldTask.deadline?.getTime()
+    ) {
+      // Relative reminders move along with the task
+      await syncRelativeReminders(nextDates);
+    }
 
     // If subtasks are provided, update them
     if (subtasks) {
@@ -162,9 +318,10 @@ export async function PUT(
         });
       }
 
-      // Update existing subtasks and create new ones
+      // Update existing subtasks and create new ones. IDs that aren't subtasks of
+      // this task (e.g. temporary client-side IDs) are treated as new subtasks.
       const subtaskOperations = subtasks.map((subtask: any) => {
-        if (subtask.id) {
+        if (subtask.id && existingSubtaskIds.includes(subtask.id)) {
           // Update existing subtask
           return prisma.task.update({
             where: { id: subtask.id },
@@ -190,31 +347,17 @@ export async function PUT(
       await Promise.all(subtaskOperations);
     }
 
-    // Handle reminders if provided
-    if (validatedData.reminders !== undefined) {
-      // Delete existing reminders
-      await prisma.reminder.deleteMany({
-        where: { taskId: id },
-      });
-      
-      // Create new reminders if provided
-      if (validatedData.reminders && validatedData.reminders.length > 0) {
-        await prisma.reminder.createMany({
-          data: validatedData.reminders.map((datetime: string) => ({
-            datetime: new Date(datetime),
-            taskId: id,
-          })),
-        });
-      }
-    }
-
     const task = await prisma.task.update({
       where: { id },
       data: {
         ...taskData,
+        ...seriesData,
+        ...(listId ? { listId } : {}),
         ...(parsedRecurringPattern !== undefined ? { recurringPattern: JSON.stringify(parsedRecurringPattern) } : {}),
         ...(taskData.date ? { date: new Date(taskData.date) } : {}),
         ...(taskData.deadline ? { deadline: new Date(taskData.deadline) } : {}),
+        // A moved deadline can send its overdue email again
+        ...(taskData.deadline !== undefined ? { overdueNotifiedAt: null } : {}),
         ...(taskData.completedAt ? { completedAt: new Date(taskData.completedAt) } : {}),
         labels: labels ? {
           set: labels.map((labelId: string) => ({ id: labelId })),
@@ -236,10 +379,15 @@ export async function PUT(
         action: 'updated',
         oldValue: JSON.stringify(oldTask),
         newValue: JSON.stringify(task),
-        changedBy: task.userId,
+        changedBy: user.id,
       },
     });
 
+    // Completing a recurring task rolls the series forward to its next occurrence
+    const nextInstance = task.completedAt && !oldTask.completedAt && task.isRecurring && !task.parentId
+      ? await createNextRecurringInstance(task.id, task.completedAt)
+      : null;
+
     // Include history in response
     const taskWithHistory = await prisma.task.findUnique({
       where: { id: task.id },
@@ -250,10 +398,12 @@ export async function PUT(
         attachments: true,
         reminders: true,
         history: true,
+        blockedBy: dependencySummary,
+        blocks: dependencySummary,
       },
     });
 
-    return NextResponse.json(taskWithHistory);
+    return NextResponse.json({ ...taskWithHistory, nextInstance });
   } catch (error) {
     console.error('Error updating task:', error instanceof Error ? error.message : 'Unknown error');
     
@@ -287,9 +437,20 @@ export async function DELETE(
 ) {
   const { id } = await params;
   try {
-    await prisma.task.delete({
-      where: { id },
-    });
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    if (!(await isOwnedBy('task', id, user.id))) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
+
+    // Also removes the task's attachments and their stored files
+    await deleteTask(id);
 
     return NextResponse.json({ message: 'Task deleted successfully' });
   } catch (error) {
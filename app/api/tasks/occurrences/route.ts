@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { getOccurrencesBetween, MAX_OCCURRENCE_RANGE_DAYS } from '@/lib/recurring-utils';
+import { z } from 'zod';
+
+// GET /api/tasks/occurrences - Future occurrences of open recurring tasks in a date range
+const getOccurrencesQuerySchema = z.object({
+  from: z.string().refine(val => !isNaN(Date.parse(val)), 'Invalid date'),
+  to: z.string().refine(val => !isNaN(Date.parse(val)), 'Invalid date'),
+}).refine(data => {
+  const days = (Date.parse(data.to) - Date.parse(data.from)) / (24 * 60 * 60 * 1000);
+  return days >= 0 && days <= MAX_OCCURRENCE_RANGE_DAYS;
+}, {
+  message: `Range must be between 0 and ${MAX_OCCURRENCE_RANGE_DAYS} days`,
+  path: ['to'],
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const query = getOccurrencesQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams.entries()));
+    const from = new Date(query.from);
+    const to = new Date(query.to);
+
+    // Only the open instance of each series stands for its upcoming occurrences
+    const tasks = await prisma.task.findMany({
+      where: {
+        userId: user.id,
+        isRecurring: true,
+        completedAt: null,
+        parentId: null,
+        date: { not: null, lte: to },
+      },
+    });
+
+    const seriesIds = tasks.map(task => task.seriesId).filter((seriesId): seriesId is string => !!seriesId);
+    const exceptions = seriesIds.length > 0
+      ? await prisma.recurrenceException.findMany({ where: { seriesId: { in: seriesIds } } })
+      : [];
+
+    const occurrences = tasks.flatMap(task => {
+      const seriesStart = task.occurrenceDate ?? task.date;
+      const seriesExceptions = exceptions.filter(exception => exception.seriesId === task.seriesId);
+
+      return getOccurrencesBetween(task, from, to, seriesExceptions)
+        // The task itself is already on the calendar
+        .filter(occurrence => occurrence.originalDate.getTime() !== seriesStart?.getTime())
+        .map(occurrence => {
+          const overrides = occurrence.exception?.overrides ? JSON.parse(occurrence.exception.overrides) : {};
+          return {
+            taskId: task.id,
+            date: occurrence.date,
+            originalDate: occurrence.originalDate,
+            name: overrides.name ?? task.name,
+            priority: overrides.priority ?? task.priority,
+            isMoved: !!occurrence.exception?.newDate,
+          };
+        });
+    });
+
+    return NextResponse.json({ data: occurrences });
+  } catch (error) {
+    console.error('Error fetching occurrences:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch occurrences' },
+      { status: 500 }
+    );
+  }
+}
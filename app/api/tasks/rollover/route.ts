@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { rollOverTasks } from '@/lib/db-utils';
+
+// POST /api/tasks/rollover - Move yesterday's unfinished tasks to today
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const taskIds = await rollOverTasks(user);
+    return NextResponse.json({ taskIds, count: taskIds.length });
+  } catch (error) {
+    console.error('Error rolling over tasks:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Failed to roll over tasks' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { getQueryContext } from '@/lib/db-utils';
+import { isRRuleString } from '@/lib/rrule';
+import { findForeignReference } from '@/lib/ownership';
+import { dependencySummary } from '@/lib/dependency-utils';
+import { resolveReminder } from '@/lib/reminder-utils';
+import { apiRecurringPatternSchema, createTaskSchema } from '@/lib/task-schemas';
+import { compileQuery, textConditions } from '@/lib/task-query';
 import { z } from 'zod';
 
-// GET /api/tasks - Get all tasks with filters and pagination
+// GET /api/tasks - Get all tasks with filters and pagination. "q" takes the
+// search box query language, e.g. "label:Urgent is:open report".
 const getTasksQuerySchema = z.object({
   page: z.string().optional().transform(val => val ? parseInt(val) : 1),
   limit: z.string().optional().transform(val => val ? parseInt(val) : 10),
@@ -10,19 +19,25 @@ const getTasksQuerySchema = z.object({
   completed: z.string().optional().transform(val => val ? val === 'true' : undefined),
   priority: z.string().optional().transform(val => val ? parseInt(val) : undefined),
   search: z.string().optional(),
+  q: z.string().optional(),
   date: z.string().optional(),
 });
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const query = getTasksQuerySchema.parse(Object.fromEntries(searchParams.entries()));
 
-    const { page, limit, listId, completed, priority, search, date } = query;
+    const { page, limit, listId, completed, priority, search, q, date } = query;
     const skip = (page - 1) * limit;
 
-    // Build where clause
-    const where: any = {};
+    // Build where clause, always scoped to the signed-in user
+    const where: any = { userId: user.id };
     if (listId) where.listId = listId;
     if (completed !== undefined) {
       if (completed) {
@@ -48,10 +63,18 @@ export async function GET(request: NextRequest) {
         lt: nextDay,
       };
     }
+    if (q) {
+      const compiled = compileQuery(q, await getQueryContext(user));
+      if (compiled.errors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid query', details: compiled.errors },
+          { status: 400 }
+        );
+      }
+
+      where.AND = [...compiled.conditions, ...textConditions(compiled.text)];
+    }
 
-    // Add default user filter (TODO: Replace with actual user authentication)
-    where.userId = 'cmki1ekso0000i4ezi4fhaecm';
-    
     const [tasks, total] = await Promise.all([
       prisma.task.findMany({
         where,
@@ -64,6 +87,8 @@ export async function GET(request: NextRequest) {
           attachments: true,
           reminders: true,
           history: true,
+          blockedBy: dependencySummary,
+          blocks: dependencySummary,
         },
         orderBy: { createdAt: 'desc' },
       }),
@@ -88,49 +113,14 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// Recurring pattern schema for API validation
-const apiRecurringPatternSchema = z.object({
-  type: z.enum(["daily", "weekly", "weekday", "monthly", "yearly", "custom"]),
-  interval: z.number().min(1).default(1),
-  daysOfWeek: z.array(z.number().min(0).max(6)).optional(),
-  dayOfMonth: z.number().min(1).max(31).optional(),
-  month: z.number().min(1).max(12).optional(),
-  endDate: z.string().optional(),
-})
-
 // POST /api/tasks - Create new task
-const createTaskSchema = z.object({
-  name: z.string().min(1, 'Task name is required'),
-  description: z.string().optional(),
-  date: z.string().optional(),
-  deadline: z.string().optional(),
-  estimates: z.number().optional(),
-  actualTime: z.number().optional(),
-  priority: z.number().default(0),
-  isRecurring: z.boolean().default(false),
-  recurringPattern: z.union([
-    z.string(),
-    apiRecurringPatternSchema,
-  ]).optional(),
-  listId: z.string().min(1, 'List ID is required'),
-  userId: z.string().min(1, 'User ID is required'),
-  labels: z.array(z.string()).optional(),
-  subtasks: z.array(z.object({
-    name: z.string().min(1),
-  })).optional(),
-  reminders: z.array(z.string()).optional(),
-}).refine(data => {
-  if (data.isRecurring && !data.recurringPattern) {
-    return false
-  }
-  return true
-}, {
-  message: "Recurring pattern is required for recurring tasks",
-  path: ["recurringPattern"],
-})
-
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     const validatedData = createTaskSchema.parse(body);
 
@@ -138,16 +128,21 @@ export async function POST(request: NextRequest) {
     let parsedRecurringPattern = validatedData.recurringPattern
     if (validatedData.isRecurring) {
       if (typeof validatedData.recurringPattern === "string") {
-        try {
-          parsedRecurringPattern = JSON.parse(validatedData.recurringPattern)
-        } catch (e) {
-          // If JSON parsing fails, treat as legacy string format
-          const allowedTypes = ["daily", "weekly", "weekday", "monthly", "yearly", "custom"]
-          const isAllowedType = allowedTypes.includes(validatedData.recurringPattern.toLowerCase())
+        if (isRRuleString(validatedData.recurringPattern)) {
+          // Standard iCalendar RRULE, e.g. "FREQ=MONTHLY;BYDAY=-1FR"
+          parsedRecurringPattern = { type: "rrule", interval: 1, rrule: validatedData.recurringPattern }
+        } else {
+          try {
+            parsedRecurringPattern = JSON.parse(validatedData.recurringPattern)
+          } catch (e) {
+            // If JSON parsing fails, treat as legacy string format
+            const allowedTypes = ["daily", "weekly", "weekday", "monthly", "yearly", "custom"]
+            const isAllowedType = allowedTypes.includes(validatedData.recurringPattern.toLowerCase())
           
-          parsedRecurringPattern = {
-            type: isAllowedType ? (validatedData.recurringPattern.toLowerCase() as "daily" | "weekly" | "weekday" | "monthly" | "yearly" | "custom") : "custom",
-            interval: 1,
+            parsedRecurringPattern = {
+              type: isAllowedType ? (validatedData.recurringPattern.toLowerCase() as "daily" | "weekly" | "weekday" | "monthly" | "yearly" | "custom") : "custom",
+              interval: 1,
+            }
           }
         }
       }
@@ -158,9 +153,33 @@ export async function POST(request: NextRequest) {
 
     const { labels, subtasks, reminders, recurringPattern, ...taskData } = validatedData;
 
+    // Reject references to lists or labels owned by someone else
+    const foreignReference = await findForeignReference(user.id, {
+      listId: taskData.listId,
+      labelIds: labels,
+    });
+    if (foreignReference) {
+      return NextResponse.json(
+        { error: foreignReference },
+        { status: 404 }
+      );
+    }
+
+    const resolvedReminders = reminders?.map(reminder => resolveReminder(reminder, {
+      date: taskData.date ? new Date(taskData.date) : null,
+      deadline: taskData.deadline ? new Date(taskData.deadline) : null,
+    }));
+    if (resolvedReminders?.includes(null)) {
+      return NextResponse.json(
+        { error: 'Validation error', details: [{ path: ['reminders'], message: 'Relative reminders need the task date or deadline they refer to' }] },
+        { status: 400 }
+      );
+    }
+
     const task = await prisma.task.create({
       data: {
         ...taskData,
+        userId: user.id,
         recurringPattern: JSON.stringify(parsedRecurringPattern),
         ...(taskData.date ? { date: new Date(taskData.date) } : {}),
         ...(taskData.deadline ? { deadline: new Date(taskData.deadline) } : {}),
@@ -170,14 +189,12 @@ export async function POST(request: NextRequest) {
         subtasks: subtasks ? {
           create: subtasks.map((subtask: any) => ({
             name: subtask.name,
-            userId: taskData.userId,
+            userId: user.id,
             listId: taskData.listId,
           })),
         } : undefined,
-        reminders: reminders ? {
-          create: reminders.map((datetime: string) => ({
-            datetime: new Date(datetime),
-          })),
+        reminders: resolvedReminders ? {
+          create: resolvedReminders.filter(reminder => reminder !== null),
         } : undefined,
       },
       include: {
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { deleteTimeEntry, timeEntryInclude, updateTimeEntry } from '@/lib/db-utils';
+import { z } from 'zod';
+
+const dateString = z.string().refine(val => !isNaN(Date.parse(val)), 'Invalid date');
+
+// GET /api/time-entries/[id] - Get single time entry
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const entry = await prisma.timeEntry.findFirst({
+      where: { id, userId: user.id },
+      include: timeEntryInclude,
+    });
+
+    if (!entry) {
+      return NextResponse.json(
+        { error: 'Time entry not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(entry);
+  } catch (error) {
+    console.error('Error fetching time entry:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Failed to fetch time entry' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/time-entries/[id] - Stop a running timer or edit an entry
+const updateTimeEntrySchema = z.object({
+  stop: z.boolean().optional(),
+  startedAt: dateString.optional(),
+  endedAt: dateString.optional(),
+  note: z.string().max(500).nullable().optional(),
+});
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const validatedData = updateTimeEntrySchema.parse(body);
+
+    const entry = await prisma.timeEntry.findFirst({
+      where: { id, userId: user.id },
+    });
+
+    if (!entry) {
+      return NextResponse.json(
+        { error: 'Time entry not found' },
+        { status: 404 }
+      );
+    }
+
+    if (validatedData.stop && entry.endedAt) {
+      return NextResponse.json(
+        { error: 'Timer is not running' },
+        { status: 400 }
+      );
+    }
+
+    const startedAt = validatedData.startedAt ? new Date(validatedData.startedAt) : entry.startedAt;
+    const endedAt = validatedData.stop
+      ? new Date()
+      : validatedData.endedAt ? new Date(validatedData.endedAt) : entry.endedAt;
+
+    if (endedAt && endedAt < startedAt) {
+      return NextResponse.json(
+        { error: 'endedAt must be after startedAt' },
+        { status: 400 }
+      );
+    }
+
+    const updatedEntry = await updateTimeEntry(entry, {
+      startedAt,
+      endedAt: endedAt ?? undefined,
+      note: validatedData.note,
+    });
+
+    return NextResponse.json(updatedEntry);
+  } catch (error) {
+    console.error('Error updating time entry:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update time entry' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/time-entries/[id] - Delete time entry
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const entry = await prisma.timeEntry.findFirst({
+      where: { id, userId: user.id },
+    });
+
+    if (!entry) {
+      return NextResponse.json(
+        { error: 'Time entry not found' },
+        { status: 404 }
+      );
+    }
+
+    const task = await deleteTimeEntry(entry);
+
+    return NextResponse.json({ message: 'Time entry deleted successfully', actualTime: task.actualTime });
+  } catch (error) {
+    console.error('Error deleting time entry:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Failed to delete time entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { findForeignReference } from '@/lib/ownership';
+import { createTimeEntry, startTimer, timeEntryInclude } from '@/lib/db-utils';
+import { z } from 'zod';
+
+const dateString = z.string().refine(val => !isNaN(Date.parse(val)), 'Invalid date');
+
+// GET /api/time-entries - List time entries, optionally for one task or just the running timer
+const getTimeEntriesQuerySchema = z.object({
+  taskId: z.string().optional(),
+  running: z.enum(['true', 'false']).optional().transform(val => val === undefined ? undefined : val === 'true'),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const query = getTimeEntriesQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams.entries()));
+
+    const where: any = { userId: user.id };
+    if (query.taskId) where.taskId = query.taskId;
+    if (query.running !== undefined) where.endedAt = query.running ? null : { not: null };
+
+    const entries = await prisma.timeEntry.findMany({
+      where,
+      include: timeEntryInclude,
+      orderBy: { startedAt: 'desc' },
+    });
+
+    return NextResponse.json({ data: entries });
+  } catch (error) {
+    console.error('Error fetching time entries:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch time entries' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/time-entries - Start a timer, or record a finished entry when endedAt is given
+const createTimeEntrySchema = z.object({
+  taskId: z.string().min(1, 'Task ID is required'),
+  startedAt: dateString.optional(),
+  endedAt: dateString.optional(),
+  note: z.string().max(500).optional(),
+}).refine(data => !data.endedAt || !!data.startedAt, {
+  message: 'startedAt is required for finished entries',
+  path: ['startedAt'],
+}).refine(data => !data.startedAt || !data.endedAt || Date.parse(data.startedAt) <= Date.parse(data.endedAt), {
+  message: 'endedAt must be after startedAt',
+  path: ['endedAt'],
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const validatedData = createTimeEntrySchema.parse(body);
+
+    const foreignReference = await findForeignReference(user.id, { taskId: validatedData.taskId });
+    if (foreignReference) {
+      return NextResponse.json(
+        { error: foreignReference },
+        { status: 404 }
+      );
+    }
+
+    if (validatedData.startedAt && validatedData.endedAt) {
+      const entry = await createTimeEntry({
+        taskId: validatedData.taskId,
+        userId: user.id,
+        startedAt: new Date(validatedData.startedAt),
+        endedAt: new Date(validatedData.endedAt),
+        note: validatedData.note,
+      });
+
+      return NextResponse.json(entry, { status: 201 });
+    }
+
+    const { entry, stopped } = await startTimer(user.id, validatedData.taskId, validatedData.note);
+
+    return NextResponse.json({ ...entry, stopped }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating time entry:', error instanceof Error ? error.message : 'Unknown error');
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create time entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,5 @@
+import { Planner } from "@/components/planner"
+
+export default function CalendarPage() {
+  return <Planner initialView="calendar" />
+}
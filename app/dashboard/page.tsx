@@ -0,0 +1,11 @@
+import { Navbar } from "@/components/navbar"
+import { MainContent } from "@/components/main-content"
+
+export default function DashboardPage() {
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+      <MainContent />
+    </div>
+  )
+}
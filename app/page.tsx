@@ -1,43 +1,5 @@
-"use client"
-
-import { useState } from "react"
-import { Navbar } from "@/components/navbar"
-import { Sidebar } from "@/components/sidebar"
-import { TaskManagement } from "@/components/task-management"
-
-type ViewType = "today" | "next7days" | "upcoming" | "all"
+import { Planner } from "@/components/planner"
 
 export default function Home() {
-  const [activeView, setActiveView] = useState<ViewType>("today")
-  const [activeListId, setActiveListId] = useState<string | null>(null)
-  const [activeLabelId, setActiveLabelId] = useState<string | null>(null)
-  const [isCreateFormOpen, setIsCreateFormOpen] = useState(false)
-
-  const handleAddTask = () => {
-    setIsCreateFormOpen(true)
-  }
-
-  return (
-    <div className="min-h-screen flex">
-      <Sidebar
-        activeView={activeView}
-        activeListId={activeListId}
-        activeLabelId={activeLabelId}
-        onViewChange={setActiveView}
-        onListChange={setActiveListId}
-        onLabelChange={setActiveLabelId}
-        onAddTask={handleAddTask}
-      />
-      <main className="flex-1 flex flex-col md:ml-64">
-        <Navbar />
-        <TaskManagement 
-          activeView={activeView}
-          activeListId={activeListId}
-          activeLabelId={activeLabelId}
-          isCreateFormOpen={isCreateFormOpen}
-          setIsCreateFormOpen={setIsCreateFormOpen}
-        />
-      </main>
-    </div>
-  )
-}
\ No newline at end of file
+  return <Planner />
+}
@@ -1,9 +1,13 @@
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
 import prisma from '@/lib/prisma';
 import { createUser } from '@/lib/db-utils';
+import { getPreviewKey, getStorage } from '@/lib/storage';
+import { FAILED_PREVIEW_RETRY_MS, getPreview } from '@/lib/previews';
+import { createAuthHeaders } from './helpers';
 
 const API_BASE_URL = 'http://localhost:32754/api';
 let DEFAULT_USER_ID: string;
+let authHeaders: Record<string, string>;
 
 describe('Attachments API', () => {
   let testListId: string;
@@ -18,6 +22,7 @@ describe('Attachments API', () => {
       name: 'Test Attachments User',
     });
     DEFAULT_USER_ID = testUser.id;
+    authHeaders = await createAuthHeaders(DEFAULT_USER_ID);
 
     // Create a test list
     const testList = await prisma.list.create({
@@ -87,6 +92,7 @@ describe('Attachments API', () => {
       const response = await fetch(`${API_BASE_URL}/attachments`, {
         method: 'POST',
         headers: {
+          ...authHeaders,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(newAttachment),
@@ -110,6 +116,25 @@ describe('Attachments API', () => {
       });
     });
 
+    it('should reject links that aren\'t web addresses', async () => {
+      const response = await fetch(`${API_BASE_URL}/attachments`, {
+        method: 'POST',
+        headers: {
+          ...authHeaders,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: 'spec.pdf',
+          url: 'javascript:alert(1)',
+          type: 'application/pdf',
+          size: 1024,
+          taskId: testTaskId,
+        }),
+      });
+
+      expect(response.status).toBe(400);
+    });
+
     it('should return 400 error with invalid data', async () => {
       const invalidAttachment = {
         // Missing required fields
@@ -122,6 +147,7 @@ describe('Attachments API', () => {
       const response = await fetch(`${API_BASE_URL}/attachments`, {
         method: 'POST',
         headers: {
+          ...authHeaders,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(invalidAttachment),
@@ -137,10 +163,190 @@ describe('Attachments API', () => {
     });
   });
 
+  describe('POST /api/attachments (multipart upload)', () => {
+    const uploadFile = (file: File, taskId = testTaskId) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('taskId', taskId);
+
+      return fetch(`${API_BASE_URL}/attachments`, {
+        method: 'POST',
+        headers: authHeaders,
+        body: formData,
+      });
+    };
+
+    it('should store an uploaded file and serve it from the download route', async () => {
+      const response = await uploadFile(new File(['hello attachment'], 'notes.txt', { type: 'text/plain' }));
+
+      expect(response.status).toBe(201);
+
+      const attachment = await response.json();
+      expect(attachment).toEqual(expect.objectContaining({
+        name: 'notes.txt',
+        type: 'text/plain',
+        size: 16,
+        taskId: testTaskId,
+        storageKey: expect.any(String),
+        url: `/api/attachments/${attachment.id}/download`,
+      }));
+
+      const downloadResponse = await fetch(`${API_BASE_URL}/attachments/${attachment.id}/download`, {
+        headers: authHeaders,
+      });
+      expect(downloadResponse.status).toBe(200);
+      expect(downloadResponse.headers.get('content-type')).toBe('text/plain');
+      expect(downloadResponse.headers.get('content-disposition')).toContain('attachment');
+      expect(await downloadResponse.text()).toBe('hello attachment');
+
+      // Deleting the attachment removes the stored file too
+      await fetch(`${API_BASE_URL}/attachments/${attachment.id}`, {
+        method: 'DELETE',
+        headers: authHeaders,
+      });
+      const afterDelete = await fetch(`${API_BASE_URL}/attachments/${attachment.id}/download`, {
+        headers: authHeaders,
+      });
+      expect(afterDelete.status).toBe(404);
+    });
+
+    it('should reject file types outside the allow-list', async () => {
+      const response = await uploadFile(new File(['<script></script>'], 'page.html', { type: 'text/html' }));
+
+      expect(response.status).toBe(400);
+
+      const data = await response.json();
+      expect(data.error).toBe('Validation error');
+      expect(data.details[0].message).toBe('File type is not allowed');
+    });
+
+    it('should return 404 when uploading to another user\'s task', async () => {
+      const response = await uploadFile(new File(['data'], 'notes.txt', { type: 'text/plain' }), 'non-existent-task');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should delete stored files when their task is deleted', async () => {
+      const uploadResponse = await uploadFile(new File(['task file'], 'task.txt', { type: 'text/plain' }));
+      const attachment = await uploadResponse.json();
+
+      const response = await fetch(`${API_BASE_URL}/tasks/${testTaskId}`, {
+        method: 'DELETE',
+        headers: authHeaders,
+      });
+      expect(response.status).toBe(200);
+
+      const remaining = await prisma.attachment.findMany({ where: { taskId: testTaskId } });
+      expect(remaining).toHaveLength(0);
+
+      const downloadResponse = await fetch(`${API_BASE_URL}/attachments/${attachment.id}/download`, {
+        headers: authHeaders,
+      });
+      expect(downloadResponse.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/attachments/[id]/preview', () => {
+    const upload = async (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('taskId', testTaskId);
+
+      const response = await fetch(`${API_BASE_URL}/attachments`, {
+        method: 'POST',
+        headers: authHeaders,
+        body: formData,
+      });
+      return response.json();
+    };
+
+    it('should return a text snippet for plain-text files', async () => {
+      const attachment = await upload(new File(['# Notes\nSome details'], 'notes.md', { type: 'text/markdown' }));
+
+      const response = await fetch(`${API_BASE_URL}/attachments/${attachment.id}/preview`, {
+        headers: authHeaders,
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain('text/plain');
+      expect(await response.text()).toBe('# Notes\nSome details');
+    });
+
+    it('should return a webp thumbnail for images', async () => {
+      // 1x1 transparent PNG
+      const png = Uint8Array.from(atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='), (char) => char.charCodeAt(0));
+      const attachment = await upload(new File([png], 'pixel.png', { type: 'image/png' }));
+
+      const response = await fetch(`${API_BASE_URL}/attachments/${attachment.id}/preview`, {
+        headers: authHeaders,
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('image/webp');
+    });
+
+    it('should retry files whose preview couldn\'t be made', async () => {
+      const attachment = await upload(new File(['not really a png'], 'broken.png', { type: 'image/png' }));
+      const { storageKey } = await prisma.attachment.findUniqueOrThrow({ where: { id: attachment.id } });
+      const now = new Date();
+
+      expect((await fetch(`${API_BASE_URL}/attachments/${attachment.id}/preview`, { headers: authHeaders })).status).toBe(404);
+      // Failures aren't stored with the previews
+      expect(await getStorage().get(getPreviewKey(storageKey!))).toBeNull();
+
+      expect(await getPreview(storageKey!, 'image/png', now)).toBeNull();
+
+      // 1x1 transparent PNG
+      const png = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==', 'base64');
+      await getStorage().put(storageKey!, png, 'image/png');
+
+      // Not tried again right away, but once the retry delay has passed
+      expect(await getPreview(storageKey!, 'image/png', now)).toBeNull();
+      const later = new Date(now.getTime() + FAILED_PREVIEW_RETRY_MS);
+      expect(await getPreview(storageKey!, 'image/png', later)).toEqual(expect.objectContaining({ contentType: 'image/webp' }));
+    });
+
+    it('should return 404 for files without a preview', async () => {
+      const response = await fetch(`${API_BASE_URL}/attachments/${testAttachmentId}/preview`, {
+        headers: authHeaders,
+      });
+
+      expect(response.status).toBe(404);
+
+      const data = await response.json();
+      expect(data.error).toBe('Preview not available');
+    });
+  });
+
+  describe('GET /api/attachments/[id]/download', () => {
+    it('should redirect to the URL of a linked attachment', async () => {
+      const response = await fetch(`${API_BASE_URL}/attachments/${testAttachmentId}/download`, {
+        headers: authHeaders,
+        redirect: 'manual',
+      });
+
+      expect(response.status).toBe(307);
+      expect(response.headers.get('location')).toBe('https://example.com/test-document.pdf');
+    });
+
+    it('should not redirect to links that aren\'t web addresses', async () => {
+      await prisma.attachment.update({ where: { id: testAttachmentId }, data: { url: 'javascript:alert(1)' } });
+
+      const response = await fetch(`${API_BASE_URL}/attachments/${testAttachmentId}/download`, {
+        headers: authHeaders,
+        redirect: 'manual',
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.headers.get('location')).toBeNull();
+    });
+  });
+
   describe('DELETE /api/attachments/[id]', () => {
     it('should delete an attachment by ID', async () => {
       const response = await fetch(`${API_BASE_URL}/attachments/${testAttachmentId}`, {
         method: 'DELETE',
+        headers: authHeaders,
       });
 
       expect(response.status).toBe(200);
@@ -161,6 +367,7 @@ describe('Attachments API', () => {
       const nonExistentId = 'non-existent-id';
       const response = await fetch(`${API_BASE_URL}/attachments/${nonExistentId}`, {
         method: 'DELETE',
+        headers: authHeaders,
       });
 
       expect(response.status).toBe(404);
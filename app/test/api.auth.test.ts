@@ -0,0 +1,108 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import prisma from '@/lib/prisma';
+
+const API_BASE_URL = 'http://localhost:32754/api';
+
+describe('Auth API', () => {
+  let testEmail: string;
+
+  const register = (body: Record<string, unknown>) =>
+    fetch(`${API_BASE_URL}/auth/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  const getSessionCookie = (response: Response) =>
+    (response.headers.get('set-cookie') || '').split(';')[0];
+
+  afterEach(async () => {
+    const user = await prisma.user.findUnique({ where: { email: testEmail } });
+    if (!user) return;
+
+    await prisma.label.deleteMany({ where: { userId: user.id } });
+    await prisma.list.deleteMany({ where: { userId: user.id } });
+    await prisma.user.delete({ where: { id: user.id } });
+  });
+
+  describe('POST /api/auth/register', () => {
+    it('should create a user, sign them in and never return the password hash', async () => {
+      testEmail = `test-auth-${Date.now()}@example.com`;
+      const response = await register({ email: testEmail, password: 'correct-horse', name: 'Auth User' });
+
+      expect(response.status).toBe(201);
+      expect(getSessionCookie(response)).toMatch(/^session=.+/);
+
+      const user = await response.json();
+      expect(user.email).toBe(testEmail);
+      expect(user.passwordHash).toBeUndefined();
+    });
+
+    it('should return 409 for an email that is already registered', async () => {
+      testEmail = `test-auth-${Date.now()}@example.com`;
+      await register({ email: testEmail, password: 'correct-horse' });
+
+      const response = await register({ email: testEmail, password: 'another-password' });
+      expect(response.status).toBe(409);
+    });
+
+    it('should return 400 for a short password', async () => {
+      testEmail = `test-auth-${Date.now()}@example.com`;
+      const response = await register({ email: testEmail, password: 'short' });
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/auth/login', () => {
+    it('should sign in with valid credentials and expose the session user', async () => {
+      testEmail = `test-auth-${Date.now()}@example.com`;
+      await register({ email: testEmail, password: 'correct-horse' });
+
+      const response = await fetch(`${API_BASE_URL}/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: testEmail, password: 'correct-horse' }),
+      });
+      expect(response.status).toBe(200);
+
+      const sessionResponse = await fetch(`${API_BASE_URL}/auth/session`, {
+        headers: { Cookie: getSessionCookie(response) },
+      });
+      expect(sessionResponse.status).toBe(200);
+
+      const user = await sessionResponse.json();
+      expect(user.email).toBe(testEmail);
+    });
+
+    it('should return 401 for a wrong password', async () => {
+      testEmail = `test-auth-${Date.now()}@example.com`;
+      await register({ email: testEmail, password: 'correct-horse' });
+
+      const response = await fetch(`${API_BASE_URL}/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: testEmail, password: 'wrong-password' }),
+      });
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('POST /api/auth/logout', () => {
+    it('should invalidate the session', async () => {
+      testEmail = `test-auth-${Date.now()}@example.com`;
+      const registerResponse = await register({ email: testEmail, password: 'correct-horse' });
+      const cookie = getSessionCookie(registerResponse);
+
+      const response = await fetch(`${API_BASE_URL}/auth/logout`, {
+        method: 'POST',
+        headers: { Cookie: cookie },
+      });
+      expect(response.status).toBe(200);
+
+      const sessionResponse = await fetch(`${API_BASE_URL}/auth/session`, {
+        headers: { Cookie: cookie },
+      });
+      expect(sessionResponse.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import prisma from '@/lib/prisma';
+import { createUser } from '@/lib/db-utils';
+import { exportAccount, restoreBackup } from '@/lib/backup';
+import { createAuthHeaders } from './helpers';
+
+const API_BASE_URL = 'http://localhost:32754/api';
+
+describe('Backup API', () => {
+  const userIds: string[] = [];
+  let userId: string;
+  let authHeaders: Record<string, string>;
+  let parentId: string;
+
+  const createTestUser = async (name: string) => {
+    const user = await createUser({
+      email: `test-backup-${name}-${Date.now()}@example.com`,
+      name: `Test Backup ${name}`,
+    });
+    userIds.push(user.id);
+    return { id: user.id, headers: await createAuthHeaders(user.id) };
+  };
+
+  beforeEach(async () => {
+    ({ id: userId, headers: authHeaders } = await createTestUser('owner'));
+
+    const list = await prisma.list.create({ data: { name: 'Work', isDefault: true, userId } });
+    const label = await prisma.label.create({ data: { name: 'urgent', color: 'red', userId } });
+
+    const parent = await prisma.task.create({
+      data: {
+        name: 'Quarterly report',
+        deadline: new Date('2026-03-05T17:00:00Z'),
+        priority: 3,
+        listId: list.id,
+        userId,
+        labels: { connect: [{ id: label.id }] },
+        reminders: {
+          create: [{ datetime: new Date('2026-03-05T16:45:00Z'), anchor: 'deadline', offsetMinutes: 15 }],
+        },
+        attachments: {
+          create: [{ name: 'spec.pdf', url: 'https://example.com/spec.pdf', type: 'application/pdf', size: 1024 }],
+        },
+        history: {
+          create: [{ action: 'created', changedBy: userId }],
+        },
+      },
+    });
+    parentId = parent.id;
+
+    const subtask = await prisma.task.create({
+      data: { name: 'Collect numbers', parentId, listId: list.id, userId },
+    });
+    await prisma.task.update({
+      where: { id: parentId },
+      data: { blockedBy: { connect: [{ id: subtask.id }] } },
+    });
+  });
+
+  afterEach(async () => {
+    for (const id of userIds.splice(0)) {
+      const tasks = await prisma.task.findMany({ where: { userId: id }, select: { id: true } });
+      const taskIds = tasks.map(task => task.id);
+      await prisma.taskHistory.deleteMany({ where: { taskId: { in: taskIds } } });
+      await prisma.attachment.deleteMany({ where: { taskId: { in: taskIds } } });
+      await prisma.reminder.deleteMany({ where: { taskId: { in: taskIds } } });
+      await prisma.task.updateMany({ where: { userId: id }, data: { parentId: null } });
+      await prisma.task.deleteMany({ where: { userId: id } });
+      await prisma.label.deleteMany({ where: { userId: id } });
+      await prisma.list.deleteMany({ where: { userId: id } });
+      await prisma.user.deleteMany({ where: { id } });
+    }
+  });
+
+  const exportBackup = async () => {
+    const response = await fetch(`${API_BASE_URL}/export`, { headers: authHeaders });
+    expect(response.status).toBe(200);
+    return response.json();
+  };
+
+  const restore = (backup: unknown, headers: Record<string, string>, strategy?: string) =>
+    fetch(`${API_BASE_URL}/import${strategy ? `?strategy=${strategy}` : ''}`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(backup),
+    });
+
+  describe('GET /api/export', () => {
+    it('should export lists, labels and tasks with their details', async () => {
+      const response = await fetch(`${API_BASE_URL}/export`, { headers: authHeaders });
+      expect(response.headers.get('content-disposition')).toMatch(/attachment; filename="daily-task-planner-\d{4}-\d{2}-\d{2}\.json"/);
+
+      const backup = await response.json();
+      expect(backup).toEqual(expect.objectContaining({ format: 'daily-task-planner-backup', version: 1 }));
+      expect(backup.lists.map((list: any) => list.name)).toEqual(['Work']);
+      expect(backup.labels.map((label: any) => label.name)).toEqual(['urgent']);
+
+      const parent = backup.tasks.find((task: any) => task.id === parentId);
+      expect(parent.labelIds).toEqual([backup.labels[0].id]);
+      expect(parent.reminders).toEqual([expect.objectContaining({ anchor: 'deadline', offsetMinutes: 15 })]);
+      expect(parent.attachments).toEqual([expect.objectContaining({ name: 'spec.pdf' })]);
+      expect(parent.history).toEqual([expect.objectContaining({ action: 'created' })]);
+      expect(parent.blockedByIds).toHaveLength(1);
+
+      const subtask = backup.tasks.find((task: any) => task.parentId === parentId);
+      expect(subtask.name).toBe('Collect numbers');
+    });
+
+    it('should require authentication', async () => {
+      const response = await fetch(`${API_BASE_URL}/export`);
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('POST /api/import', () => {
+    it('should restore a backup into a new account with new ids', async () => {
+      const backup = await exportBackup();
+      const other = await createTestUser('new');
+
+      const response = await restore(backup, other.headers);
+      expect(response.status).toBe(201);
+
+      const summary = await response.json();
+      expect(summary.lists).toEqual({ created: 1, updated: 0, skipped: 0 });
+      expect(summary.labels).toEqual({ created: 1, updated: 0, skipped: 0 });
+      expect(summary.tasks).toEqual({ created: 2, updated: 0, skipped: 0 });
+
+      const parent = await prisma.task.findFirstOrThrow({
+        where: { userId: other.id, name: 'Quarterly report' },
+        include: { labels: true, reminders: true, attachments: true, history: true, subtasks: true, blockedBy: true, list: true },
+      });
+      expect(parent.id).not.toBe(parentId);
+      expect(parent.list).toEqual(expect.objectContaining({ name: 'Work', userId: other.id, isDefault: true }));
+      expect(parent.labels.map(label => label.userId)).toEqual([other.id]);
+      expect(parent.reminders).toEqual([expect.objectContaining({ datetime: new Date('2026-03-05T16:45:00Z') })]);
+      expect(parent.attachments.map(attachment => attachment.name)).toEqual(['spec.pdf']);
+      expect(parent.history.map(entry => entry.changedBy)).toEqual([other.id]);
+      expect(parent.subtasks.map(subtask => subtask.name)).toEqual(['Collect numbers']);
+      expect(parent.blockedBy.map(blocker => blocker.id)).toEqual(parent.subtasks.map(subtask => subtask.id));
+    });
+
+    it('should keep existing records by default', async () => {
+      const backup = await exportBackup();
+      await prisma.task.update({ where: { id: parentId }, data: { name: 'Renamed' } });
+
+      const response = await restore(backup, authHeaders);
+      const summary = await response.json();
+      expect(summary.strategy).toBe('skip');
+      expect(summary.tasks).toEqual({ created: 0, updated: 0, skipped: 2 });
+      expect((await prisma.task.findUniqueOrThrow({ where: { id: parentId } })).name).toBe('Renamed');
+    });
+
+    it('should overwrite existing records', async () => {
+      const backup = await exportBackup();
+      await prisma.task.update({ where: { id: parentId }, data: { name: 'Renamed', priority: 0 } });
+
+      const response = await restore(backup, authHeaders, 'overwrite');
+      const summary = await response.json();
+      expect(summary.tasks).toEqual({ created: 0, updated: 2, skipped: 0 });
+
+      const parent = await prisma.task.findUniqueOrThrow({ where: { id: parentId }, include: { reminders: true } });
+      expect(parent).toEqual(expect.objectContaining({ name: 'Quarterly report', priority: 3 }));
+      expect(parent.reminders).toHaveLength(1);
+    });
+
+    it('should import copies next to existing records', async () => {
+      const backup = await exportBackup();
+
+      const response = await restore(backup, authHeaders, 'duplicate');
+      const summary = await response.json();
+      expect(summary.tasks).toEqual({ created: 2, updated: 0, skipped: 0 });
+      expect(await prisma.task.count({ where: { userId, name: 'Quarterly report' } })).toBe(2);
+      // Only one default list per account
+      expect(await prisma.list.count({ where: { userId, isDefault: true } })).toBe(1);
+    });
+
+    it('should load backups that lack newer fields', async () => {
+      const backup = await exportBackup();
+      for (const task of backup.tasks) {
+        delete task.icalUid;
+        delete task.blockedByIds;
+        delete task.reminders;
+      }
+      delete backup.recurrenceExceptions;
+      const other = await createTestUser('old');
+
+      const response = await restore(backup, other.headers);
+      expect(response.status).toBe(201);
+    });
+
+    it('should leave the account unchanged when a restore fails', async () => {
+      const backup = await exportAccount(userId);
+      // Estimates are whole minutes, so the database rejects the last task
+      backup.tasks[backup.tasks.length - 1].estimates = 1.5;
+      const other = await createTestUser('failed');
+      const counts = () => Promise.all([
+        prisma.list.count({ where: { userId: other.id } }),
+        prisma.label.count({ where: { userId: other.id } }),
+        prisma.task.count({ where: { userId: other.id } }),
+      ]);
+      const before = await counts();
+
+      await expect(restoreBackup(other.id, backup, 'skip')).rejects.toThrow();
+
+      expect(await counts()).toEqual(before);
+    });
+
+    it('should reject files that are not backups', async () => {
+      const response = await restore({ tasks: [] }, authHeaders);
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'Invalid backup', details: 'Not a Daily Task Planner backup' });
+    });
+
+    it('should reject backups from a newer version', async () => {
+      const backup = await exportBackup();
+      const response = await restore({ ...backup, version: 99 }, authHeaders);
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject tasks in lists missing from the backup', async () => {
+      const backup = await exportBackup();
+      const response = await restore({ ...backup, lists: [] }, authHeaders);
+      expect(response.status).toBe(400);
+      expect((await response.json()).details).toContain('is in a list that is not in the backup');
+    });
+
+    it('should reject unknown conflict strategies', async () => {
+      const backup = await exportBackup();
+      const response = await restore(backup, authHeaders, 'merge');
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import prisma from '@/lib/prisma';
+import { createUser } from '@/lib/db-utils';
+import { createAuthHeaders } from './helpers';
+
+const API_BASE_URL = 'http://localhost:32754/api';
+
+describe('Calendar feed API', () => {
+  let userId: string;
+  let authHeaders: Record<string, string>;
+  let workListId: string;
+  let homeListId: string;
+
+  beforeEach(async () => {
+    const user = await createUser({
+      email: `test-calendar-${Date.now()}@example.com`,
+      name: 'Test Calendar User',
+    });
+    userId = user.id;
+    authHeaders = await createAuthHeaders(userId);
+
+    const work = await prisma.list.create({ data: { name: 'Work', userId } });
+    const home = await prisma.list.create({ data: { name: 'Home', userId } });
+    workListId = work.id;
+    homeListId = home.id;
+
+    await prisma.task.create({
+      data: { name: 'Quarterly report', deadline: new Date('2026-03-05T17:00:00Z'), listId: workListId, userId },
+    });
+    await prisma.task.create({
+      data: { name: 'Water plants', date: new Date('2026-03-02T00:00:00Z'), listId: homeListId, userId },
+    });
+    await prisma.task.create({
+      data: { name: 'Someday', listId: homeListId, userId },
+    });
+  });
+
+  afterEach(async () => {
+    await prisma.task.deleteMany({ where: { userId } });
+    await prisma.list.deleteMany({ where: { userId } });
+    await prisma.user.deleteMany({ where: { id: userId } });
+  });
+
+  const createFeed = async () => {
+    const response = await fetch(`${API_BASE_URL}/calendar`, { method: 'POST', headers: authHeaders });
+    expect(response.status).toBe(201);
+    return (await response.json()).url as string;
+  };
+
+  it('should serve dated tasks to anyone with the feed URL', async () => {
+    const url = await createFeed();
+    expect(url).toEndWith('.ics');
+
+    // No session cookie: the token in the URL is enough
+    const response = await fetch(url);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/calendar');
+
+    const calendar = await response.text();
+    expect(calendar).toContain('SUMMARY:Quarterly report');
+    expect(calendar).toContain('SUMMARY:Water plants');
+    expect(calendar).not.toContain('SUMMARY:Someday');
+  });
+
+  it('should only include the requested list', async () => {
+    const url = await createFeed();
+
+    const calendar = await (await fetch(`${url}?listId=${workListId}`)).text();
+    expect(calendar).toContain('X-WR-CALNAME:Daily Task Planner: Work');
+    expect(calendar).toContain('SUMMARY:Quarterly report');
+    expect(calendar).not.toContain('SUMMARY:Water plants');
+  });
+
+  it('should stop serving a feed once a new link is created', async () => {
+    const oldUrl = await createFeed();
+    const newUrl = await createFeed();
+
+    expect((await fetch(oldUrl)).status).toBe(404);
+    expect((await fetch(newUrl)).status).toBe(200);
+  });
+
+  it('should stop serving the feed when it is turned off', async () => {
+    const url = await createFeed();
+
+    const response = await fetch(`${API_BASE_URL}/calendar`, { method: 'DELETE', headers: authHeaders });
+    expect(response.status).toBe(200);
+    expect((await fetch(url)).status).toBe(404);
+  });
+
+  it('should return 404 for an unknown token', async () => {
+    const response = await fetch(`${API_BASE_URL}/calendar/unknown-token.ics`);
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import prisma from '@/lib/prisma';
+import { createUser } from '@/lib/db-utils';
+import { createAuthHeaders } from './helpers';
+
+const API_BASE_URL = 'http://localhost:32754/api';
+
+const CSV = [
+  'Title,Project,Tags,Priority,Due,Estimate (min),Completed at',
+  'Quarterly report,Work,"finance, q1",High,2026-03-05T17:00:00Z,90,',
+  'Buy milk,,groceries,low,2026-03-02,,2026-03-01',
+  ',Work,,,,,',
+  'Plan trip,Travel,,urgent,next week,1.5,',
+].join('\r\n');
+
+const MAPPING = { name: 0, list: 1, labels: 2, priority: 3, deadline: 4, estimates: 5, completedAt: 6 };
+
+describe('CSV import API', () => {
+  let userId: string;
+  let authHeaders: Record<string, string>;
+  let inboxId: string;
+  let workId: string;
+
+  beforeEach(async () => {
+    const user = await createUser({
+      email: `test-csv-${Date.now()}@example.com`,
+      name: 'Test CSV User',
+    });
+    userId = user.id;
+    authHeaders = await createAuthHeaders(userId);
+
+    inboxId = (await prisma.list.create({ data: { name: 'Inbox', isDefault: true, userId } })).id;
+    workId = (await prisma.list.create({ data: { name: 'work', userId } })).id;
+  });
+
+  afterEach(async () => {
+    const tasks = await prisma.task.findMany({ where: { userId }, select: { id: true } });
+    await prisma.taskHistory.deleteMany({ where: { taskId: { in: tasks.map(task => task.id) } } });
+    await prisma.task.deleteMany({ where: { userId } });
+    await prisma.label.deleteMany({ where: { userId } });
+    await prisma.list.deleteMany({ where: { userId } });
+    await prisma.user.deleteMany({ where: { id: userId } });
+  });
+
+  const importCsv = (content: string, fields: Record<string, string> = {}) => {
+    const formData = new FormData();
+    formData.append('file', new File([content], 'tasks.csv', { type: 'text/csv' }));
+    formData.append('mapping', JSON.stringify(MAPPING));
+    for (const [key, value] of Object.entries(fields)) {
+      formData.append(key, value);
+    }
+
+    return fetch(`${API_BASE_URL}/import/csv`, {
+      method: 'POST',
+      headers: authHeaders,
+      body: formData,
+    });
+  };
+
+  it('should report invalid rows without importing anything', async () => {
+    const response = await importCsv(CSV);
+    expect(response.status).toBe(400);
+
+    const data = await response.json();
+    expect(data.error).toBe('Validation error');
+    expect(data.rows).toEqual([
+      { row: 4, errors: [{ field: 'name', message: 'Required' }] },
+      {
+        row: 5,
+        errors: [
+          { field: 'priority', message: 'Unknown priority "urgent"' },
+          { field: 'deadline', message: 'Invalid date "next week"' },
+          { field: 'estimates', message: 'Expected whole minutes, got "1.5"' },
+        ],
+      },
+    ]);
+    expect(await prisma.task.count({ where: { userId } })).toBe(0);
+  });
+
+  it('should check rows in a dry run', async () => {
+    const response = await importCsv(CSV, { dryRun: 'true' });
+    expect(response.status).toBe(200);
+
+    const data = await response.json();
+    expect(data).toEqual(expect.objectContaining({ total: 2, created: 0, newLists: [], newLabels: ['finance', 'q1', 'groceries'] }));
+    expect(data.rows.map((row: any) => row.row)).toEqual([4, 5]);
+    expect(await prisma.task.count({ where: { userId } })).toBe(0);
+  });
+
+  it('should import the valid rows when partial commits are allowed', async () => {
+    const response = await importCsv(CSV, { partial: 'true' });
+    expect(response.status).toBe(201);
+    expect((await response.json()).created).toBe(2);
+
+    const report = await prisma.task.findFirstOrThrow({
+      where: { userId, name: 'Quarterly report' },
+      include: { labels: true },
+    });
+    // List names match existing lists regardless of case
+    expect(report).toEqual(expect.objectContaining({
+      listId: workId,
+      priority: 3,
+      estimates: 90,
+      deadline: new Date('2026-03-05T17:00:00Z'),
+      completedAt: null,
+    }));
+    expect(report.labels.map(label => label.name).sort()).toEqual(['finance', 'q1']);
+
+    const milk = await prisma.task.findFirstOrThrow({ where: { userId, name: 'Buy milk' } });
+    expect(milk).toEqual(expect.objectContaining({
+      listId: inboxId,
+      priority: 1,
+      deadline: new Date('2026-03-02T00:00:00Z'),
+      completedAt: new Date('2026-03-01T00:00:00Z'),
+    }));
+  });
+
+  it('should create lists named in the file', async () => {
+    const response = await importCsv('Title,Project\nPlan trip,Travel\n');
+    expect(response.status).toBe(201);
+    expect((await response.json()).newLists).toEqual(['Travel']);
+
+    const trip = await prisma.task.findFirstOrThrow({ where: { userId, name: 'Plan trip' }, include: { list: true } });
+    expect(trip.list.name).toBe('Travel');
+  });
+
+  it('should require a column for the task name', async () => {
+    const formData = new FormData();
+    formData.append('file', new File([CSV], 'tasks.csv'));
+    formData.append('mapping', JSON.stringify({ list: 1 }));
+
+    const response = await fetch(`${API_BASE_URL}/import/csv`, { method: 'POST', headers: authHeaders, body: formData });
+    expect(response.status).toBe(400);
+  });
+
+  it('should require authentication', async () => {
+    const formData = new FormData();
+    formData.append('file', new File([CSV], 'tasks.csv'));
+    formData.append('mapping', JSON.stringify(MAPPING));
+
+    const response = await fetch(`${API_BASE_URL}/import/csv`, { method: 'POST', body: formData });
+    expect(response.status).toBe(401);
+  });
+});
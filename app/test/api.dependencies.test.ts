@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import prisma from '@/lib/prisma';
+import { createUser } from '@/lib/db-utils';
+import { createAuthHeaders } from './helpers';
+
+const API_BASE_URL = 'http://localhost:32754/api';
+
+describe('Task Dependencies API', () => {
+  let userId: string;
+  let authHeaders: Record<string, string>;
+  let designId: string;
+  let buildId: string;
+  let shipId: string;
+
+  const addDependency = (taskId: string, body: Record<string, unknown>) =>
+    fetch(`${API_BASE_URL}/tasks/${taskId}/dependencies`, {
+      method: 'POST',
+      headers: {
+        ...authHeaders,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(async () => {
+    const user = await createUser({
+      email: `test-dependencies-${Date.now()}@example.com`,
+      name: 'Test Dependencies User',
+    });
+    userId = user.id;
+    authHeaders = await createAuthHeaders(userId);
+
+    const list = await prisma.list.create({
+      data: { name: 'Dependencies List', userId },
+    });
+
+    const [design, build, ship] = await Promise.all(['Design', 'Build', 'Ship'].map(name =>
+      prisma.task.create({ data: { name, listId: list.id, userId } })
+    ));
+    designId = design.id;
+    buildId = build.id;
+    shipId = ship.id;
+  });
+
+  afterEach(async () => {
+    await prisma.taskHistory.deleteMany({ where: { task: { userId } } });
+    await prisma.task.deleteMany({ where: { userId } });
+    await prisma.list.deleteMany({ where: { userId } });
+    await prisma.user.deleteMany({ where: { id: userId } });
+  });
+
+  describe('POST /api/tasks/[id]/dependencies', () => {
+    it('should add blockers and blocked tasks', async () => {
+      const response = await addDependency(buildId, { blockerId: designId });
+      expect(response.status).toBe(201);
+
+      const dependencies = await (await addDependency(buildId, { blockedId: shipId })).json();
+      expect(dependencies.blockedBy.map((task: any) => task.id)).toEqual([designId]);
+      expect(dependencies.blocks.map((task: any) => task.id)).toEqual([shipId]);
+    });
+
+    it('should reject a dependency that creates a cycle', async () => {
+      await addDependency(buildId, { blockerId: designId });
+      await addDependency(shipId, { blockerId: buildId });
+
+      const response = await addDependency(designId, { blockerId: shipId });
+      expect(response.status).toBe(400);
+
+      const data = await response.json();
+      expect(data.error).toBe('This dependency would create a cycle');
+    });
+  });
+
+  describe('DELETE /api/tasks/[id]/dependencies', () => {
+    it('should remove a dependency', async () => {
+      await addDependency(buildId, { blockerId: designId });
+
+      const response = await fetch(`${API_BASE_URL}/tasks/${buildId}/dependencies?blockerId=${designId}`, {
+        method: 'DELETE',
+        headers: authHeaders,
+      });
+      expect(response.status).toBe(200);
+
+      const dependencies = await response.json();
+      expect(dependencies.blockedBy).toEqual([]);
+    });
+  });
+
+  describe('PUT /api/tasks/[id] with open blockers', () => {
+    const complete = (force?: boolean) =>
+      fetch(`${API_BASE_URL}/tasks/${buildId}`, {
+        method: 'PUT',
+        headers: {
+          ...authHeaders,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ completedAt: new Date().toISOString(), force }),
+      });
+
+    it('should refuse to complete a blocked task unless forced', async () => {
+      await addDependency(buildId, { blockerId: designId });
+
+      const response = await complete();
+      expect(response.status).toBe(400);
+
+      const data = await response.json();
+      expect(data.error).toBe('Validation error');
+      expect(data.blockers.map((task: any) => task.id)).toEqual([designId]);
+
+      const forced = await complete(true);
+      expect(forced.status).toBe(200);
+    });
+  });
+});
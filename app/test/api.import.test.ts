@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import prisma from '@/lib/prisma';
+import { createUser } from '@/lib/db-utils';
+import { ImportedTask, importTasks } from '@/lib/task-import';
+import { createAuthHeaders } from './helpers';
+
+const API_BASE_URL = 'http://localhost:32754/api';
+
+const CALENDAR = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Other App//EN',
+  'BEGIN:VTODO',
+  'UID:report-1',
+  'SUMMARY:Quarterly report',
+  'DTSTART:20260302T090000Z',
+  'DUE:20260305T170000Z',
+  'PRIORITY:1',
+  'CATEGORIES:Work,Finance',
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  'TRIGGER;RELATED=END:-PT15M',
+  'END:VALARM',
+  'END:VTODO',
+  'BEGIN:VTODO',
+  'UID:standup-1',
+  'SUMMARY:Standup',
+  'DUE:20260302T090000Z',
+  'RRULE:FREQ=WEEKLY;BYDAY=MO',
+  'END:VTODO',
+  'BEGIN:VTODO',
+  'UID:report-1',
+  'SUMMARY:Quarterly report (copy)',
+  'END:VTODO',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('iCalendar import API', () => {
+  let userId: string;
+  let authHeaders: Record<string, string>;
+  let listId: string;
+
+  beforeEach(async () => {
+    const user = await createUser({
+      email: `test-import-${Date.now()}@example.com`,
+      name: 'Test Import User',
+    });
+    userId = user.id;
+    authHeaders = await createAuthHeaders(userId);
+
+    const list = await prisma.list.create({ data: { name: 'Inbox', isDefault: true, userId } });
+    listId = list.id;
+    await prisma.label.create({ data: { name: 'work', color: 'blue', userId } });
+  });
+
+  afterEach(async () => {
+    const tasks = await prisma.task.findMany({ where: { userId }, select: { id: true } });
+    const taskIds = tasks.map(task => task.id);
+    await prisma.taskHistory.deleteMany({ where: { taskId: { in: taskIds } } });
+    await prisma.reminder.deleteMany({ where: { taskId: { in: taskIds } } });
+    await prisma.task.deleteMany({ where: { userId } });
+    await prisma.label.deleteMany({ where: { userId } });
+    await prisma.list.deleteMany({ where: { userId } });
+    await prisma.user.deleteMany({ where: { id: userId } });
+  });
+
+  const importFile = (content: string, fields: Record<string, string> = {}) => {
+    const formData = new FormData();
+    formData.append('file', new File([content], 'tasks.ics', { type: 'text/calendar' }));
+    for (const [key, value] of Object.entries(fields)) {
+      formData.append(key, value);
+    }
+
+    return fetch(`${API_BASE_URL}/import/ics`, {
+      method: 'POST',
+      headers: authHeaders,
+      body: formData,
+    });
+  };
+
+  it('should preview an import without saving anything', async () => {
+    const response = await importFile(CALENDAR, { dryRun: 'true' });
+    expect(response.status).toBe(200);
+
+    const preview = await response.json();
+    expect(preview).toEqual(expect.objectContaining({
+      dryRun: true,
+      listId,
+      total: 3,
+      created: 0,
+      duplicates: 1,
+      newLabels: ['Finance'],
+    }));
+    expect(preview.tasks.map((task: any) => task.duplicate)).toEqual([null, null, 'file']);
+    expect(await prisma.task.count({ where: { userId } })).toBe(0);
+    expect(await prisma.label.count({ where: { userId } })).toBe(1);
+  });
+
+  it('should import to-dos with their labels, reminders and repeat rules', async () => {
+    const response = await importFile(CALENDAR);
+    expect(response.status).toBe(201);
+    expect((await response.json()).created).toBe(2);
+
+    const report = await prisma.task.findFirstOrThrow({
+      where: { userId, icalUid: 'report-1' },
+      include: { labels: true, reminders: true, history: true },
+    });
+    expect(report).toEqual(expect.objectContaining({
+      name: 'Quarterly report',
+      listId,
+      priority: 3,
+      date: new Date('2026-03-02T09:00:00Z'),
+      deadline: new Date('2026-03-05T17:00:00Z'),
+    }));
+    // Existing labels are reused regardless of case
+    expect(report.labels.map(label => label.name).sort()).toEqual(['Finance', 'work']);
+    expect(report.reminders).toEqual([expect.objectContaining({
+      anchor: 'deadline',
+      offsetMinutes: 15,
+      datetime: new Date('2026-03-05T16:45:00Z'),
+    })]);
+    expect(JSON.parse(report.history[0].newValue!)).toEqual({ importedFrom: 'ics' });
+
+    const standup = await prisma.task.findFirstOrThrow({ where: { userId, icalUid: 'standup-1' } });
+    expect(standup.isRecurring).toBe(true);
+    expect(JSON.parse(standup.recurringPattern!)).toEqual(expect.objectContaining({ type: 'rrule' }));
+  });
+
+  it('should skip to-dos that were imported before', async () => {
+    await importFile(CALENDAR);
+
+    const response = await importFile(CALENDAR);
+    expect(response.status).toBe(201);
+
+    const summary = await response.json();
+    expect(summary.created).toBe(0);
+    expect(summary.tasks.map((task: any) => task.duplicate)).toEqual(['existing', 'existing', 'existing']);
+    expect(await prisma.task.count({ where: { userId } })).toBe(2);
+  });
+
+  it('should skip tasks that were exported from this app', async () => {
+    const task = await prisma.task.create({ data: { name: 'Mine', listId, userId } });
+
+    const response = await importFile(CALENDAR.replace('UID:standup-1', `UID:${task.id}@daily-task-planner`), { dryRun: 'true' });
+    const preview = await response.json();
+    expect(preview.tasks[1].duplicate).toBe('existing');
+  });
+
+  it('should reject files that are not calendars', async () => {
+    const response = await importFile('name,date\nMilk,2026-03-02');
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Invalid iCalendar file');
+  });
+
+  it('should not import into lists of other users', async () => {
+    const other = await createUser({ email: `test-import-other-${Date.now()}@example.com`, name: 'Other' });
+    const otherList = await prisma.list.create({ data: { name: 'Theirs', userId: other.id } });
+
+    const response = await importFile(CALENDAR, { listId: otherList.id });
+    expect(response.status).toBe(404);
+
+    await prisma.list.delete({ where: { id: otherList.id } });
+    await prisma.user.delete({ where: { id: other.id } });
+  });
+
+  it('should save nothing when a task fails to import', async () => {
+    const task = (name: string, estimates: number): ImportedTask => ({
+      uid: null,
+      name,
+      description: null,
+      date: null,
+      deadline: null,
+      priority: 0,
+      completedAt: null,
+      recurringPattern: null,
+      labels: ['Errands'],
+      reminders: [],
+      warnings: [],
+      estimates,
+    });
+
+    // Estimates are whole minutes, so the second task is rejected by the database
+    await expect(importTasks(userId, listId, [task('Milk', 10), task('Bread', 1.5)], { source: 'ics' })).rejects.toThrow();
+
+    expect(await prisma.task.count({ where: { userId } })).toBe(0);
+    expect(await prisma.label.count({ where: { userId, name: 'Errands' } })).toBe(0);
+  });
+
+  it('should require authentication', async () => {
+    const formData = new FormData();
+    formData.append('file', new File([CALENDAR], 'tasks.ics'));
+
+    const response = await fetch(`${API_BASE_URL}/import/ics`, { method: 'POST', body: formData });
+    expect(response.status).toBe(401);
+  });
+});
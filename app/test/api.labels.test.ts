@@ -1,9 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
 import prisma from '@/lib/prisma';
 import { createUser } from '@/lib/db-utils';
+import { createAuthHeaders } from './helpers';
 
 const API_BASE_URL = 'http://localhost:32754/api';
 let DEFAULT_USER_ID: string;
+let authHeaders: Record<string, string>;
 
 describe('Labels API', () => {
   let testLabelId: string;
@@ -16,6 +18,7 @@ describe('Labels API', () => {
       name: 'Test Labels User',
     });
     DEFAULT_USER_ID = testUser.id;
+    authHeaders = await createAuthHeaders(DEFAULT_USER_ID);
 
     // Create a test label for update/delete tests
     const testLabel = await prisma.label.create({
@@ -47,7 +50,7 @@ describe('Labels API', () => {
 
   describe('GET /api/labels', () => {
     it('should return all labels for the default user', async () => {
-      const response = await fetch(`${API_BASE_URL}/labels`);
+      const response = await fetch(`${API_BASE_URL}/labels`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const data = await response.json();
@@ -60,7 +63,7 @@ describe('Labels API', () => {
     });
 
     it('should return labels for specific user', async () => {
-      const response = await fetch(`${API_BASE_URL}/labels?userId=${DEFAULT_USER_ID}`);
+      const response = await fetch(`${API_BASE_URL}/labels?userId=${DEFAULT_USER_ID}`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const data = await response.json();
@@ -82,6 +85,7 @@ describe('Labels API', () => {
       const response = await fetch(`${API_BASE_URL}/labels`, {
         method: 'POST',
         headers: {
+          ...authHeaders,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(newLabel),
@@ -108,6 +112,7 @@ describe('Labels API', () => {
       const response = await fetch(`${API_BASE_URL}/labels`, {
         method: 'POST',
         headers: {
+          ...authHeaders,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(invalidLabel),
@@ -125,7 +130,7 @@ describe('Labels API', () => {
 
   describe('GET /api/labels/[id]', () => {
     it('should return a specific label by ID', async () => {
-      const response = await fetch(`${API_BASE_URL}/labels/${testLabelId}`);
+      const response = await fetch(`${API_BASE_URL}/labels/${testLabelId}`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const label = await response.json();
@@ -138,7 +143,7 @@ describe('Labels API', () => {
 
     it('should return 404 for non-existent label', async () => {
       const nonExistentId = 'non-existent-id';
-      const response = await fetch(`${API_BASE_URL}/labels/${nonExistentId}`);
+      const response = await fetch(`${API_BASE_URL}/labels/${nonExistentId}`, { headers: authHeaders });
       expect(response.status).toBe(404);
       
       const data = await response.json();
@@ -158,6 +163,7 @@ describe('Labels API', () => {
       const response = await fetch(`${API_BASE_URL}/labels/${testLabelId}`, {
         method: 'PUT',
         headers: {
+          ...authHeaders,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(updates),
@@ -178,6 +184,7 @@ describe('Labels API', () => {
       const response = await fetch(`${API_BASE_URL}/labels/${nonExistentId}`, {
         method: 'PUT',
         headers: {
+          ...authHeaders,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ name: 'Updated Label' }),
@@ -190,6 +197,7 @@ describe('Labels API', () => {
       const response = await fetch(`${API_BASE_URL}/labels/${testLabelId}`, {
         method: 'PUT',
         headers: {
+          ...authHeaders,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ name: '', color: '' }),
@@ -203,6 +211,7 @@ describe('Labels API', () => {
     it('should delete a label by ID', async () => {
       const response = await fetch(`${API_BASE_URL}/labels/${testLabelId}`, {
         method: 'DELETE',
+        headers: authHeaders,
       });
 
       expect(response.status).toBe(200);
@@ -213,7 +222,7 @@ describe('Labels API', () => {
       }));
 
       // Verify label was deleted
-      const checkResponse = await fetch(`${API_BASE_URL}/labels/${testLabelId}`);
+      const checkResponse = await fetch(`${API_BASE_URL}/labels/${testLabelId}`, { headers: authHeaders });
       expect(checkResponse.status).toBe(404);
     });
 
@@ -221,6 +230,7 @@ describe('Labels API', () => {
       const nonExistentId = 'non-existent-id';
       const response = await fetch(`${API_BASE_URL}/labels/${nonExistentId}`, {
         method: 'DELETE',
+        headers: authHeaders,
       });
 
       expect(response.status).toBe(404);
@@ -1,9 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
 import prisma from '@/lib/prisma';
 import { createUser } from '@/lib/db-utils';
+import { createAuthHeaders } from './helpers';
 
 const API_BASE_URL = 'http://localhost:32754/api';
 let DEFAULT_USER_ID: string;
+let authHeaders: Record<string, string>;
 
 describe('Lists API', () => {
   let testListId: string;
@@ -16,6 +18,7 @@ describe('Lists API', () => {
       name: 'Test Lists User',
     });
     DEFAULT_USER_ID = testUser.id;
+    authHeaders = await createAuthHeaders(DEFAULT_USER_ID);
 
     // Create a test list for update/delete tests
     const testList = await prisma.list.create({
@@ -50,7 +53,7 @@ describe('Lists API', () => {
 
   describe('GET /api/lists', () => {
     it('should return all lists for the default user', async () => {
-      const response = await fetch(`${API_BASE_URL}/lists`);
+      const response = await fetch(`${API_BASE_URL}/lists`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const data = await response.json();
@@ -62,7 +65,7 @@ describe('Lists API', () => {
     });
 
     it('should return lists for specific user', async () => {
-      const response = await fetch(`${API_BASE_URL}/lists?userId=${DEFAULT_USER_ID}`);
+      const response = await fetch(`${API_BASE_URL}/lists?userId=${DEFAULT_USER_ID}`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const data = await response.json();
@@ -87,6 +90,7 @@ describe('Lists API', () => {
       const response = await fetch(`${API_BASE_URL}/lists`, {
         method: 'POST',
         headers: {
+          ...authHeaders,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(newList),
@@ -120,6 +124,7 @@ describe('Lists API', () => {
       const response = await fetch(`${API_BASE_URL}/lists`, {
         method: 'POST',
         headers: {
+          ...authHeaders,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(newDefaultList),
@@ -152,6 +157,7 @@ describe('Lists API', () => {
       const response = await fetch(`${API_BASE_URL}/lists`, {
         method: 'POST',
         headers: {
+          ...authHeaders,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(invalidList),
@@ -169,7 +175,7 @@ describe('Lists API', () => {
 
   describe('GET /api/lists/[id]', () => {
     it('should return a specific list by ID', async () => {
-      const response = await fetch(`${API_BASE_URL}/lists/${testListId}`);
+      const response = await fetch(`${API_BASE_URL}/lists/${testListId}`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const list = await response.json();
@@ -181,7 +187,7 @@ describe('Lists API', () => {
 
     it('should return 404 for non-existent list', async () => {
       const nonExistentId = 'non-existent-id';
-      const response = await fetch(`${API_BASE_URL}/lists/${nonExistentId}`);
+      const response = await fetch(`${API_BASE_URL}/lists/${nonExistentId}`, { headers: authHeaders });
       expect(response.status).toBe(404);
       
       const data = await response.json();
@@ -204,6 +210,7 @@ describe('Lists API', () => {
       const response = await fetch(`${API_BASE_URL}/lists/${testListId}`, {
         method: 'PUT',
         headers: {
+          ...authHeaders,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(updates),
@@ -227,6 +234,7 @@ describe('Lists API', () => {
       const response = await fetch(`${API_BASE_URL}/lists/${nonExistentId}`, {
         method: 'PUT',
         headers: {
+          ...authHeaders,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ name: 'Updated List' }),
@@ -239,6 +247,7 @@ describe('Lists API', () => {
       const response = await fetch(`${API_BASE_URL}/lists/${testListId}`, {
         method: 'PUT',
         headers: {
+          ...authHeaders,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ name: '' }),
@@ -252,6 +261,7 @@ describe('Lists API', () => {
     it('should delete a list by ID', async () => {
       const response = await fetch(`${API_BASE_URL}/lists/${testListId}`, {
         method: 'DELETE',
+        headers: authHeaders,
       });
 
       expect(response.status).toBe(200);
@@ -262,7 +272,7 @@ describe('Lists API', () => {
       }));
 
       // Verify list was deleted
-      const checkResponse = await fetch(`${API_BASE_URL}/lists/${testListId}`);
+      const checkResponse = await fetch(`${API_BASE_URL}/lists/${testListId}`, { headers: authHeaders });
       expect(checkResponse.status).toBe(404);
     });
 
@@ -270,6 +280,7 @@ describe('Lists API', () => {
       const nonExistentId = 'non-existent-id';
       const response = await fetch(`${API_BASE_URL}/lists/${nonExistentId}`, {
         method: 'DELETE',
+        headers: authHeaders,
       });
 
       expect(response.status).toBe(404);
@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import prisma from '@/lib/prisma';
+import { createUser } from '@/lib/db-utils';
+import { createAuthHeaders } from './helpers';
+
+const API_BASE_URL = 'http://localhost:32754/api';
+
+describe('Recurring task occurrences API', () => {
+  let userId: string;
+  let authHeaders: Record<string, string>;
+  let listId: string;
+  let taskId: string;
+
+  const startDate = new Date('2030-01-07T09:00:00.000Z'); // Monday
+
+  const postOccurrence = (body: Record<string, unknown>) =>
+    fetch(`${API_BASE_URL}/tasks/${taskId}/occurrences`, {
+      method: 'POST',
+      headers: {
+        ...authHeaders,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(async () => {
+    const user = await createUser({
+      email: `test-occurrences-${Date.now()}@example.com`,
+      name: 'Test Occurrences User',
+    });
+    userId = user.id;
+    authHeaders = await createAuthHeaders(userId);
+
+    const list = await prisma.list.create({
+      data: { name: 'Occurrences List', userId },
+    });
+    listId = list.id;
+
+    const task = await prisma.task.create({
+      data: {
+        name: 'Weekly sync',
+        listId,
+        userId,
+        date: startDate,
+        isRecurring: true,
+        recurringPattern: JSON.stringify({ type: 'weekly', interval: 1, daysOfWeek: [1] }),
+      },
+    });
+    taskId = task.id;
+  });
+
+  afterEach(async () => {
+    await prisma.taskHistory.deleteMany({ where: { task: { userId } } });
+    await prisma.reminder.deleteMany({ where: { task: { userId } } });
+    await prisma.task.deleteMany({ where: { userId } });
+    await prisma.list.deleteMany({ where: { userId } });
+    await prisma.user.deleteMany({ where: { id: userId } });
+  });
+
+  describe('POST /api/tasks/[id]/occurrences', () => {
+    it('should move the task to the next occurrence when skipping the current one', async () => {
+      const response = await postOccurrence({ action: 'skip' });
+      expect(response.status).toBe(200);
+
+      const task = await response.json();
+      expect(task.date).toBe('2030-01-14T09:00:00.000Z');
+      expect(task.occurrenceDate).toBe('2030-01-14T09:00:00.000Z');
+    });
+
+    it('should move delivered reminders along and send them again', async () => {
+      const reminder = await prisma.reminder.create({
+        data: {
+          taskId,
+          datetime: new Date('2030-01-07T08:00:00.000Z'),
+          status: 'delivered',
+          deliveredAt: new Date('2030-01-07T08:00:00.000Z'),
+          deliveries: { create: { channel: 'email' } },
+        },
+      });
+
+      await postOccurrence({ action: 'skip' });
+
+      const moved = await prisma.reminder.findUnique({
+        where: { id: reminder.id },
+        include: { deliveries: true },
+      });
+      expect(moved?.datetime.toISOString()).toBe('2030-01-14T08:00:00.000Z');
+      expect(moved?.status).toBe('pending');
+      expect(moved?.deliveredAt).toBeNull();
+      expect(moved?.deliveries).toHaveLength(0);
+    });
+
+    it('should skip a future occurrence when the series rolls forward', async () => {
+      await postOccurrence({ action: 'skip', originalDate: '2030-01-14T09:00:00.000Z' });
+
+      const response = await fetch(`${API_BASE_URL}/tasks/${taskId}`, {
+        method: 'PUT',
+        headers: {
+          ...authHeaders,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ completedAt: '2030-01-07T10:00:00.000Z' }),
+      });
+
+      const task = await response.json();
+      expect(task.nextInstance.date).toBe('2030-01-21T09:00:00.000Z');
+    });
+
+    it('should apply a reschedule and edit when the occurrence comes up', async () => {
+      await postOccurrence({
+        action: 'reschedule',
+        originalDate: '2030-01-14T09:00:00.000Z',
+        newDate: '2030-01-16T09:00:00.000Z',
+      });
+      await postOccurrence({
+        action: 'edit',
+        originalDate: '2030-01-14T09:00:00.000Z',
+        overrides: { name: 'Sync (moved)' },
+      });
+
+      const response = await fetch(`${API_BASE_URL}/tasks/${taskId}`, {
+        method: 'PUT',
+        headers: {
+          ...authHeaders,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ completedAt: '2030-01-07T10:00:00.000Z' }),
+      });
+
+      const { nextInstance } = await response.json();
+      expect(nextInstance).toEqual(expect.objectContaining({
+        name: 'Sync (moved)',
+        date: '2030-01-16T09:00:00.000Z',
+        occurrenceDate: '2030-01-14T09:00:00.000Z',
+      }));
+    });
+
+    it('should return 400 for a date that is not an occurrence', async () => {
+      const response = await postOccurrence({ action: 'skip', originalDate: '2030-01-15T09:00:00.000Z' });
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for another user\'s task', async () => {
+      const otherUser = await createUser({
+        email: `test-occurrences-other-${Date.now()}@example.com`,
+      });
+      const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/occurrences`, {
+        method: 'POST',
+        headers: {
+          ...(await createAuthHeaders(otherUser.id)),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'skip' }),
+      });
+
+      expect(response.status).toBe(404);
+      await prisma.user.delete({ where: { id: otherUser.id } });
+    });
+  });
+
+  describe('PUT /api/tasks/[id] with scope', () => {
+    it('should only change this occurrence with scope "this"', async () => {
+      const response = await fetch(`${API_BASE_URL}/tasks/${taskId}`, {
+        method: 'PUT',
+        headers: {
+          ...authHeaders,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: 'Holiday sync', scope: 'this' }),
+      });
+      expect(response.status).toBe(200);
+
+      const completeResponse = await fetch(`${API_BASE_URL}/tasks/${taskId}`, {
+        method: 'PUT',
+        headers: {
+          ...authHeaders,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ completedAt: '2030-01-07T10:00:00.000Z' }),
+      });
+
+      const task = await completeResponse.json();
+      expect(task.name).toBe('Holiday sync');
+      expect(task.nextInstance.name).toBe('Weekly sync');
+    });
+
+    it('should change nothing when the reminders are rejected', async () => {
+      const response = await fetch(`${API_BASE_URL}/tasks/${taskId}`, {
+        method: 'PUT',
+        headers: {
+          ...authHeaders,
+          'Content-Type': 'application/json',
+        },
+        // The task has no deadline for the reminder to refer to
+        body: JSON.stringify({
+          name: 'Holiday sync',
+          date: '2030-01-08T09:00:00.000Z',
+          reminders: [{ anchor: 'deadline', offsetMinutes: 15 }],
+          scope: 'this',
+        }),
+      });
+      expect(response.status).toBe(400);
+
+      expect(await prisma.recurrenceException.count({ where: { seriesId: taskId } })).toBe(0);
+      const task = await prisma.task.findUniqueOrThrow({ where: { id: taskId } });
+      expect(task.name).toBe('Weekly sync');
+      expect(task.date).toEqual(startDate);
+    });
+  });
+
+  describe('GET /api/tasks/[id]/occurrences', () => {
+    it('should list upcoming occurrences without skipped ones', async () => {
+      await postOccurrence({ action: 'skip', originalDate: '2030-01-14T09:00:00.000Z' });
+
+      const response = await fetch(
+        `${API_BASE_URL}/tasks/${taskId}/occurrences?from=2030-01-07T00:00:00.000Z&to=2030-01-22T00:00:00.000Z`,
+        { headers: authHeaders }
+      );
+      expect(response.status).toBe(200);
+
+      const { data } = await response.json();
+      expect(data.map((occurrence: any) => occurrence.date)).toEqual([
+        '2030-01-07T09:00:00.000Z',
+        '2030-01-21T09:00:00.000Z',
+      ]);
+    });
+
+    it('should return 400 for a range longer than a year', async () => {
+      const response = await fetch(
+        `${API_BASE_URL}/tasks/${taskId}/occurrences?to=9999-01-01T00:00:00.000Z`,
+        { headers: authHeaders }
+      );
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/tasks/occurrences', () => {
+    it('should list virtual occurrences of open recurring tasks in a range', async () => {
+      await postOccurrence({
+        action: 'reschedule',
+        originalDate: '2030-01-14T09:00:00.000Z',
+        newDate: '2030-01-15T09:00:00.000Z',
+      });
+
+      const response = await fetch(
+        `${API_BASE_URL}/tasks/occurrences?from=2030-01-01T00:00:00.000Z&to=2030-01-22T00:00:00.000Z`,
+        { headers: authHeaders }
+      );
+      expect(response.status).toBe(200);
+
+      // The task's own date is excluded because it is already a real task
+      const { data } = await response.json();
+      expect(data).toEqual([
+        expect.objectContaining({ taskId, date: '2030-01-15T09:00:00.000Z', isMoved: true }),
+        expect.objectContaining({ taskId, date: '2030-01-21T09:00:00.000Z', isMoved: false }),
+      ]);
+    });
+
+    it('should return 400 without a range', async () => {
+      const response = await fetch(`${API_BASE_URL}/tasks/occurrences`, { headers: authHeaders });
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import prisma from '@/lib/prisma';
+import { createUser } from '@/lib/db-utils';
+import { createAuthHeaders } from './helpers';
+
+const API_BASE_URL = 'http://localhost:32754/api';
+
+describe('Ownership checks', () => {
+  let ownerId: string;
+  let otherUserId: string;
+  let otherHeaders: Record<string, string>;
+  let ownerListId: string;
+  let ownerLabelId: string;
+  let ownerTaskId: string;
+  let ownerReminderId: string;
+  let ownerAttachmentId: string;
+  let otherListId: string;
+
+  beforeEach(async () => {
+    const owner = await createUser({
+      email: `test-owner-${Date.now()}@example.com`,
+      name: 'Owner',
+    });
+    ownerId = owner.id;
+
+    const otherUser = await createUser({
+      email: `test-other-${Date.now()}@example.com`,
+      name: 'Other User',
+    });
+    otherUserId = otherUser.id;
+    otherHeaders = await createAuthHeaders(otherUserId);
+
+    const ownerList = await prisma.list.create({
+      data: { name: 'Owner List', userId: ownerId },
+    });
+    ownerListId = ownerList.id;
+
+    const ownerLabel = await prisma.label.create({
+      data: { name: 'Owner Label', color: '#ff0000', userId: ownerId },
+    });
+    ownerLabelId = ownerLabel.id;
+
+    const ownerTask = await prisma.task.create({
+      data: {
+        name: 'Owner Task',
+        listId: ownerListId,
+        userId: ownerId,
+        reminders: { create: [{ datetime: new Date(Date.now() + 86400000) }] },
+        attachments: {
+          create: [{ name: 'plan.pdf', url: 'https://example.com/plan.pdf', type: 'application/pdf', size: 1024 }],
+        },
+      },
+      include: { reminders: true, attachments: true },
+    });
+    ownerTaskId = ownerTask.id;
+    ownerReminderId = ownerTask.reminders[0].id;
+    ownerAttachmentId = ownerTask.attachments[0].id;
+
+    const otherList = await prisma.list.create({
+      data: { name: 'Other List', userId: otherUserId },
+    });
+    otherListId = otherList.id;
+  });
+
+  afterEach(async () => {
+    const userIds = [ownerId, otherUserId];
+    const userTasks = await prisma.task.findMany({
+      where: { userId: { in: userIds } },
+      select: { id: true },
+    });
+    const taskIds = userTasks.map(task => task.id);
+
+    await prisma.taskHistory.deleteMany({ where: { taskId: { in: taskIds } } });
+    await prisma.attachment.deleteMany({ where: { taskId: { in: taskIds } } });
+    await prisma.reminder.deleteMany({ where: { taskId: { in: taskIds } } });
+    await prisma.task.deleteMany({ where: { userId: { in: userIds } } });
+    await prisma.label.deleteMany({ where: { userId: { in: userIds } } });
+    await prisma.list.deleteMany({ where: { userId: { in: userIds } } });
+    await prisma.user.deleteMany({ where: { id: { in: userIds } } });
+  });
+
+  it('should return 404 for tasks owned by another user', async () => {
+    const getResponse = await fetch(`${API_BASE_URL}/tasks/${ownerTaskId}`, { headers: otherHeaders });
+    expect(getResponse.status).toBe(404);
+
+    const putResponse = await fetch(`${API_BASE_URL}/tasks/${ownerTaskId}`, {
+      method: 'PUT',
+      headers: { ...otherHeaders, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Hijacked' }),
+    });
+    expect(putResponse.status).toBe(404);
+
+    const deleteResponse = await fetch(`${API_BASE_URL}/tasks/${ownerTaskId}`, {
+      method: 'DELETE',
+      headers: otherHeaders,
+    });
+    expect(deleteResponse.status).toBe(404);
+
+    const task = await prisma.task.findUnique({ where: { id: ownerTaskId } });
+    expect(task?.name).toBe('Owner Task');
+  });
+
+  it('should return 404 for lists and labels owned by another user', async () => {
+    const listResponse = await fetch(`${API_BASE_URL}/lists/${ownerListId}`, { headers: otherHeaders });
+    expect(listResponse.status).toBe(404);
+
+    const labelResponse = await fetch(`${API_BASE_URL}/labels/${ownerLabelId}`, {
+      method: 'DELETE',
+      headers: otherHeaders,
+    });
+    expect(labelResponse.status).toBe(404);
+  });
+
+  it('should return 404 for reminders and attachments on another user\'s task', async () => {
+    const reminderResponse = await fetch(`${API_BASE_URL}/reminders/${ownerReminderId}`, { headers: otherHeaders });
+    expect(reminderResponse.status).toBe(404);
+
+    const attachmentResponse = await fetch(`${API_BASE_URL}/attachments/${ownerAttachmentId}`, {
+      method: 'DELETE',
+      headers: otherHeaders,
+    });
+    expect(attachmentResponse.status).toBe(404);
+
+    const attachment = await prisma.attachment.findUnique({ where: { id: ownerAttachmentId } });
+    expect(attachment).not.toBeNull();
+  });
+
+  it('should reject creating a task in another user\'s list or with their labels', async () => {
+    const listResponse = await fetch(`${API_BASE_URL}/tasks`, {
+      method: 'POST',
+      headers: { ...otherHeaders, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Sneaky Task', listId: ownerListId }),
+    });
+    expect(listResponse.status).toBe(404);
+
+    const labelResponse = await fetch(`${API_BASE_URL}/tasks`, {
+      method: 'POST',
+      headers: { ...otherHeaders, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Sneaky Task', listId: otherListId, labels: [ownerLabelId] }),
+    });
+    expect(labelResponse.status).toBe(404);
+  });
+
+  it('should reject reminders on another user\'s task', async () => {
+    const response = await fetch(`${API_BASE_URL}/reminders`, {
+      method: 'POST',
+      headers: { ...otherHeaders, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ datetime: new Date().toISOString(), taskId: ownerTaskId }),
+    });
+    expect(response.status).toBe(404);
+  });
+});
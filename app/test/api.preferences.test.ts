@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import prisma from '@/lib/prisma';
+import { createUser } from '@/lib/db-utils';
+import { createAuthHeaders } from './helpers';
+
+const API_BASE_URL = 'http://localhost:32754/api';
+
+describe('Preferences API', () => {
+  let userId: string;
+  let authHeaders: Record<string, string>;
+
+  beforeEach(async () => {
+    const user = await createUser({
+      email: `test-preferences-${Date.now()}@example.com`,
+      name: 'Test Preferences User',
+    });
+    userId = user.id;
+    authHeaders = await createAuthHeaders(userId);
+  });
+
+  afterEach(async () => {
+    await prisma.user.deleteMany({ where: { id: userId } });
+  });
+
+  describe('GET /api/preferences', () => {
+    it('should return the defaults for a new user', async () => {
+      const response = await fetch(`${API_BASE_URL}/preferences`, { headers: authHeaders });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        timezone: 'UTC',
+        emailNotifications: true,
+        digestEnabled: false,
+        digestTime: '08:00',
+        autoRollover: false,
+        matrixUrgentDays: 2,
+        matrixImportantPriority: 2,
+        matrixImportantLabelIds: [],
+      });
+    });
+
+    it('should return 401 when not signed in', async () => {
+      const response = await fetch(`${API_BASE_URL}/preferences`);
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('PUT /api/preferences', () => {
+    it('should save the digest time and timezone', async () => {
+      const response = await fetch(`${API_BASE_URL}/preferences`, {
+        method: 'PUT',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ timezone: 'Europe/Berlin', digestEnabled: true, digestTime: '07:30' }),
+      });
+
+      expect(response.status).toBe(200);
+      const preferences = await response.json();
+      expect(preferences).toEqual(expect.objectContaining({
+        timezone: 'Europe/Berlin',
+        digestEnabled: true,
+        digestTime: '07:30',
+      }));
+    });
+
+    it('should return 400 for an unknown timezone', async () => {
+      const response = await fetch(`${API_BASE_URL}/preferences`, {
+        method: 'PUT',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ timezone: 'Mars/Olympus' }),
+      });
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.error).toBe('Validation error');
+    });
+
+    it('should return 400 for a malformed digest time', async () => {
+      const response = await fetch(`${API_BASE_URL}/preferences`, {
+        method: 'PUT',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ digestTime: '25:00' }),
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should save the Eisenhower matrix settings', async () => {
+      const label = await prisma.label.create({
+        data: { name: 'Focus', color: '#ff0000', userId },
+      });
+
+      const response = await fetch(`${API_BASE_URL}/preferences`, {
+        method: 'PUT',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ matrixUrgentDays: 5, matrixImportantPriority: 3, matrixImportantLabelIds: [label.id] }),
+      });
+
+      expect(response.status).toBe(200);
+      const preferences = await response.json();
+      expect(preferences).toEqual(expect.objectContaining({
+        matrixUrgentDays: 5,
+        matrixImportantPriority: 3,
+        matrixImportantLabelIds: [label.id],
+      }));
+
+      await prisma.label.deleteMany({ where: { userId } });
+    });
+
+    it('should return 404 for another user\'s important label', async () => {
+      const response = await fetch(`${API_BASE_URL}/preferences`, {
+        method: 'PUT',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ matrixImportantLabelIds: ['non-existent-label'] }),
+      });
+
+      expect(response.status).toBe(404);
+      const data = await response.json();
+      expect(data.error).toBe('Label not found');
+    });
+
+    it('should return 400 for an importance priority of none', async () => {
+      const response = await fetch(`${API_BASE_URL}/preferences`, {
+        method: 'PUT',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ matrixImportantPriority: 0 }),
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import prisma from '@/lib/prisma';
+import { createUser } from '@/lib/db-utils';
+import { createAuthHeaders } from './helpers';
+
+const API_BASE_URL = 'http://localhost:32754/api';
+
+describe('Push API', () => {
+  let userId: string;
+  let authHeaders: Record<string, string>;
+  let taskId: string;
+
+  const subscription = {
+    endpoint: `https://fcm.googleapis.com/fcm/send/${Date.now()}`,
+    keys: { p256dh: 'BNcRdreALRFXTkOOUHK1EtK2wtaz5Ry4YfYCA_0QTpQtUbVlUls0VJXg7A8u-Ts1XbjhazAkj7I99e8QcYP7DkM', auth: 'tBHItJI5svbpez7KI4CCXg' },
+  };
+
+  beforeEach(async () => {
+    const user = await createUser({
+      email: `test-push-${Date.now()}@example.com`,
+      name: 'Test Push User',
+    });
+    userId = user.id;
+    authHeaders = await createAuthHeaders(userId);
+
+    const list = await prisma.list.create({
+      data: { name: 'Push List', userId },
+    });
+
+    const task = await prisma.task.create({
+      data: { name: 'Call the dentist', listId: list.id, userId },
+    });
+    taskId = task.id;
+  });
+
+  afterEach(async () => {
+    await prisma.reminder.deleteMany({ where: { task: { userId } } });
+    await prisma.task.deleteMany({ where: { userId } });
+    await prisma.list.deleteMany({ where: { userId } });
+    await prisma.user.deleteMany({ where: { id: userId } });
+  });
+
+  describe('POST /api/push/subscriptions', () => {
+    it('should store the subscription for the signed-in user', async () => {
+      const response = await fetch(`${API_BASE_URL}/push/subscriptions`, {
+        method: 'POST',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify(subscription),
+      });
+
+      expect(response.status).toBe(201);
+      const saved = await response.json();
+      expect(saved).toEqual(expect.objectContaining({
+        userId,
+        endpoint: subscription.endpoint,
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth,
+      }));
+
+      // Subscribing the same browser again updates the existing row
+      await fetch(`${API_BASE_URL}/push/subscriptions`, {
+        method: 'POST',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify(subscription),
+      });
+      expect(await prisma.pushSubscription.count({ where: { endpoint: subscription.endpoint } })).toBe(1);
+    });
+
+    it('should return 400 for endpoints that aren\'t push services', async () => {
+      for (const endpoint of ['http://fcm.googleapis.com/fcm/send/abc', 'https://169.254.169.254/latest', 'https://example.com/hook']) {
+        const response = await fetch(`${API_BASE_URL}/push/subscriptions`, {
+          method: 'POST',
+          headers: { ...authHeaders, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...subscription, endpoint }),
+        });
+        expect(response.status).toBe(400);
+      }
+    });
+
+    it('should return 400 without encryption keys', async () => {
+      const response = await fetch(`${API_BASE_URL}/push/subscriptions`, {
+        method: 'POST',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ endpoint: subscription.endpoint }),
+      });
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.error).toBe('Validation error');
+    });
+  });
+
+  describe('DELETE /api/push/subscriptions', () => {
+    it('should remove the subscription', async () => {
+      await prisma.pushSubscription.create({
+        data: { userId, endpoint: subscription.endpoint, ...subscription.keys },
+      });
+
+      const response = await fetch(`${API_BASE_URL}/push/subscriptions`, {
+        method: 'DELETE',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ endpoint: subscription.endpoint }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(await prisma.pushSubscription.count({ where: { endpoint: subscription.endpoint } })).toBe(0);
+    });
+
+    it('should return 404 for an unknown endpoint', async () => {
+      const response = await fetch(`${API_BASE_URL}/push/subscriptions`, {
+        method: 'DELETE',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ endpoint: 'https://fcm.googleapis.com/fcm/send/unknown' }),
+      });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/reminders/[id]/snooze', () => {
+    it('should queue the reminder again after the snooze', async () => {
+      const datetime = new Date();
+      const reminder = await prisma.reminder.create({
+        data: { taskId, datetime, status: 'delivered', deliveredAt: new Date() },
+      });
+
+      const before = Date.now();
+      const response = await fetch(`${API_BASE_URL}/reminders/${reminder.id}/snooze`, {
+        method: 'POST',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ minutes: 10 }),
+      });
+
+      expect(response.status).toBe(200);
+      const snoozed = await response.json();
+      expect(snoozed.status).toBe('pending');
+      expect(new Date(snoozed.snoozedUntil).getTime()).toBeGreaterThanOrEqual(before + 10 * 60 * 1000);
+      // The original time is kept
+      expect(snoozed.datetime).toBe(datetime.toISOString());
+    });
+
+    it('should record every snooze in the history', async () => {
+      const reminder = await prisma.reminder.create({
+        data: { taskId, datetime: new Date() },
+      });
+
+      for (const minutes of [10, 30]) {
+        await fetch(`${API_BASE_URL}/reminders/${reminder.id}/snooze`, {
+          method: 'POST',
+          headers: { ...authHeaders, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ minutes }),
+        });
+      }
+
+      const response = await fetch(`${API_BASE_URL}/reminders/${reminder.id}`, { headers: authHeaders });
+      const data = await response.json();
+      expect(data.snoozes.map((snooze: { minutes: number }) => snooze.minutes)).toEqual([10, 30]);
+      expect(data.snoozedUntil).toBe(data.snoozes[1].until);
+    });
+
+    it('should keep the snooze when the task is edited', async () => {
+      const datetime = new Date('2030-01-01T09:00:00.000Z');
+      const reminder = await prisma.reminder.create({
+        data: { taskId, datetime },
+      });
+      await fetch(`${API_BASE_URL}/reminders/${reminder.id}/snooze`, {
+        method: 'POST',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ minutes: 30 }),
+      });
+      const snoozed = await prisma.reminder.findUniqueOrThrow({ where: { id: reminder.id } });
+
+      // Saved from the edit dialog, with and without the unchanged reminders
+      for (const body of [{ name: 'Call the dentist today' }, { name: 'Call the dentist now', reminders: [datetime.toISOString()] }]) {
+        const response = await fetch(`${API_BASE_URL}/tasks/${taskId}`, {
+          method: 'PUT',
+          headers: { ...authHeaders, 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        expect(response.status).toBe(200);
+      }
+
+      const kept = await prisma.reminder.findUnique({
+        where: { id: reminder.id },
+        include: { snoozes: true },
+      });
+      expect(kept?.snoozedUntil).toEqual(snoozed.snoozedUntil);
+      expect(kept?.snoozes.map(snooze => snooze.minutes)).toEqual([30]);
+    });
+
+    it('should return 404 for another user\'s reminder', async () => {
+      const response = await fetch(`${API_BASE_URL}/reminders/non-existent-id/snooze`, {
+        method: 'POST',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ minutes: 10 }),
+      });
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
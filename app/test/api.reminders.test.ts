@@ -1,9 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
 import prisma from '@/lib/prisma';
 import { deleteList, createUser } from '@/lib/db-utils';
+import { createAuthHeaders } from './helpers';
 
 const API_BASE_URL = 'http://localhost:32754/api';
 let DEFAULT_USER_ID: string;
+let authHeaders: Record<string, string>;
 
 describe('Reminders API', () => {
   let testListId: string;
@@ -18,6 +20,7 @@ describe('Reminders API', () => {
       name: 'Test Reminders User',
     });
     DEFAULT_USER_ID = testUser.id;
+    authHeaders = await createAuthHeaders(DEFAULT_USER_ID);
 
     // Delete all existing reminders to ensure test isolation
     await prisma.reminder.deleteMany({});
@@ -68,7 +71,7 @@ describe('Reminders API', () => {
     it('should create a new reminder with valid data', async () => {
       const response = await fetch(`${API_BASE_URL}/reminders`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
         body: JSON.stringify({
           datetime: new Date(Date.now() + 86400000).toISOString(), // Tomorrow
           taskId: testTaskId,
@@ -86,7 +89,7 @@ describe('Reminders API', () => {
     it('should return 400 error with invalid data', async () => {
       const response = await fetch(`${API_BASE_URL}/reminders`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
         body: JSON.stringify({
           // Missing required fields
         }),
@@ -99,6 +102,117 @@ describe('Reminders API', () => {
     });
   });
 
+  describe('Relative reminders', () => {
+    const deadline = new Date('2026-06-01T17:00:00Z');
+
+    it('should compute the time from the task deadline', async () => {
+      await prisma.task.update({ where: { id: testTaskId }, data: { deadline } });
+
+      const response = await fetch(`${API_BASE_URL}/reminders`, {
+        method: 'POST',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskId: testTaskId, anchor: 'deadline', offsetMinutes: 15 }),
+      });
+
+      expect(response.status).toBe(201);
+      const data = await response.json();
+      expect(data.anchor).toBe('deadline');
+      expect(data.offsetMinutes).toBe(15);
+      expect(data.datetime).toBe('2026-06-01T16:45:00.000Z');
+    });
+
+    it('should return 400 when the task has no deadline', async () => {
+      const response = await fetch(`${API_BASE_URL}/reminders`, {
+        method: 'POST',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskId: testTaskId, anchor: 'deadline', offsetMinutes: 15 }),
+      });
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.error).toBe('Validation error');
+    });
+
+    it('should move with the task and go back in the queue', async () => {
+      await prisma.task.update({ where: { id: testTaskId }, data: { deadline } });
+      const reminder = await prisma.reminder.create({
+        data: {
+          taskId: testTaskId,
+          datetime: new Date('2026-06-01T16:45:00Z'),
+          anchor: 'deadline',
+          offsetMinutes: 15,
+          status: 'delivered',
+          deliveredAt: new Date(),
+        },
+      });
+      const absolute = await prisma.reminder.create({
+        data: { taskId: testTaskId, datetime: new Date('2026-05-30T09:00:00Z') },
+      });
+
+      const response = await fetch(`${API_BASE_URL}/tasks/${testTaskId}`, {
+        method: 'PUT',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ deadline: '2026-06-03T12:00:00.000Z' }),
+      });
+      expect(response.status).toBe(200);
+
+      const moved = await prisma.reminder.findUnique({ where: { id: reminder.id } });
+      expect(moved?.datetime).toEqual(new Date('2026-06-03T11:45:00Z'));
+      expect(moved?.status).toBe('pending');
+
+      const unchanged = await prisma.reminder.findUnique({ where: { id: absolute.id } });
+      expect(unchanged?.datetime).toEqual(new Date('2026-05-30T09:00:00Z'));
+    });
+
+    it('should accept relative reminders when saving a task', async () => {
+      const response = await fetch(`${API_BASE_URL}/tasks/${testTaskId}`, {
+        method: 'PUT',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          deadline: deadline.toISOString(),
+          reminders: [{ anchor: 'deadline', offsetMinutes: 60 }, '2026-05-31T08:00:00.000Z'],
+        }),
+      });
+
+      expect(response.status).toBe(200);
+      const task = await response.json();
+      const datetimes = task.reminders.map((reminder: { datetime: string }) => reminder.datetime).sort();
+      expect(datetimes).toEqual(['2026-05-31T08:00:00.000Z', '2026-06-01T16:00:00.000Z']);
+    });
+
+    it('should keep delivered reminders when saving a task with the same reminders', async () => {
+      await prisma.task.update({ where: { id: testTaskId }, data: { deadline } });
+      const delivered = await prisma.reminder.create({
+        data: {
+          taskId: testTaskId,
+          datetime: new Date('2026-05-31T08:00:00Z'),
+          status: 'delivered',
+          deliveredAt: new Date(),
+        },
+      });
+      const removed = await prisma.reminder.create({
+        data: { taskId: testTaskId, datetime: new Date('2026-06-01T16:45:00Z'), anchor: 'deadline', offsetMinutes: 15 },
+      });
+
+      const response = await fetch(`${API_BASE_URL}/tasks/${testTaskId}`, {
+        method: 'PUT',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: 'Renamed task',
+          reminders: ['2026-05-31T08:00:00.000Z', { anchor: 'deadline', offsetMinutes: 60 }],
+        }),
+      });
+      expect(response.status).toBe(200);
+
+      const kept = await prisma.reminder.findUnique({ where: { id: delivered.id } });
+      expect(kept?.status).toBe('delivered');
+      expect(await prisma.reminder.findUnique({ where: { id: removed.id } })).toBeNull();
+
+      const reminders = await prisma.reminder.findMany({ where: { taskId: testTaskId } });
+      expect(reminders).toHaveLength(2);
+    });
+  });
+
   describe('GET /api/reminders', () => {
     it('should return all reminders', async () => {
       // Create multiple reminders
@@ -115,7 +229,7 @@ describe('Reminders API', () => {
         },
       });
 
-      const response = await fetch(`${API_BASE_URL}/reminders`);
+      const response = await fetch(`${API_BASE_URL}/reminders`, { headers: authHeaders });
       expect(response.status).toBe(200);
       const data = await response.json();
       expect(data.data).toBeInstanceOf(Array);
@@ -151,7 +265,7 @@ describe('Reminders API', () => {
         },
       });
 
-      const response = await fetch(`${API_BASE_URL}/reminders?taskId=${testTaskId}`);
+      const response = await fetch(`${API_BASE_URL}/reminders?taskId=${testTaskId}`, { headers: authHeaders });
       expect(response.status).toBe(200);
       const data = await response.json();
       expect(data.data).toBeInstanceOf(Array);
@@ -188,7 +302,7 @@ describe('Reminders API', () => {
       }
       await Promise.all(reminders);
 
-      const response = await fetch(`${API_BASE_URL}/reminders?page=2&limit=5`);
+      const response = await fetch(`${API_BASE_URL}/reminders?page=2&limit=5`, { headers: authHeaders });
       expect(response.status).toBe(200);
       const data = await response.json();
       expect(data.data).toBeInstanceOf(Array);
@@ -211,7 +325,7 @@ describe('Reminders API', () => {
         },
       });
 
-      const response = await fetch(`${API_BASE_URL}/reminders/${testReminder.id}`);
+      const response = await fetch(`${API_BASE_URL}/reminders/${testReminder.id}`, { headers: authHeaders });
       expect(response.status).toBe(200);
       const data = await response.json();
       expect(data).toEqual(expect.objectContaining({
@@ -222,7 +336,7 @@ describe('Reminders API', () => {
     });
 
     it('should return 404 for non-existent reminder', async () => {
-      const response = await fetch(`${API_BASE_URL}/reminders/non-existent-id`);
+      const response = await fetch(`${API_BASE_URL}/reminders/non-existent-id`, { headers: authHeaders });
       expect(response.status).toBe(404);
     });
   });
@@ -239,7 +353,7 @@ describe('Reminders API', () => {
       const newDatetime = new Date(Date.now() + 172800000).toISOString();
       const response = await fetch(`${API_BASE_URL}/reminders/${testReminder.id}`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
         body: JSON.stringify({ datetime: newDatetime }),
       });
 
@@ -249,10 +363,36 @@ describe('Reminders API', () => {
       expect(data.datetime).toEqual(new Date(newDatetime).toISOString());
     });
 
+    it('should queue a delivered reminder again when it is moved', async () => {
+      const testReminder = await prisma.reminder.create({
+        data: {
+          datetime: new Date(Date.now() - 60000),
+          taskId: testTaskId,
+          status: 'delivered',
+          attempts: 1,
+          deliveredAt: new Date(),
+          deliveries: { create: { channel: 'webhook' } },
+        },
+      });
+
+      const response = await fetch(`${API_BASE_URL}/reminders/${testReminder.id}`, {
+        method: 'PUT',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ datetime: new Date(Date.now() + 86400000).toISOString() }),
+      });
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.status).toBe('pending');
+      expect(data.attempts).toBe(0);
+      expect(data.deliveredAt).toBeNull();
+      expect(await prisma.reminderDelivery.count({ where: { reminderId: testReminder.id } })).toBe(0);
+    });
+
     it('should return 404 for non-existent reminder', async () => {
       const response = await fetch(`${API_BASE_URL}/reminders/non-existent-id`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
         body: JSON.stringify({ datetime: new Date().toISOString() }),
       });
       expect(response.status).toBe(404);
@@ -268,7 +408,7 @@ describe('Reminders API', () => {
 
       const response = await fetch(`${API_BASE_URL}/reminders/${testReminder.id}`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
         body: JSON.stringify({ datetime: 'invalid-date' }),
       });
       expect(response.status).toBe(400);
@@ -286,6 +426,7 @@ describe('Reminders API', () => {
 
       const response = await fetch(`${API_BASE_URL}/reminders/${testReminder.id}`, {
         method: 'DELETE',
+        headers: authHeaders,
       });
       expect(response.status).toBe(200);
       const data = await response.json();
@@ -301,8 +442,25 @@ describe('Reminders API', () => {
     it('should return 404 for non-existent reminder', async () => {
       const response = await fetch(`${API_BASE_URL}/reminders/non-existent-id`, {
         method: 'DELETE',
+        headers: authHeaders,
       });
       expect(response.status).toBe(404);
     });
   });
+
+  describe('GET /api/cron/reminders', () => {
+    it('should reject requests without the cron secret', async () => {
+      const response = await fetch(`${API_BASE_URL}/cron/reminders`, {
+        headers: authHeaders,
+      });
+      expect(response.status).toBe(401);
+    });
+
+    it('should reject a wrong cron secret', async () => {
+      const response = await fetch(`${API_BASE_URL}/cron/reminders`, {
+        headers: { Authorization: 'Bearer wrong-secret' },
+      });
+      expect(response.status).toBe(401);
+    });
+  });
 });
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import prisma from '@/lib/prisma';
+import { createUser, processRollovers, rollOverTasks } from '@/lib/db-utils';
+import { createAuthHeaders } from './helpers';
+
+const API_BASE_URL = 'http://localhost:32754/api';
+const DAY_MS = 24 * 60 * 60 * 1000;
+let DEFAULT_USER_ID: string;
+let authHeaders: Record<string, string>;
+
+describe('Task Rollover API', () => {
+  let testListId: string;
+  let today: Date;
+
+  beforeEach(async () => {
+    // Create a test user first with unique email
+    const testEmail = `test-rollover-${Date.now()}@example.com`;
+    const testUser = await createUser({
+      email: testEmail,
+      name: 'Test Rollover User',
+    });
+    DEFAULT_USER_ID = testUser.id;
+    authHeaders = await createAuthHeaders(DEFAULT_USER_ID);
+
+    const testList = await prisma.list.create({
+      data: {
+        name: 'Test List',
+        emoji: '📝',
+        color: '#000000',
+        isDefault: false,
+        isFavorite: false,
+        userId: DEFAULT_USER_ID,
+      },
+    });
+    testListId = testList.id;
+
+    // Stored dates are UTC days, and the test user's timezone is UTC
+    const now = new Date();
+    today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  });
+
+  afterEach(async () => {
+    const tasks = await prisma.task.findMany({ where: { userId: DEFAULT_USER_ID }, select: { id: true } });
+    const taskIds = tasks.map(task => task.id);
+    await prisma.taskHistory.deleteMany({ where: { taskId: { in: taskIds } } });
+    await prisma.reminder.deleteMany({ where: { taskId: { in: taskIds } } });
+    await prisma.task.deleteMany({ where: { userId: DEFAULT_USER_ID } });
+    await prisma.list.deleteMany({ where: { userId: DEFAULT_USER_ID } });
+    await prisma.user.deleteMany({ where: { id: DEFAULT_USER_ID } });
+  });
+
+  const createTask = (name: string, data: { date?: Date; completedAt?: Date } = {}) =>
+    prisma.task.create({
+      data: { name, listId: testListId, userId: DEFAULT_USER_ID, ...data },
+    });
+
+  const rollOver = () =>
+    fetch(`${API_BASE_URL}/tasks/rollover`, {
+      method: 'POST',
+      headers: authHeaders,
+    });
+
+  describe('POST /api/tasks/rollover', () => {
+    it("should move yesterday's unfinished tasks to today", async () => {
+      const task = await createTask('Left over', { date: new Date(today.getTime() - DAY_MS + 9 * 60 * 60 * 1000) });
+
+      const response = await rollOver();
+      expect(response.status).toBe(200);
+
+      const data = await response.json();
+      expect(data).toEqual({ taskIds: [task.id], count: 1 });
+
+      const updated = await prisma.task.findUnique({ where: { id: task.id } });
+      expect(updated?.date).toEqual(new Date(today.getTime() + 9 * 60 * 60 * 1000));
+    });
+
+    it('should record the move in the task history', async () => {
+      const task = await createTask('Left over', { date: new Date(today.getTime() - DAY_MS) });
+
+      await rollOver();
+
+      const history = await prisma.taskHistory.findMany({ where: { taskId: task.id } });
+      expect(history).toEqual([
+        expect.objectContaining({
+          action: 'rolled over',
+          oldValue: new Date(today.getTime() - DAY_MS).toISOString(),
+          newValue: today.toISOString(),
+          changedBy: DEFAULT_USER_ID,
+        }),
+      ]);
+    });
+
+    it('should leave completed, older and undated tasks alone', async () => {
+      await createTask('Done', { date: new Date(today.getTime() - DAY_MS), completedAt: new Date() });
+      await createTask('Long overdue', { date: new Date(today.getTime() - 2 * DAY_MS) });
+      await createTask('Someday');
+
+      const response = await rollOver();
+      const data = await response.json();
+      expect(data.count).toBe(0);
+    });
+
+    it('should require authentication', async () => {
+      const response = await fetch(`${API_BASE_URL}/tasks/rollover`, { method: 'POST' });
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('rollOverTasks', () => {
+    it("should use the user's local days outside UTC", async () => {
+      const user = await prisma.user.update({ where: { id: DEFAULT_USER_ID }, data: { timezone: 'America/New_York' } });
+      // 22:00 on March 3 in New York, already March 4 in UTC
+      const now = new Date('2026-03-04T03:00:00Z');
+      const evening = await createTask('Yesterday evening', { date: new Date('2026-03-03T02:00:00Z') });
+      const allDay = await createTask('Yesterday, all day', { date: new Date('2026-03-02T00:00:00Z') });
+      await createTask('Today, all day', { date: new Date('2026-03-03T00:00:00Z') });
+
+      const moved = await rollOverTasks(user, now);
+      expect(moved.sort()).toEqual([evening.id, allDay.id].sort());
+
+      expect((await prisma.task.findUnique({ where: { id: evening.id } }))?.date).toEqual(new Date('2026-03-04T02:00:00Z'));
+      expect((await prisma.task.findUnique({ where: { id: allDay.id } }))?.date).toEqual(new Date('2026-03-03T00:00:00Z'));
+    });
+  });
+
+  describe('processRollovers', () => {
+    it('should roll over once a day for users who turned it on', async () => {
+      await prisma.user.update({ where: { id: DEFAULT_USER_ID }, data: { autoRollover: true } });
+      const task = await createTask('Left over', { date: new Date(today.getTime() - DAY_MS) });
+
+      const first = await processRollovers();
+      expect(first.tasks).toBeGreaterThanOrEqual(1);
+
+      const updated = await prisma.task.findUnique({ where: { id: task.id } });
+      expect(updated?.date).toEqual(today);
+
+      const user = await prisma.user.findUnique({ where: { id: DEFAULT_USER_ID } });
+      expect(user?.lastRolloverDate).toBe(today.toISOString().slice(0, 10));
+
+      // The day is claimed, so a second run doesn't touch the user again
+      await prisma.task.update({ where: { id: task.id }, data: { date: new Date(today.getTime() - DAY_MS) } });
+      await processRollovers();
+      const unchanged = await prisma.task.findUnique({ where: { id: task.id } });
+      expect(unchanged?.date).toEqual(new Date(today.getTime() - DAY_MS));
+    });
+
+    it('should skip users without automatic rollover', async () => {
+      const task = await createTask('Left over', { date: new Date(today.getTime() - DAY_MS) });
+
+      await processRollovers();
+
+      const unchanged = await prisma.task.findUnique({ where: { id: task.id } });
+      expect(unchanged?.date).toEqual(new Date(today.getTime() - DAY_MS));
+    });
+  });
+
+  describe('GET /api/cron/rollover', () => {
+    it('should reject requests without the cron secret', async () => {
+      const response = await fetch(`${API_BASE_URL}/cron/rollover`, {
+        headers: authHeaders,
+      });
+      expect(response.status).toBe(401);
+    });
+  });
+});
@@ -1,9 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
 import prisma from '@/lib/prisma';
 import { createUser } from '@/lib/db-utils';
+import { createAuthHeaders } from './helpers';
 
 const API_BASE_URL = 'http://localhost:32754/api';
 let DEFAULT_USER_ID: string;
+let authHeaders: Record<string, string>;
 
 describe('Search API', () => {
   let testListId: string;
@@ -19,6 +21,7 @@ describe('Search API', () => {
       name: 'Test Search User',
     });
     DEFAULT_USER_ID = testUser.id;
+    authHeaders = await createAuthHeaders(DEFAULT_USER_ID);
 
     // Create a test list
     const testList = await prisma.list.create({
@@ -87,7 +90,7 @@ describe('Search API', () => {
 
   describe('GET /api/search', () => {
     it('should search tasks with query parameter', async () => {
-      const response = await fetch(`${API_BASE_URL}/search?q=Test`);
+      const response = await fetch(`${API_BASE_URL}/search?q=Test`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const data = await response.json();
@@ -101,7 +104,7 @@ describe('Search API', () => {
     });
 
     it('should search tasks with specific query', async () => {
-      const response = await fetch(`${API_BASE_URL}/search?q=Important`);
+      const response = await fetch(`${API_BASE_URL}/search?q=Important`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const data = await response.json();
@@ -112,7 +115,7 @@ describe('Search API', () => {
     });
 
     it('should return 400 error without query parameter', async () => {
-      const response = await fetch(`${API_BASE_URL}/search`);
+      const response = await fetch(`${API_BASE_URL}/search`, { headers: authHeaders });
       expect(response.status).toBe(400);
       
       const data = await response.json();
@@ -123,7 +126,7 @@ describe('Search API', () => {
     });
 
     it('should search with list filter', async () => {
-      const response = await fetch(`${API_BASE_URL}/search?q=Test&listId=${testListId}`);
+      const response = await fetch(`${API_BASE_URL}/search?q=Test&listId=${testListId}`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const data = await response.json();
@@ -134,7 +137,7 @@ describe('Search API', () => {
     });
 
     it('should search with priority filter', async () => {
-      const response = await fetch(`${API_BASE_URL}/search?q=Test&priority=3`);
+      const response = await fetch(`${API_BASE_URL}/search?q=Test&priority=3`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const data = await response.json();
@@ -151,7 +154,7 @@ describe('Search API', () => {
         data: { completedAt: new Date() },
       });
 
-      const response = await fetch(`${API_BASE_URL}/search?q=Test&completed=true`);
+      const response = await fetch(`${API_BASE_URL}/search?q=Test&completed=true`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const data = await response.json();
@@ -162,7 +165,7 @@ describe('Search API', () => {
     });
 
     it('should return paginated search results', async () => {
-      const response = await fetch(`${API_BASE_URL}/search?q=Test&page=1&limit=1`);
+      const response = await fetch(`${API_BASE_URL}/search?q=Test&page=1&limit=1`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const data = await response.json();
@@ -172,7 +175,7 @@ describe('Search API', () => {
     });
 
     it('should return tasks with search scores', async () => {
-      const response = await fetch(`${API_BASE_URL}/search?q=Test`);
+      const response = await fetch(`${API_BASE_URL}/search?q=Test`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const data = await response.json();
@@ -194,7 +197,7 @@ describe('Search API', () => {
         },
       });
 
-      const response = await fetch(`${API_BASE_URL}/search?q=Test`);
+      const response = await fetch(`${API_BASE_URL}/search?q=Test`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const data = await response.json();
@@ -208,5 +211,75 @@ describe('Search API', () => {
       // Cleanup
       await prisma.task.delete({ where: { id: exactMatchTask.id } });
     });
+
+    it('should rank across pages before paging', async () => {
+      const response = await fetch(`${API_BASE_URL}/search?q=regular&limit=1`, { headers: authHeaders });
+      const data = await response.json();
+
+      // The higher priority task no longer comes first just because of the sort order
+      expect(data.data.map((task: any) => task.id)).toEqual([testTask2Id]);
+      expect(data.pagination.total).toBe(1);
+    });
+
+    it('should search label, subtask, list and attachment names', async () => {
+      await prisma.task.create({
+        data: { name: 'Pack for trip', parentId: testTask2Id, listId: testListId, userId: DEFAULT_USER_ID },
+      });
+      await prisma.attachment.create({
+        data: { name: 'itinerary.pdf', url: 'https://example.com/itinerary.pdf', type: 'application/pdf', size: 10, taskId: testTask1Id },
+      });
+
+      const search = async (q: string) => {
+        const response = await fetch(`${API_BASE_URL}/search?q=${encodeURIComponent(q)}`, { headers: authHeaders });
+        return (await response.json()).data.map((task: any) => task.id);
+      };
+
+      expect(await search('label')).toEqual([testTask1Id]);
+      expect(await search('trip')).toContain(testTask2Id);
+      expect(await search('itinerary')).toEqual([testTask1Id]);
+      expect((await search('list')).sort()).toEqual([testTask1Id, testTask2Id].sort());
+    });
+
+    it('should tolerate typos', async () => {
+      const response = await fetch(`${API_BASE_URL}/search?q=importnat`, { headers: authHeaders });
+      const data = await response.json();
+      expect(data.data.map((task: any) => task.id)).toEqual([testTask1Id]);
+    });
+
+    it('should return highlighted snippets', async () => {
+      const response = await fetch(`${API_BASE_URL}/search?q=important`, { headers: authHeaders });
+      const [task] = (await response.json()).data;
+
+      expect(task.snippets).toEqual([
+        { field: 'name', parts: [{ text: 'Important', highlight: true }, { text: ' Task', highlight: false }] },
+        expect.objectContaining({ field: 'description' }),
+      ]);
+    });
+
+    it('should apply query filters', async () => {
+      const q = encodeURIComponent('task label:"test label" priority>=2 is:open');
+      const response = await fetch(`${API_BASE_URL}/search?q=${q}`, { headers: authHeaders });
+      expect(response.status).toBe(200);
+
+      const data = await response.json();
+      expect(data.data.map((task: any) => task.id)).toEqual([testTask1Id]);
+    });
+
+    it('should list every match for a query of only filters', async () => {
+      const response = await fetch(`${API_BASE_URL}/search?q=${encodeURIComponent('-label:"Test Label"')}`, { headers: authHeaders });
+      const data = await response.json();
+
+      expect(data.data.map((task: any) => task.id)).toEqual([testTask2Id]);
+      expect(data.data[0].snippets).toEqual([]);
+    });
+
+    it('should report invalid filters with their position', async () => {
+      const response = await fetch(`${API_BASE_URL}/search?q=${encodeURIComponent('task list:Nowhere')}`, { headers: authHeaders });
+      expect(response.status).toBe(400);
+
+      const data = await response.json();
+      expect(data.error).toBe('Invalid query');
+      expect(data.details).toEqual([{ message: 'No list named "Nowhere"', start: 5, end: 17 }]);
+    });
   });
 });
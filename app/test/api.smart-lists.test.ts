@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import prisma from '@/lib/prisma';
+import { createUser } from '@/lib/db-utils';
+import { createAuthHeaders } from './helpers';
+
+const API_BASE_URL = 'http://localhost:32754/api';
+let DEFAULT_USER_ID: string;
+let authHeaders: Record<string, string>;
+
+describe('Smart Lists API', () => {
+  let testListId: string;
+  let testLabelId: string;
+
+  beforeEach(async () => {
+    // Create a test user first with unique email
+    const testEmail = `test-smart-lists-${Date.now()}@example.com`;
+    const testUser = await createUser({
+      email: testEmail,
+      name: 'Test Smart Lists User',
+    });
+    DEFAULT_USER_ID = testUser.id;
+    authHeaders = await createAuthHeaders(DEFAULT_USER_ID);
+
+    const testList = await prisma.list.create({
+      data: {
+        name: 'Work',
+        emoji: '💼',
+        color: '#000000',
+        isDefault: false,
+        isFavorite: false,
+        userId: DEFAULT_USER_ID,
+      },
+    });
+    testListId = testList.id;
+
+    const testLabel = await prisma.label.create({
+      data: {
+        name: 'Urgent',
+        color: '#ff0000',
+        userId: DEFAULT_USER_ID,
+      },
+    });
+    testLabelId = testLabel.id;
+
+    await prisma.task.createMany({
+      data: [
+        { name: 'Urgent work task', priority: 3, listId: testListId, userId: DEFAULT_USER_ID },
+        { name: 'Low work task', priority: 1, listId: testListId, userId: DEFAULT_USER_ID },
+        { name: 'Done work task', priority: 3, listId: testListId, userId: DEFAULT_USER_ID, completedAt: new Date() },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    await prisma.smartList.deleteMany({ where: { userId: DEFAULT_USER_ID } });
+    await prisma.task.deleteMany({ where: { userId: DEFAULT_USER_ID } });
+    await prisma.label.deleteMany({ where: { userId: DEFAULT_USER_ID } });
+    await prisma.list.deleteMany({ where: { userId: DEFAULT_USER_ID } });
+    await prisma.user.deleteMany({ where: { id: DEFAULT_USER_ID } });
+  });
+
+  const createSmartList = (body: Record<string, unknown>) =>
+    fetch(`${API_BASE_URL}/smart-lists`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      body: JSON.stringify(body),
+    });
+
+  describe('POST /api/smart-lists', () => {
+    it('should save filters and count the open tasks they match', async () => {
+      const response = await createSmartList({
+        name: 'Urgent at work',
+        emoji: '🔥',
+        filters: { query: 'list:Work', priority: 3 },
+      });
+      expect(response.status).toBe(201);
+
+      const data = await response.json();
+      expect(data).toEqual(expect.objectContaining({
+        name: 'Urgent at work',
+        emoji: '🔥',
+        isFavorite: false,
+        order: 0,
+        count: 1,
+      }));
+      expect(data.filters).toEqual(expect.objectContaining({
+        query: 'list:Work',
+        priority: 3,
+        sortBy: 'date',
+        showCompleted: false,
+      }));
+    });
+
+    it('should add new smart lists at the end', async () => {
+      await createSmartList({ name: 'First', filters: {} });
+      const response = await createSmartList({ name: 'Second', filters: {} });
+
+      const data = await response.json();
+      expect(data.order).toBe(1);
+      expect(data.count).toBe(2);
+    });
+
+    it('should return 400 for an invalid query', async () => {
+      const response = await createSmartList({ name: 'Broken', filters: { query: 'list:Home' } });
+      expect(response.status).toBe(400);
+
+      const data = await response.json();
+      expect(data.error).toBe('Invalid query');
+      expect(data.details[0].message).toBe('No list named "Home"');
+    });
+
+    it('should return 400 for a backwards date window', async () => {
+      const response = await createSmartList({
+        name: 'Backwards',
+        filters: { dateWindow: { field: 'date', from: 7, to: 0 } },
+      });
+      expect(response.status).toBe(400);
+
+      const data = await response.json();
+      expect(data.error).toBe('Validation error');
+    });
+
+    it('should return 404 for another user\'s label', async () => {
+      const otherUser = await createUser({ email: `test-smart-lists-other-${Date.now()}@example.com` });
+      const otherLabel = await prisma.label.create({
+        data: { name: 'Other', color: '#00ff00', userId: otherUser.id },
+      });
+
+      const response = await createSmartList({ name: 'Theirs', filters: { labelId: otherLabel.id } });
+      expect(response.status).toBe(404);
+
+      await prisma.label.deleteMany({ where: { userId: otherUser.id } });
+      await prisma.list.deleteMany({ where: { userId: otherUser.id } });
+      await prisma.user.deleteMany({ where: { id: otherUser.id } });
+    });
+  });
+
+  describe('GET /api/smart-lists', () => {
+    it('should return favorites first with live counts', async () => {
+      await createSmartList({ name: 'Everything', filters: {} });
+      await createSmartList({ name: 'Labelled', isFavorite: true, filters: { labelId: testLabelId } });
+
+      const response = await fetch(`${API_BASE_URL}/smart-lists`, { headers: authHeaders });
+      expect(response.status).toBe(200);
+
+      const data = await response.json();
+      expect(data.map((smartList: any) => smartList.name)).toEqual(['Labelled', 'Everything']);
+      expect(data.map((smartList: any) => smartList.count)).toEqual([0, 2]);
+    });
+
+    it('should return 401 without a session', async () => {
+      const response = await fetch(`${API_BASE_URL}/smart-lists`);
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('PUT /api/smart-lists/[id]', () => {
+    it('should rename, reorder and change the filters', async () => {
+      const created = await (await createSmartList({ name: 'Work', filters: {} })).json();
+
+      const response = await fetch(`${API_BASE_URL}/smart-lists/${created.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...authHeaders },
+        body: JSON.stringify({ name: 'Low priority', order: 4, filters: { query: 'p:low' } }),
+      });
+      expect(response.status).toBe(200);
+
+      const data = await response.json();
+      expect(data.name).toBe('Low priority');
+      expect(data.order).toBe(4);
+      expect(data.filters.query).toBe('p:low');
+      expect(data.count).toBe(1);
+    });
+
+    it('should return 404 for a non-existent smart list', async () => {
+      const response = await fetch(`${API_BASE_URL}/smart-lists/non-existent-id`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...authHeaders },
+        body: JSON.stringify({ name: 'Nothing' }),
+      });
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/smart-lists/[id]', () => {
+    it('should delete the smart list but not its tasks', async () => {
+      const created = await (await createSmartList({ name: 'Work', filters: { listId: testListId } })).json();
+
+      const response = await fetch(`${API_BASE_URL}/smart-lists/${created.id}`, {
+        method: 'DELETE',
+        headers: authHeaders,
+      });
+      expect(response.status).toBe(200);
+
+      const data = await response.json();
+      expect(data.message).toBe('Smart list deleted successfully');
+      expect(await prisma.smartList.findUnique({ where: { id: created.id } })).toBeNull();
+      expect(await prisma.task.count({ where: { userId: DEFAULT_USER_ID } })).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import prisma from '@/lib/prisma';
+import { createUser } from '@/lib/db-utils';
+import { createAuthHeaders } from './helpers';
+
+const API_BASE_URL = 'http://localhost:32754/api';
+
+describe('Stats API', () => {
+  let userId: string;
+  let authHeaders: Record<string, string>;
+
+  beforeEach(async () => {
+    const user = await createUser({
+      email: `test-stats-${Date.now()}@example.com`,
+      name: 'Test Stats User',
+    });
+    userId = user.id;
+    authHeaders = await createAuthHeaders(userId);
+
+    const list = await prisma.list.create({
+      data: { name: 'Stats List', color: 'blue', userId },
+    });
+
+    await prisma.task.createMany({
+      data: [
+        { name: 'Done', listId: list.id, userId, completedAt: new Date(), estimates: 30, actualTime: 40 },
+        { name: 'Late', listId: list.id, userId, deadline: new Date(Date.now() - 60 * 60 * 1000) },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    await prisma.task.deleteMany({ where: { userId } });
+    await prisma.list.deleteMany({ where: { userId } });
+    await prisma.user.deleteMany({ where: { id: userId } });
+  });
+
+  describe('GET /api/stats', () => {
+    it('should return 401 without a session', async () => {
+      const response = await fetch(`${API_BASE_URL}/stats`);
+      expect(response.status).toBe(401);
+    });
+
+    it('should return statistics for the last 30 days', async () => {
+      const response = await fetch(`${API_BASE_URL}/stats`, { headers: authHeaders });
+      expect(response.status).toBe(200);
+
+      const stats = await response.json();
+      expect(stats).toEqual(expect.objectContaining({
+        total: 2,
+        completed: 1,
+        overdue: 1,
+        completionRate: 0.5,
+        time: { estimated: 30, actual: 40 },
+      }));
+      expect(stats.byList).toContainEqual(
+        expect.objectContaining({ name: 'Stats List', total: 2, completed: 1 })
+      );
+      expect(stats.streak.current).toBe(1);
+    });
+
+    it('should return 400 for an inverted range', async () => {
+      const response = await fetch(
+        `${API_BASE_URL}/stats?from=2030-02-01T00:00:00.000Z&to=2030-01-01T00:00:00.000Z`,
+        { headers: authHeaders }
+      );
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -1,9 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
 import prisma from '@/lib/prisma';
 import { deleteList, createUser } from '@/lib/db-utils';
+import { createAuthHeaders } from './helpers';
 
 const API_BASE_URL = 'http://localhost:32754/api';
 let DEFAULT_USER_ID: string;
+let authHeaders: Record<string, string>;
 
 describe('Tasks API', () => {
   let testListId: string;
@@ -17,6 +19,7 @@ describe('Tasks API', () => {
       name: 'Test Tasks User',
     });
     DEFAULT_USER_ID = testUser.id;
+    authHeaders = await createAuthHeaders(DEFAULT_USER_ID);
 
     // Create a test list to associate with tasks
     const testList = await prisma.list.create({
@@ -62,8 +65,13 @@ describe('Tasks API', () => {
   });
 
   describe('GET /api/tasks', () => {
-    it('should return all tasks with pagination', async () => {
+    it('should return 401 without a session', async () => {
       const response = await fetch(`${API_BASE_URL}/tasks`);
+      expect(response.status).toBe(401);
+    });
+
+    it('should return all tasks with pagination', async () => {
+      const response = await fetch(`${API_BASE_URL}/tasks`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const data = await response.json();
@@ -79,7 +87,7 @@ describe('Tasks API', () => {
     });
 
     it('should return filtered tasks by list ID', async () => {
-      const response = await fetch(`${API_BASE_URL}/tasks?listId=${testListId}`);
+      const response = await fetch(`${API_BASE_URL}/tasks?listId=${testListId}`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const data = await response.json();
@@ -90,7 +98,7 @@ describe('Tasks API', () => {
     });
 
     it('should return filtered tasks by priority', async () => {
-      const response = await fetch(`${API_BASE_URL}/tasks?priority=1`);
+      const response = await fetch(`${API_BASE_URL}/tasks?priority=1`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const data = await response.json();
@@ -101,15 +109,36 @@ describe('Tasks API', () => {
     });
 
     it('should return filtered tasks by search term', async () => {
-      const response = await fetch(`${API_BASE_URL}/tasks?search=Test`);
+      const response = await fetch(`${API_BASE_URL}/tasks?search=Test`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const data = await response.json();
       expect(data.data).toBeInstanceOf(Array);
     });
 
+    it('should return tasks matching a query', async () => {
+      await prisma.task.create({
+        data: { name: 'Urgent report', listId: testListId, userId: DEFAULT_USER_ID, priority: 3 },
+      });
+
+      const q = encodeURIComponent('list:"test list for tasks" priority>=2 report');
+      const response = await fetch(`${API_BASE_URL}/tasks?q=${q}`, { headers: authHeaders });
+      expect(response.status).toBe(200);
+
+      const data = await response.json();
+      expect(data.data.map((task: any) => task.name)).toEqual(['Urgent report']);
+    });
+
+    it('should return 400 for an invalid query', async () => {
+      const response = await fetch(`${API_BASE_URL}/tasks?q=${encodeURIComponent('due<someday')}`, { headers: authHeaders });
+      expect(response.status).toBe(400);
+
+      const data = await response.json();
+      expect(data.details[0]).toEqual(expect.objectContaining({ start: 0, end: 11 }));
+    });
+
     it('should return paginated results', async () => {
-      const response = await fetch(`${API_BASE_URL}/tasks?page=1&limit=2`);
+      const response = await fetch(`${API_BASE_URL}/tasks?page=1&limit=2`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const data = await response.json();
@@ -135,6 +164,7 @@ describe('Tasks API', () => {
       const response = await fetch(`${API_BASE_URL}/tasks`, {
         method: 'POST',
         headers: {
+          ...authHeaders,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(newTask),
@@ -164,6 +194,7 @@ describe('Tasks API', () => {
       const response = await fetch(`${API_BASE_URL}/tasks`, {
         method: 'POST',
         headers: {
+          ...authHeaders,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(invalidTask),
@@ -181,7 +212,7 @@ describe('Tasks API', () => {
 
   describe('GET /api/tasks/[id]', () => {
     it('should return a specific task by ID', async () => {
-      const response = await fetch(`${API_BASE_URL}/tasks/${testTaskId}`);
+      const response = await fetch(`${API_BASE_URL}/tasks/${testTaskId}`, { headers: authHeaders });
       expect(response.status).toBe(200);
       
       const task = await response.json();
@@ -194,7 +225,7 @@ describe('Tasks API', () => {
 
     it('should return 404 for non-existent task', async () => {
       const nonExistentId = 'non-existent-id';
-      const response = await fetch(`${API_BASE_URL}/tasks/${nonExistentId}`);
+      const response = await fetch(`${API_BASE_URL}/tasks/${nonExistentId}`, { headers: authHeaders });
       expect(response.status).toBe(404);
       
       const data = await response.json();
@@ -216,6 +247,7 @@ describe('Tasks API', () => {
       const response = await fetch(`${API_BASE_URL}/tasks/${testTaskId}`, {
         method: 'PUT',
         headers: {
+          ...authHeaders,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(updates),
@@ -233,11 +265,65 @@ describe('Tasks API', () => {
       }));
     });
 
+    it('should move a task to another board column', async () => {
+      const response = await fetch(`${API_BASE_URL}/tasks/${testTaskId}`, {
+        method: 'PUT',
+        headers: {
+          ...authHeaders,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status: 'In Progress', priority: 3, order: 2 }),
+      });
+
+      expect(response.status).toBe(200);
+
+      const task = await response.json();
+      expect(task).toEqual(expect.objectContaining({
+        status: 'In Progress',
+        priority: 3,
+        order: 2,
+      }));
+    });
+
+    it('should create the next occurrence when completing a recurring task', async () => {
+      const recurringTask = await prisma.task.create({
+        data: {
+          name: 'Recurring Task',
+          listId: testListId,
+          userId: DEFAULT_USER_ID,
+          date: new Date(Date.now() - 24 * 60 * 60 * 1000),
+          isRecurring: true,
+          recurringPattern: JSON.stringify({ type: 'daily', interval: 1 }),
+        },
+      });
+
+      const response = await fetch(`${API_BASE_URL}/tasks/${recurringTask.id}`, {
+        method: 'PUT',
+        headers: {
+          ...authHeaders,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ completedAt: new Date().toISOString() }),
+      });
+
+      expect(response.status).toBe(200);
+
+      const task = await response.json();
+      expect(task.nextInstance).toEqual(expect.objectContaining({
+        name: 'Recurring Task',
+        isRecurring: true,
+        completedAt: null,
+        seriesId: recurringTask.id,
+      }));
+      expect(new Date(task.nextInstance.date).getTime()).toBeGreaterThan(Date.now());
+    });
+
     it('should return 404 for non-existent task', async () => {
       const nonExistentId = 'non-existent-id';
       const response = await fetch(`${API_BASE_URL}/tasks/${nonExistentId}`, {
         method: 'PUT',
         headers: {
+          ...authHeaders,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ name: 'Updated Task' }),
@@ -250,6 +336,7 @@ describe('Tasks API', () => {
       const response = await fetch(`${API_BASE_URL}/tasks/${testTaskId}`, {
         method: 'PUT',
         headers: {
+          ...authHeaders,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ name: '' }),
@@ -263,6 +350,7 @@ describe('Tasks API', () => {
     it('should delete a task by ID', async () => {
       const response = await fetch(`${API_BASE_URL}/tasks/${testTaskId}`, {
         method: 'DELETE',
+        headers: authHeaders,
       });
 
       expect(response.status).toBe(200);
@@ -273,7 +361,7 @@ describe('Tasks API', () => {
       }));
 
       // Verify task was deleted
-      const checkResponse = await fetch(`${API_BASE_URL}/tasks/${testTaskId}`);
+      const checkResponse = await fetch(`${API_BASE_URL}/tasks/${testTaskId}`, { headers: authHeaders });
       expect(checkResponse.status).toBe(404);
     });
 
@@ -281,6 +369,7 @@ describe('Tasks API', () => {
       const nonExistentId = 'non-existent-id';
       const response = await fetch(`${API_BASE_URL}/tasks/${nonExistentId}`, {
         method: 'DELETE',
+        headers: authHeaders,
       });
 
       expect(response.status).toBe(404);
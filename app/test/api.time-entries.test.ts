@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import prisma from '@/lib/prisma';
+import { createUser } from '@/lib/db-utils';
+import { createAuthHeaders } from './helpers';
+
+const API_BASE_URL = 'http://localhost:32754/api';
+
+describe('Time Entries API', () => {
+  let userId: string;
+  let authHeaders: Record<string, string>;
+  let taskId: string;
+  let otherTaskId: string;
+
+  const postEntry = (body: Record<string, unknown>) =>
+    fetch(`${API_BASE_URL}/time-entries`, {
+      method: 'POST',
+      headers: {
+        ...authHeaders,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(async () => {
+    const user = await createUser({
+      email: `test-time-entries-${Date.now()}@example.com`,
+      name: 'Test Time Entries User',
+    });
+    userId = user.id;
+    authHeaders = await createAuthHeaders(userId);
+
+    const list = await prisma.list.create({
+      data: { name: 'Time List', userId },
+    });
+
+    const task = await prisma.task.create({
+      data: { name: 'Write report', listId: list.id, userId },
+    });
+    taskId = task.id;
+
+    const otherTask = await prisma.task.create({
+      data: { name: 'Review PR', listId: list.id, userId },
+    });
+    otherTaskId = otherTask.id;
+  });
+
+  afterEach(async () => {
+    await prisma.timeEntry.deleteMany({ where: { userId } });
+    const tasks = await prisma.task.findMany({ where: { userId }, select: { id: true } });
+    await prisma.taskHistory.deleteMany({ where: { taskId: { in: tasks.map(task => task.id) } } });
+    await prisma.task.deleteMany({ where: { userId } });
+    await prisma.list.deleteMany({ where: { userId } });
+    await prisma.user.deleteMany({ where: { id: userId } });
+  });
+
+  describe('POST /api/time-entries', () => {
+    it('should start a timer that shows up as running', async () => {
+      const response = await postEntry({ taskId });
+      expect(response.status).toBe(201);
+
+      const entry = await response.json();
+      expect(entry.endedAt).toBeNull();
+
+      const runningResponse = await fetch(`${API_BASE_URL}/time-entries?running=true`, { headers: authHeaders });
+      const { data } = await runningResponse.json();
+      expect(data.map((e: any) => e.id)).toEqual([entry.id]);
+    });
+
+    it('should stop the running timer when another one starts', async () => {
+      const first = await (await postEntry({ taskId })).json();
+      const second = await (await postEntry({ taskId: otherTaskId })).json();
+
+      expect(second.stopped.id).toBe(first.id);
+      expect(second.stopped.endedAt).not.toBeNull();
+
+      const running = await prisma.timeEntry.count({ where: { userId, endedAt: null } });
+      expect(running).toBe(1);
+    });
+
+    it('should leave one timer running after quick repeated starts', async () => {
+      await Promise.all([postEntry({ taskId }), postEntry({ taskId: otherTaskId })]);
+
+      const running = await prisma.timeEntry.count({ where: { userId, endedAt: null } });
+      expect(running).toBe(1);
+    });
+
+    it('should derive actualTime from finished entries', async () => {
+      await postEntry({
+        taskId,
+        startedAt: '2030-01-01T09:00:00.000Z',
+        endedAt: '2030-01-01T09:30:00.000Z',
+      });
+      const response = await postEntry({
+        taskId,
+        startedAt: '2030-01-01T10:00:00.000Z',
+        endedAt: '2030-01-01T10:15:00.000Z',
+        note: 'Proofreading',
+      });
+
+      const entry = await response.json();
+      expect(entry.duration).toBe(15 * 60);
+      expect(entry.task.actualTime).toBe(45);
+    });
+
+    it('should return 400 when the entry ends before it starts', async () => {
+      const response = await postEntry({
+        taskId,
+        startedAt: '2030-01-01T10:00:00.000Z',
+        endedAt: '2030-01-01T09:00:00.000Z',
+      });
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('PUT /api/time-entries/[id]', () => {
+    it('should stop a running timer', async () => {
+      const entry = await (await postEntry({ taskId })).json();
+
+      const response = await fetch(`${API_BASE_URL}/time-entries/${entry.id}`, {
+        method: 'PUT',
+        headers: {
+          ...authHeaders,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ stop: true }),
+      });
+      expect(response.status).toBe(200);
+
+      const stopped = await response.json();
+      expect(stopped.endedAt).not.toBeNull();
+      expect(typeof stopped.duration).toBe('number');
+    });
+  });
+
+  describe('DELETE /api/time-entries/[id]', () => {
+    it('should recalculate actualTime', async () => {
+      const entry = await (await postEntry({
+        taskId,
+        startedAt: '2030-01-01T09:00:00.000Z',
+        endedAt: '2030-01-01T10:00:00.000Z',
+      })).json();
+
+      const response = await fetch(`${API_BASE_URL}/time-entries/${entry.id}`, {
+        method: 'DELETE',
+        headers: authHeaders,
+      });
+      expect(response.status).toBe(200);
+
+      const { actualTime } = await response.json();
+      expect(actualTime).toBe(0);
+    });
+  });
+
+  describe('POST /api/tasks', () => {
+    it('should not let actualTime be set by hand', async () => {
+      const { listId } = await prisma.task.findUniqueOrThrow({ where: { id: taskId } });
+
+      const response = await fetch(`${API_BASE_URL}/tasks`, {
+        method: 'POST',
+        headers: {
+          ...authHeaders,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: 'Plan sprint', listId, actualTime: 600 }),
+      });
+      expect(response.status).toBe(201);
+
+      const { id } = await response.json();
+      const task = await prisma.task.findUnique({ where: { id } });
+      expect(task?.actualTime).toBeNull();
+    });
+  });
+
+  describe('PUT /api/tasks/[id]', () => {
+    it('should not let actualTime be set by hand', async () => {
+      await postEntry({
+        taskId,
+        startedAt: '2030-01-01T09:00:00.000Z',
+        endedAt: '2030-01-01T09:30:00.000Z',
+      });
+
+      const response = await fetch(`${API_BASE_URL}/tasks/${taskId}`, {
+        method: 'PUT',
+        headers: {
+          ...authHeaders,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ actualTime: 600 }),
+      });
+      expect(response.status).toBe(200);
+
+      const task = await prisma.task.findUnique({ where: { id: taskId } });
+      expect(task?.actualTime).toBe(30);
+    });
+  });
+});
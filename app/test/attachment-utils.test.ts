@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'bun:test'
+import { formatFileSize, getPreviewKind, getTextSnippet, isLinkUrl } from '@/lib/attachment-utils'
+
+describe('getPreviewKind', () => {
+  it('should preview images and PDFs as images', () => {
+    expect(getPreviewKind('image/png')).toBe('image')
+    expect(getPreviewKind('image/jpeg')).toBe('image')
+    expect(getPreviewKind('application/pdf')).toBe('image')
+  })
+
+  it('should preview plain text and markdown as text', () => {
+    expect(getPreviewKind('text/plain')).toBe('text')
+    expect(getPreviewKind('text/markdown')).toBe('text')
+  })
+
+  it('should not preview other types', () => {
+    expect(getPreviewKind('application/zip')).toBeNull()
+    expect(getPreviewKind('application/msword')).toBeNull()
+  })
+})
+
+describe('getTextSnippet', () => {
+  it('should return short texts unchanged', () => {
+    expect(getTextSnippet('Hello\r\nworld')).toBe('Hello\nworld')
+  })
+
+  it('should cut long texts at the last full line', () => {
+    expect(getTextSnippet('first line\nsecond line\nthird', 20)).toBe('first line…')
+  })
+
+  it('should cut a single long line at the limit', () => {
+    expect(getTextSnippet('a'.repeat(30), 10)).toBe(`${'a'.repeat(10)}…`)
+  })
+})
+
+describe('formatFileSize', () => {
+  it('should format bytes, kilobytes and megabytes', () => {
+    expect(formatFileSize(512)).toBe('512 B')
+    expect(formatFileSize(2048)).toBe('2 KB')
+    expect(formatFileSize(3.5 * 1024 * 1024)).toBe('3.5 MB')
+  })
+})
+
+describe('isLinkUrl', () => {
+  it('should only accept http and https URLs', () => {
+    expect(isLinkUrl('https://example.com/spec.pdf')).toBe(true)
+    expect(isLinkUrl('http://example.com/spec.pdf')).toBe(true)
+    expect(isLinkUrl('javascript:alert(1)')).toBe(false)
+    expect(isLinkUrl('data:text/html,hi')).toBe(false)
+    expect(isLinkUrl('/api/attachments/abc/download')).toBe(false)
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  BackupTask,
+  findMissingReference,
+  getBackupFileName,
+  upgradeBackup,
+} from '@/lib/backup-utils'
+
+const task = (fields: Partial<BackupTask> = {}) => ({
+  id: 'task-1',
+  name: 'Write report',
+  listId: 'list-1',
+  labelIds: [] as string[],
+  ...fields,
+}) as BackupTask
+
+describe('upgradeBackup', () => {
+  it('should accept backups of the current version', () => {
+    const document = { format: BACKUP_FORMAT, version: BACKUP_VERSION, lists: [] }
+    expect(upgradeBackup(document)).toEqual(document)
+  })
+
+  it('should reject files that are not backups', () => {
+    expect(() => upgradeBackup(null)).toThrow('Not a Daily Task Planner backup')
+    expect(() => upgradeBackup([])).toThrow('Not a Daily Task Planner backup')
+    expect(() => upgradeBackup({ format: 'other', version: 1 })).toThrow('Not a Daily Task Planner backup')
+    expect(() => upgradeBackup({ format: BACKUP_FORMAT })).toThrow('Backup has no valid version')
+  })
+
+  it('should reject backups from a newer version', () => {
+    expect(() => upgradeBackup({ format: BACKUP_FORMAT, version: BACKUP_VERSION + 1 })).toThrow('newer than this app supports')
+  })
+
+  it('should run each migration up to the current version', () => {
+    const migrations = {
+      1: (document: any) => ({ ...document, labels: document.tags }),
+      2: (document: any) => ({ ...document, tasks: [] }),
+    }
+    expect(upgradeBackup({ format: BACKUP_FORMAT, version: 1, tags: ['work'] }, 3, migrations)).toEqual({
+      format: BACKUP_FORMAT,
+      version: 3,
+      tags: ['work'],
+      labels: ['work'],
+      tasks: [],
+    })
+  })
+
+  it('should reject versions without a migration', () => {
+    expect(() => upgradeBackup({ format: BACKUP_FORMAT, version: 1 }, 2, {})).toThrow("can't be upgraded")
+  })
+})
+
+describe('findMissingReference', () => {
+  const lists = [{ id: 'list-1' }] as any
+  const labels = [{ id: 'label-1' }] as any
+
+  it('should accept tasks that refer to records in the backup', () => {
+    expect(findMissingReference({ lists, labels, tasks: [task({ labelIds: ['label-1'] })] })).toBeNull()
+  })
+
+  it('should report tasks in lists or with labels missing from the backup', () => {
+    expect(findMissingReference({ lists, labels, tasks: [task({ listId: 'list-2' })] }))
+      .toBe('Task "Write report" is in a list that is not in the backup')
+    expect(findMissingReference({ lists, labels, tasks: [task({ labelIds: ['label-2'] })] }))
+      .toBe('Task "Write report" has a label that is not in the backup')
+  })
+})
+
+describe('getBackupFileName', () => {
+  it('should name the file after the export date', () => {
+    expect(getBackupFileName(new Date('2026-03-01T12:00:00Z'))).toBe('daily-task-planner-2026-03-01.json')
+  })
+})
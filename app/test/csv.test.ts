@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'bun:test'
+import { buildTasksCsv, CsvTask, guessCsvMapping, parseCsv, readCsvRow, toCsv } from '@/lib/csv'
+
+const task = (fields: Partial<CsvTask> = {}): CsvTask => ({
+  name: 'Write report',
+  description: null,
+  priority: 0,
+  date: null,
+  deadline: null,
+  estimates: null,
+  actualTime: null,
+  completedAt: null,
+  list: { name: 'Work' },
+  labels: [],
+  ...fields,
+})
+
+describe('parseCsv', () => {
+  it('should read quoted cells with commas, quotes and line breaks', () => {
+    expect(parseCsv('Name,Notes\r\n"Milk, eggs","Say ""hi""\nthen leave"\r\nBread,\n')).toEqual([
+      ['Name', 'Notes'],
+      ['Milk, eggs', 'Say "hi"\nthen leave'],
+      ['Bread', ''],
+    ])
+  })
+
+  it('should skip a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFName\n\nMilk\n,\n')).toEqual([['Name'], ['Milk']])
+  })
+})
+
+describe('toCsv', () => {
+  it('should quote cells that need it', () => {
+    expect(toCsv([['a,b', 'say "hi"', 'plain']])).toBe('"a,b","say ""hi""",plain\r\n')
+  })
+
+  it('should keep spreadsheet apps from running cells as formulas', () => {
+    expect(toCsv([['=SUM(A1:A2)', '@cmd']])).toBe("'=SUM(A1:A2),'@cmd\r\n")
+  })
+
+  it('should round-trip through parseCsv', () => {
+    const rows = [['Name', 'Notes'], ['Milk, eggs', 'Line one\nLine "two"']]
+    expect(parseCsv(toCsv(rows))).toEqual(rows)
+  })
+})
+
+describe('buildTasksCsv', () => {
+  it('should write the chosen columns in a readable form', () => {
+    const csv = buildTasksCsv([task({
+      priority: 3,
+      date: new Date('2026-03-02T00:00:00Z'),
+      deadline: new Date('2026-03-05T17:00:00Z'),
+      estimates: 90,
+      labels: [{ name: 'finance' }, { name: 'q1' }],
+    })], ['name', 'list', 'labels', 'priority', 'date', 'deadline', 'estimates', 'actualTime'])
+
+    expect(parseCsv(csv)).toEqual([
+      ['Name', 'List', 'Labels', 'Priority', 'Date', 'Deadline', 'Estimate (min)', 'Actual time (min)'],
+      ['Write report', 'Work', 'finance, q1', 'High', '2026-03-02', '2026-03-05T17:00:00.000Z', '90', ''],
+    ])
+  })
+})
+
+describe('guessCsvMapping', () => {
+  it('should recognise our headers and common alternatives', () => {
+    expect(guessCsvMapping(['Title', 'Due date', 'Tags', 'Notes', 'Whatever'])).toEqual({
+      name: 0,
+      deadline: 1,
+      labels: 2,
+      description: 3,
+    })
+    expect(guessCsvMapping(['Name', 'Estimate (min)', 'Completed at'])).toEqual({
+      name: 0,
+      estimates: 1,
+      completedAt: 2,
+    })
+  })
+
+  it('should not import actual time, which comes from time entries', () => {
+    expect(guessCsvMapping(['Name', 'Actual time (min)'])).toEqual({ name: 0 })
+  })
+})
+
+describe('readCsvRow', () => {
+  const mapping = { name: 0, priority: 1, date: 2, estimates: 3, labels: 4 }
+
+  it('should convert cells to task fields', () => {
+    expect(readCsvRow(['Write report', 'medium', '2026-03-02', '45', 'finance, q1, finance'], mapping)).toEqual({
+      values: {
+        name: 'Write report',
+        priority: 2,
+        date: '2026-03-02T00:00:00.000Z',
+        estimates: 45,
+        labels: ['finance', 'q1'],
+      },
+      errors: [],
+    })
+  })
+
+  it('should accept numeric priorities', () => {
+    expect(readCsvRow(['Task', '3'], mapping).values.priority).toBe(3)
+  })
+
+  it('should report cells that cannot be converted', () => {
+    expect(readCsvRow(['Task', 'urgent', 'next week', '1.5', ''], mapping).errors).toEqual([
+      { field: 'priority', message: 'Unknown priority "urgent"' },
+      { field: 'date', message: 'Invalid date "next week"' },
+      { field: 'estimates', message: 'Expected whole minutes, got "1.5"' },
+    ])
+  })
+
+  it('should undo the formula guard added on export', () => {
+    expect(readCsvRow(["'=1+1"], { name: 0 }).values.name).toBe('=1+1')
+  })
+})
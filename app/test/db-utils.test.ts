@@ -282,5 +282,20 @@ describe('Database Operations', () => {
       const deletedTask = await getTaskById(testTaskId);
       expect(deletedTask).toBeNull();
     });
+
+    it('should delete a task with reminders', async () => {
+      await prisma.reminder.create({
+        data: {
+          taskId: testTaskId,
+          datetime: new Date(Date.now() + 60 * 60 * 1000),
+          deliveries: { create: { channel: 'email' } },
+        },
+      });
+
+      await deleteTask(testTaskId);
+
+      expect(await getTaskById(testTaskId)).toBeNull();
+      expect(await prisma.reminder.count({ where: { taskId: testTaskId } })).toBe(0);
+    });
   });
 });
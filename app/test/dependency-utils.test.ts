@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'bun:test'
+import { wouldCreateCycle, getOpenBlockers } from '@/lib/dependency-utils'
+
+describe('wouldCreateCycle', () => {
+  const edges = [
+    { blockerId: 'a', blockedId: 'b' },
+    { blockerId: 'b', blockedId: 'c' },
+    { blockerId: 'x', blockedId: 'c' },
+  ]
+
+  it('should reject a task blocking itself', () => {
+    expect(wouldCreateCycle([], 'a', 'a')).toBe(true)
+  })
+
+  it('should reject direct and indirect cycles', () => {
+    expect(wouldCreateCycle(edges, 'b', 'a')).toBe(true)
+    expect(wouldCreateCycle(edges, 'c', 'a')).toBe(true)
+    expect(wouldCreateCycle(edges, 'c', 'x')).toBe(true)
+  })
+
+  it('should allow edges that keep the graph acyclic', () => {
+    expect(wouldCreateCycle(edges, 'a', 'c')).toBe(false)
+    expect(wouldCreateCycle(edges, 'b', 'x')).toBe(false)
+    expect(wouldCreateCycle(edges, 'x', 'a')).toBe(false)
+  })
+})
+
+describe('getOpenBlockers', () => {
+  it('should only return blockers that are not completed', () => {
+    const blockers = [
+      { id: 'a', completedAt: null },
+      { id: 'b', completedAt: new Date() },
+    ]
+    expect(getOpenBlockers(blockers).map(blocker => blocker.id)).toEqual(['a'])
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'bun:test'
+import { escapeHtml, renderDigestEmail, renderOverdueEmail, renderReminderEmail } from '@/lib/email-templates'
+import type { DigestTask } from '@/lib/notification-utils'
+
+const task = (id: string, fields: Partial<DigestTask> = {}): DigestTask => ({
+  id,
+  name: `Task ${id}`,
+  date: null,
+  deadline: null,
+  priority: 0,
+  completedAt: null,
+  ...fields,
+})
+
+const appUrl = 'https://tasks.example.com'
+
+describe('escapeHtml', () => {
+  it('should escape markup characters', () => {
+    expect(escapeHtml('<b>"Tom" & \'Jerry\'</b>')).toBe('&lt;b&gt;&quot;Tom&quot; &amp; &#39;Jerry&#39;&lt;/b&gt;')
+  })
+})
+
+describe('renderReminderEmail', () => {
+  it('should show the deadline in the user\'s timezone', () => {
+    const email = renderReminderEmail(
+      task('1', { name: 'Write report', deadline: new Date('2026-03-01T17:00:00Z') }),
+      'Europe/Berlin',
+      appUrl
+    )
+
+    expect(email.subject).toBe('Reminder: Write report')
+    expect(email.text).toContain('Due Mar 1, 2026, 6:00 PM')
+    expect(email.text).toContain(appUrl)
+    expect(email.html).toContain(`href="${appUrl}"`)
+  })
+
+  it('should escape task names in HTML', () => {
+    const email = renderReminderEmail(task('1', { name: '<script>alert(1)</script>' }), 'UTC', appUrl)
+    expect(email.html).not.toContain('<script>')
+    expect(email.html).toContain('&lt;script&gt;')
+  })
+})
+
+describe('renderOverdueEmail', () => {
+  it('should name a single overdue task in the subject', () => {
+    const email = renderOverdueEmail([task('1', { name: 'Pay rent' })], 'UTC', appUrl)
+    expect(email.subject).toBe('Overdue: Pay rent')
+  })
+
+  it('should count several overdue tasks', () => {
+    const email = renderOverdueEmail([task('1'), task('2')], 'UTC', appUrl)
+    expect(email.subject).toBe('2 tasks are overdue')
+    expect(email.text).toContain('- Task 1')
+    expect(email.text).toContain('- Task 2')
+  })
+})
+
+describe('renderDigestEmail', () => {
+  it('should list only the sections that have tasks', () => {
+    const email = renderDigestEmail(
+      { today: [task('1', { name: 'Standup' })], overdue: [], upcoming: [task('2', { name: 'Tax return' })] },
+      '2026-03-02',
+      'UTC',
+      appUrl
+    )
+
+    expect(email.subject).toBe('Your agenda for Monday, March 2')
+    expect(email.text).toContain('Today\n- Standup')
+    expect(email.text).toContain('Upcoming deadlines\n- Tax return')
+    expect(email.text).not.toContain('Overdue')
+    expect(email.html).toContain('<h3 style="margin: 16px 0 4px;">Today</h3>')
+  })
+})
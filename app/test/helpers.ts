@@ -0,0 +1,7 @@
+import { createSession, SESSION_COOKIE } from '@/lib/auth';
+
+// Create a session for a test user and return request headers carrying its cookie
+export async function createAuthHeaders(userId: string): Promise<Record<string, string>> {
+  const { token } = await createSession(userId);
+  return { Cookie: `${SESSION_COOKIE}=${token}` };
+}
@@ -0,0 +1,305 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  buildCalendar,
+  escapeText,
+  foldLine,
+  fromICalPriority,
+  parseDuration,
+  parseICal,
+  parseTodos,
+  toICalPriority,
+  unescapeText,
+  CalendarTask,
+} from '@/lib/ical'
+
+const now = new Date('2026-03-01T12:00:00Z')
+
+const task = (fields: Partial<CalendarTask> = {}): CalendarTask => ({
+  id: 'task-1',
+  name: 'Write report',
+  description: null,
+  date: null,
+  deadline: null,
+  estimates: null,
+  priority: 0,
+  completedAt: null,
+  isRecurring: false,
+  recurringPattern: null,
+  createdAt: new Date('2026-02-01T08:00:00Z'),
+  updatedAt: new Date('2026-02-02T08:00:00Z'),
+  labels: [],
+  reminders: [],
+  ...fields,
+})
+
+// Unfold lines so assertions don't depend on where long lines wrap
+const lines = (calendar: string) => calendar.replace(/\r\n /g, '').split('\r\n')
+
+describe('escapeText', () => {
+  it('should escape separators and newlines', () => {
+    expect(escapeText('a, b; c\\d\ne')).toBe('a\\, b\\; c\\\\d\\ne')
+  })
+})
+
+describe('foldLine', () => {
+  it('should fold lines longer than 75 octets', () => {
+    const folded = foldLine(`SUMMARY:${'x'.repeat(100)}`)
+    const [first, second] = folded.split('\r\n')
+    expect(first).toHaveLength(75)
+    expect(second).toStartWith(' ')
+    expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'x'.repeat(100)}`)
+  })
+
+  it('should not split multi-byte characters', () => {
+    const folded = foldLine(`SUMMARY:${'é'.repeat(60)}`)
+    for (const line of folded.split('\r\n')) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75)
+    }
+  })
+})
+
+describe('toICalPriority', () => {
+  it('should map high priority to 1 and low to 9', () => {
+    expect([0, 1, 2, 3].map(toICalPriority)).toEqual([0, 9, 5, 1])
+  })
+})
+
+describe('buildCalendar', () => {
+  it('should wrap the entries in a VCALENDAR with CRLF line endings', () => {
+    const calendar = buildCalendar([], { name: 'Work', now })
+    expect(calendar).toStartWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')
+    expect(calendar).toEndWith('END:VCALENDAR\r\n')
+    expect(lines(calendar)).toContain('X-WR-CALNAME:Work')
+  })
+
+  it('should export scheduled tasks as all-day events', () => {
+    const calendar = lines(buildCalendar([task({ date: new Date('2026-03-02T00:00:00Z'), priority: 3 })], { name: 'Tasks', now }))
+    expect(calendar).toContain('BEGIN:VEVENT')
+    expect(calendar).toContain('UID:task-1@daily-task-planner')
+    expect(calendar).toContain('DTSTART;VALUE=DATE:20260302')
+    expect(calendar).toContain('PRIORITY:1')
+    expect(calendar).not.toContain('BEGIN:VTODO')
+  })
+
+  it('should give timed events their estimated duration', () => {
+    const calendar = lines(buildCalendar([task({ date: new Date('2026-03-02T09:30:00Z'), estimates: 90 })], { name: 'Tasks', now }))
+    expect(calendar).toContain('DTSTART:20260302T093000Z')
+    expect(calendar).toContain('DURATION:PT90M')
+  })
+
+  it('should export tasks with a deadline as to-dos', () => {
+    const calendar = lines(buildCalendar([task({
+      deadline: new Date('2026-03-05T17:00:00Z'),
+      labels: [{ name: 'Work' }, { name: 'Q1, urgent' }],
+    })], { name: 'Tasks', now }))
+    expect(calendar).toContain('BEGIN:VTODO')
+    expect(calendar).toContain('DUE:20260305T170000Z')
+    expect(calendar).toContain('STATUS:NEEDS-ACTION')
+    expect(calendar).toContain('CATEGORIES:Work,Q1\\, urgent')
+  })
+
+  it('should leave out tasks without a date or deadline', () => {
+    expect(lines(buildCalendar([task()], { name: 'Tasks', now }))).not.toContain('BEGIN:VEVENT')
+  })
+
+  it('should carry recurring tasks as RRULE with skipped occurrences', () => {
+    const calendar = lines(buildCalendar([task({
+      date: new Date('2026-03-02T00:00:00Z'),
+      isRecurring: true,
+      recurringPattern: JSON.stringify({ type: 'weekly', interval: 2, daysOfWeek: [1] }),
+      skippedDates: [new Date('2026-03-16T00:00:00Z')],
+    })], { name: 'Tasks', now }))
+    expect(calendar).toContain('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO')
+    expect(calendar).toContain('EXDATE;VALUE=DATE:20260316')
+  })
+
+  it('should only keep the remaining count of anchored RRULE series', () => {
+    const calendar = lines(buildCalendar([task({
+      date: new Date('2026-03-03T00:00:00Z'),
+      isRecurring: true,
+      recurringPattern: JSON.stringify({ type: 'rrule', interval: 1, rrule: 'DTSTART:20260301T000000Z\nRRULE:FREQ=DAILY;COUNT=5' }),
+    })], { name: 'Tasks', now }))
+    expect(calendar).toContain('RRULE:FREQ=DAILY;COUNT=3')
+  })
+
+  it('should include reminders as alarms', () => {
+    const calendar = lines(buildCalendar([task({
+      date: new Date('2026-03-02T00:00:00Z'),
+      deadline: new Date('2026-03-05T17:00:00Z'),
+      reminders: [
+        { datetime: new Date('2026-03-05T16:45:00Z'), anchor: 'deadline', offsetMinutes: 15 },
+        { datetime: new Date('2026-03-01T23:00:00Z'), anchor: 'date', offsetMinutes: 60 },
+        { datetime: new Date('2026-03-04T09:00:00Z'), anchor: null, offsetMinutes: null },
+      ],
+    })], { name: 'Tasks', now }))
+    expect(calendar.filter(line => line === 'BEGIN:VALARM')).toHaveLength(3)
+    expect(calendar).toContain('TRIGGER;RELATED=END:-PT15M')
+    expect(calendar).toContain('TRIGGER:-PT60M')
+    expect(calendar).toContain('TRIGGER;VALUE=DATE-TIME:20260304T090000Z')
+  })
+})
+
+const calendarOf = (...todos: string[][]) => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Test//EN',
+  ...todos.flatMap(todo => ['BEGIN:VTODO', ...todo, 'END:VTODO']),
+  'END:VCALENDAR',
+].join('\r\n')
+
+describe('unescapeText', () => {
+  it('should undo escapeText', () => {
+    const text = 'Milk, eggs; bread\\butter\nand jam'
+    expect(unescapeText(escapeText(text))).toBe(text)
+  })
+})
+
+describe('fromICalPriority', () => {
+  it('should map iCalendar priorities onto ours', () => {
+    expect([0, 1, 4, 5, 6, 9].map(fromICalPriority)).toEqual([0, 3, 3, 2, 1, 1])
+  })
+
+  it('should round-trip our priorities', () => {
+    expect([0, 1, 2, 3].map(priority => fromICalPriority(toICalPriority(priority)))).toEqual([0, 1, 2, 3])
+  })
+})
+
+describe('parseDuration', () => {
+  it('should convert durations to minutes', () => {
+    expect(parseDuration('-PT15M')).toBe(-15)
+    expect(parseDuration('P1DT2H')).toBe(1560)
+    expect(parseDuration('PT0S')).toBe(0)
+    expect(parseDuration('P1W')).toBe(10080)
+    expect(parseDuration('soon')).toBeNull()
+  })
+})
+
+describe('parseICal', () => {
+  it('should unfold lines and read parameters', () => {
+    const [calendar] = parseICal(calendarOf([
+      'SUMMARY:A very long title that was folded',
+      '  onto two lines',
+      'DTSTART;TZID="America/New_York":20260302T090000',
+    ]))
+    const [todo] = calendar.components
+    expect(todo.properties[0].value).toBe('A very long title that was folded onto two lines')
+    expect(todo.properties[1].params.TZID).toBe('America/New_York')
+  })
+
+  it('should reject files that are not calendars', () => {
+    expect(() => parseICal('hello')).toThrow('Not an iCalendar file')
+    expect(() => parseICal('BEGIN:VCALENDAR\r\nBEGIN:VTODO\r\nEND:VCALENDAR')).toThrow()
+  })
+
+  it('should read what buildCalendar writes', () => {
+    const [calendar] = parseICal(buildCalendar([task({ deadline: new Date('2026-03-05T17:00:00Z') })], { name: 'Tasks', now }))
+    expect(calendar.components.map(component => component.type)).toEqual(['VTODO'])
+  })
+})
+
+describe('parseTodos', () => {
+  it('should map VTODO properties to task fields', () => {
+    const [todo] = parseTodos(calendarOf([
+      'UID:abc-123',
+      'SUMMARY:Buy milk\\, eggs',
+      'DESCRIPTION:From the corner shop\\nBefore noon',
+      'DTSTART;VALUE=DATE:20260302',
+      'DUE:20260305T170000Z',
+      'PRIORITY:1',
+      'CATEGORIES:Errands,Home',
+      'CATEGORIES:home',
+      'CATEGORIES:Shopping',
+    ]))
+    expect(todo.uid).toBe('abc-123')
+    expect(todo.name).toBe('Buy milk, eggs')
+    expect(todo.description).toBe('From the corner shop\nBefore noon')
+    expect(todo.date).toEqual(new Date('2026-03-02T00:00:00Z'))
+    expect(todo.deadline).toEqual(new Date('2026-03-05T17:00:00Z'))
+    expect(todo.priority).toBe(3)
+    expect(todo.completedAt).toBeNull()
+    expect(todo.labels).toEqual(['Errands', 'Home', 'home', 'Shopping'])
+    expect(todo.warnings).toEqual([])
+  })
+
+  it('should convert local times with their timezone', () => {
+    const [withZone, floating] = parseTodos(calendarOf(
+      ['SUMMARY:Call', 'DUE;TZID=Europe/Berlin:20260302T090000'],
+      ['SUMMARY:Email', 'DUE:20260302T090000'],
+    ), { timeZone: 'America/New_York' })
+    expect(withZone.deadline).toEqual(new Date('2026-03-02T08:00:00Z'))
+    expect(floating.deadline).toEqual(new Date('2026-03-02T14:00:00Z'))
+  })
+
+  it('should use the duration when there is no due date', () => {
+    const [todo] = parseTodos(calendarOf(['SUMMARY:Focus', 'DTSTART:20260302T090000Z', 'DURATION:PT90M']))
+    expect(todo.deadline).toEqual(new Date('2026-03-02T10:30:00Z'))
+  })
+
+  it('should import completed and cancelled to-dos as completed', () => {
+    const [completed, cancelled] = parseTodos(calendarOf(
+      ['SUMMARY:Done', 'STATUS:COMPLETED', 'COMPLETED:20260301T100000Z'],
+      ['SUMMARY:Dropped', 'STATUS:CANCELLED'],
+    ), { now })
+    expect(completed.completedAt).toEqual(new Date('2026-03-01T10:00:00Z'))
+    expect(cancelled.completedAt).toEqual(now)
+    expect(cancelled.warnings).toHaveLength(1)
+  })
+
+  it('should import repeat rules', () => {
+    const [weekly, unsupported] = parseTodos(calendarOf(
+      ['SUMMARY:Standup', 'DUE:20260302T090000Z', 'RRULE:FREQ=WEEKLY;BYDAY=MO,WE'],
+      ['SUMMARY:Odd', 'DUE:20260302T090000Z', 'RRULE:FREQ=SOMETIMES'],
+    ))
+    expect(JSON.parse(weekly.recurringPattern!)).toMatchObject({ type: 'rrule', rrule: 'FREQ=WEEKLY;BYDAY=MO,WE' })
+    // Recurring tasks repeat from their date
+    expect(weekly.date).toEqual(weekly.deadline)
+    expect(unsupported.recurringPattern).toBeNull()
+    expect(unsupported.warnings[0]).toContain('FREQ=SOMETIMES')
+  })
+
+  it('should turn alarms into reminders', () => {
+    const [todo] = parseTodos(calendarOf([
+      'SUMMARY:Report',
+      'DTSTART:20260302T090000Z',
+      'DUE:20260305T170000Z',
+      'BEGIN:VALARM', 'ACTION:DISPLAY', 'TRIGGER;RELATED=END:-PT15M', 'END:VALARM',
+      'BEGIN:VALARM', 'ACTION:DISPLAY', 'TRIGGER:-PT1H', 'END:VALARM',
+      'BEGIN:VALARM', 'ACTION:DISPLAY', 'TRIGGER;VALUE=DATE-TIME:20260304T090000Z', 'END:VALARM',
+      'BEGIN:VALARM', 'ACTION:DISPLAY', 'END:VALARM',
+    ]))
+    expect(todo.reminders).toEqual([
+      { anchor: 'deadline', offsetMinutes: 15 },
+      { anchor: 'date', offsetMinutes: 60 },
+      '2026-03-04T09:00:00.000Z',
+    ])
+    expect(todo.warnings).toHaveLength(1)
+  })
+
+  it('should skip overrides of single occurrences', () => {
+    const todos = parseTodos(calendarOf(
+      ['UID:series', 'SUMMARY:Standup', 'DUE:20260302T090000Z', 'RRULE:FREQ=DAILY'],
+      ['UID:series', 'RECURRENCE-ID:20260303T090000Z', 'SUMMARY:Standup (moved)', 'DUE:20260303T100000Z'],
+    ))
+    expect(todos.map(todo => todo.name)).toEqual(['Standup'])
+  })
+
+  it('should round-trip exported tasks', () => {
+    const [todo] = parseTodos(buildCalendar([task({
+      name: 'Quarterly report; draft',
+      date: new Date('2026-03-02T00:00:00Z'),
+      deadline: new Date('2026-03-05T17:00:00Z'),
+      priority: 2,
+      labels: [{ name: 'Work' }],
+      reminders: [{ datetime: new Date('2026-03-05T16:45:00Z'), anchor: 'deadline', offsetMinutes: 15 }],
+    })], { name: 'Tasks', now }))
+    expect(todo).toMatchObject({
+      uid: 'task-1@daily-task-planner',
+      name: 'Quarterly report; draft',
+      date: new Date('2026-03-02T00:00:00Z'),
+      deadline: new Date('2026-03-05T17:00:00Z'),
+      priority: 2,
+      labels: ['Work'],
+      reminders: [{ anchor: 'deadline', offsetMinutes: 15 }],
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  DEFAULT_MATRIX_SETTINGS,
+  getQuadrant,
+  getQuadrantChanges,
+  isImportant,
+  isUrgent,
+  MatrixTask,
+} from '@/lib/matrix-utils'
+
+// Local times, so the tests don't depend on the machine's timezone
+const now = new Date(2026, 2, 4, 15, 0)
+const day = (offset: number, hours = 0) => new Date(2026, 2, 4 + offset, hours)
+
+const settings = { ...DEFAULT_MATRIX_SETTINGS, importantLabelIds: ['focus'] }
+
+const task = (overrides: Partial<MatrixTask> = {}): MatrixTask => ({
+  priority: 0,
+  date: null,
+  deadline: null,
+  labels: [],
+  ...overrides,
+})
+
+describe('isUrgent', () => {
+  it('should count dates and deadlines up to the end of the window', () => {
+    expect(isUrgent(task({ date: day(2, 23) }), settings, now)).toBe(true)
+    expect(isUrgent(task({ deadline: day(1) }), settings, now)).toBe(true)
+    expect(isUrgent(task({ date: day(3) }), settings, now)).toBe(false)
+    expect(isUrgent(task(), settings, now)).toBe(false)
+  })
+
+  it('should treat overdue tasks as urgent', () => {
+    expect(isUrgent(task({ deadline: day(-5) }), settings, now)).toBe(true)
+  })
+
+  it('should accept dates as strings', () => {
+    expect(isUrgent(task({ date: day(0).toISOString() }), settings, now)).toBe(true)
+  })
+})
+
+describe('isImportant', () => {
+  it('should use the priority threshold or the important labels', () => {
+    expect(isImportant(task({ priority: 2 }), settings)).toBe(true)
+    expect(isImportant(task({ priority: 1 }), settings)).toBe(false)
+    expect(isImportant(task({ priority: 1, labels: [{ id: 'focus' }] }), settings)).toBe(true)
+  })
+})
+
+describe('getQuadrant', () => {
+  it('should place tasks by urgency and importance', () => {
+    expect(getQuadrant(task({ priority: 3, date: day(0) }), settings, now)).toBe('do')
+    expect(getQuadrant(task({ priority: 3, date: day(10) }), settings, now)).toBe('schedule')
+    expect(getQuadrant(task({ priority: 1, deadline: day(1) }), settings, now)).toBe('delegate')
+    expect(getQuadrant(task({ priority: 1 }), settings, now)).toBe('eliminate')
+  })
+})
+
+describe('getQuadrantChanges', () => {
+  it('should raise the priority and schedule today when moved to "do"', () => {
+    // An all-day date, at UTC midnight like the task form stores it
+    expect(getQuadrantChanges(task({ priority: 1 }), 'do', settings, now)).toEqual({
+      priority: 2,
+      date: '2026-03-04T00:00:00.000Z',
+    })
+  })
+
+  it('should keep the time of day when moving the date', () => {
+    expect(getQuadrantChanges(task({ priority: 3, date: day(9, 14) }), 'do', settings, now)).toEqual({
+      date: day(0, 14).toISOString(),
+    })
+  })
+
+  it('should move urgent dates and deadlines past the window when moved to "schedule"', () => {
+    expect(getQuadrantChanges(task({ priority: 3, date: day(0), deadline: day(-1, 17) }), 'schedule', settings, now)).toEqual({
+      date: day(3).toISOString(),
+      deadline: day(3, 17).toISOString(),
+    })
+  })
+
+  it('should lower the priority and drop important labels when moved to "delegate"', () => {
+    const changes = getQuadrantChanges(
+      task({ priority: 3, deadline: day(0), labels: [{ id: 'focus' }, { id: 'home' }] }),
+      'delegate',
+      settings,
+      now
+    )
+
+    expect(changes).toEqual({ priority: 1, labels: ['home'] })
+  })
+
+  it('should leave a task that is already in place untouched', () => {
+    expect(getQuadrantChanges(task({ priority: 1 }), 'eliminate', settings, now)).toEqual({})
+  })
+})
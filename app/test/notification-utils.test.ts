@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  addLocalDays,
+  buildDigest,
+  getLocalDayStart,
+  getLocalDayKey,
+  getLocalTime,
+  isDigestDue,
+  isDigestEmpty,
+  isValidTimeZone,
+  DigestTask,
+} from '@/lib/notification-utils'
+
+const task = (id: string, fields: Partial<DigestTask> = {}): DigestTask => ({
+  id,
+  name: `Task ${id}`,
+  date: null,
+  deadline: null,
+  priority: 0,
+  completedAt: null,
+  ...fields,
+})
+
+describe('isValidTimeZone', () => {
+  it('should accept IANA timezones and reject anything else', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true)
+    expect(isValidTimeZone('UTC')).toBe(true)
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false)
+  })
+})
+
+describe('getLocalDayKey and getLocalTime', () => {
+  it('should use the calendar day and time of the timezone', () => {
+    const date = new Date('2026-03-01T23:30:00Z')
+    expect(getLocalDayKey(date, 'UTC')).toBe('2026-03-01')
+    expect(getLocalDayKey(date, 'Europe/Berlin')).toBe('2026-03-02')
+    expect(getLocalTime(date, 'Europe/Berlin')).toBe('00:30')
+    expect(getLocalTime(date, 'America/New_York')).toBe('18:30')
+  })
+})
+
+describe('getLocalDayStart and addLocalDays', () => {
+  it('should start the day at midnight in the timezone', () => {
+    const date = new Date('2026-03-02T03:00:00Z')
+    expect(getLocalDayStart(date, 'UTC')).toEqual(new Date('2026-03-02T00:00:00Z'))
+    // Still the evening of March 1 in New York
+    expect(getLocalDayStart(date, 'America/New_York')).toEqual(new Date('2026-03-01T05:00:00Z'))
+    expect(getLocalDayStart(date, 'America/New_York', -1)).toEqual(new Date('2026-02-28T05:00:00Z'))
+  })
+
+  it('should keep the wall-clock time across a DST change', () => {
+    // New York moves to daylight time on March 8, 2026
+    expect(addLocalDays(new Date('2026-03-07T14:00:00Z'), 1, 'America/New_York')).toEqual(new Date('2026-03-08T13:00:00Z'))
+    expect(getLocalDayStart(new Date('2026-03-09T12:00:00Z'), 'America/New_York')).toEqual(new Date('2026-03-09T04:00:00Z'))
+  })
+})
+
+describe('isDigestDue', () => {
+  const user = { timezone: 'Europe/Berlin', digestEnabled: true, digestTime: '08:00', lastDigestDate: null }
+
+  it('should be due once the local send time has passed', () => {
+    expect(isDigestDue(user, new Date('2026-03-02T06:59:00Z'))).toBe(false)
+    expect(isDigestDue(user, new Date('2026-03-02T07:00:00Z'))).toBe(true)
+  })
+
+  it('should not be due twice on the same local day', () => {
+    expect(isDigestDue({ ...user, lastDigestDate: '2026-03-02' }, new Date('2026-03-02T12:00:00Z'))).toBe(false)
+    expect(isDigestDue({ ...user, lastDigestDate: '2026-03-01' }, new Date('2026-03-02T12:00:00Z'))).toBe(true)
+  })
+
+  it('should not be due when the digest is turned off', () => {
+    expect(isDigestDue({ ...user, digestEnabled: false }, new Date('2026-03-02T12:00:00Z'))).toBe(false)
+  })
+})
+
+describe('buildDigest', () => {
+  const now = new Date('2026-03-02T07:00:00Z')
+
+  it('should split open tasks into today, overdue and upcoming', () => {
+    const digest = buildDigest([
+      task('today', { date: new Date('2026-03-02T00:00:00Z') }),
+      task('late-deadline', { deadline: new Date('2026-03-01T17:00:00Z') }),
+      task('missed-date', { date: new Date('2026-02-27T00:00:00Z') }),
+      task('next-week', { deadline: new Date('2026-03-05T17:00:00Z') }),
+      task('far-away', { deadline: new Date('2026-04-01T17:00:00Z') }),
+      task('undated'),
+      task('done', { date: new Date('2026-03-02T00:00:00Z'), completedAt: new Date() }),
+    ], now, 'UTC')
+
+    expect(digest.today.map(t => t.id)).toEqual(['today'])
+    expect(digest.overdue.map(t => t.id)).toEqual(['missed-date', 'late-deadline'])
+    expect(digest.upcoming.map(t => t.id)).toEqual(['next-week'])
+  })
+
+  it('should list a task dated today with a passed deadline only as overdue', () => {
+    const digest = buildDigest([
+      task('both', { date: new Date('2026-03-02T00:00:00Z'), deadline: new Date('2026-03-02T06:00:00Z') }),
+    ], now, 'UTC')
+
+    expect(digest.today).toEqual([])
+    expect(digest.overdue.map(t => t.id)).toEqual(['both'])
+  })
+
+  it('should use the user\'s timezone for today', () => {
+    const lateEvening = new Date('2026-03-01T23:30:00Z')
+    const digest = buildDigest([task('tomorrow-utc', { date: new Date('2026-03-02T00:00:00Z') })], lateEvening, 'Europe/Berlin')
+    expect(digest.today.map(t => t.id)).toEqual(['tomorrow-utc'])
+  })
+
+  it('should sort by due date, then higher priority first', () => {
+    const date = new Date('2026-03-02T00:00:00Z')
+    const digest = buildDigest([
+      task('low', { date, priority: 1 }),
+      task('high', { date, priority: 3 }),
+    ], now, 'UTC')
+    expect(digest.today.map(t => t.id)).toEqual(['high', 'low'])
+  })
+
+  it('should be empty without open dated tasks', () => {
+    expect(isDigestEmpty(buildDigest([task('undated')], now, 'UTC'))).toBe(true)
+  })
+})
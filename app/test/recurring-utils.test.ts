@@ -1,4 +1,4 @@
-import { parseRecurringPattern, getNextOccurrence, isTaskActive, getRecurrenceSummary } from '@/lib/recurring-utils'
+import { parseRecurringPattern, getNextOccurrence, getNextOccurrenceAfter, getOccurrencesBetween, isSeriesOccurrence, isTaskActive, getRecurrenceSummary } from '@/lib/recurring-utils'
 
 describe('parseRecurringPattern', () => {
   it('should parse string patterns', () => {
@@ -75,6 +75,133 @@ describe('getNextOccurrence', () => {
   })
 })
 
+describe('getNextOccurrenceAfter', () => {
+  it('should return the next occurrence when completed on time', () => {
+    const task = {
+      id: '1',
+      name: 'Test Task',
+      date: new Date('2024-01-15'),
+      isRecurring: true,
+      recurringPattern: '{"type":"daily","interval":1}',
+    } as any
+
+    const nextDate = getNextOccurrenceAfter(task, new Date('2024-01-15T12:00:00Z'))
+    expect(nextDate?.toISOString().split('T')[0]).toBe('2024-01-16')
+  })
+
+  it('should skip past occurrences when completed late', () => {
+    const task = {
+      id: '1',
+      name: 'Test Task',
+      date: new Date('2024-01-15'), // Monday
+      isRecurring: true,
+      recurringPattern: '{"type":"weekly","interval":1,"daysOfWeek":[1]}',
+    } as any
+
+    const nextDate = getNextOccurrenceAfter(task, new Date('2024-02-01T12:00:00Z'))
+    expect(nextDate?.toISOString().split('T')[0]).toBe('2024-02-05')
+  })
+
+  it('should return null once the series has ended', () => {
+    const task = {
+      id: '1',
+      name: 'Test Task',
+      date: new Date('2024-01-15'),
+      isRecurring: true,
+      recurringPattern: '{"type":"daily","interval":1,"endDate":"2024-01-20"}',
+    } as any
+
+    const nextDate = getNextOccurrenceAfter(task, new Date('2024-01-25T12:00:00Z'))
+    expect(nextDate).toBeNull()
+  })
+
+  it('should pass over skipped occurrences', () => {
+    const task = {
+      id: '1',
+      name: 'Test Task',
+      date: new Date('2024-01-15'),
+      isRecurring: true,
+      recurringPattern: '{"type":"daily","interval":1}',
+    } as any
+    const exceptions = [{ originalDate: new Date('2024-01-16'), isSkipped: true, newDate: null }]
+
+    const nextDate = getNextOccurrenceAfter(task, new Date('2024-01-15T12:00:00Z'), exceptions)
+    expect(nextDate?.toISOString().split('T')[0]).toBe('2024-01-17')
+  })
+
+  it('should step from the original date of a rescheduled instance', () => {
+    const task = {
+      id: '1',
+      name: 'Test Task',
+      date: new Date('2024-01-17'), // moved from Monday to Wednesday
+      occurrenceDate: new Date('2024-01-15'),
+      isRecurring: true,
+      recurringPattern: '{"type":"weekly","interval":1,"daysOfWeek":[1]}',
+    } as any
+
+    const nextDate = getNextOccurrenceAfter(task, new Date('2024-01-17T12:00:00Z'))
+    expect(nextDate?.toISOString().split('T')[0]).toBe('2024-01-22')
+  })
+
+  it('should keep long-running daily series going', () => {
+    const task = {
+      id: '1',
+      name: 'Test Task',
+      date: new Date('2019-01-15T09:00:00Z'),
+      isRecurring: true,
+      recurringPattern: '{"type":"daily","interval":2}',
+    } as any
+
+    const nextDate = getNextOccurrenceAfter(task, new Date('2024-01-15T12:00:00Z'))
+    expect(nextDate?.getTime()).toBeGreaterThan(new Date('2024-01-15T12:00:00Z').getTime())
+    expect(nextDate?.getTime()).toBeLessThanOrEqual(new Date('2024-01-17T12:00:00Z').getTime())
+  })
+})
+
+describe('getOccurrencesBetween', () => {
+  const task = {
+    id: '1',
+    name: 'Test Task',
+    date: new Date('2024-01-15'),
+    isRecurring: true,
+    recurringPattern: '{"type":"daily","interval":1}',
+  } as any
+
+  it('should list occurrences in the range', () => {
+    const occurrences = getOccurrencesBetween(task, new Date('2024-01-14'), new Date('2024-01-17'))
+    expect(occurrences.map(o => o.date.toISOString().split('T')[0])).toEqual(['2024-01-15', '2024-01-16', '2024-01-17'])
+  })
+
+  it('should leave out skipped and move rescheduled occurrences', () => {
+    const exceptions = [
+      { originalDate: new Date('2024-01-16'), isSkipped: true, newDate: null },
+      { originalDate: new Date('2024-01-17'), isSkipped: false, newDate: new Date('2024-01-18T12:00:00Z') },
+    ]
+
+    const occurrences = getOccurrencesBetween(task, new Date('2024-01-15'), new Date('2024-01-19'), exceptions)
+    expect(occurrences.map(o => o.date.toISOString())).toEqual([
+      '2024-01-15T00:00:00.000Z',
+      '2024-01-18T00:00:00.000Z',
+      '2024-01-18T12:00:00.000Z',
+      '2024-01-19T00:00:00.000Z',
+    ])
+    expect(occurrences[2].originalDate.toISOString().split('T')[0]).toBe('2024-01-17')
+  })
+
+  it('should check whether a date belongs to the series', () => {
+    expect(isSeriesOccurrence(task, new Date('2024-01-18'))).toBe(true)
+    expect(isSeriesOccurrence(task, new Date('2024-01-18T12:00:00Z'))).toBe(false)
+    expect(isSeriesOccurrence(task, new Date('2024-01-10'))).toBe(false)
+  })
+
+  it('should stop stepping through a series long before far-off dates', () => {
+    const weekdays = { ...task, recurringPattern: '{"type":"weekday","interval":1}' }
+
+    expect(getOccurrencesBetween(weekdays, new Date('9999-01-01'), new Date('9999-01-10'))).toEqual([])
+    expect(isSeriesOccurrence(weekdays, new Date('9999-01-01'))).toBe(false)
+  })
+})
+
 describe('isTaskActive', () => {
   it('should return true for active tasks without end date', () => {
     const task = {
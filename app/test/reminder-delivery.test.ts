@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { createECDH, randomBytes } from 'crypto';
+import webpush from 'web-push';
+import prisma from '@/lib/prisma';
+import { createUser } from '@/lib/db-utils';
+import {
+  processDueReminders,
+  getRetryDelay,
+  MAX_DELIVERY_ATTEMPTS,
+  ReminderChannel,
+  DueReminder,
+} from '@/lib/reminder-delivery';
+import { createPushChannel } from '@/lib/web-push';
+
+// Records what it was asked to send and fails while `failing` is set
+function createTestChannel(name: string) {
+  const sent: string[] = [];
+  const channel: ReminderChannel & { sent: string[]; failing: boolean } = {
+    name,
+    sent,
+    failing: false,
+    async send(reminder: DueReminder) {
+      if (channel.failing) {
+        throw new Error('Channel unavailable');
+      }
+      sent.push(reminder.id);
+    },
+  };
+  return channel;
+}
+
+describe('Reminder delivery', () => {
+  let testUserId: string;
+  let testTaskId: string;
+  const now = new Date('2026-03-01T09:00:00Z');
+
+  beforeEach(async () => {
+    const testUser = await createUser({
+      email: `test-reminder-delivery-${Date.now()}@example.com`,
+      name: 'Test Reminder Delivery User',
+    });
+    testUserId = testUser.id;
+
+    const testList = await prisma.list.create({
+      data: { name: 'Reminder Delivery List', userId: testUserId },
+    });
+
+    const testTask = await prisma.task.create({
+      data: { name: 'Task with reminders', listId: testList.id, userId: testUserId },
+    });
+    testTaskId = testTask.id;
+
+    // Keep reminders from other tests out of the queue
+    await prisma.reminder.deleteMany({});
+  });
+
+  afterEach(async () => {
+    await prisma.reminder.deleteMany({ where: { task: { userId: testUserId } } });
+    await prisma.task.deleteMany({ where: { userId: testUserId } });
+    await prisma.list.deleteMany({ where: { userId: testUserId } });
+    await prisma.user.deleteMany({ where: { id: testUserId } });
+  });
+
+  it('should deliver due reminders through every channel once', async () => {
+    const reminder = await prisma.reminder.create({
+      data: { taskId: testTaskId, datetime: new Date('2026-03-01T08:59:00Z') },
+    });
+    const future = await prisma.reminder.create({
+      data: { taskId: testTaskId, datetime: new Date('2026-03-01T10:00:00Z') },
+    });
+    const push = createTestChannel('push');
+    const email = createTestChannel('email');
+
+    const summary = await processDueReminders({ now, channels: [push, email] });
+    expect(summary.delivered).toBe(1);
+    expect(push.sent).toEqual([reminder.id]);
+    expect(email.sent).toEqual([reminder.id]);
+
+    const updated = await prisma.reminder.findUnique({ where: { id: reminder.id } });
+    expect(updated?.status).toBe('delivered');
+    expect(updated?.deliveredAt).toEqual(now);
+
+    const untouched = await prisma.reminder.findUnique({ where: { id: future.id } });
+    expect(untouched?.status).toBe('pending');
+
+    // Running again never sends the same reminder twice
+    await processDueReminders({ now, channels: [push, email] });
+    expect(push.sent).toHaveLength(1);
+  });
+
+  it('should push reminders to a local push service stand-in', async () => {
+    const received: Request[] = [];
+    const server = Bun.serve({
+      port: 0,
+      fetch(request) {
+        received.push(request);
+        return new Response(null, { status: 201 });
+      },
+    });
+    process.env.PUSH_ALLOWED_HOSTS = 'localhost';
+
+    try {
+      const browser = createECDH('prime256v1');
+      browser.generateKeys();
+      const subscription = await prisma.pushSubscription.create({
+        data: {
+          userId: testUserId,
+          endpoint: `http://localhost:${server.port}/push/${Date.now()}`,
+          p256dh: browser.getPublicKey('base64url'),
+          auth: randomBytes(16).toString('base64url'),
+        },
+      });
+      const reminder = await prisma.reminder.create({
+        data: { taskId: testTaskId, datetime: now },
+      });
+      const push = createPushChannel({ subject: 'mailto:test@example.com', ...webpush.generateVAPIDKeys() });
+
+      const summary = await processDueReminders({ now, channels: [push] });
+      expect(summary.delivered).toBe(1);
+
+      expect(received).toHaveLength(1);
+      expect(new URL(received[0].url).pathname).toBe(new URL(subscription.endpoint).pathname);
+      expect(received[0].headers.get('content-encoding')).toBe('aes128gcm');
+      expect((await prisma.reminder.findUnique({ where: { id: reminder.id } }))?.status).toBe('delivered');
+      // The stand-in accepted the push, so the subscription is kept
+      expect(await prisma.pushSubscription.count({ where: { id: subscription.id } })).toBe(1);
+    } finally {
+      delete process.env.PUSH_ALLOWED_HOSTS;
+      await prisma.pushSubscription.deleteMany({ where: { userId: testUserId } });
+      server.stop(true);
+    }
+  });
+
+  it('should leave due reminders pending when no channel is configured', async () => {
+    const reminder = await prisma.reminder.create({
+      data: { taskId: testTaskId, datetime: now },
+    });
+
+    const summary = await processDueReminders({ now, channels: [] });
+    expect(summary).toEqual({ delivered: 0, retrying: 0, failed: 0, skipped: 0 });
+
+    const untouched = await prisma.reminder.findUnique({ where: { id: reminder.id } });
+    expect(untouched?.status).toBe('pending');
+    expect(untouched?.attempts).toBe(0);
+  });
+
+  it('should retry failed channels with backoff without resending the others', async () => {
+    const reminder = await prisma.reminder.create({
+      data: { taskId: testTaskId, datetime: now },
+    });
+    const push = createTestChannel('push');
+    const email = createTestChannel('email');
+    email.failing = true;
+
+    const summary = await processDueReminders({ now, channels: [push, email] });
+    expect(summary.retrying).toBe(1);
+
+    const retrying = await prisma.reminder.findUnique({ where: { id: reminder.id } });
+    expect(retrying?.status).toBe('pending');
+    expect(retrying?.attempts).toBe(1);
+    expect(retrying?.lastError).toContain('email: Channel unavailable');
+    expect(retrying?.nextAttemptAt).toEqual(new Date(now.getTime() + getRetryDelay(1)));
+
+    // Not retried before the backoff has passed
+    await processDueReminders({ now, channels: [push, email] });
+    expect(push.sent).toHaveLength(1);
+
+    email.failing = false;
+    const later = new Date(now.getTime() + getRetryDelay(1));
+    await processDueReminders({ now: later, channels: [push, email] });
+
+    expect(push.sent).toHaveLength(1);
+    expect(email.sent).toEqual([reminder.id]);
+    const delivered = await prisma.reminder.findUnique({ where: { id: reminder.id } });
+    expect(delivered?.status).toBe('delivered');
+  });
+
+  it('should give up after the maximum number of attempts', async () => {
+    const reminder = await prisma.reminder.create({
+      data: { taskId: testTaskId, datetime: now, attempts: MAX_DELIVERY_ATTEMPTS - 1 },
+    });
+    const push = createTestChannel('push');
+    push.failing = true;
+
+    const summary = await processDueReminders({ now, channels: [push] });
+    expect(summary.failed).toBe(1);
+
+    const failed = await prisma.reminder.findUnique({ where: { id: reminder.id } });
+    expect(failed?.status).toBe('failed');
+    expect(failed?.nextAttemptAt).toBeNull();
+  });
+
+  it('should skip reminders of completed tasks and stale reminders', async () => {
+    const stale = await prisma.reminder.create({
+      data: { taskId: testTaskId, datetime: new Date('2026-02-20T09:00:00Z') },
+    });
+    const push = createTestChannel('push');
+
+    await processDueReminders({ now, channels: [push] });
+    expect(push.sent).toHaveLength(0);
+    expect((await prisma.reminder.findUnique({ where: { id: stale.id } }))?.status).toBe('skipped');
+
+    await prisma.task.update({ where: { id: testTaskId }, data: { completedAt: now } });
+    const reminder = await prisma.reminder.create({
+      data: { taskId: testTaskId, datetime: now },
+    });
+
+    await processDueReminders({ now, channels: [push] });
+    expect(push.sent).toHaveLength(0);
+    expect((await prisma.reminder.findUnique({ where: { id: reminder.id } }))?.status).toBe('skipped');
+  });
+
+  it('should hold snoozed reminders until the snooze ends', async () => {
+    const reminder = await prisma.reminder.create({
+      data: {
+        taskId: testTaskId,
+        datetime: new Date('2026-03-01T08:50:00Z'),
+        snoozedUntil: new Date('2026-03-01T09:05:00Z'),
+      },
+    });
+    const push = createTestChannel('push');
+
+    await processDueReminders({ now, channels: [push] });
+    expect(push.sent).toHaveLength(0);
+
+    await processDueReminders({ now: new Date('2026-03-01T09:05:00Z'), channels: [push] });
+    expect(push.sent).toEqual([reminder.id]);
+  });
+
+  it('should leave reminders claimed by another worker alone until the claim expires', async () => {
+    const reminder = await prisma.reminder.create({
+      data: {
+        taskId: testTaskId,
+        datetime: now,
+        status: 'processing',
+        lockedUntil: new Date(now.getTime() + 60 * 1000),
+      },
+    });
+    const push = createTestChannel('push');
+
+    await processDueReminders({ now, channels: [push] });
+    expect(push.sent).toHaveLength(0);
+
+    await processDueReminders({ now: new Date(now.getTime() + 2 * 60 * 1000), channels: [push] });
+    expect(push.sent).toEqual([reminder.id]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  describeRelativeReminder,
+  diffReminders,
+  getRelativeReminderTime,
+  getReminderFireTime,
+  isReminderAnchor,
+  resolveReminder,
+} from '@/lib/reminder-utils'
+
+const task = {
+  date: new Date('2026-03-02T00:00:00Z'),
+  deadline: new Date('2026-03-05T17:00:00Z'),
+}
+
+describe('getRelativeReminderTime', () => {
+  it('should count the offset back from the anchor', () => {
+    expect(getRelativeReminderTime(task, 'deadline', 15)).toEqual(new Date('2026-03-05T16:45:00Z'))
+    expect(getRelativeReminderTime(task, 'date', 1440)).toEqual(new Date('2026-03-01T00:00:00Z'))
+  })
+
+  it('should remind after the anchor for negative offsets', () => {
+    expect(getRelativeReminderTime(task, 'deadline', -60)).toEqual(new Date('2026-03-05T18:00:00Z'))
+  })
+
+  it('should return null when the anchor is not set', () => {
+    expect(getRelativeReminderTime({ ...task, deadline: null }, 'deadline', 15)).toBeNull()
+  })
+})
+
+describe('resolveReminder', () => {
+  it('should keep absolute datetimes as they are', () => {
+    expect(resolveReminder('2026-03-04T09:00:00.000Z', task)).toEqual({
+      datetime: new Date('2026-03-04T09:00:00Z'),
+      anchor: null,
+      offsetMinutes: null,
+    })
+  })
+
+  it('should compute relative reminders from the task', () => {
+    expect(resolveReminder({ anchor: 'deadline', offsetMinutes: 30 }, task)).toEqual({
+      datetime: new Date('2026-03-05T16:30:00Z'),
+      anchor: 'deadline',
+      offsetMinutes: 30,
+    })
+  })
+
+  it('should return null for a relative reminder without its anchor', () => {
+    expect(resolveReminder({ anchor: 'date', offsetMinutes: 30 }, { ...task, date: null })).toBeNull()
+  })
+})
+
+describe('diffReminders', () => {
+  const stored = [
+    { id: 'absolute', datetime: new Date('2026-03-04T09:00:00Z'), anchor: null, offsetMinutes: null },
+    { id: 'relative', datetime: new Date('2026-03-05T16:30:00Z'), anchor: 'deadline', offsetMinutes: 30 },
+  ]
+
+  it('should keep reminders that are still wanted', () => {
+    const wanted = [
+      resolveReminder('2026-03-04T09:00:00.000Z', task)!,
+      // Relative reminders match on their offset even when the task moved
+      resolveReminder({ anchor: 'deadline', offsetMinutes: 30 }, { ...task, deadline: new Date('2026-03-06T17:00:00Z') })!,
+    ]
+
+    expect(diffReminders(stored, wanted)).toEqual({ create: [], remove: [] })
+  })
+
+  it('should create new reminders and remove ones that are gone', () => {
+    const wanted = [resolveReminder({ anchor: 'date', offsetMinutes: 0 }, task)!]
+
+    const { create, remove } = diffReminders(stored, wanted)
+    expect(create).toEqual(wanted)
+    expect(remove.map(reminder => reminder.id)).toEqual(['absolute', 'relative'])
+  })
+
+  it('should match duplicates one to one', () => {
+    const wanted = [resolveReminder('2026-03-04T09:00:00.000Z', task)!, resolveReminder('2026-03-04T09:00:00.000Z', task)!]
+
+    expect(diffReminders(stored.slice(0, 1), wanted).create).toHaveLength(1)
+  })
+})
+
+describe('getReminderFireTime', () => {
+  it('should prefer the end of the latest snooze over the original time', () => {
+    const datetime = new Date('2026-03-05T16:45:00Z')
+    const snoozedUntil = new Date('2026-03-05T16:55:00Z')
+    expect(getReminderFireTime({ datetime, snoozedUntil: null })).toEqual(datetime)
+    expect(getReminderFireTime({ datetime, snoozedUntil })).toEqual(snoozedUntil)
+  })
+})
+
+describe('isReminderAnchor', () => {
+  it('should accept only date and deadline', () => {
+    expect(isReminderAnchor('date')).toBe(true)
+    expect(isReminderAnchor('deadline')).toBe(true)
+    expect(isReminderAnchor('createdAt')).toBe(false)
+    expect(isReminderAnchor(null)).toBe(false)
+  })
+})
+
+describe('describeRelativeReminder', () => {
+  it('should use the largest whole unit', () => {
+    expect(describeRelativeReminder('deadline', 15)).toBe('15 minutes before deadline')
+    expect(describeRelativeReminder('deadline', 60)).toBe('1 hour before deadline')
+    expect(describeRelativeReminder('date', 2880)).toBe('2 days before date')
+    expect(describeRelativeReminder('date', -90)).toBe('90 minutes after date')
+    expect(describeRelativeReminder('deadline', 0)).toBe('At deadline')
+  })
+})
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'bun:test'
+import { parseRRule, formatRRule, expandRRule, isRRuleString, isValidRRule } from '@/lib/rrule'
+import { getNextOccurrence, patternToRRule, patternFromRRule, getRecurrenceSummary } from '@/lib/recurring-utils'
+
+// Format dates in local time so the tests don't depend on the machine's timezone
+const day = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+describe('parseRRule', () => {
+  it('should parse ordinal weekdays', () => {
+    const rule = parseRRule('RRULE:FREQ=MONTHLY;BYDAY=2TU,-1FR')
+    expect(rule.freq).toBe('MONTHLY')
+    expect(rule.byDay).toEqual([{ weekday: 2, ordinal: 2 }, { weekday: 5, ordinal: -1 }])
+  })
+
+  it('should parse a DTSTART line', () => {
+    const rule = parseRRule('DTSTART:20240115T090000Z\nRRULE:FREQ=DAILY;COUNT=3')
+    expect(rule.dtstart?.toISOString()).toBe('2024-01-15T09:00:00.000Z')
+    expect(rule.count).toBe(3)
+  })
+
+  it('should reject invalid rules', () => {
+    expect(isValidRRule('FREQ=HOURLY')).toBe(false)
+    expect(isValidRRule('FREQ=MONTHLY;BYDAY=0MO')).toBe(false)
+    expect(isValidRRule('FREQ=DAILY;COUNT=2;UNTIL=20240101')).toBe(false)
+    expect(isValidRRule('FREQ=WEEKLY;BYWEEKNO=1')).toBe(false)
+  })
+
+  it('should round-trip through formatRRule', () => {
+    const rule = 'FREQ=MONTHLY;INTERVAL=2;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=5'
+    expect(formatRRule(parseRRule(rule))).toBe(rule)
+  })
+
+  it('should recognise RRULE strings', () => {
+    expect(isRRuleString('FREQ=DAILY')).toBe(true)
+    expect(isRRuleString('RRULE:FREQ=DAILY')).toBe(true)
+    expect(isRRuleString('{"type":"daily","interval":1}')).toBe(false)
+    expect(isRRuleString('weekly')).toBe(false)
+  })
+})
+
+describe('expandRRule', () => {
+  it('should expand the last Friday of the month', () => {
+    const dates = expandRRule(parseRRule('FREQ=MONTHLY;BYDAY=-1FR'), new Date(2024, 0, 26, 9), { limit: 3 })
+    expect(dates.map(day)).toEqual(['2024-01-26', '2024-02-23', '2024-03-29'])
+    expect(dates[1].getHours()).toBe(9)
+  })
+
+  it('should expand every 2nd Tuesday', () => {
+    const dates = expandRRule(parseRRule('FREQ=MONTHLY;BYDAY=2TU'), new Date(2024, 0, 9), { limit: 3 })
+    expect(dates.map(day)).toEqual(['2024-01-09', '2024-02-13', '2024-03-12'])
+  })
+
+  it('should apply BYSETPOS to pick the last weekday of the month', () => {
+    const rule = parseRRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1')
+    const dates = expandRRule(rule, new Date(2024, 0, 31), { limit: 3 })
+    expect(dates.map(day)).toEqual(['2024-01-31', '2024-02-29', '2024-03-29'])
+  })
+
+  it('should skip months without the requested day', () => {
+    const dates = expandRRule(parseRRule('FREQ=MONTHLY;BYMONTHDAY=31'), new Date(2024, 0, 31), { limit: 3 })
+    expect(dates.map(day)).toEqual(['2024-01-31', '2024-03-31', '2024-05-31'])
+  })
+
+  it('should support negative BYMONTHDAY', () => {
+    const dates = expandRRule(parseRRule('FREQ=MONTHLY;BYMONTHDAY=-1'), new Date(2024, 0, 31), { limit: 2 })
+    expect(dates.map(day)).toEqual(['2024-01-31', '2024-02-29'])
+  })
+
+  it('should expand weekly rules with an interval', () => {
+    const dates = expandRRule(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH'), new Date(2024, 0, 15), { limit: 4 })
+    expect(dates.map(day)).toEqual(['2024-01-15', '2024-01-18', '2024-01-29', '2024-02-01'])
+  })
+
+  it('should expand yearly rules by month', () => {
+    const dates = expandRRule(parseRRule('FREQ=YEARLY;BYMONTH=11;BYDAY=4TH'), new Date(2024, 10, 28), { limit: 2 })
+    expect(dates.map(day)).toEqual(['2024-11-28', '2025-11-27'])
+  })
+
+  it('should stop after COUNT occurrences', () => {
+    const dates = expandRRule(parseRRule('FREQ=DAILY;COUNT=3'), new Date(2024, 0, 1))
+    expect(dates.map(day)).toEqual(['2024-01-01', '2024-01-02', '2024-01-03'])
+  })
+
+  it('should stop at UNTIL', () => {
+    const dates = expandRRule(parseRRule('FREQ=WEEKLY;UNTIL=20240122'), new Date(2024, 0, 1))
+    expect(dates.map(day)).toEqual(['2024-01-01', '2024-01-08', '2024-01-15', '2024-01-22'])
+  })
+
+  it('should keep counting from DTSTART when only later dates are requested', () => {
+    const dates = expandRRule(parseRRule('FREQ=DAILY;COUNT=3'), new Date(2024, 0, 1), {
+      after: new Date(2024, 0, 2),
+    })
+    expect(dates.map(day)).toEqual(['2024-01-03'])
+  })
+})
+
+describe('RRULE recurring patterns', () => {
+  it('should calculate the next occurrence of an RRULE task', () => {
+    const task = {
+      id: '1',
+      name: 'Retro',
+      date: new Date(2024, 0, 26),
+      isRecurring: true,
+      recurringPattern: 'FREQ=MONTHLY;BYDAY=-1FR',
+    } as any
+
+    expect(day(getNextOccurrence(task)!)).toBe('2024-02-23')
+  })
+
+  it('should end the series once COUNT is reached', () => {
+    const task = {
+      id: '1',
+      name: 'Onboarding',
+      date: new Date(2024, 0, 3),
+      isRecurring: true,
+      recurringPattern: JSON.stringify(patternFromRRule('DTSTART:20240101T000000\nRRULE:FREQ=DAILY;COUNT=3')),
+    } as any
+
+    expect(getNextOccurrence(task)).toBeNull()
+  })
+
+  it('should export legacy patterns as RRULEs', () => {
+    expect(patternToRRule({ type: 'weekly', interval: 2, daysOfWeek: [1, 3] })).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE')
+    expect(patternToRRule({ type: 'monthly', interval: 1, dayOfMonth: 15 })).toBe('FREQ=MONTHLY;BYMONTHDAY=15')
+    expect(patternToRRule({ type: 'yearly', interval: 1, month: 12, dayOfMonth: 25 })).toBe('FREQ=YEARLY;BYMONTH=12;BYMONTHDAY=25')
+  })
+
+  it('should summarise RRULE patterns', () => {
+    expect(getRecurrenceSummary(patternFromRRule('FREQ=MONTHLY;BYDAY=-1FR'))).toBe('Every month on the last Fri')
+    expect(getRecurrenceSummary(patternFromRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU'))).toBe('Every 2 weeks on Tue')
+  })
+})
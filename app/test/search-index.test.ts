@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  buildSearchIndex,
+  buildSnippet,
+  editDistance,
+  getSnippets,
+  searchIndex,
+  SearchDocument,
+  tokenize,
+} from '@/lib/search-index'
+
+const documents: SearchDocument[] = [
+  { id: 'report', fields: { name: 'Quarterly report', description: 'Numbers for the board meeting', list: 'Work', labels: 'finance' } },
+  { id: 'groceries', fields: { name: 'Groceries', description: 'Milk, eggs and coffee', list: 'Home', subtasks: 'Buy milk; Buy bread' } },
+  { id: 'board', fields: { name: 'Prepare board meeting', list: 'Work', attachments: 'agenda.pdf' } },
+  { id: 'cafe', fields: { name: 'Café with Sam', list: 'Personal' } },
+]
+
+const search = (query: string) => searchIndex(buildSearchIndex(documents), query)
+
+describe('tokenize', () => {
+  it('should split words and keep their positions', () => {
+    expect(tokenize('Buy milk, eggs')).toEqual([
+      { term: 'buy', start: 0, end: 3 },
+      { term: 'milk', start: 4, end: 8 },
+      { term: 'eggs', start: 10, end: 14 },
+    ])
+  })
+
+  it('should ignore case and accents', () => {
+    expect(tokenize('Café CRÈME').map(token => token.term)).toEqual(['cafe', 'creme'])
+  })
+})
+
+describe('editDistance', () => {
+  it('should count insertions, deletions, substitutions and swaps', () => {
+    expect(editDistance('report', 'report', 2)).toBe(0)
+    expect(editDistance('reprt', 'report', 2)).toBe(1)
+    expect(editDistance('repotr', 'report', 2)).toBe(1)
+    expect(editDistance('rapport', 'report', 2)).toBe(2)
+  })
+
+  it('should stop once the distance exceeds the maximum', () => {
+    expect(editDistance('milk', 'quarterly', 1)).toBe(2)
+  })
+})
+
+describe('searchIndex', () => {
+  it('should find tasks by label, list, subtask and attachment names', () => {
+    expect(search('finance').map(hit => hit.id)).toEqual(['report'])
+    expect(search('bread').map(hit => hit.id)).toEqual(['groceries'])
+    expect(search('agenda').map(hit => hit.id)).toEqual(['board'])
+    expect(search('home').map(hit => hit.id)).toEqual(['groceries'])
+  })
+
+  it('should require every word of the query', () => {
+    expect(search('board meeting').map(hit => hit.id).sort()).toEqual(['board', 'report'])
+    expect(search('board milk')).toEqual([])
+  })
+
+  it('should rank matches in the name first', () => {
+    expect(search('board meeting').map(hit => hit.id)).toEqual(['board', 'report'])
+  })
+
+  it('should tolerate small typos', () => {
+    expect(search('quartely reprot').map(hit => hit.id)).toEqual(['report'])
+    expect(search('groseries').map(hit => hit.id)).toEqual(['groceries'])
+  })
+
+  it('should not match short words loosely', () => {
+    expect(search('mik')).toEqual([])
+  })
+
+  it('should match the start of words while typing', () => {
+    expect(search('groc').map(hit => hit.id)).toEqual(['groceries'])
+  })
+
+  it('should match accented words without the accents', () => {
+    expect(search('cafe').map(hit => hit.id)).toEqual(['cafe'])
+  })
+
+  it('should return nothing for an empty query', () => {
+    expect(search(' ,. ')).toEqual([])
+  })
+})
+
+describe('buildSnippet', () => {
+  it('should highlight matched words', () => {
+    expect(buildSnippet('Milk, eggs and coffee', new Set(['eggs']))).toEqual([
+      { text: 'Milk, ', highlight: false },
+      { text: 'eggs', highlight: true },
+      { text: ' and coffee', highlight: false },
+    ])
+  })
+
+  it('should cut long text around the first match', () => {
+    const text = `${'lorem '.repeat(30)}deadline ${'ipsum '.repeat(30)}`
+    const parts = buildSnippet(text, new Set(['deadline']), 60)!
+    expect(parts[0]).toEqual({ text: '…', highlight: false })
+    expect(parts[parts.length - 1]).toEqual({ text: '…', highlight: false })
+    expect(parts.find(part => part.highlight)?.text).toBe('deadline')
+    expect(parts.map(part => part.text).join('').length).toBeLessThanOrEqual(62)
+  })
+
+  it('should return null without matches', () => {
+    expect(buildSnippet('Milk', new Set(['eggs']))).toBeNull()
+  })
+})
+
+describe('getSnippets', () => {
+  it('should return a snippet per matched field', () => {
+    const [hit] = search('milk')
+    expect(getSnippets(documents[1], hit.terms).map(snippet => snippet.field)).toEqual(['subtasks', 'description'])
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  buildSmartListConditions,
+  DEFAULT_SMART_LIST_FILTERS,
+  findDateWindowPreset,
+  getDateWindowQuery,
+  needsServerQuery,
+  parseSmartListFilters,
+} from '@/lib/smart-list-utils'
+
+// A Wednesday
+const now = new Date('2026-03-04T15:00:00Z')
+const context = {
+  now,
+  timeZone: 'UTC',
+  lists: [{ id: 'work', name: 'Work' }],
+  labels: [{ id: 'urgent', name: 'Urgent' }],
+}
+
+describe('parseSmartListFilters', () => {
+  it('should fill in defaults for missing fields', () => {
+    expect(parseSmartListFilters('{"query":"report","priority":3}')).toEqual({
+      ...DEFAULT_SMART_LIST_FILTERS,
+      query: 'report',
+      priority: 3,
+    })
+  })
+
+  it('should fall back to the defaults for invalid JSON', () => {
+    expect(parseSmartListFilters('not json')).toEqual(DEFAULT_SMART_LIST_FILTERS)
+  })
+})
+
+describe('getDateWindowQuery', () => {
+  it('should write both ends of a window as offsets', () => {
+    expect(getDateWindowQuery({ field: 'date', from: 0, to: 13 })).toBe('date>=+0d date<=+13d')
+    expect(getDateWindowQuery({ field: 'date', from: -6, to: 0 })).toBe('date>=-6d date<=+0d')
+  })
+
+  it('should leave out open ends and use "due" for deadlines', () => {
+    expect(getDateWindowQuery({ field: 'deadline', from: null, to: -1 })).toBe('due<=-1d')
+    expect(getDateWindowQuery(null)).toBe('')
+  })
+})
+
+describe('findDateWindowPreset', () => {
+  it('should match a window to its preset', () => {
+    expect(findDateWindowPreset({ field: 'date', from: 0, to: 13 })?.id).toBe('next14')
+    expect(findDateWindowPreset({ field: 'date', from: 0, to: 2 })).toBeUndefined()
+    expect(findDateWindowPreset(null)).toBeUndefined()
+  })
+})
+
+describe('needsServerQuery', () => {
+  it('should only send filters to the server', () => {
+    expect(needsServerQuery('quarterly report')).toBe(false)
+    expect(needsServerQuery('report label:urgent')).toBe(true)
+    expect(needsServerQuery('-has:attachment')).toBe(true)
+    expect(needsServerQuery('priority>=2')).toBe(true)
+  })
+})
+
+describe('buildSmartListConditions', () => {
+  it('should combine the query, window and picked filters', () => {
+    const { conditions, errors } = buildSmartListConditions({
+      ...DEFAULT_SMART_LIST_FILTERS,
+      query: 'label:Urgent report',
+      priority: 3,
+      listId: 'work',
+      dateWindow: { field: 'date', from: 0, to: 6 },
+    }, context)
+
+    expect(errors).toEqual([])
+    expect(conditions).toContainEqual({ labels: { some: { id: { in: ['urgent'] } } } })
+    expect(conditions).toContainEqual({ priority: 3 })
+    expect(conditions).toContainEqual({ listId: 'work' })
+    expect(conditions).toContainEqual({ date: { gte: new Date('2026-03-04T00:00:00Z') } })
+    expect(conditions).toContainEqual({ date: { lt: new Date('2026-03-11T00:00:00Z') } })
+  })
+
+  it('should return no conditions for the defaults', () => {
+    expect(buildSmartListConditions(DEFAULT_SMART_LIST_FILTERS, context)).toEqual({ conditions: [], errors: [] })
+  })
+
+  it('should pass query errors through', () => {
+    const { errors } = buildSmartListConditions({ ...DEFAULT_SMART_LIST_FILTERS, query: 'list:Home' }, context)
+
+    expect(errors.map(error => error.message)).toEqual(['No list named "Home"'])
+  })
+})
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'bun:test'
+import { computeTaskStats, getCompletionStreaks, isOverdue } from '@/lib/stats-utils'
+
+const task = (overrides: Record<string, unknown> = {}) => ({
+  id: Math.random().toString(36).slice(2),
+  listId: 'inbox',
+  createdAt: new Date('2030-01-01T08:00:00.000Z'),
+  completedAt: null,
+  date: null,
+  deadline: null,
+  estimates: null,
+  actualTime: null,
+  labels: [],
+  ...overrides,
+}) as any
+
+const lists = [
+  { id: 'inbox', name: 'Inbox', color: 'gray' },
+  { id: 'work', name: 'Work', color: 'blue' },
+]
+const labels = [{ id: 'urgent', name: 'Urgent', color: 'red' }]
+
+const from = new Date('2030-01-01T00:00:00.000Z')
+const to = new Date('2030-01-07T23:59:59.999Z')
+const now = new Date('2030-01-07T12:00:00.000Z')
+
+describe('computeTaskStats', () => {
+  it('should count completions and the completion rate in range', () => {
+    const stats = computeTaskStats({
+      tasks: [
+        task({ completedAt: new Date('2030-01-03T10:00:00.000Z') }),
+        task({ completedAt: new Date('2030-01-05T10:00:00.000Z') }),
+        task(),
+        task(),
+        // Completed before the range starts, so it wasn't active
+        task({ createdAt: new Date('2029-12-01T00:00:00.000Z'), completedAt: new Date('2029-12-20T00:00:00.000Z') }),
+        // Created after the range
+        task({ createdAt: new Date('2030-02-01T00:00:00.000Z') }),
+      ],
+      lists,
+      labels,
+      from,
+      to,
+      now,
+    })
+
+    expect(stats.total).toBe(4)
+    expect(stats.completed).toBe(2)
+    expect(stats.open).toBe(2)
+    expect(stats.completionRate).toBe(0.5)
+  })
+
+  it('should sum estimated and actual time of completed tasks', () => {
+    const stats = computeTaskStats({
+      tasks: [
+        task({ completedAt: new Date('2030-01-03T10:00:00.000Z'), estimates: 30, actualTime: 45 }),
+        task({ completedAt: new Date('2030-01-04T10:00:00.000Z'), estimates: 60 }),
+        task({ estimates: 120 }),
+      ],
+      lists,
+      labels,
+      from,
+      to,
+      now,
+    })
+
+    expect(stats.time).toEqual({ estimated: 90, actual: 45 })
+  })
+
+  it('should break tasks down by list and label', () => {
+    const stats = computeTaskStats({
+      tasks: [
+        task({ listId: 'work', labels: [{ id: 'urgent' }], completedAt: new Date('2030-01-03T10:00:00.000Z') }),
+        task({ listId: 'work' }),
+        task(),
+      ],
+      lists,
+      labels,
+      from,
+      to,
+      now,
+    })
+
+    expect(stats.byList).toEqual([
+      { id: 'inbox', name: 'Inbox', color: 'gray', total: 1, completed: 0 },
+      { id: 'work', name: 'Work', color: 'blue', total: 2, completed: 1 },
+    ])
+    expect(stats.byLabel).toEqual([
+      { id: 'urgent', name: 'Urgent', color: 'red', total: 1, completed: 1 },
+    ])
+  })
+
+  it('should bucket completions per day in the user\'s timezone', () => {
+    const stats = computeTaskStats({
+      tasks: [
+        // 23:30 on Jan 3rd in New York
+        task({ completedAt: new Date('2030-01-04T04:30:00.000Z') }),
+      ],
+      lists,
+      labels,
+      from,
+      to,
+      now,
+      timeZone: 'America/New_York',
+    })
+
+    expect(stats.daily.find(day => day.completed > 0)?.date).toBe('2030-01-03')
+  })
+
+  it('should follow daylight saving changes within the range', () => {
+    const stats = computeTaskStats({
+      tasks: [
+        // 00:30 on Mar 11th in New York, the day after clocks went forward
+        task({ completedAt: new Date('2030-03-11T04:30:00.000Z') }),
+      ],
+      lists,
+      labels,
+      from: new Date('2030-03-01T05:00:00.000Z'),
+      to: new Date('2030-03-15T04:00:00.000Z'),
+      now: new Date('2030-03-15T04:00:00.000Z'),
+      timeZone: 'America/New_York',
+    })
+
+    expect(stats.daily.find(day => day.completed > 0)?.date).toBe('2030-03-11')
+  })
+})
+
+describe('isOverdue', () => {
+  it('should use the deadline when there is one', () => {
+    expect(isOverdue(task({ deadline: new Date('2030-01-07T11:00:00.000Z') }), now)).toBe(true)
+    expect(isOverdue(task({ deadline: new Date('2030-01-07T13:00:00.000Z'), date: new Date('2030-01-01') }), now)).toBe(false)
+  })
+
+  it('should fall back to tasks scheduled for an earlier day', () => {
+    expect(isOverdue(task({ date: new Date('2030-01-06T09:00:00.000Z') }), now)).toBe(true)
+    expect(isOverdue(task({ date: new Date('2030-01-07T09:00:00.000Z') }), now)).toBe(false)
+    expect(isOverdue(task({ date: new Date('2030-01-06T09:00:00.000Z'), completedAt: now }), now)).toBe(false)
+  })
+})
+
+describe('getCompletionStreaks', () => {
+  it('should keep the current streak alive until today is over', () => {
+    const days = new Set(['2030-01-03', '2030-01-04', '2030-01-05', '2030-01-06'])
+    expect(getCompletionStreaks(days, '2030-01-07')).toEqual({ current: 4, longest: 4 })
+  })
+
+  it('should reset the current streak after a missed day', () => {
+    const days = new Set(['2030-01-01', '2030-01-02', '2030-01-03', '2030-01-05'])
+    expect(getCompletionStreaks(days, '2030-01-07')).toEqual({ current: 0, longest: 3 })
+  })
+})
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'bun:test'
+import { compileQuery, parseDateValue, parseQuery, suggestQuery } from '@/lib/task-query'
+
+// A Wednesday
+const now = new Date('2026-03-04T15:00:00Z')
+const context = {
+  now,
+  timeZone: 'UTC',
+  lists: [{ id: 'work', name: 'Work' }, { id: 'side', name: 'Side projects' }],
+  labels: [{ id: 'urgent', name: 'Urgent' }, { id: 'waiting', name: 'Waiting on' }],
+}
+
+describe('parseQuery', () => {
+  it('should split filters from text', () => {
+    const query = parseQuery('list:Work quarterly report priority>=2 -has:attachment')
+
+    expect(query.text).toBe('quarterly report')
+    expect(query.errors).toEqual([])
+    expect(query.filters).toEqual([
+      { key: 'list', operator: ':', value: 'Work', negated: false, start: 0, end: 9 },
+      { key: 'priority', operator: '>=', value: '2', negated: false, start: 27, end: 38 },
+      { key: 'has', operator: ':', value: 'attachment', negated: true, start: 39, end: 54 },
+    ])
+  })
+
+  it('should read quoted values and text', () => {
+    const query = parseQuery('list:"Side projects" "due:tomorrow"')
+
+    expect(query.filters[0].value).toBe('Side projects')
+    expect(query.text).toBe('due:tomorrow')
+  })
+
+  it('should resolve key aliases', () => {
+    expect(parseQuery('p:high deadline:today tag:x').filters.map(filter => filter.key)).toEqual(['priority', 'due', 'label'])
+  })
+
+  it('should report bad tokens with their position', () => {
+    const { errors, filters } = parseQuery('is:later priority>urgent due<someday list:')
+
+    expect(filters).toEqual([])
+    expect(errors).toEqual([
+      { message: 'Unknown value "later" for is:, expected open, done, completed, overdue, recurring, blocked', start: 0, end: 8 },
+      { message: 'Invalid priority "urgent", expected 0-3 or none, low, medium, high', start: 9, end: 24 },
+      {
+        message: 'Invalid date "someday", expected YYYY-MM-DD, today, a weekday or an offset like +3d',
+        start: 25,
+        end: 36,
+      },
+      { message: 'Missing value for "list"', start: 37, end: 42 },
+    ])
+  })
+
+  it('should search tokens with unknown keys as text', () => {
+    const query = parseQuery('http://example.com re:meeting a<b status:open -x=1')
+
+    expect(query.errors).toEqual([])
+    expect(query.filters).toEqual([])
+    expect(query.text).toBe('http://example.com re:meeting a<b status:open -x=1')
+  })
+
+  it('should reject comparisons on keys without an order', () => {
+    expect(parseQuery('label>Urgent').errors[0].message).toBe('"label" can\'t be compared with >')
+  })
+
+  it('should report an unclosed quote', () => {
+    expect(parseQuery('list:"Side projects').errors).toEqual([{ message: 'Missing closing quote', start: 0, end: 19 }])
+  })
+})
+
+describe('parseDateValue', () => {
+  it('should read date words relative to the current day', () => {
+    expect(parseDateValue('today', now, 'UTC')).toEqual(new Date('2026-03-04T00:00:00Z'))
+    expect(parseDateValue('tomorrow', now, 'UTC')).toEqual(new Date('2026-03-05T00:00:00Z'))
+    expect(parseDateValue('-1w', now, 'UTC')).toEqual(new Date('2026-02-25T00:00:00Z'))
+    expect(parseDateValue('2026-12-24', now, 'UTC')).toEqual(new Date('2026-12-24T00:00:00Z'))
+  })
+
+  it('should pick the next matching weekday, today included', () => {
+    expect(parseDateValue('friday', now, 'UTC')).toEqual(new Date('2026-03-06T00:00:00Z'))
+    expect(parseDateValue('wed', now, 'UTC')).toEqual(new Date('2026-03-04T00:00:00Z'))
+    expect(parseDateValue('mon', now, 'UTC')).toEqual(new Date('2026-03-09T00:00:00Z'))
+  })
+
+  it('should use the current day in the user\'s timezone', () => {
+    // Already Thursday in Tokyo
+    expect(parseDateValue('today', now, 'Asia/Tokyo')).toEqual(new Date('2026-03-05T00:00:00Z'))
+  })
+
+  it('should reject unknown values', () => {
+    expect(parseDateValue('someday', now, 'UTC')).toBeNull()
+    expect(parseDateValue('2026-13-45', now, 'UTC')).toBeNull()
+  })
+})
+
+describe('compileQuery', () => {
+  it('should build conditions for each filter', () => {
+    const { text, conditions, errors } = compileQuery(
+      'list:work label:Urgent priority>=2 due<friday is:open has:attachment report',
+      context
+    )
+
+    expect(errors).toEqual([])
+    expect(text).toBe('report')
+    expect(conditions).toEqual([
+      { listId: { in: ['work'] } },
+      { labels: { some: { id: { in: ['urgent'] } } } },
+      { priority: { gte: 2 } },
+      { deadline: { lt: new Date('2026-03-06T00:00:00Z') } },
+      { completedAt: null },
+      { attachments: { some: {} } },
+    ])
+  })
+
+  it('should compare whole days', () => {
+    const day = new Date('2026-03-05T00:00:00Z')
+    const nextDay = new Date('2026-03-06T00:00:00Z')
+
+    expect(compileQuery('due:tomorrow', context).conditions).toEqual([{ deadline: { gte: day, lt: nextDay } }])
+    expect(compileQuery('date<=tomorrow', context).conditions).toEqual([{ date: { lt: nextDay } }])
+    expect(compileQuery('created>tomorrow', context).conditions).toEqual([{ createdAt: { gte: nextDay } }])
+  })
+
+  it('should negate filters', () => {
+    expect(compileQuery('-is:overdue', context).conditions).toEqual([
+      { NOT: { completedAt: null, deadline: { lt: now } } },
+    ])
+  })
+
+  it('should report names that match no list or label', () => {
+    expect(compileQuery('list:Home label:urgent', context).errors).toEqual([
+      { message: 'No list named "Home"', start: 0, end: 9 },
+    ])
+  })
+})
+
+describe('suggestQuery', () => {
+  it('should suggest filter keys', () => {
+    expect(suggestQuery('report la', 9, context)).toEqual({ start: 7, end: 9, suggestions: ['label:'] })
+    expect(suggestQuery('-h', 2, context).suggestions).toEqual(['-has:'])
+  })
+
+  it('should suggest list and label names', () => {
+    expect(suggestQuery('list:s', 6, context)).toEqual({ start: 0, end: 6, suggestions: ['list:"Side projects"'] })
+    expect(suggestQuery('label:', 6, context).suggestions).toEqual(['label:Urgent', 'label:"Waiting on"'])
+  })
+
+  it('should suggest values for the token under the cursor', () => {
+    expect(suggestQuery('is:o due:to', 4, context).suggestions).toEqual(['is:open', 'is:overdue'])
+    expect(suggestQuery('is:o due:to', 11, context).suggestions).toEqual(['due:today', 'due:tomorrow'])
+  })
+
+  it('should not suggest anything for plain words', () => {
+    expect(suggestQuery('report', 6, context).suggestions).toEqual([])
+    expect(suggestQuery('', 0, context).suggestions).toEqual([])
+  })
+})
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  buildTimelineRows,
+  getDependencyLinks,
+  getSpanChanges,
+  getTaskSpan,
+  moveSpan,
+  TimelineTask,
+} from '@/lib/timeline-utils'
+
+const at = (iso: string) => new Date(iso)
+
+const task = (overrides: Partial<TimelineTask> & { id: string }): TimelineTask => ({
+  parentId: null,
+  estimates: null,
+  date: null,
+  deadline: null,
+  ...overrides,
+})
+
+describe('getTaskSpan', () => {
+  it('should span from the date to the deadline', () => {
+    expect(getTaskSpan(task({ id: 'a', date: at('2026-03-02'), deadline: at('2026-03-06') }))).toEqual({
+      start: at('2026-03-02'),
+      end: at('2026-03-06'),
+    })
+  })
+
+  it('should use the estimate, in minutes, without a deadline', () => {
+    expect(getTaskSpan(task({ id: 'a', date: '2026-03-02T09:00:00.000Z', estimates: 90 }))).toEqual({
+      start: at('2026-03-02T09:00:00Z'),
+      end: at('2026-03-02T10:30:00Z'),
+    })
+  })
+
+  it('should last a day without a deadline or estimate, or when the deadline comes first', () => {
+    expect(getTaskSpan(task({ id: 'a', date: at('2026-03-02') }))?.end).toEqual(at('2026-03-03'))
+    expect(getTaskSpan(task({ id: 'a', date: at('2026-03-02'), deadline: at('2026-03-01') }))?.end).toEqual(at('2026-03-03'))
+  })
+
+  it('should end at the deadline without a date', () => {
+    expect(getTaskSpan(task({ id: 'a', deadline: at('2026-03-06') }))).toEqual({
+      start: at('2026-03-05'),
+      end: at('2026-03-06'),
+    })
+  })
+
+  it('should return null for unscheduled tasks', () => {
+    expect(getTaskSpan(task({ id: 'a' }))).toBeNull()
+  })
+})
+
+describe('buildTimelineRows', () => {
+  it('should order tasks by start and nest subtasks under their parent', () => {
+    const rows = buildTimelineRows([
+      task({ id: 'late', date: at('2026-03-10') }),
+      task({ id: 'parent', date: at('2026-03-01'), deadline: at('2026-03-09') }),
+      task({ id: 'child-2', parentId: 'parent', date: at('2026-03-05') }),
+      task({ id: 'child-1', parentId: 'parent', date: at('2026-03-02') }),
+      task({ id: 'grandchild', parentId: 'child-1', date: at('2026-03-03') }),
+      task({ id: 'unscheduled' }),
+    ])
+
+    expect(rows.map(row => [row.task.id, row.depth])).toEqual([
+      ['parent', 0],
+      ['child-1', 1],
+      ['grandchild', 2],
+      ['child-2', 1],
+      ['late', 0],
+    ])
+  })
+
+  it('should give unscheduled parents a summary bar over their subtasks', () => {
+    const rows = buildTimelineRows([
+      task({ id: 'parent' }),
+      task({ id: 'child-1', parentId: 'parent', date: at('2026-03-02') }),
+      task({ id: 'child-2', parentId: 'parent', date: at('2026-03-04'), deadline: at('2026-03-08') }),
+    ])
+
+    expect(rows[0]).toEqual(expect.objectContaining({
+      isSummary: true,
+      span: { start: at('2026-03-02'), end: at('2026-03-08') },
+    }))
+  })
+
+  it('should treat subtasks of hidden parents as top-level tasks', () => {
+    const rows = buildTimelineRows([task({ id: 'child', parentId: 'elsewhere', date: at('2026-03-02') })])
+
+    expect(rows.map(row => row.depth)).toEqual([0])
+  })
+})
+
+describe('moveSpan', () => {
+  const span = { start: at('2026-03-02'), end: at('2026-03-04') }
+
+  it('should move both ends by whole days', () => {
+    expect(moveSpan(span, 3, 'move')).toEqual({ start: at('2026-03-05'), end: at('2026-03-07') })
+  })
+
+  it('should resize one end without passing the other', () => {
+    expect(moveSpan(span, -1, 'start')).toEqual({ start: at('2026-03-01'), end: at('2026-03-04') })
+    expect(moveSpan(span, -5, 'end')).toEqual({ start: at('2026-03-02'), end: at('2026-03-02T01:00:00Z') })
+  })
+})
+
+describe('getSpanChanges', () => {
+  const span = { start: at('2026-03-05'), end: at('2026-03-07') }
+
+  it('should only shift the dates a moved task has', () => {
+    expect(getSpanChanges(task({ id: 'a', date: at('2026-03-02') }), span, 'move')).toEqual({
+      date: span.start.toISOString(),
+    })
+    expect(getSpanChanges(task({ id: 'a', date: at('2026-03-02'), deadline: at('2026-03-04') }), span, 'move')).toEqual({
+      date: span.start.toISOString(),
+      deadline: span.end.toISOString(),
+    })
+  })
+
+  it('should shift a deadline on or before the date by the same days', () => {
+    const moved = task({ id: 'a', date: at('2026-03-02T09:00:00Z'), deadline: at('2026-03-01T17:00:00Z'), estimates: 60 })
+    const movedSpan = moveSpan(getTaskSpan(moved)!, 3, 'move')
+
+    expect(getSpanChanges(moved, movedSpan, 'move')).toEqual({
+      date: '2026-03-05T09:00:00.000Z',
+      deadline: '2026-03-04T17:00:00.000Z',
+    })
+  })
+
+  it('should set the deadline when the end is dragged', () => {
+    expect(getSpanChanges(task({ id: 'a', date: at('2026-03-02') }), span, 'end')).toEqual({
+      deadline: span.end.toISOString(),
+    })
+  })
+})
+
+describe('getDependencyLinks', () => {
+  it('should link blockers to the tasks they block when both are shown', () => {
+    const rows = buildTimelineRows([
+      task({ id: 'design', date: at('2026-03-02') }),
+      task({ id: 'build', date: at('2026-03-04'), blockedBy: [{ id: 'design' }, { id: 'unscheduled' }] }),
+      task({ id: 'unscheduled' }),
+    ])
+
+    expect(getDependencyLinks(rows)).toEqual([{ fromId: 'design', toId: 'build' }])
+  })
+})
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { createDecipheriv, createECDH, hkdfSync, randomBytes } from 'crypto';
+import webpush from 'web-push';
+import { buildReminderPayload, isAllowedPushEndpoint, sendPushNotification, PushPayload, VapidDetails } from '@/lib/web-push';
+import type { DueReminder } from '@/lib/reminder-delivery';
+
+type ReceivedPush = { headers: Headers; body: Buffer };
+
+// Decrypt an aes128gcm Web Push message (RFC 8291) the way a browser would
+function decryptPush(body: Buffer, client: ReturnType<typeof createECDH>, authSecret: Buffer): string {
+  const salt = body.subarray(0, 16);
+  const keyIdLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + keyIdLength);
+  const ciphertext = body.subarray(21 + keyIdLength);
+
+  const sharedSecret = client.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), client.getPublicKey(), serverPublicKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+  const key = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const decipher = createDecipheriv('aes-128-gcm', key, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const padded = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+  return padded.subarray(0, padded.lastIndexOf(2)).toString('utf8');
+}
+
+describe('Web Push', () => {
+  // Stand-in for a browser vendor's push service
+  let server: ReturnType<typeof Bun.serve>;
+  let received: ReceivedPush[] = [];
+  let vapid: VapidDetails;
+  const client = createECDH('prime256v1');
+  client.generateKeys();
+  const authSecret = randomBytes(16);
+
+  beforeAll(() => {
+    const keys = webpush.generateVAPIDKeys();
+    vapid = { subject: 'mailto:test@example.com', ...keys };
+
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        if (new URL(request.url).pathname === '/gone') {
+          return new Response(null, { status: 410 });
+        }
+        received.push({ headers: request.headers, body: Buffer.from(await request.arrayBuffer()) });
+        return new Response(null, { status: 201 });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  const target = (path: string) => ({
+    endpoint: `http://localhost:${server.port}${path}`,
+    p256dh: client.getPublicKey('base64url'),
+    auth: authSecret.toString('base64url'),
+  });
+
+  const payload: PushPayload = {
+    title: 'Write report',
+    body: 'Reminder',
+    tag: 'reminder-1',
+    data: { taskId: 'task-1', reminderId: 'reminder-1' },
+    actions: [{ action: 'complete', title: 'Complete' }],
+  };
+
+  it('should send an encrypted, VAPID-signed notification to the push endpoint', async () => {
+    received = [];
+    expect(await sendPushNotification(target('/push/abc'), payload, vapid)).toBe(true);
+
+    expect(received).toHaveLength(1);
+    const [push] = received;
+    expect(push.headers.get('content-encoding')).toBe('aes128gcm');
+    expect(push.headers.get('ttl')).toBe('3600');
+    expect(push.headers.get('authorization')).toStartWith('vapid t=');
+    expect(push.headers.get('authorization')).toContain(`k=${vapid.publicKey}`);
+    expect(JSON.parse(decryptPush(push.body, client, authSecret))).toEqual(payload);
+  });
+
+  it('should report subscriptions the push service says are gone', async () => {
+    expect(await sendPushNotification(target('/gone'), payload, vapid)).toBe(false);
+  });
+
+  it('should build a payload with complete and snooze actions', () => {
+    const reminder = {
+      id: 'reminder-1',
+      datetime: new Date('2026-03-01T09:00:00Z'),
+      task: {
+        id: 'task-1',
+        name: 'Write report',
+        date: null,
+        deadline: new Date('2026-03-01T17:00:00Z'),
+        priority: 2,
+        completedAt: null,
+        user: { id: 'user-1', email: 'test@example.com', name: null, timezone: 'America/New_York' },
+      },
+    } as DueReminder;
+
+    expect(buildReminderPayload(reminder)).toEqual({
+      title: 'Write report',
+      body: 'Due Mar 1, 2026, 12:00 PM',
+      tag: 'reminder-1',
+      data: { taskId: 'task-1', reminderId: 'reminder-1' },
+      actions: [
+        { action: 'complete', title: 'Complete' },
+        { action: 'snooze', title: 'Snooze 10 min' },
+      ],
+    });
+  });
+
+  it('should only allow HTTPS endpoints of known push services', () => {
+    expect(isAllowedPushEndpoint('https://fcm.googleapis.com/fcm/send/abc')).toBe(true);
+    expect(isAllowedPushEndpoint('https://web.push.apple.com/QGuQyavXutnMH')).toBe(true);
+    expect(isAllowedPushEndpoint('http://fcm.googleapis.com/fcm/send/abc')).toBe(false);
+    expect(isAllowedPushEndpoint('https://fcm.googleapis.com.evil.example/abc')).toBe(false);
+    expect(isAllowedPushEndpoint('https://example.com/push')).toBe(false);
+    expect(isAllowedPushEndpoint('not a url')).toBe(false);
+  });
+
+  it('should not allow internal hosts that are not listed', () => {
+    process.env.PUSH_ALLOWED_HOSTS = 'push.internal.example';
+    try {
+      expect(isAllowedPushEndpoint('https://localhost:3000/push')).toBe(false);
+      expect(isAllowedPushEndpoint('https://127.0.0.1/push')).toBe(false);
+      expect(isAllowedPushEndpoint('https://169.254.169.254/latest')).toBe(false);
+      expect(isAllowedPushEndpoint('https://push.internal.example/abc')).toBe(true);
+    } finally {
+      delete process.env.PUSH_ALLOWED_HOSTS;
+    }
+  });
+
+  it('should allow listed local hosts outside production only', () => {
+    // NODE_ENV is typed read-only
+    const env = process.env as Record<string, string | undefined>;
+    const nodeEnv = env.NODE_ENV;
+    process.env.PUSH_ALLOWED_HOSTS = 'localhost';
+    try {
+      expect(isAllowedPushEndpoint('http://localhost:3000/push')).toBe(true);
+      expect(isAllowedPushEndpoint('http://127.0.0.1:3000/push')).toBe(false);
+
+      env.NODE_ENV = 'production';
+      expect(isAllowedPushEndpoint('http://localhost:3000/push')).toBe(false);
+      expect(isAllowedPushEndpoint('https://localhost:3000/push')).toBe(false);
+    } finally {
+      env.NODE_ENV = nodeEnv;
+      delete process.env.PUSH_ALLOWED_HOSTS;
+    }
+  });
+});
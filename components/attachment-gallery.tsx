@@ -0,0 +1,119 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Image from "next/image"
+import { Download, ExternalLink, FileText, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { TaskWithRelations } from "@/lib/types/api"
+import { formatFileSize, getPreviewKind } from "@/lib/attachment-utils"
+
+type Attachment = TaskWithRelations["attachments"][number]
+
+interface AttachmentGalleryProps {
+  attachments: Attachment[]
+  onDelete?: (attachmentId: string) => void
+}
+
+function TextPreview({ attachmentId }: { attachmentId: string }) {
+  const [snippet, setSnippet] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchSnippet = async () => {
+      try {
+        const response = await fetch(`/api/attachments/${attachmentId}/preview`)
+        if (response.ok) {
+          setSnippet(await response.text())
+        }
+      } catch (error) {
+        console.error("Error fetching attachment preview:", error)
+      }
+    }
+
+    fetchSnippet()
+  }, [attachmentId])
+
+  if (snippet === null) {
+    return <FileText className="h-8 w-8 text-muted-foreground" />
+  }
+
+  return (
+    <pre className="h-full w-full overflow-hidden whitespace-pre-wrap break-words p-2 text-left text-[10px] leading-tight text-muted-foreground">
+      {snippet}
+    </pre>
+  )
+}
+
+export function AttachmentGallery({ attachments, onDelete }: AttachmentGalleryProps) {
+  // Previews that failed to load fall back to a file icon
+  const [failedPreviews, setFailedPreviews] = useState<Set<string>>(new Set())
+
+  const renderPreview = (attachment: Attachment) => {
+    const kind = attachment.storageKey ? getPreviewKind(attachment.type) : null
+
+    if (kind === "image" && !failedPreviews.has(attachment.id)) {
+      return (
+        <Image
+          src={`/api/attachments/${attachment.id}/preview`}
+          alt={attachment.name}
+          fill
+          unoptimized
+          className="object-cover"
+          onError={() => setFailedPreviews(prev => new Set(prev).add(attachment.id))}
+        />
+      )
+    }
+    if (kind === "text") {
+      return <TextPreview attachmentId={attachment.id} />
+    }
+    return <FileText className="h-8 w-8 text-muted-foreground" />
+  }
+
+  // Uploaded files that have a preview open in the browser, the rest download
+  const getOpenUrl = (attachment: Attachment) =>
+    attachment.storageKey && getPreviewKind(attachment.type) ? `${attachment.url}?inline=true` : attachment.url
+
+  return (
+    <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+      {attachments.map(attachment => (
+        <div key={attachment.id} className="group overflow-hidden rounded-md border bg-muted/30">
+          <button
+            type="button"
+            className="relative flex h-28 w-full items-center justify-center bg-muted/50"
+            onClick={() => window.open(getOpenUrl(attachment), "_blank")}
+            aria-label={`Open ${attachment.name}`}
+          >
+            {renderPreview(attachment)}
+          </button>
+          <div className="flex items-center justify-between gap-1 p-2">
+            <div className="min-w-0">
+              <p className="truncate text-sm" title={attachment.name}>{attachment.name}</p>
+              <p className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</p>
+            </div>
+            <div className="flex shrink-0 gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => window.open(attachment.url, "_blank")}
+                aria-label={attachment.storageKey ? `Download ${attachment.name}` : `Open ${attachment.name}`}
+              >
+                {attachment.storageKey ? <Download className="h-3 w-3" /> : <ExternalLink className="h-3 w-3" />}
+              </Button>
+              {onDelete && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 text-red-500 hover:text-red-600 hover:bg-red-50"
+                  onClick={() => onDelete(attachment.id)}
+                  aria-label={`Delete ${attachment.name}`}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
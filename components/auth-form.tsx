@@ -0,0 +1,128 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Calendar, AlertCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+
+interface AuthFormProps {
+  mode: "login" | "register"
+}
+
+export function AuthForm({ mode }: AuthFormProps) {
+  const router = useRouter()
+  const [name, setName] = useState("")
+  const [email, setEmail] = useState("")
+  const [password, setPassword] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const isRegister = mode === "register"
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    try {
+      setIsSubmitting(true)
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(isRegister ? { name: name || undefined, email, password } : { email, password }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.details?.[0]?.message || data.error || "Something went wrong")
+        return
+      }
+
+      router.push("/")
+      router.refresh()
+    } catch (err) {
+      console.error(`Error during ${mode}:`, err)
+      setError("Something went wrong")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <form onSubmit={handleSubmit}>
+          <CardHeader>
+            <div className="flex items-center gap-2 mb-2">
+              <Calendar className="h-6 w-6 text-primary" />
+              <span className="text-lg font-semibold">Daily Tasks</span>
+            </div>
+            <CardTitle>{isRegister ? "Create an account" : "Sign in"}</CardTitle>
+            <CardDescription>
+              {isRegister ? "Start planning your day" : "Welcome back! Sign in to see your tasks"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isRegister && (
+              <div className="space-y-1.5">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Your name"
+                  autoComplete="name"
+                />
+              </div>
+            )}
+            <div className="space-y-1.5">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                autoComplete="email"
+                required
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={isRegister ? "new-password" : "current-password"}
+                required
+              />
+            </div>
+            {error && (
+              <p className="text-sm text-red-500 flex items-center gap-1">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </p>
+            )}
+          </CardContent>
+          <CardFooter className="flex flex-col gap-3">
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? "Please wait..." : (isRegister ? "Sign up" : "Sign in")}
+            </Button>
+            <p className="text-sm text-muted-foreground">
+              {isRegister ? "Already have an account? " : "Don't have an account? "}
+              <Link href={isRegister ? "/login" : "/register"} className="text-primary hover:underline">
+                {isRegister ? "Sign in" : "Sign up"}
+              </Link>
+            </p>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  )
+}
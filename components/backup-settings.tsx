@@ -0,0 +1,106 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Download, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import toast from "react-hot-toast"
+
+type ConflictStrategy = "skip" | "overwrite" | "duplicate"
+
+interface RestoreCounts {
+  created: number
+  updated: number
+  skipped: number
+}
+
+// Download everything as JSON, or restore such a file into this account
+export function BackupSettings() {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [strategy, setStrategy] = useState<ConflictStrategy>("skip")
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  const handleRestore = async (file: File | undefined) => {
+    if (!file) return
+
+    setIsRestoring(true)
+    try {
+      const response = await fetch(`/api/import?strategy=${strategy}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: await file.text(),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(typeof data.details === "string" ? data.details : data.error)
+      }
+
+      const tasks: RestoreCounts = data.tasks
+      toast.success(`Restored ${tasks.created + tasks.updated} tasks${tasks.skipped ? `, kept ${tasks.skipped} existing` : ""}`)
+      for (const warning of data.warnings as string[]) {
+        toast(warning)
+      }
+    } catch (error) {
+      console.error("Error restoring backup:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to restore backup")
+    } finally {
+      setIsRestoring(false)
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ""
+      }
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>Backup</Label>
+      <p className="text-sm text-muted-foreground">
+        Download your lists, labels and tasks as a file, or restore one into this account.
+      </p>
+
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" asChild>
+          <a href="/api/export" download>
+            <Download className="mr-2 h-4 w-4" />
+            Download
+          </a>
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isRestoring}
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          {isRestoring ? "Restoring..." : "Restore"}
+        </Button>
+        <Select value={strategy} onValueChange={(value) => setStrategy(value as ConflictStrategy)}>
+          <SelectTrigger className="h-9 w-44" aria-label="Existing items">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="skip">Keep existing</SelectItem>
+            <SelectItem value="overwrite">Overwrite existing</SelectItem>
+            <SelectItem value="duplicate">Import as copies</SelectItem>
+          </SelectContent>
+        </Select>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => handleRestore(e.target.files?.[0])}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Copy } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { List } from "@prisma/client"
+import toast from "react-hot-toast"
+
+// Subscribe-from-your-calendar-app link. The server only keeps a hash of the
+// token, so the full URL is available right after it is created.
+export function CalendarFeedSettings() {
+  const [isEnabled, setIsEnabled] = useState(false)
+  const [feedUrl, setFeedUrl] = useState<string | null>(null)
+  const [lists, setLists] = useState<List[]>([])
+  const [listId, setListId] = useState("all")
+  const [isBusy, setIsBusy] = useState(false)
+
+  useEffect(() => {
+    const fetchFeed = async () => {
+      try {
+        const [feedResponse, listsResponse] = await Promise.all([
+          fetch("/api/calendar"),
+          fetch("/api/lists"),
+        ])
+        if (feedResponse.ok) {
+          setIsEnabled((await feedResponse.json()).enabled)
+        }
+        if (listsResponse.ok) {
+          setLists(await listsResponse.json())
+        }
+      } catch (error) {
+        console.error("Error fetching calendar feed:", error)
+      }
+    }
+
+    fetchFeed()
+  }, [])
+
+  const handleCreate = async () => {
+    setIsBusy(true)
+    try {
+      const response = await fetch("/api/calendar", { method: "POST" })
+      if (!response.ok) {
+        throw new Error("Failed to create calendar feed")
+      }
+      const { url } = await response.json()
+      setFeedUrl(url)
+      setIsEnabled(true)
+    } catch (error) {
+      console.error("Error creating calendar feed:", error)
+      toast.error("Failed to create calendar link")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleDisable = async () => {
+    setIsBusy(true)
+    try {
+      const response = await fetch("/api/calendar", { method: "DELETE" })
+      if (!response.ok) {
+        throw new Error("Failed to delete calendar feed")
+      }
+      setFeedUrl(null)
+      setIsEnabled(false)
+      toast.success("Calendar link turned off")
+    } catch (error) {
+      console.error("Error deleting calendar feed:", error)
+      toast.error("Failed to turn off calendar link")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const subscriptionUrl = feedUrl && listId !== "all"
+    ? `${feedUrl}?listId=${encodeURIComponent(listId)}`
+    : feedUrl
+
+  const handleCopy = async () => {
+    if (!subscriptionUrl) return
+    await navigator.clipboard.writeText(subscriptionUrl)
+    toast.success("Calendar link copied")
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>Calendar feed</Label>
+      <p className="text-sm text-muted-foreground">
+        Subscribe to your dated tasks and deadlines from Google Calendar, Apple Calendar or Outlook.
+      </p>
+
+      {subscriptionUrl && (
+        <div className="space-y-2">
+          <Select value={listId} onValueChange={setListId}>
+            <SelectTrigger aria-label="Lists in the feed">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All lists</SelectItem>
+              {lists.map((list) => (
+                <SelectItem key={list.id} value={list.id}>
+                  {list.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={subscriptionUrl} onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="icon" onClick={handleCopy} title="Copy link">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Keep this link private. It is only shown now; create a new one if you lose it.
+          </p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={handleCreate} disabled={isBusy}>
+          {isEnabled ? "Create new link" : "Create link"}
+        </Button>
+        {isEnabled && (
+          <Button variant="ghost" size="sm" onClick={handleDisable} disabled={isBusy}>
+            Turn off
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
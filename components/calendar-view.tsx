@@ -0,0 +1,456 @@
+"use client"
+
+import { useState, useMemo, useEffect, useCallback } from "react"
+import { motion } from "framer-motion"
+import { CalendarDays, ChevronLeft, ChevronRight, Flag, Repeat } from "lucide-react"
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { TaskWithRelations, VirtualOccurrence } from "@/lib/types/api"
+import {
+  DndContext,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from "@dnd-kit/core"
+import { CSS } from "@dnd-kit/utilities"
+
+type CalendarMode = "month" | "week" | "day"
+
+type CalendarEntry = {
+  id: string
+  kind: "task" | "deadline" | "occurrence"
+  task: TaskWithRelations
+  name: string
+  priority: number
+  date: Date
+  occurrence?: VirtualOccurrence
+}
+
+interface CalendarViewProps {
+  tasks: TaskWithRelations[]
+  activeListId: string | null
+  activeLabelId: string | null
+  onEdit: (task: TaskWithRelations) => void
+  onRescheduleTask: (task: TaskWithRelations, date: Date) => Promise<void>
+  onRescheduleOccurrence: (occurrence: VirtualOccurrence, date: Date) => Promise<void>
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+const MAX_MONTH_ENTRIES = 3
+
+// Tasks at local midnight have no time of day and go in the all-day row
+const isAllDay = (date: Date) => date.getHours() === 0 && date.getMinutes() === 0
+
+const getPriorityColor = (priority: number) => {
+  switch (priority) {
+    case 1: return "bg-green-100 text-green-800 border-green-300 dark:bg-green-900 dark:text-green-100"
+    case 2: return "bg-yellow-100 text-yellow-800 border-yellow-300 dark:bg-yellow-900 dark:text-yellow-100"
+    case 3: return "bg-red-100 text-red-800 border-red-300 dark:bg-red-900 dark:text-red-100"
+    default: return "bg-blue-100 text-blue-800 border-blue-300 dark:bg-blue-900 dark:text-blue-100"
+  }
+}
+
+function CalendarChip({ entry, onEdit }: { entry: CalendarEntry; onEdit: (task: TaskWithRelations) => void }) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: entry.id,
+    data: entry,
+    disabled: entry.kind === "deadline",
+  })
+
+  const style = {
+    transform: CSS.Translate.toString(transform),
+    opacity: isDragging ? 0.5 : 1,
+    zIndex: isDragging ? 999 : 1,
+  }
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      {...attributes}
+      {...listeners}
+      onClick={() => onEdit(entry.task)}
+      title={entry.name}
+      className={`flex items-center gap-1 truncate rounded border px-1.5 py-0.5 text-xs ${
+        entry.kind === "deadline"
+          ? "border-dashed border-red-400 bg-transparent text-red-600 dark:text-red-400"
+          : getPriorityColor(entry.priority)
+      } ${entry.kind === "occurrence" ? "border-dashed opacity-70" : ""} ${
+        entry.kind === "deadline" ? "cursor-pointer" : "cursor-grab"
+      }`}
+    >
+      {entry.kind === "deadline" && <Flag className="h-3 w-3 shrink-0" />}
+      {entry.kind === "occurrence" && <Repeat className="h-3 w-3 shrink-0" />}
+      {entry.kind !== "deadline" && !isAllDay(entry.date) && (
+        <span className="shrink-0 font-medium">{format(entry.date, "HH:mm")}</span>
+      )}
+      <span className="truncate">{entry.name}</span>
+    </div>
+  )
+}
+
+function DropCell({
+  id,
+  date,
+  hasTime,
+  className,
+  children,
+}: {
+  id: string
+  date: Date
+  hasTime: boolean
+  className?: string
+  children?: React.ReactNode
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id, data: { date, hasTime } })
+
+  return (
+    <div ref={setNodeRef} className={`${className ?? ""} ${isOver ? "bg-primary/10" : ""}`}>
+      {children}
+    </div>
+  )
+}
+
+export function CalendarView({
+  tasks,
+  activeListId,
+  activeLabelId,
+  onEdit,
+  onRescheduleTask,
+  onRescheduleOccurrence,
+}: CalendarViewProps) {
+  const [mode, setMode] = useState<CalendarMode>("month")
+  const [cursor, setCursor] = useState(() => new Date())
+  const [occurrences, setOccurrences] = useState<VirtualOccurrence[]>([])
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8, // 8px threshold so clicks still open the task
+      },
+    })
+  )
+
+  // Visible date range for the current mode
+  const range = useMemo(() => {
+    switch (mode) {
+      case "month":
+        return {
+          start: startOfWeek(startOfMonth(cursor), { weekStartsOn: 1 }),
+          end: endOfWeek(endOfMonth(cursor), { weekStartsOn: 1 }),
+        }
+      case "week":
+        return {
+          start: startOfWeek(cursor, { weekStartsOn: 1 }),
+          end: endOfWeek(cursor, { weekStartsOn: 1 }),
+        }
+      default:
+        return { start: startOfDay(cursor), end: endOfDay(cursor) }
+    }
+  }, [mode, cursor])
+
+  const days = useMemo(() => eachDayOfInterval(range), [range])
+
+  const fetchOccurrences = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({
+        from: range.start.toISOString(),
+        to: range.end.toISOString(),
+      })
+      const response = await fetch(`/api/tasks/occurrences?${params}`)
+      if (response.ok) {
+        const { data } = await response.json()
+        setOccurrences(data || [])
+      }
+    } catch (error) {
+      console.error("Error fetching occurrences:", error)
+    }
+  }, [range])
+
+  // Refetch when the range moves or a task changes (completing or rescheduling shifts the series)
+  useEffect(() => {
+    fetchOccurrences()
+  }, [fetchOccurrences, tasks])
+
+  const entries = useMemo(() => {
+    const visibleTasks = tasks.filter(task =>
+      !task.completedAt &&
+      (!activeListId || task.listId === activeListId) &&
+      (!activeLabelId || task.labels.some(label => label.id === activeLabelId))
+    )
+    const taskMap = new Map(visibleTasks.map(task => [task.id, task]))
+
+    const result: CalendarEntry[] = []
+    visibleTasks.forEach(task => {
+      if (task.date) {
+        result.push({
+          id: `task:${task.id}`,
+          kind: "task",
+          task,
+          name: task.name,
+          priority: task.priority,
+          date: new Date(task.date),
+        })
+      }
+      if (task.deadline) {
+        result.push({
+          id: `deadline:${task.id}`,
+          kind: "deadline",
+          task,
+          name: task.name,
+          priority: task.priority,
+          date: new Date(task.deadline),
+        })
+      }
+    })
+
+    occurrences.forEach(occurrence => {
+      const task = taskMap.get(occurrence.taskId)
+      if (!task) return
+      result.push({
+        id: `occurrence:${occurrence.taskId}:${occurrence.originalDate}`,
+        kind: "occurrence",
+        task,
+        name: occurrence.name,
+        priority: occurrence.priority,
+        date: new Date(occurrence.date),
+        occurrence,
+      })
+    })
+
+    return result
+      .filter(entry => entry.date >= range.start && entry.date <= range.end)
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+  }, [tasks, occurrences, activeListId, activeLabelId, range])
+
+  const getEntriesForDay = (day: Date) => entries.filter(entry => isSameDay(entry.date, day))
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    const { active, over } = event
+    if (!over) return
+
+    const entry = active.data.current as CalendarEntry
+    const { date: target, hasTime } = over.data.current as { date: Date; hasTime: boolean }
+
+    // Day cells keep the task's time of day, hour slots set it
+    const newDate = new Date(target)
+    if (!hasTime) {
+      newDate.setHours(entry.date.getHours(), entry.date.getMinutes(), 0, 0)
+    }
+
+    if (newDate.getTime() === entry.date.getTime()) return
+
+    if (entry.kind === "occurrence" && entry.occurrence) {
+      await onRescheduleOccurrence(entry.occurrence, newDate)
+      await fetchOccurrences()
+    } else if (entry.kind === "task") {
+      await onRescheduleTask(entry.task, newDate)
+    }
+  }
+
+  const navigate = (direction: 1 | -1) => {
+    switch (mode) {
+      case "month":
+        setCursor(prev => addMonths(prev, direction))
+        break
+      case "week":
+        setCursor(prev => addWeeks(prev, direction))
+        break
+      default:
+        setCursor(prev => addDays(prev, direction))
+    }
+  }
+
+  const getTitle = () => {
+    switch (mode) {
+      case "month":
+        return format(cursor, "MMMM yyyy")
+      case "week":
+        return `${format(range.start, "MMM d")} – ${format(range.end, "MMM d, yyyy")}`
+      default:
+        return format(cursor, "EEEE, MMMM d, yyyy")
+    }
+  }
+
+  const renderMonth = () => (
+    <div className="grid grid-cols-7 border-l border-t">
+      {days.slice(0, 7).map(day => (
+        <div key={day.toISOString()} className="border-b border-r px-2 py-1 text-xs font-medium text-muted-foreground">
+          {format(day, "EEE")}
+        </div>
+      ))}
+      {days.map(day => {
+        const dayEntries = getEntriesForDay(day)
+        return (
+          <DropCell
+            key={day.toISOString()}
+            id={`day:${day.toISOString()}`}
+            date={day}
+            hasTime={false}
+            className={`min-h-[110px] border-b border-r p-1 space-y-1 ${
+              isSameMonth(day, cursor) ? "" : "bg-muted/40 text-muted-foreground"
+            }`}
+          >
+            <button
+              type="button"
+              onClick={() => {
+                setCursor(day)
+                setMode("day")
+              }}
+              className={`flex h-6 w-6 items-center justify-center rounded-full text-xs ${
+                isToday(day) ? "bg-primary text-primary-foreground" : "hover:bg-muted"
+              }`}
+            >
+              {format(day, "d")}
+            </button>
+            {dayEntries.slice(0, MAX_MONTH_ENTRIES).map(entry => (
+              <CalendarChip key={entry.id} entry={entry} onEdit={onEdit} />
+            ))}
+            {dayEntries.length > MAX_MONTH_ENTRIES && (
+              <button
+                type="button"
+                onClick={() => {
+                  setCursor(day)
+                  setMode("day")
+                }}
+                className="px-1 text-xs text-muted-foreground hover:text-foreground"
+              >
+                +{dayEntries.length - MAX_MONTH_ENTRIES} more
+              </button>
+            )}
+          </DropCell>
+        )
+      })}
+    </div>
+  )
+
+  const renderTimeGrid = () => (
+    <div className="border-l border-t">
+      <div className="grid" style={{ gridTemplateColumns: `4rem repeat(${days.length}, minmax(0, 1fr))` }}>
+        <div className="border-b border-r" />
+        {days.map(day => (
+          <div
+            key={day.toISOString()}
+            className={`border-b border-r px-2 py-1 text-center text-xs font-medium ${
+              isToday(day) ? "text-primary" : "text-muted-foreground"
+            }`}
+          >
+            {format(day, "EEE d")}
+          </div>
+        ))}
+
+        <div className="border-b border-r px-1 py-1 text-right text-xs text-muted-foreground">All day</div>
+        {days.map(day => (
+          <DropCell
+            key={day.toISOString()}
+            id={`day:${day.toISOString()}`}
+            date={day}
+            hasTime={false}
+            className="min-h-[2.5rem] border-b border-r p-1 space-y-1"
+          >
+            {getEntriesForDay(day)
+              .filter(entry => entry.kind !== "deadline" && isAllDay(entry.date))
+              .map(entry => (
+                <CalendarChip key={entry.id} entry={entry} onEdit={onEdit} />
+              ))}
+          </DropCell>
+        ))}
+      </div>
+
+      <div
+        className="grid max-h-[65vh] overflow-y-auto"
+        style={{ gridTemplateColumns: `4rem repeat(${days.length}, minmax(0, 1fr))` }}
+      >
+        {HOURS.map(hour => (
+          <div key={hour} className="contents">
+            <div className="border-b border-r px-1 py-1 text-right text-xs text-muted-foreground">
+              {format(new Date(2000, 0, 1, hour), "HH:mm")}
+            </div>
+            {days.map(day => {
+              const slot = new Date(day)
+              slot.setHours(hour, 0, 0, 0)
+              return (
+                <DropCell
+                  key={slot.toISOString()}
+                  id={`slot:${slot.toISOString()}`}
+                  date={slot}
+                  hasTime
+                  className="min-h-[3rem] border-b border-r p-1 space-y-1"
+                >
+                  {getEntriesForDay(day)
+                    .filter(entry =>
+                      entry.date.getHours() === hour &&
+                      (entry.kind === "deadline" || !isAllDay(entry.date))
+                    )
+                    .map(entry => (
+                      <CalendarChip key={entry.id} entry={entry} onEdit={onEdit} />
+                    ))}
+                </DropCell>
+              )
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="space-y-6 p-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-wrap items-center justify-between gap-4"
+      >
+        <div className="flex items-center gap-3">
+          <CalendarDays className="h-8 w-8 text-orange-600" />
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Calendar</h1>
+            <p className="text-sm text-muted-foreground">{getTitle()}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => navigate(-1)} aria-label="Previous">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setCursor(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => navigate(1)} aria-label="Next">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Tabs value={mode} onValueChange={(value) => setMode(value as CalendarMode)}>
+            <TabsList>
+              <TabsTrigger value="month">Month</TabsTrigger>
+              <TabsTrigger value="week">Week</TabsTrigger>
+              <TabsTrigger value="day">Day</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+      </motion.div>
+
+      <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+        {mode === "month" ? renderMonth() : renderTimeGrid()}
+      </DndContext>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { TaskWithRelations } from "@/lib/types/api"
+import { buildTasksCsv, CSV_COLUMN_HEADERS, CSV_COLUMNS, CsvColumn } from "@/lib/csv"
+
+const DEFAULT_COLUMNS: CsvColumn[] = CSV_COLUMNS.filter(column => column !== "description")
+
+interface CsvExportDialogProps {
+  isOpen: boolean
+  onOpenChange: (open: boolean) => void
+  tasks: TaskWithRelations[]
+}
+
+const toDate = (value: Date | string | null) => (value ? new Date(value) : null)
+
+// Download the tasks currently shown, with the columns the user picks
+export function CsvExportDialog({ isOpen, onOpenChange, tasks }: CsvExportDialogProps) {
+  const [columns, setColumns] = useState<CsvColumn[]>(DEFAULT_COLUMNS)
+
+  const toggleColumn = (column: CsvColumn, checked: boolean) => {
+    // Keep the file's column order independent of the click order
+    setColumns(prev => CSV_COLUMNS.filter(candidate =>
+      candidate === column ? checked : prev.includes(candidate)
+    ))
+  }
+
+  const handleExport = () => {
+    const csv = buildTasksCsv(
+      tasks.map(task => ({
+        ...task,
+        // Dates arrive from the API as strings
+        date: toDate(task.date),
+        deadline: toDate(task.deadline),
+        completedAt: toDate(task.completedAt),
+      })),
+      columns
+    )
+
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `tasks-${format(new Date(), "yyyy-MM-dd")}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export to CSV</DialogTitle>
+          <DialogDescription>
+            {tasks.length} {tasks.length === 1 ? "task" : "tasks"} matching the current filters.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          {CSV_COLUMNS.map((column) => (
+            <div key={column} className="flex items-center gap-2">
+              <Checkbox
+                id={`csv-column-${column}`}
+                checked={columns.includes(column)}
+                disabled={column === "name"}
+                onCheckedChange={(checked) => toggleColumn(column, checked === true)}
+              />
+              <Label htmlFor={`csv-column-${column}`}>{CSV_COLUMN_HEADERS[column]}</Label>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="flex gap-2 pt-4">
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={tasks.length === 0}>
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
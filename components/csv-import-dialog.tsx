@@ -0,0 +1,274 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { AlertTriangle } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { List } from "@prisma/client"
+import { CSV_COLUMN_HEADERS, CSV_IMPORT_COLUMNS, CsvColumn, CsvFieldError, CsvImportColumn, CsvMapping, guessCsvMapping, parseCsv } from "@/lib/csv"
+import toast from "react-hot-toast"
+
+interface RowErrors {
+  row: number
+  errors: CsvFieldError[]
+}
+
+interface CsvImportResult {
+  total: number
+  created: number
+  newLists: string[]
+  newLabels: string[]
+  rows: RowErrors[]
+}
+
+interface CsvImportDialogProps {
+  isOpen: boolean
+  onOpenChange: (open: boolean) => void
+  onImported: () => void
+}
+
+const NOT_IMPORTED = "none"
+
+// Pick a file, map its columns to task fields, check the rows and import them
+export function CsvImportDialog({ isOpen, onOpenChange, onImported }: CsvImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [headers, setHeaders] = useState<string[]>([])
+  const [mapping, setMapping] = useState<CsvMapping>({})
+  const [lists, setLists] = useState<List[]>([])
+  const [listId, setListId] = useState("")
+  const [partial, setPartial] = useState(false)
+  const [check, setCheck] = useState<CsvImportResult | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    setFile(null)
+    setHeaders([])
+    setMapping({})
+    setCheck(null)
+
+    const fetchLists = async () => {
+      try {
+        const response = await fetch("/api/lists")
+        if (!response.ok) {
+          throw new Error("Failed to fetch lists")
+        }
+        const data: List[] = await response.json()
+        setLists(data)
+        setListId((data.find(list => list.isDefault) ?? data[0])?.id ?? "")
+      } catch (error) {
+        console.error("Error fetching lists:", error)
+      }
+    }
+
+    fetchLists()
+  }, [isOpen])
+
+  const handleFileChange = async (selectedFile: File | null) => {
+    setFile(selectedFile)
+    setCheck(null)
+    if (!selectedFile) {
+      setHeaders([])
+      return
+    }
+
+    const [headerRow = []] = parseCsv(await selectedFile.text())
+    setHeaders(headerRow)
+    setMapping(guessCsvMapping(headerRow))
+  }
+
+  const handleMappingChange = (column: CsvImportColumn, value: string) => {
+    setCheck(null)
+    setMapping(prev => {
+      const next = { ...prev }
+      if (value === NOT_IMPORTED) {
+        delete next[column]
+      } else {
+        next[column] = Number(value)
+      }
+      return next
+    })
+  }
+
+  const sendFile = async (dryRun: boolean) => {
+    const formData = new FormData()
+    formData.append("file", file!)
+    formData.append("mapping", JSON.stringify(mapping))
+    if (listId) {
+      formData.append("listId", listId)
+    }
+    formData.append("dryRun", String(dryRun))
+    formData.append("partial", String(partial))
+
+    const response = await fetch("/api/import/csv", { method: "POST", body: formData })
+    return { ok: response.ok, data: await response.json() }
+  }
+
+  const handleCheck = async () => {
+    setIsBusy(true)
+    try {
+      const { ok, data } = await sendFile(true)
+      if (!ok) {
+        throw new Error(data.error)
+      }
+      setCheck(data)
+    } catch (error) {
+      console.error("Error checking CSV:", error)
+      toast.error("Failed to read file")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleImport = async () => {
+    setIsBusy(true)
+    try {
+      const { ok, data } = await sendFile(false)
+      if (!ok) {
+        if (data.rows) {
+          setCheck(prev => prev ? { ...prev, rows: data.rows } : prev)
+        }
+        throw new Error(data.error)
+      }
+      toast.success(`Imported ${data.created} ${data.created === 1 ? "task" : "tasks"}`)
+      onOpenChange(false)
+      onImported()
+    } catch (error) {
+      console.error("Error importing CSV:", error)
+      toast.error("Failed to import tasks")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const hasErrors = (check?.rows.length ?? 0) > 0
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import from CSV</DialogTitle>
+          <DialogDescription>
+            The first row of the file must name its columns.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="csv-file">File</Label>
+              <Input
+                id="csv-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="csv-list">Rows without a list go to</Label>
+              <Select value={listId} onValueChange={setListId}>
+                <SelectTrigger id="csv-list" aria-label="List to import into">
+                  <SelectValue placeholder="Select list" />
+                </SelectTrigger>
+                <SelectContent>
+                  {lists.map((list) => (
+                    <SelectItem key={list.id} value={list.id}>
+                      {list.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {headers.length > 0 && (
+            <div className="grid max-h-64 grid-cols-2 gap-x-4 gap-y-2 overflow-y-auto">
+              {CSV_IMPORT_COLUMNS.map((column) => (
+                <div key={column} className="flex items-center justify-between gap-2">
+                  <Label htmlFor={`csv-map-${column}`} className="shrink-0">{CSV_COLUMN_HEADERS[column]}</Label>
+                  <Select
+                    value={mapping[column] !== undefined ? String(mapping[column]) : NOT_IMPORTED}
+                    onValueChange={(value) => handleMappingChange(column, value)}
+                  >
+                    <SelectTrigger id={`csv-map-${column}`} className="h-8 w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_IMPORTED}>Not imported</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {check && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {check.total} of {check.total + check.rows.length} rows are ready to import
+                {check.newLists.length > 0 && `. New lists: ${check.newLists.join(", ")}`}
+                {check.newLabels.length > 0 && `. New labels: ${check.newLabels.join(", ")}`}
+              </p>
+              {hasErrors && (
+                <div className="max-h-40 overflow-y-auto rounded-md border p-2 text-xs">
+                  {check.rows.map(({ row, errors }) => (
+                    <div key={row} className="flex items-start gap-1 text-amber-600">
+                      <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+                      <span>
+                        Row {row}: {errors.map(error => `${CSV_COLUMN_HEADERS[error.field as CsvColumn] ?? error.field}: ${error.message}`).join("; ")}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {hasErrors && (
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="csv-partial">Import the valid rows and skip the others</Label>
+                  <Switch id="csv-partial" checked={partial} onCheckedChange={setPartial} />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2 pt-4">
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={isBusy}>
+            Cancel
+          </Button>
+          {check ? (
+            <Button onClick={handleImport} disabled={isBusy || check.total === 0 || (hasErrors && !partial)}>
+              {isBusy ? "Importing..." : `Import ${check.total} ${check.total === 1 ? "task" : "tasks"}`}
+            </Button>
+          ) : (
+            <Button onClick={handleCheck} disabled={isBusy || !file || mapping.name === undefined}>
+              {isBusy ? "Checking..." : "Check rows"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,232 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { format } from "date-fns"
+import { AlertTriangle, Repeat } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { List } from "@prisma/client"
+import toast from "react-hot-toast"
+
+interface PreviewTask {
+  uid: string | null
+  name: string
+  date: string | null
+  deadline: string | null
+  priority: number
+  completed: boolean
+  isRecurring: boolean
+  labels: string[]
+  reminders: number
+  duplicate: "existing" | "file" | null
+  warnings: string[]
+}
+
+interface ImportSummary {
+  total: number
+  created: number
+  duplicates: number
+  newLabels: string[]
+  tasks: PreviewTask[]
+}
+
+interface ImportDialogProps {
+  isOpen: boolean
+  onOpenChange: (open: boolean) => void
+  onImported: () => void
+}
+
+// Pick a file, preview what it contains and then import it. The preview is a
+// dry run of the same request.
+export function ImportDialog({ isOpen, onOpenChange, onImported }: ImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [lists, setLists] = useState<List[]>([])
+  const [listId, setListId] = useState("")
+  const [preview, setPreview] = useState<ImportSummary | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    setFile(null)
+    setPreview(null)
+
+    const fetchLists = async () => {
+      try {
+        const response = await fetch("/api/lists")
+        if (!response.ok) {
+          throw new Error("Failed to fetch lists")
+        }
+        const data: List[] = await response.json()
+        setLists(data)
+        setListId((data.find(list => list.isDefault) ?? data[0])?.id ?? "")
+      } catch (error) {
+        console.error("Error fetching lists:", error)
+      }
+    }
+
+    fetchLists()
+  }, [isOpen])
+
+  const sendFile = async (selectedFile: File, dryRun: boolean): Promise<ImportSummary> => {
+    const formData = new FormData()
+    formData.append("file", selectedFile)
+    if (listId) {
+      formData.append("listId", listId)
+    }
+    formData.append("dryRun", String(dryRun))
+
+    const response = await fetch("/api/import/ics", { method: "POST", body: formData })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.details && typeof data.details === "string" ? data.details : data.error)
+    }
+    return data
+  }
+
+  const handleFileChange = async (selectedFile: File | null) => {
+    setFile(selectedFile)
+    setPreview(null)
+    if (!selectedFile) return
+
+    setIsBusy(true)
+    try {
+      setPreview(await sendFile(selectedFile, true))
+    } catch (error) {
+      console.error("Error previewing import:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to read file")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!file) return
+
+    setIsBusy(true)
+    try {
+      const summary = await sendFile(file, false)
+      toast.success(`Imported ${summary.created} ${summary.created === 1 ? "task" : "tasks"}`)
+      onOpenChange(false)
+      onImported()
+    } catch (error) {
+      console.error("Error importing tasks:", error)
+      toast.error("Failed to import tasks")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const toImport = preview ? preview.total - preview.duplicates : 0
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import tasks</DialogTitle>
+          <DialogDescription>
+            Import to-dos from an iCalendar (.ics) file exported by another calendar or task app.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="import-list">Into list</Label>
+              <Select value={listId} onValueChange={setListId}>
+                <SelectTrigger id="import-list" aria-label="List to import into">
+                  <SelectValue placeholder="Select list" />
+                </SelectTrigger>
+                <SelectContent>
+                  {lists.map((list) => (
+                    <SelectItem key={list.id} value={list.id}>
+                      {list.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {preview && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {toImport} of {preview.total} tasks will be imported
+                {preview.duplicates > 0 && `, ${preview.duplicates} already exist`}
+                {preview.newLabels.length > 0 && `. New labels: ${preview.newLabels.join(", ")}`}
+              </p>
+              <div className="max-h-72 overflow-y-auto rounded-md border">
+                {preview.tasks.map((task, index) => (
+                  <div
+                    key={index}
+                    className={`flex items-start justify-between gap-2 border-b p-2 text-sm last:border-b-0 ${task.duplicate ? "opacity-50" : ""}`}
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className={`truncate font-medium ${task.completed ? "line-through" : ""}`}>{task.name}</span>
+                        {task.isRecurring && <Repeat className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {task.date && `Starts ${format(new Date(task.date), "PP")}`}
+                        {task.date && task.deadline && " · "}
+                        {task.deadline && `Due ${format(new Date(task.deadline), "PP")}`}
+                        {task.reminders > 0 && ` · ${task.reminders} ${task.reminders === 1 ? "reminder" : "reminders"}`}
+                      </div>
+                      {task.warnings.map((warning) => (
+                        <div key={warning} className="flex items-center gap-1 text-xs text-amber-600">
+                          <AlertTriangle className="h-3 w-3" />
+                          {warning}
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex shrink-0 flex-wrap justify-end gap-1">
+                      {task.duplicate && <Badge variant="outline">Duplicate</Badge>}
+                      {task.labels.map((label) => (
+                        <Badge key={label} variant="secondary">{label}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2 pt-4">
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={isBusy}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!preview || toImport === 0 || isBusy}>
+            {isBusy ? "Working..." : `Import ${toImport} ${toImport === 1 ? "task" : "tasks"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
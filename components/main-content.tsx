@@ -1,60 +1,164 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { format, parseISO, subDays } from "date-fns"
+import { CheckCircle2, AlertCircle, Flame, ListTodo } from "lucide-react"
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { TaskStats } from "@/lib/stats-utils"
+
+const RANGE_OPTIONS = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "365", label: "Last year" },
+]
+
+// Hex values for the list and label color names used in the sidebar
+const CHART_COLORS: Record<string, string> = {
+  gray: "#6b7280",
+  blue: "#3b82f6",
+  green: "#22c55e",
+  purple: "#a855f7",
+  pink: "#ec4899",
+  orange: "#f97316",
+  red: "#ef4444",
+  yellow: "#eab308",
+}
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60)
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`
+}
 
 export function MainContent() {
+  const [rangeDays, setRangeDays] = useState("30")
+  const [stats, setStats] = useState<TaskStats | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
+
+  useEffect(() => {
+    const fetchStats = async () => {
+      try {
+        setIsLoading(true)
+        const to = new Date()
+        const params = new URLSearchParams({
+          from: subDays(to, parseInt(rangeDays) - 1).toISOString(),
+          to: to.toISOString(),
+        })
+
+        const response = await fetch(`/api/stats?${params}`)
+        if (response.ok) {
+          setStats(await response.json())
+          setLastUpdated(new Date())
+        }
+      } catch (error) {
+        console.error("Error fetching stats:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchStats()
+  }, [rangeDays])
+
+  const daily = stats?.daily.map(day => ({
+    ...day,
+    label: format(parseISO(day.date), "MMM d"),
+  })) ?? []
+
+  const groups = (stats?.byList ?? []).filter(group => group.total > 0)
+  const labelGroups = (stats?.byLabel ?? []).filter(group => group.total > 0)
+
   return (
     <main className="flex-1 space-y-4 p-4 md:p-8 pt-6">
       <div className="flex items-center justify-between space-y-2">
         <h2 className="text-3xl font-bold tracking-tight">Dashboard</h2>
         <div className="flex items-center space-x-2">
-          <div className="hidden sm:flex items-center space-x-2">
-            <span className="text-sm text-muted-foreground">
-              Last updated: 5 minutes ago
-            </span>
-          </div>
+          {lastUpdated && (
+            <div className="hidden sm:flex items-center space-x-2">
+              <span className="text-sm text-muted-foreground">
+                Last updated: {format(lastUpdated, "HH:mm")}
+              </span>
+            </div>
+          )}
+          <Select value={rangeDays} onValueChange={setRangeDays}>
+            <SelectTrigger className="w-[150px]" aria-label="Date range">
+              <SelectValue placeholder="Range" />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
       </div>
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
             <CardTitle className="text-sm font-medium">Total Tasks</CardTitle>
+            <ListTodo className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">12</div>
+            <div className="text-2xl font-bold">{stats?.total ?? "–"}</div>
             <p className="text-xs text-muted-foreground">
-              +2 from yesterday
+              {stats ? `${stats.open} still open` : "Loading..."}
             </p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
             <CardTitle className="text-sm font-medium">Completed</CardTitle>
+            <CheckCircle2 className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">8</div>
+            <div className="text-2xl font-bold">{stats?.completed ?? "–"}</div>
             <p className="text-xs text-muted-foreground">
-              66% completion rate
+              {stats ? `${Math.round(stats.completionRate * 100)}% completion rate` : "Loading..."}
             </p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium">In Progress</CardTitle>
+            <CardTitle className="text-sm font-medium">Overdue</CardTitle>
+            <AlertCircle className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">4</div>
+            <div className="text-2xl font-bold">{stats?.overdue ?? "–"}</div>
             <p className="text-xs text-muted-foreground">
-              Due this week
+              {stats
+                ? `${formatMinutes(stats.time.actual)} spent of ${formatMinutes(stats.time.estimated)} estimated`
+                : "Loading..."}
             </p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium">Pending</CardTitle>
+            <CardTitle className="text-sm font-medium">Streak</CardTitle>
+            <Flame className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">0</div>
+            <div className="text-2xl font-bold">
+              {stats ? `${stats.streak.current} day${stats.streak.current !== 1 ? "s" : ""}` : "–"}
+            </div>
             <p className="text-xs text-muted-foreground">
-              All tasks updated
+              {stats ? `Longest: ${stats.streak.longest} days` : "Loading..."}
             </p>
           </CardContent>
         </Card>
@@ -62,25 +166,112 @@ export function MainContent() {
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-7">
         <Card className="col-span-4">
           <CardHeader>
-            <CardTitle>Recent Tasks</CardTitle>
+            <CardTitle>Daily Activity</CardTitle>
           </CardHeader>
-          <CardContent>
-            <p className="text-sm text-muted-foreground">
-              No tasks found. Create your first task to get started.
-            </p>
+          <CardContent className="h-[300px]">
+            {isLoading && !stats ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={daily}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="label" fontSize={12} tickLine={false} />
+                  <YAxis allowDecimals={false} fontSize={12} tickLine={false} />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="monotone" dataKey="completed" name="Completed" stroke="#22c55e" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="created" name="Created" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
           </CardContent>
         </Card>
         <Card className="col-span-3">
           <CardHeader>
-            <CardTitle>Upcoming Events</CardTitle>
+            <CardTitle>By List</CardTitle>
           </CardHeader>
-          <CardContent>
-            <p className="text-sm text-muted-foreground">
-              No upcoming events.
-            </p>
+          <CardContent className="h-[300px]">
+            {groups.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No tasks in this period.
+              </p>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={groups} layout="vertical">
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis type="number" allowDecimals={false} fontSize={12} />
+                  <YAxis type="category" dataKey="name" width={90} fontSize={12} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="completed" name="Completed" stackId="tasks" fill="#22c55e">
+                    {groups.map(group => (
+                      <Cell key={group.id} fill={(group.color && CHART_COLORS[group.color]) || "#22c55e"} />
+                    ))}
+                  </Bar>
+                  <Bar
+                    dataKey={(group) => group.total - group.completed}
+                    name="Open"
+                    stackId="tasks"
+                    fill="#94a3b8"
+                  />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>By Label</CardTitle>
+          </CardHeader>
+          <CardContent className="h-[260px]">
+            {labelGroups.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No labelled tasks in this period.
+              </p>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={labelGroups}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="name" fontSize={12} />
+                  <YAxis allowDecimals={false} fontSize={12} />
+                  <Tooltip />
+                  <Bar dataKey="total" name="Tasks" fill="#a855f7" />
+                  <Bar dataKey="completed" name="Completed" fill="#22c55e" />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Estimated vs Actual Time</CardTitle>
+          </CardHeader>
+          <CardContent className="h-[260px]">
+            {!stats || (stats.time.estimated === 0 && stats.time.actual === 0) ? (
+              <p className="text-sm text-muted-foreground">
+                No time recorded on completed tasks.
+              </p>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart
+                  data={[
+                    { name: "Estimated", minutes: stats.time.estimated, fill: CHART_COLORS.blue },
+                    { name: "Actual", minutes: stats.time.actual, fill: CHART_COLORS.orange },
+                  ]}
+                >
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="name" fontSize={12} />
+                  <YAxis fontSize={12} tickFormatter={(value) => formatMinutes(value)} />
+                  <Tooltip formatter={(value: number) => formatMinutes(value)} />
+                  <Bar dataKey="minutes" name="Time" />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
           </CardContent>
         </Card>
       </div>
     </main>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,446 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { motion } from "framer-motion"
+import { Calendar, Clock, Grid2X2, Settings2 } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { TaskWithRelations, LabelWithRelations } from "@/lib/types/api"
+import {
+  DEFAULT_MATRIX_SETTINGS,
+  getQuadrant,
+  getQuadrantChanges,
+  MATRIX_QUADRANTS,
+  MatrixQuadrant,
+  MatrixSettings,
+  MatrixTaskChanges,
+} from "@/lib/matrix-utils"
+import {
+  DndContext,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from "@dnd-kit/core"
+import { CSS } from "@dnd-kit/utilities"
+import toast from "react-hot-toast"
+
+interface MatrixViewProps {
+  tasks: TaskWithRelations[]
+  activeListId: string | null
+  activeLabelId: string | null
+  availableLabels: LabelWithRelations[]
+  onComplete: (taskId: string) => void
+  onEdit: (task: TaskWithRelations) => void
+  onMoveTask: (task: TaskWithRelations, changes: MatrixTaskChanges) => Promise<void>
+}
+
+const QUADRANT_STYLES: Record<MatrixQuadrant, string> = {
+  do: "border-red-300 bg-red-50/50 dark:border-red-900 dark:bg-red-950/20",
+  schedule: "border-blue-300 bg-blue-50/50 dark:border-blue-900 dark:bg-blue-950/20",
+  delegate: "border-yellow-300 bg-yellow-50/50 dark:border-yellow-900 dark:bg-yellow-950/20",
+  eliminate: "border-gray-300 bg-gray-50/50 dark:border-gray-700 dark:bg-gray-900/20",
+}
+
+const PRIORITY_OPTIONS = [
+  { value: "1", label: "Low and above" },
+  { value: "2", label: "Medium and above" },
+  { value: "3", label: "High only" },
+]
+
+const getPriorityColor = (priority: number) => {
+  switch (priority) {
+    case 1: return "bg-green-100 text-green-700 hover:bg-green-200"
+    case 2: return "bg-yellow-100 text-yellow-700 hover:bg-yellow-200"
+    case 3: return "bg-red-100 text-red-700 hover:bg-red-200"
+    default: return "bg-gray-100 text-gray-700 hover:bg-gray-200"
+  }
+}
+
+const getPriorityLabel = (priority: number) => {
+  switch (priority) {
+    case 1: return "Low"
+    case 2: return "Medium"
+    case 3: return "High"
+    default: return "None"
+  }
+}
+
+function MatrixCard({
+  task,
+  onComplete,
+  onEdit,
+}: {
+  task: TaskWithRelations
+  onComplete: (taskId: string) => void
+  onEdit: (task: TaskWithRelations) => void
+}) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: task.id,
+    data: task,
+  })
+
+  const style = {
+    transform: CSS.Translate.toString(transform),
+    opacity: isDragging ? 0.5 : 1,
+    zIndex: isDragging ? 999 : 1,
+  }
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      {...attributes}
+      {...listeners}
+      onClick={() => onEdit(task)}
+      className="flex items-start gap-2 rounded-md border bg-card p-2 text-sm shadow-sm cursor-grab hover:shadow-md"
+    >
+      <Checkbox
+        checked={false}
+        onClick={(e) => e.stopPropagation()}
+        onCheckedChange={() => onComplete(task.id)}
+        aria-label={`Complete ${task.name}`}
+        className="mt-0.5"
+      />
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2">
+          <span className="truncate font-medium">{task.name}</span>
+          <Badge className={getPriorityColor(task.priority)}>{getPriorityLabel(task.priority)}</Badge>
+        </div>
+        {(task.date || task.deadline) && (
+          <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            {task.date && (
+              <span className="flex items-center gap-1">
+                <Calendar className="h-3 w-3" />
+                {new Date(task.date).toLocaleDateString()}
+              </span>
+            )}
+            {task.deadline && (
+              <span className="flex items-center gap-1">
+                <Clock className="h-3 w-3" />
+                {new Date(task.deadline).toLocaleDateString()}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function QuadrantCell({
+  quadrant,
+  tasks,
+  onComplete,
+  onEdit,
+}: {
+  quadrant: typeof MATRIX_QUADRANTS[number]
+  tasks: TaskWithRelations[]
+  onComplete: (taskId: string) => void
+  onEdit: (task: TaskWithRelations) => void
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: quadrant.id })
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`flex min-h-[240px] flex-col rounded-lg border-2 p-3 transition-colors ${QUADRANT_STYLES[quadrant.id]} ${
+        isOver ? "ring-2 ring-primary" : ""
+      }`}
+    >
+      <div className="mb-3 flex items-center justify-between">
+        <div>
+          <h2 className="font-semibold text-foreground">{quadrant.title}</h2>
+          <p className="text-xs text-muted-foreground">{quadrant.description}</p>
+        </div>
+        <Badge variant="secondary">{tasks.length}</Badge>
+      </div>
+      <div className="flex-1 space-y-2">
+        {tasks.map(task => (
+          <MatrixCard key={task.id} task={task} onComplete={onComplete} onEdit={onEdit} />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// What makes a task urgent or important, saved with the user's preferences
+function MatrixSettingsDialog({
+  isOpen,
+  onOpenChange,
+  settings,
+  availableLabels,
+  onSaved,
+}: {
+  isOpen: boolean
+  onOpenChange: (open: boolean) => void
+  settings: MatrixSettings
+  availableLabels: LabelWithRelations[]
+  onSaved: (settings: MatrixSettings) => void
+}) {
+  const [draft, setDraft] = useState(settings)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) setDraft(settings)
+  }, [isOpen, settings])
+
+  const toggleLabel = (labelId: string, checked: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      importantLabelIds: checked
+        ? [...prev.importantLabelIds, labelId]
+        : prev.importantLabelIds.filter(id => id !== labelId),
+    }))
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      // Labels deleted since they were picked are dropped
+      const importantLabelIds = draft.importantLabelIds.filter(id => availableLabels.some(label => label.id === id))
+      const response = await fetch("/api/preferences", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          matrixUrgentDays: draft.urgentDays,
+          matrixImportantPriority: draft.importantPriority,
+          matrixImportantLabelIds: importantLabelIds,
+        }),
+      })
+
+      if (!response.ok) {
+        throw new Error("Failed to save preferences")
+      }
+
+      onSaved({ ...draft, importantLabelIds })
+      toast.success("Matrix settings saved")
+      onOpenChange(false)
+    } catch (error) {
+      console.error("Error saving matrix settings:", error)
+      toast.error("Failed to save matrix settings")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Matrix Settings</DialogTitle>
+          <DialogDescription>Choose what makes a task urgent or important.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="matrix-urgent-days">Urgent when due within (days)</Label>
+            <Input
+              id="matrix-urgent-days"
+              type="number"
+              min={0}
+              max={30}
+              value={draft.urgentDays}
+              onChange={(e) => setDraft(prev => ({
+                ...prev,
+                urgentDays: Math.min(30, Math.max(0, parseInt(e.target.value) || 0)),
+              }))}
+            />
+            <p className="text-xs text-muted-foreground">
+              Counts the date and the deadline. Overdue tasks are always urgent.
+            </p>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="matrix-important-priority">Important priority</Label>
+            <Select
+              value={draft.importantPriority.toString()}
+              onValueChange={(value) => setDraft(prev => ({ ...prev, importantPriority: parseInt(value) }))}
+            >
+              <SelectTrigger id="matrix-important-priority" aria-label="Important priority">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRIORITY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {availableLabels.length > 0 && (
+            <div className="space-y-2">
+              <Label>Important labels</Label>
+              {availableLabels.map((label) => (
+                <div key={label.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`matrix-label-${label.id}`}
+                    checked={draft.importantLabelIds.includes(label.id)}
+                    onCheckedChange={(checked) => toggleLabel(label.id, checked === true)}
+                  />
+                  <Label htmlFor={`matrix-label-${label.id}`}>{label.name}</Label>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2 pt-4">
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function MatrixView({
+  tasks,
+  activeListId,
+  activeLabelId,
+  availableLabels,
+  onComplete,
+  onEdit,
+  onMoveTask,
+}: MatrixViewProps) {
+  const [settings, setSettings] = useState<MatrixSettings>(DEFAULT_MATRIX_SETTINGS)
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8, // 8px threshold so clicks still open the task
+      },
+    })
+  )
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch("/api/preferences")
+        if (!response.ok) {
+          throw new Error("Failed to fetch preferences")
+        }
+        const preferences = await response.json()
+        setSettings({
+          urgentDays: preferences.matrixUrgentDays,
+          importantPriority: preferences.matrixImportantPriority,
+          importantLabelIds: preferences.matrixImportantLabelIds,
+        })
+      } catch (error) {
+        console.error("Error fetching matrix settings:", error)
+      }
+    }
+
+    fetchSettings()
+  }, [])
+
+  const quadrants = useMemo(() => {
+    const now = new Date()
+    const result: Record<MatrixQuadrant, TaskWithRelations[]> = { do: [], schedule: [], delegate: [], eliminate: [] }
+
+    tasks
+      .filter(task =>
+        !task.completedAt &&
+        (!activeListId || task.listId === activeListId) &&
+        (!activeLabelId || task.labels.some(label => label.id === activeLabelId))
+      )
+      .forEach(task => result[getQuadrant(task, settings, now)].push(task))
+
+    // Most pressing first: earliest date or deadline, then highest priority
+    const dueTime = (task: TaskWithRelations) => Math.min(
+      task.date ? new Date(task.date).getTime() : Infinity,
+      task.deadline ? new Date(task.deadline).getTime() : Infinity
+    )
+    Object.values(result).forEach(quadrantTasks =>
+      quadrantTasks.sort((a, b) => dueTime(a) - dueTime(b) || b.priority - a.priority)
+    )
+    return result
+  }, [tasks, activeListId, activeLabelId, settings])
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    const { active, over } = event
+    if (!over) return
+
+    const task = active.data.current as TaskWithRelations
+    const target = over.id as MatrixQuadrant
+    if (getQuadrant(task, settings) === target) return
+
+    await onMoveTask(task, getQuadrantChanges(task, target, settings))
+  }
+
+  return (
+    <div className="space-y-6 p-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-wrap items-center justify-between gap-4"
+      >
+        <div className="flex items-center gap-3">
+          <Grid2X2 className="h-8 w-8 text-teal-600" />
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Eisenhower Matrix</h1>
+            <p className="text-sm text-muted-foreground">
+              Drag tasks between quadrants to change their priority and dates
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setIsSettingsOpen(true)}>
+          <Settings2 className="h-4 w-4 mr-2" />
+          Settings
+        </Button>
+      </motion.div>
+
+      <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+        <div className="grid gap-4 md:grid-cols-2">
+          {MATRIX_QUADRANTS.map(quadrant => (
+            <QuadrantCell
+              key={quadrant.id}
+              quadrant={quadrant}
+              tasks={quadrants[quadrant.id]}
+              onComplete={onComplete}
+              onEdit={onEdit}
+            />
+          ))}
+        </div>
+      </DndContext>
+
+      <MatrixSettingsDialog
+        isOpen={isSettingsOpen}
+        onOpenChange={setIsSettingsOpen}
+        settings={settings}
+        availableLabels={availableLabels}
+        onSaved={setSettings}
+      />
+    </div>
+  )
+}
@@ -1,6 +1,8 @@
 "use client"
 
+import { useState } from "react"
 import Link from "next/link"
+import { useRouter } from "next/navigation"
 import {
   LayoutDashboard,
   Calendar,
@@ -17,32 +19,52 @@ import {
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet"
 import { SearchComponent } from "@/components/search"
 import { ThemeToggle } from "@/components/theme-toggle"
+import { PushNotificationToggle } from "@/components/push-notifications"
+import { SettingsDialog } from "@/components/settings-dialog"
+import { ImportDialog } from "@/components/import-dialog"
+import { CsvImportDialog } from "@/components/csv-import-dialog"
 
 export function Navbar() {
+  const router = useRouter()
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [isCsvImportOpen, setIsCsvImportOpen] = useState(false)
+
+  const handleLogout = async () => {
+    try {
+      await fetch("/api/auth/logout", { method: "POST" })
+    } catch (error) {
+      console.error("Error logging out:", error)
+    } finally {
+      router.push("/login")
+      router.refresh()
+    }
+  }
+
   return (
     <div className="flex h-14 items-center gap-4 border-b bg-muted/40 px-4 lg:h-[60px] lg:px-8">
       <nav className="hidden flex-col gap-6 text-sm font-medium md:flex md:flex-row md:items-center md:gap-5 md:text-sm lg:gap-6">
         <Link
-          href="#"
+          href="/"
           className="flex items-center gap-2 text-lg font-semibold md:text-base"
         >
           <Calendar className="h-6 w-6" />
           <span className="sr-only">Daily Task Planner</span>
         </Link>
         <Link
-          href="#"
+          href="/dashboard"
           className="text-muted-foreground transition-colors hover:text-foreground"
         >
           Dashboard
         </Link>
         <Link
-          href="#"
+          href="/calendar"
           className="text-muted-foreground transition-colors hover:text-foreground"
         >
           Calendar
         </Link>
         <Link
-          href="#"
+          href="/"
           className="text-muted-foreground transition-colors hover:text-foreground"
         >
           Tasks
@@ -62,26 +84,26 @@ export function Navbar() {
         <SheetContent side="left">
           <nav className="grid gap-6 text-sm font-medium">
             <Link
-              href="#"
+              href="/"
               className="flex items-center gap-2 text-lg font-semibold"
             >
               <Calendar className="h-6 w-6" />
               <span>Daily Task Planner</span>
             </Link>
             <Link
-              href="#"
+              href="/dashboard"
               className="text-muted-foreground transition-colors hover:text-foreground"
             >
               Dashboard
             </Link>
             <Link
-              href="#"
+              href="/calendar"
               className="text-muted-foreground transition-colors hover:text-foreground"
             >
               Calendar
             </Link>
             <Link
-              href="#"
+              href="/"
               className="text-muted-foreground transition-colors hover:text-foreground"
             >
               Tasks
@@ -91,6 +113,7 @@ export function Navbar() {
       </Sheet>
       <div className="flex w-full items-center gap-4 md:ml-auto md:gap-2 lg:gap-4">
         <SearchComponent />
+        <PushNotificationToggle />
         <ThemeToggle />
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
@@ -100,11 +123,24 @@ export function Navbar() {
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end">
-            <DropdownMenuItem>Settings</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setIsSettingsOpen(true)}>Settings</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setIsImportOpen(true)}>Import from calendar</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setIsCsvImportOpen(true)}>Import from CSV</DropdownMenuItem>
             <DropdownMenuItem>Profile</DropdownMenuItem>
-            <DropdownMenuItem>Logout</DropdownMenuItem>
+            <DropdownMenuItem onClick={handleLogout}>Logout</DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
+        <SettingsDialog isOpen={isSettingsOpen} onOpenChange={setIsSettingsOpen} />
+        <ImportDialog
+          isOpen={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          onImported={() => window.location.reload()}
+        />
+        <CsvImportDialog
+          isOpen={isCsvImportOpen}
+          onOpenChange={setIsCsvImportOpen}
+          onImported={() => window.location.reload()}
+        />
       </div>
     </div>
   )
@@ -0,0 +1,142 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Navbar } from "@/components/navbar"
+import { Sidebar } from "@/components/sidebar"
+import { TaskManagement } from "@/components/task-management"
+import { SmartListWithCount } from "@/lib/types/api"
+import toast from "react-hot-toast"
+
+type ViewType = "today" | "next7days" | "upcoming" | "all" | "calendar" | "matrix" | "timeline" | "overdue" | "nodate"
+
+interface PlannerProps {
+  initialView?: ViewType
+}
+
+// Favorites first, keeping the saved order within each group
+const sortSmartLists = (smartLists: SmartListWithCount[]) =>
+  [...smartLists].sort((a, b) => Number(b.isFavorite) - Number(a.isFavorite))
+
+export function Planner({ initialView = "today" }: PlannerProps) {
+  const [activeView, setActiveView] = useState<ViewType>(initialView)
+  const [activeListId, setActiveListId] = useState<string | null>(null)
+  const [activeLabelId, setActiveLabelId] = useState<string | null>(null)
+  const [smartLists, setSmartLists] = useState<SmartListWithCount[]>([])
+  const [activeSmartListId, setActiveSmartListId] = useState<string | null>(null)
+  const [isCreateFormOpen, setIsCreateFormOpen] = useState(false)
+
+  // Smart list counts depend on every task, so they're refetched whenever
+  // tasks change and when the window regains focus
+  const fetchSmartLists = useCallback(async () => {
+    try {
+      const response = await fetch("/api/smart-lists")
+      if (!response.ok) throw new Error("Failed to fetch smart lists")
+      setSmartLists(await response.json())
+    } catch (error) {
+      console.error("Error fetching smart lists:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    window.addEventListener("focus", fetchSmartLists)
+    return () => window.removeEventListener("focus", fetchSmartLists)
+  }, [fetchSmartLists])
+
+  const activeSmartList = smartLists.find(smartList => smartList.id === activeSmartListId) ?? null
+
+  const handleAddTask = () => {
+    setIsCreateFormOpen(true)
+  }
+
+  const handleViewChange = (view: ViewType) => {
+    setActiveView(view)
+    setActiveSmartListId(null)
+  }
+
+  const handleListChange = (listId: string) => {
+    setActiveListId(listId)
+    setActiveSmartListId(null)
+  }
+
+  const handleLabelChange = (labelId: string) => {
+    setActiveLabelId(labelId)
+    setActiveSmartListId(null)
+  }
+
+  // A smart list brings its own filters, so it replaces the view, list and label
+  const handleSmartListChange = (smartListId: string) => {
+    setActiveSmartListId(smartListId)
+    setActiveView("all")
+    setActiveListId(null)
+    setActiveLabelId(null)
+  }
+
+  const handleSmartListSaved = (saved: SmartListWithCount) => {
+    setSmartLists(prev => sortSmartLists(
+      prev.some(smartList => smartList.id === saved.id)
+        ? prev.map(smartList => smartList.id === saved.id ? saved : smartList)
+        : [...prev, saved]
+    ))
+  }
+
+  const handleSmartListDeleted = (smartListId: string) => {
+    setSmartLists(prev => prev.filter(smartList => smartList.id !== smartListId))
+    if (activeSmartListId === smartListId) {
+      setActiveSmartListId(null)
+    }
+  }
+
+  const handleReorderSmartLists = async (reordered: SmartListWithCount[]) => {
+    const sorted = sortSmartLists(reordered).map((smartList, index) => ({ ...smartList, order: index }))
+    setSmartLists(sorted)
+
+    try {
+      await Promise.all(sorted.map(smartList =>
+        fetch(`/api/smart-lists/${smartList.id}`, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ order: smartList.order }),
+        })
+      ))
+    } catch (error) {
+      console.error("Error reordering smart lists:", error)
+      toast.error("Failed to reorder smart lists")
+      fetchSmartLists()
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex">
+      <Sidebar
+        activeView={activeView}
+        activeListId={activeListId}
+        activeLabelId={activeLabelId}
+        activeSmartListId={activeSmartListId}
+        smartLists={smartLists}
+        onViewChange={handleViewChange}
+        onListChange={handleListChange}
+        onLabelChange={handleLabelChange}
+        onSmartListChange={handleSmartListChange}
+        onSmartListSaved={handleSmartListSaved}
+        onSmartListDeleted={handleSmartListDeleted}
+        onReorderSmartLists={handleReorderSmartLists}
+        onAddTask={handleAddTask}
+      />
+      <main className="flex-1 flex flex-col md:ml-64">
+        <Navbar />
+        <TaskManagement
+          activeView={activeView}
+          activeListId={activeListId}
+          activeLabelId={activeLabelId}
+          isCreateFormOpen={isCreateFormOpen}
+          setIsCreateFormOpen={setIsCreateFormOpen}
+          activeSmartList={activeSmartList}
+          onSmartListSaved={handleSmartListSaved}
+          onTasksChange={fetchSmartLists}
+        />
+      </main>
+    </div>
+  )
+}
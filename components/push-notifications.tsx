@@ -0,0 +1,119 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Bell, BellOff } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import toast from "react-hot-toast"
+
+// Convert a base64url VAPID key into the bytes PushManager expects
+function urlBase64ToUint8Array(base64String: string) {
+  const padding = "=".repeat((4 - (base64String.length % 4)) % 4)
+  const base64 = (base64String + padding).replace(/-/g, "+").replace(/_/g, "/")
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0))
+}
+
+export function PushNotificationToggle() {
+  const [isSupported, setIsSupported] = useState(false)
+  const [subscription, setSubscription] = useState<PushSubscription | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  useEffect(() => {
+    if (!("serviceWorker" in navigator) || !("PushManager" in window)) return
+
+    const registerServiceWorker = async () => {
+      try {
+        const registration = await navigator.serviceWorker.register("/sw.js")
+        setSubscription(await registration.pushManager.getSubscription())
+        setIsSupported(true)
+      } catch (error) {
+        console.error("Error registering service worker:", error)
+      }
+    }
+
+    registerServiceWorker()
+  }, [])
+
+  const handleEnable = async () => {
+    setIsBusy(true)
+    try {
+      if ((await Notification.requestPermission()) !== "granted") {
+        toast.error("Notifications are blocked in this browser")
+        return
+      }
+
+      const keyResponse = await fetch("/api/push/public-key")
+      if (!keyResponse.ok) {
+        toast.error("Push notifications are not available")
+        return
+      }
+      const { publicKey } = await keyResponse.json()
+
+      const registration = await navigator.serviceWorker.ready
+      const newSubscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(publicKey),
+      })
+
+      const response = await fetch("/api/push/subscriptions", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(newSubscription.toJSON()),
+      })
+
+      if (!response.ok) {
+        await newSubscription.unsubscribe()
+        throw new Error("Failed to save push subscription")
+      }
+
+      setSubscription(newSubscription)
+      toast.success("Reminder notifications enabled")
+    } catch (error) {
+      console.error("Error enabling notifications:", error)
+      toast.error("Failed to enable notifications")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleDisable = async () => {
+    if (!subscription) return
+
+    setIsBusy(true)
+    try {
+      await fetch("/api/push/subscriptions", {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ endpoint: subscription.endpoint }),
+      })
+      await subscription.unsubscribe()
+      setSubscription(null)
+      toast.success("Reminder notifications disabled")
+    } catch (error) {
+      console.error("Error disabling notifications:", error)
+      toast.error("Failed to disable notifications")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  if (!isSupported) return null
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      onClick={subscription ? handleDisable : handleEnable}
+      disabled={isBusy}
+      title={subscription ? "Disable reminder notifications" : "Enable reminder notifications"}
+    >
+      {subscription ? <Bell className="h-[1.2rem] w-[1.2rem]" /> : <BellOff className="h-[1.2rem] w-[1.2rem]" />}
+      <span className="sr-only">
+        {subscription ? "Disable reminder notifications" : "Enable reminder notifications"}
+      </span>
+    </Button>
+  )
+}
@@ -1,12 +1,14 @@
 "use client"
 
-import React, { useState, useEffect, useRef } from 'react'
-import { Search, X, Calendar, Folder, Tag, Clock } from 'lucide-react'
+import React, { useState, useEffect, useRef, useMemo } from 'react'
+import { Search, X, Calendar, Folder, Tag, Clock, AlertTriangle } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Input } from '@/components/ui/input'
 import { Card } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { cn } from '@/lib/utils'
+import type { SearchField, SearchSnippet, SnippetPart } from '@/lib/search-index'
+import { suggestQuery, QueryError } from '@/lib/task-query'
 
 // Types for search results
 interface Label {
@@ -31,6 +33,16 @@ interface SearchResult {
   list: List
   labels: Label[]
   score: number
+  snippets: SearchSnippet[]
+}
+
+const SNIPPET_FIELD_NAMES: Record<SearchField, string> = {
+  name: 'Name',
+  labels: 'Labels',
+  list: 'List',
+  subtasks: 'Subtasks',
+  description: 'Description',
+  attachments: 'Attachments',
 }
 
 // Debounce helper function
@@ -42,29 +54,22 @@ const debounce = (func: (...args: any[]) => void, delay: number) => {
   }
 }
 
-// Highlight search matches in text
-const HighlightedText: React.FC<{ text: string; searchQuery: string }> = ({ text, searchQuery }) => {
-  if (!searchQuery.trim()) return <>{text}</>
-
-  const lowerText = text.toLowerCase()
-  const lowerQuery = searchQuery.toLowerCase()
-  const index = lowerText.indexOf(lowerQuery)
+// Text with the words the search matched highlighted
+const HighlightedText: React.FC<{ parts: SnippetPart[] }> = ({ parts }) => (
+  <>
+    {parts.map((part, index) =>
+      part.highlight ? (
+        <span key={index} className="bg-yellow-200 dark:bg-yellow-800 px-0.5 rounded font-medium">
+          {part.text}
+        </span>
+      ) : (
+        <React.Fragment key={index}>{part.text}</React.Fragment>
+      )
+    )}
+  </>
+)
 
-  if (index === -1) return <>{text}</>
-
-  return (
-    <>
-      {text.slice(0, index)}
-      <span className="bg-yellow-200 dark:bg-yellow-800 px-0.5 rounded font-medium">
-        {text.slice(index, index + searchQuery.length)}
-      </span>
-      {HighlightedText({
-        text: text.slice(index + searchQuery.length),
-        searchQuery,
-      })}
-    </>
-  )
-}
+const nameSnippet = (result: SearchResult) => result.snippets.find(snippet => snippet.field === 'name')
 
 // Search component
 export function SearchComponent() {
@@ -72,13 +77,37 @@ export function SearchComponent() {
   const [searchResults, setSearchResults] = useState<SearchResult[]>([])
   const [isSearching, setIsSearching] = useState(false)
   const [showResults, setShowResults] = useState(false)
+  const [queryErrors, setQueryErrors] = useState<QueryError[]>([])
+  const [names, setNames] = useState<{ lists: List[]; labels: Label[] }>({ lists: [], labels: [] })
+  const [cursor, setCursor] = useState(0)
   const searchRef = useRef<HTMLDivElement>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  // List and label names for autocompleting "list:" and "label:" filters
+  useEffect(() => {
+    const fetchNames = async () => {
+      try {
+        const [listsResponse, labelsResponse] = await Promise.all([fetch('/api/lists'), fetch('/api/labels')])
+        if (!listsResponse.ok || !labelsResponse.ok) {
+          throw new Error('Failed to fetch lists and labels')
+        }
+        setNames({ lists: await listsResponse.json(), labels: await labelsResponse.json() })
+      } catch (error) {
+        console.error('Error fetching lists and labels:', error)
+      }
+    }
+
+    fetchNames()
+  }, [])
+
+  const completion = useMemo(() => suggestQuery(searchQuery, cursor, names), [searchQuery, cursor, names])
 
   // Debounced search function
   const debouncedSearch = useEffect(() => {
     const search = debounce(async (query: string) => {
       if (!query.trim()) {
         setSearchResults([])
+        setQueryErrors([])
         setShowResults(false)
         setIsSearching(false)
         return
@@ -89,10 +118,13 @@ export function SearchComponent() {
       try {
         const response = await fetch(`/api/search?q=${encodeURIComponent(query)}&limit=10`)
         const data = await response.json()
+        // Filters the query language doesn't understand come back with positions
+        setQueryErrors(response.status === 400 && Array.isArray(data.details) ? data.details.filter((detail: QueryError) => detail.start !== undefined) : [])
         setSearchResults(data.data || [])
         setShowResults(true)
       } catch (error) {
         console.error('Error searching tasks:', error)
+        setQueryErrors([])
         setSearchResults([])
       } finally {
         setIsSearching(false)
@@ -122,6 +154,7 @@ export function SearchComponent() {
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value
     setSearchQuery(value)
+    setCursor(e.target.selectionStart ?? value.length)
     if (value) {
       setShowResults(true)
     }
@@ -131,9 +164,28 @@ export function SearchComponent() {
   const handleClearSearch = () => {
     setSearchQuery('')
     setSearchResults([])
+    setQueryErrors([])
     setShowResults(false)
   }
 
+  // Replace the token being typed with a completion
+  const applySuggestion = (suggestion: string) => {
+    const before = searchQuery.slice(0, completion.start) + suggestion
+    const after = searchQuery.slice(completion.end)
+    // Keys stay open for their value; finished filters get a space
+    const separator = suggestion.endsWith(':') || after.startsWith(' ') ? '' : ' '
+    setSearchQuery(before + separator + after)
+    setCursor(before.length + separator.length)
+    inputRef.current?.focus()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Tab' && completion.suggestions.length > 0) {
+      e.preventDefault()
+      applySuggestion(completion.suggestions[0])
+    }
+  }
+
   // Handle result selection
   const handleSelectResult = (result: SearchResult) => {
     console.log('Selected task:', result)
@@ -151,10 +203,13 @@ export function SearchComponent() {
           <span className="sr-only">Search</span>
         </div>
         <Input
+          ref={inputRef}
           type="search"
-          placeholder="Search tasks..."
+          placeholder="Search tasks or filter, e.g. label:Urgent"
           value={searchQuery}
           onChange={handleSearchChange}
+          onKeyDown={handleKeyDown}
+          onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? 0)}
           onFocus={() => searchQuery && setShowResults(true)}
           className="flex h-9 w-full rounded-md border border-input bg-transparent pl-9 pr-9 py-1 text-sm shadow-sm transition-colors placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50 md:w-32 lg:w-64"
         />
@@ -182,8 +237,34 @@ export function SearchComponent() {
             aria-label="Search results"
           >
             <Card className="overflow-hidden shadow-lg border">
+              {completion.suggestions.length > 0 && (
+                <div className="flex flex-wrap gap-1 border-b p-2" aria-label="Suggestions">
+                  {completion.suggestions.map((suggestion) => (
+                    <button
+                      key={suggestion}
+                      type="button"
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => applySuggestion(suggestion)}
+                      className="rounded-md bg-muted px-2 py-0.5 font-mono text-xs hover:bg-muted/70"
+                    >
+                      {suggestion}
+                    </button>
+                  ))}
+                </div>
+              )}
               <div className="p-2 max-h-96 overflow-y-auto">
-                {isSearching ? (
+                {queryErrors.length > 0 ? (
+                  <div className="space-y-1 p-2 text-sm text-destructive">
+                    {queryErrors.map((error) => (
+                      <div key={`${error.start}-${error.message}`} className="flex items-start gap-1">
+                        <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+                        <span>
+                          <code className="font-mono">{searchQuery.slice(error.start, error.end)}</code>: {error.message}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ) : isSearching ? (
                   <div className="p-4 text-center text-muted-foreground">
                     <div className="inline-block animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
                     <span className="ml-2">Searching...</span>
@@ -214,15 +295,22 @@ export function SearchComponent() {
                       >
                         {/* Task Name */}
                         <div className="font-medium mb-1">
-                          <HighlightedText text={result.name} searchQuery={searchQuery} />
+                          {nameSnippet(result) ? (
+                            <HighlightedText parts={nameSnippet(result)!.parts} />
+                          ) : (
+                            result.name
+                          )}
                         </div>
 
-                        {/* Task Description (if exists) */}
-                        {result.description && (
-                          <div className="text-sm text-muted-foreground mb-2 line-clamp-2">
-                            <HighlightedText text={result.description} searchQuery={searchQuery} />
+                        {/* Where else the query matched */}
+                        {result.snippets.filter(snippet => snippet.field !== 'name').map((snippet) => (
+                          <div key={snippet.field} className="text-sm text-muted-foreground mb-2 line-clamp-2">
+                            {snippet.field !== 'description' && (
+                              <span className="text-xs uppercase mr-1">{SNIPPET_FIELD_NAMES[snippet.field]}:</span>
+                            )}
+                            <HighlightedText parts={snippet.parts} />
                           </div>
-                        )}
+                        ))}
 
                         {/* Task Metadata */}
                         <div className="flex items-center gap-2 flex-wrap text-xs">
@@ -0,0 +1,190 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Separator } from "@/components/ui/separator"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { CalendarFeedSettings } from "@/components/calendar-feed"
+import { BackupSettings } from "@/components/backup-settings"
+import toast from "react-hot-toast"
+
+interface Preferences {
+  timezone: string
+  emailNotifications: boolean
+  digestEnabled: boolean
+  digestTime: string
+  autoRollover: boolean
+}
+
+interface SettingsDialogProps {
+  isOpen: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function SettingsDialog({ isOpen, onOpenChange }: SettingsDialogProps) {
+  const [preferences, setPreferences] = useState<Preferences | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Not every browser lists UTC, which is the default
+  const timeZones = useMemo(
+    () => ["UTC", ...Intl.supportedValuesOf("timeZone").filter(timeZone => timeZone !== "UTC")],
+    []
+  )
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const fetchPreferences = async () => {
+      try {
+        const response = await fetch("/api/preferences")
+        if (!response.ok) {
+          throw new Error("Failed to fetch preferences")
+        }
+        setPreferences(await response.json())
+      } catch (error) {
+        console.error("Error fetching preferences:", error)
+        toast.error("Failed to load settings")
+      }
+    }
+
+    fetchPreferences()
+  }, [isOpen])
+
+  const handleChange = <K extends keyof Preferences>(field: K, value: Preferences[K]) => {
+    setPreferences(prev => prev ? { ...prev, [field]: value } : prev)
+  }
+
+  const handleSave = async () => {
+    if (!preferences) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch("/api/preferences", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(preferences),
+      })
+
+      if (!response.ok) {
+        throw new Error("Failed to save preferences")
+      }
+
+      toast.success("Settings saved")
+      onOpenChange(false)
+    } catch (error) {
+      console.error("Error saving preferences:", error)
+      toast.error("Failed to save settings")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>Choose how and when you hear about your tasks.</DialogDescription>
+        </DialogHeader>
+
+        {preferences && (
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="timezone">Timezone</Label>
+              <Select
+                value={preferences.timezone}
+                onValueChange={(value) => handleChange("timezone", value)}
+              >
+                <SelectTrigger id="timezone" aria-label="Timezone">
+                  <SelectValue placeholder="Select timezone" />
+                </SelectTrigger>
+                <SelectContent>
+                  {timeZones.map((timeZone) => (
+                    <SelectItem key={timeZone} value={timeZone}>
+                      {timeZone}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="email-notifications">Email reminders and overdue alerts</Label>
+              <Switch
+                id="email-notifications"
+                checked={preferences.emailNotifications}
+                onCheckedChange={(checked) => handleChange("emailNotifications", checked)}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="digest-enabled">Daily agenda email</Label>
+              <Switch
+                id="digest-enabled"
+                checked={preferences.digestEnabled}
+                onCheckedChange={(checked) => handleChange("digestEnabled", checked)}
+              />
+            </div>
+
+            {preferences.digestEnabled && (
+              <div className="space-y-1.5">
+                <Label htmlFor="digest-time">Send at</Label>
+                <Input
+                  id="digest-time"
+                  type="time"
+                  value={preferences.digestTime}
+                  onChange={(e) => handleChange("digestTime", e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="auto-rollover">Move yesterday&apos;s unfinished tasks to today at midnight</Label>
+              <Switch
+                id="auto-rollover"
+                checked={preferences.autoRollover}
+                onCheckedChange={(checked) => handleChange("autoRollover", checked)}
+              />
+            </div>
+
+            <Separator />
+
+            <CalendarFeedSettings />
+
+            <Separator />
+
+            <BackupSettings />
+          </div>
+        )}
+
+        <DialogFooter className="flex gap-2 pt-4">
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!preferences || isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
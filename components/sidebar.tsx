@@ -5,6 +5,11 @@ import {
   Layout,
   Calendar,
   CalendarClock,
+  CalendarDays,
+  Grid2X2,
+  ChartGantt,
+  AlertCircle,
+  CalendarOff,
   Clock,
   CheckSquare,
   Inbox,
@@ -13,6 +18,8 @@ import {
   MoreHorizontal,
   X,
   Search,
+  GripVertical,
+  Star,
 } from "lucide-react"
 import { motion, AnimatePresence } from "framer-motion"
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet"
@@ -29,8 +36,26 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog"
 import { Label } from "@/components/ui/label"
-import { ListWithRelations, LabelWithRelations, TaskWithRelations } from "@/lib/types/api"
+import { ListWithRelations, LabelWithRelations, TaskWithRelations, SmartListWithCount } from "@/lib/types/api"
 import { ConfirmationDialog } from "@/components/confirmation-dialog"
+import { SmartListDialog } from "@/components/smart-list-dialog"
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from "@dnd-kit/core"
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable"
+import { CSS } from "@dnd-kit/utilities"
 
 // List color options
 const LIST_COLORS = [
@@ -60,15 +85,21 @@ const LABEL_COLORS = [
 const DEFAULT_EMOJIS = ["📝", "💼", "🎯", "📚", "🏠", "⚡", "🌟", "🎨"]
 
 // Types for views
-type ViewType = "today" | "next7days" | "upcoming" | "all"
+type ViewType = "today" | "next7days" | "upcoming" | "all" | "calendar" | "matrix" | "timeline" | "overdue" | "nodate"
 
 interface SidebarProps {
   activeView: ViewType
   activeListId: string | null
   activeLabelId: string | null
+  activeSmartListId: string | null
+  smartLists: SmartListWithCount[]
   onViewChange: (view: ViewType) => void
   onListChange: (listId: string) => void
   onLabelChange: (labelId: string) => void
+  onSmartListChange: (smartListId: string) => void
+  onSmartListSaved: (smartList: SmartListWithCount) => void
+  onSmartListDeleted: (smartListId: string) => void
+  onReorderSmartLists: (smartLists: SmartListWithCount[]) => void
   onAddTask: () => void
 }
 
@@ -76,9 +107,15 @@ export function Sidebar({
   activeView,
   activeListId,
   activeLabelId,
+  activeSmartListId,
+  smartLists,
   onViewChange,
   onListChange,
   onLabelChange,
+  onSmartListChange,
+  onSmartListSaved,
+  onSmartListDeleted,
+  onReorderSmartLists,
   onAddTask,
 }: SidebarProps) {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
@@ -92,6 +129,7 @@ export function Sidebar({
   const [isAddLabelDialogOpen, setIsAddLabelDialogOpen] = useState(false)
   const [editingList, setEditingList] = useState<ListWithRelations | null>(null)
   const [editingLabel, setEditingLabel] = useState<LabelWithRelations | null>(null)
+  const [editingSmartList, setEditingSmartList] = useState<SmartListWithCount | null>(null)
   const [searchQuery, setSearchQuery] = useState("")
 
   // Fetch initial data
@@ -180,7 +218,6 @@ export function Sidebar({
           color,
           isDefault: false,
           isFavorite: false,
-          userId: "1", // TODO: Replace with actual user ID from auth
         }),
       })
 
@@ -244,7 +281,6 @@ export function Sidebar({
         body: JSON.stringify({
           name,
           color,
-          userId: "1", // TODO: Replace with actual user ID from auth
         }),
       })
 
@@ -302,19 +338,19 @@ export function Sidebar({
     return safeTasks.filter(task => task.listId === listId && !task.completedAt).length
   }
 
-  // Get overdue task count for today
+  // Get overdue task count: scheduled for an earlier day, or past the deadline
   const getOverdueTaskCount = () => {
-    const today = new Date()
+    const now = new Date()
+    const today = new Date(now)
     today.setHours(0, 0, 0, 0)
     
     return safeTasks.filter(task => {
       if (task.completedAt) return false
-      if (!task.deadline) return false
       
-      const deadline = new Date(task.deadline)
-      deadline.setHours(0, 0, 0, 0)
+      const taskDate = task.date ? new Date(task.date) : null
+      taskDate?.setHours(0, 0, 0, 0)
       
-      return deadline < today
+      return (!!taskDate && taskDate < today) || (!!task.deadline && new Date(task.deadline) < now)
     }).length
   }
 
@@ -332,6 +368,13 @@ export function Sidebar({
       )
     : labels
 
+  // Filter smart lists based on search query
+  const filteredSmartLists = searchQuery
+    ? smartLists.filter(smartList =>
+        smartList.name.toLowerCase().includes(searchQuery.toLowerCase())
+      )
+    : smartLists
+
   // Calculate task counts for each view
   const getTodayTaskCount = () => {
     const today = new Date()
@@ -368,6 +411,10 @@ export function Sidebar({
     }).length
   }
 
+  const getNoDateTaskCount = () => {
+    return safeTasks.filter(task => !task.date && !task.completedAt).length
+  }
+
   const getAllTaskCount = () => {
     return safeTasks.filter(task => !task.completedAt).length
   }
@@ -377,7 +424,12 @@ export function Sidebar({
     { id: "today", label: "Today", icon: Calendar, badge: getTodayTaskCount() },
     { id: "next7days", label: "Next 7 Days", icon: CalendarClock, badge: getNext7DaysTaskCount() },
     { id: "upcoming", label: "Upcoming", icon: Clock, badge: getUpcomingTaskCount() },
+    { id: "overdue", label: "Overdue", icon: AlertCircle, badge: getOverdueTaskCount() },
+    { id: "nodate", label: "No Date", icon: CalendarOff, badge: getNoDateTaskCount() },
     { id: "all", label: "All", icon: CheckSquare, badge: getAllTaskCount() },
+    { id: "calendar", label: "Calendar", icon: CalendarDays, badge: 0 },
+    { id: "matrix", label: "Matrix", icon: Grid2X2, badge: 0 },
+    { id: "timeline", label: "Timeline", icon: ChartGantt, badge: 0 },
   ]
 
   return (
@@ -393,7 +445,10 @@ export function Sidebar({
           activeView={activeView}
           activeListId={activeListId}
           activeLabelId={activeLabelId}
+          activeSmartListId={activeSmartListId}
           views={views}
+          smartLists={filteredSmartLists}
+          isSmartListSearch={!!searchQuery}
           lists={filteredLists}
           labels={filteredLabels}
           searchQuery={searchQuery}
@@ -401,6 +456,9 @@ export function Sidebar({
           onViewChange={onViewChange}
           onListChange={onListChange}
           onLabelChange={onLabelChange}
+          onSmartListChange={onSmartListChange}
+          onEditSmartList={setEditingSmartList}
+          onReorderSmartLists={onReorderSmartLists}
           onAddTask={onAddTask}
           onAddList={() => setIsAddListDialogOpen(true)}
           onAddLabel={() => setIsAddLabelDialogOpen(true)}
@@ -427,7 +485,10 @@ export function Sidebar({
             activeView={activeView}
             activeListId={activeListId}
             activeLabelId={activeLabelId}
+            activeSmartListId={activeSmartListId}
             views={views}
+            smartLists={filteredSmartLists}
+            isSmartListSearch={!!searchQuery}
             lists={filteredLists}
             labels={filteredLabels}
             searchQuery={searchQuery}
@@ -444,6 +505,12 @@ export function Sidebar({
               onLabelChange(labelId)
               setIsMobileMenuOpen(false)
             }}
+            onSmartListChange={(smartListId) => {
+              onSmartListChange(smartListId)
+              setIsMobileMenuOpen(false)
+            }}
+            onEditSmartList={setEditingSmartList}
+            onReorderSmartLists={onReorderSmartLists}
             onAddTask={onAddTask}
             onAddList={() => setIsAddListDialogOpen(true)}
             onAddLabel={() => setIsAddLabelDialogOpen(true)}
@@ -482,6 +549,15 @@ export function Sidebar({
         </DialogContent>
       </Dialog>
 
+      {/* Edit Smart List Dialog */}
+      <SmartListDialog
+        isOpen={editingSmartList !== null}
+        onOpenChange={(open) => !open && setEditingSmartList(null)}
+        smartList={editingSmartList}
+        onSaved={onSmartListSaved}
+        onDeleted={onSmartListDeleted}
+      />
+
       {/* Add/Edit Label Dialog */}
       <Dialog open={isAddLabelDialogOpen || editingLabel !== null} onOpenChange={(open) => {
         if (!open) {
@@ -518,7 +594,11 @@ interface SidebarContentProps {
   activeView: ViewType
   activeListId: string | null
   activeLabelId: string | null
+  activeSmartListId: string | null
   views: any[]
+  smartLists: SmartListWithCount[]
+  // Reordering is off while the sidebar search hides some smart lists
+  isSmartListSearch: boolean
   lists: ListWithRelations[]
   labels: LabelWithRelations[]
   searchQuery: string
@@ -526,6 +606,9 @@ interface SidebarContentProps {
   onViewChange: (view: ViewType) => void
   onListChange: (listId: string) => void
   onLabelChange: (labelId: string) => void
+  onSmartListChange: (smartListId: string) => void
+  onEditSmartList: (smartList: SmartListWithCount) => void
+  onReorderSmartLists: (smartLists: SmartListWithCount[]) => void
   onAddTask: () => void
   onAddList: () => void
   onAddLabel: () => void
@@ -538,7 +621,10 @@ function SidebarContent({
   activeView,
   activeListId,
   activeLabelId,
+  activeSmartListId,
   views,
+  smartLists,
+  isSmartListSearch,
   lists,
   labels,
   searchQuery,
@@ -546,6 +632,9 @@ function SidebarContent({
   onViewChange,
   onListChange,
   onLabelChange,
+  onSmartListChange,
+  onEditSmartList,
+  onReorderSmartLists,
   onAddTask,
   onAddList,
   onAddLabel,
@@ -553,6 +642,28 @@ function SidebarContent({
   onEditLabel,
   getUncompletedTaskCount,
 }: SidebarContentProps) {
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8, // 8px threshold before drag starts
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  )
+
+  const handleSmartListDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event
+    if (!over || active.id === over.id) return
+
+    const activeIndex = smartLists.findIndex((smartList) => smartList.id === active.id)
+    const overIndex = smartLists.findIndex((smartList) => smartList.id === over.id)
+    if (activeIndex !== -1 && overIndex !== -1) {
+      onReorderSmartLists(arrayMove(smartLists, activeIndex, overIndex))
+    }
+  }
+
   return (
     <div className="flex flex-col h-full">
       {/* Logo and App Name */}
@@ -603,7 +714,7 @@ function SidebarContent({
                     }
                   }}
                   className={`flex items-center w-full px-3 py-2 rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 ${
-                    activeView === view.id
+                    activeView === view.id && !activeSmartListId
                       ? "bg-primary/10 text-primary"
                       : "text-muted-foreground hover:bg-muted"
                   }`}
@@ -630,6 +741,37 @@ function SidebarContent({
           </div>
         </div>
 
+        {smartLists.length > 0 && (
+          <div className="mb-6">
+            <h2 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3 px-2">
+              Smart Lists
+            </h2>
+            <DndContext
+              sensors={sensors}
+              collisionDetection={closestCenter}
+              onDragEnd={handleSmartListDragEnd}
+            >
+              <SortableContext
+                items={smartLists.map((smartList) => smartList.id)}
+                strategy={verticalListSortingStrategy}
+              >
+                <div className="space-y-1">
+                  {smartLists.map((smartList) => (
+                    <SmartListItem
+                      key={smartList.id}
+                      smartList={smartList}
+                      isActive={activeSmartListId === smartList.id}
+                      isSortable={!isSmartListSearch}
+                      onSelect={() => onSmartListChange(smartList.id)}
+                      onEdit={() => onEditSmartList(smartList)}
+                    />
+                  ))}
+                </div>
+              </SortableContext>
+            </DndContext>
+          </div>
+        )}
+
         <Separator className="my-4" />
 
         {/* Lists Section */}
@@ -772,6 +914,75 @@ function SidebarContent({
   )
 }
 
+// Smart list entry; drag it by the handle to reorder
+interface SmartListItemProps {
+  smartList: SmartListWithCount
+  isActive: boolean
+  isSortable: boolean
+  onSelect: () => void
+  onEdit: () => void
+}
+
+function SmartListItem({ smartList, isActive, isSortable, onSelect, onEdit }: SmartListItemProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: smartList.id, disabled: !isSortable })
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  }
+
+  return (
+    <div ref={setNodeRef} style={style} className="group flex items-center">
+      {isSortable && (
+        <span
+          {...attributes}
+          {...listeners}
+          className="-ml-3 w-3 cursor-grab text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity"
+          aria-label={`Reorder ${smartList.name}`}
+        >
+          <GripVertical className="h-3 w-3" />
+        </span>
+      )}
+      <button
+        onClick={onSelect}
+        className={`flex items-center w-full px-3 py-2 rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 ${
+          isActive
+            ? "bg-primary/10 text-primary"
+            : "text-muted-foreground hover:bg-muted"
+        }`}
+        role="menuitem"
+        aria-label={smartList.name}
+      >
+        <span className="mr-3">{smartList.emoji || "🔍"}</span>
+        <span className="flex-1 text-left">{smartList.name}</span>
+        {smartList.isFavorite && <Star className="h-3 w-3 fill-current text-yellow-500" />}
+        {!!smartList.count && (
+          <Badge variant="secondary" className="ml-2 text-xs">
+            {smartList.count}
+          </Badge>
+        )}
+        <div
+          className="ml-2 opacity-0 group-hover:opacity-100 transition-opacity"
+          onClick={(e) => {
+            e.stopPropagation()
+            onEdit()
+          }}
+        >
+          <MoreHorizontal className="h-4 w-4" />
+        </div>
+      </button>
+    </div>
+  )
+}
+
 // List dialog form component
 interface ListDialogFormProps {
   initialData?: ListWithRelations | null
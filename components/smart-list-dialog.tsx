@@ -0,0 +1,167 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { ConfirmationDialog } from "@/components/confirmation-dialog"
+import { SmartListWithCount } from "@/lib/types/api"
+import { SmartListFilters } from "@/lib/smart-list-utils"
+import toast from "react-hot-toast"
+
+const SMART_LIST_EMOJIS = ["🔍", "⚡", "🔥", "📌", "⭐", "⏰", "🎯", "🗂️"]
+
+interface SmartListDialogProps {
+  isOpen: boolean
+  onOpenChange: (open: boolean) => void
+  // The smart list to edit; a new one is created from `filters` otherwise
+  smartList?: SmartListWithCount | null
+  filters?: SmartListFilters
+  onSaved: (smartList: SmartListWithCount) => void
+  onDeleted?: (smartListId: string) => void
+}
+
+// Create a smart list from the current filters, or rename, favorite and
+// delete an existing one
+export function SmartListDialog({ isOpen, onOpenChange, smartList, filters, onSaved, onDeleted }: SmartListDialogProps) {
+  const [name, setName] = useState("")
+  const [emoji, setEmoji] = useState(SMART_LIST_EMOJIS[0])
+  const [isFavorite, setIsFavorite] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setName(smartList?.name ?? "")
+    setEmoji(smartList?.emoji || SMART_LIST_EMOJIS[0])
+    setIsFavorite(smartList?.isFavorite ?? false)
+  }, [isOpen, smartList])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(smartList ? `/api/smart-lists/${smartList.id}` : "/api/smart-lists", {
+        method: smartList ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          name: name.trim(),
+          emoji,
+          isFavorite,
+          ...(smartList ? {} : { filters }),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error)
+      }
+
+      toast.success(smartList ? "Smart list updated" : `Saved "${data.name}"`)
+      onSaved(data)
+      onOpenChange(false)
+    } catch (error) {
+      console.error("Error saving smart list:", error)
+      toast.error(error instanceof Error && error.message ? error.message : "Failed to save smart list")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleConfirmDelete = async () => {
+    if (!smartList) return
+
+    try {
+      const response = await fetch(`/api/smart-lists/${smartList.id}`, { method: "DELETE" })
+      if (!response.ok) throw new Error("Failed to delete smart list")
+
+      onDeleted?.(smartList.id)
+      setIsDeleteDialogOpen(false)
+      onOpenChange(false)
+    } catch (error) {
+      console.error("Error deleting smart list:", error)
+      toast.error("Failed to delete smart list")
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{smartList ? "Edit Smart List" : "Save as Smart List"}</DialogTitle>
+          <DialogDescription>
+            {smartList
+              ? "Change how this smart list appears in the sidebar"
+              : "Keep the current filters, search and sort order under a name"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="smart-list-name">Name</Label>
+            <Input
+              id="smart-list-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Urgent this fortnight"
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label>Emoji</Label>
+            <div className="flex flex-wrap gap-2 mt-1">
+              {SMART_LIST_EMOJIS.map((e) => (
+                <button
+                  key={e}
+                  type="button"
+                  onClick={() => setEmoji(e)}
+                  className={`w-8 h-8 flex items-center justify-center rounded-md text-lg transition-colors ${
+                    emoji === e ? "bg-primary/20 border border-primary" : "hover:bg-muted"
+                  }`}
+                >
+                  {e}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="smart-list-favorite">Favorite (shown first)</Label>
+            <Switch id="smart-list-favorite" checked={isFavorite} onCheckedChange={setIsFavorite} />
+          </div>
+
+          <div className="flex gap-2 pt-4">
+            <Button type="submit" className="flex-1" disabled={isSaving || !name.trim()}>
+              {isSaving ? "Saving..." : smartList ? "Save Changes" : "Save Smart List"}
+            </Button>
+            {smartList && (
+              <Button type="button" variant="destructive" onClick={() => setIsDeleteDialogOpen(true)}>
+                Delete
+              </Button>
+            )}
+          </div>
+        </form>
+
+        <ConfirmationDialog
+          isOpen={isDeleteDialogOpen}
+          onOpenChange={setIsDeleteDialogOpen}
+          title="Delete Smart List"
+          description={`Delete the smart list "${smartList?.name}"? Its tasks are not affected.`}
+          onConfirm={handleConfirmDelete}
+        />
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,272 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import { Plus } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { TaskCard } from "@/components/task-card"
+import { TaskWithRelations, LabelWithRelations, ListWithRelations } from "@/lib/types/api"
+import {
+  DndContext,
+  closestCorners,
+  KeyboardSensor,
+  PointerSensor,
+  useDroppable,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from "@dnd-kit/core"
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable"
+
+export type BoardGroupBy = "list" | "priority" | "label" | "status"
+
+// Fields sent to the server when a card lands in another column
+export type BoardTaskChanges = {
+  listId?: string
+  priority?: number
+  labels?: string[]
+  status?: string
+}
+
+// Tasks without a status sit in the first column
+export const DEFAULT_STATUSES = ["To Do", "In Progress", "Blocked"]
+
+const PRIORITY_COLUMNS = [
+  { key: "3", title: "High" },
+  { key: "2", title: "Medium" },
+  { key: "1", title: "Low" },
+  { key: "0", title: "None" },
+]
+
+const NO_LABEL = "__none__"
+
+type BoardColumn = {
+  key: string
+  title: string
+  tasks: TaskWithRelations[]
+}
+
+interface TaskBoardProps {
+  tasks: TaskWithRelations[]
+  groupBy: BoardGroupBy
+  availableLists: ListWithRelations[]
+  availableLabels: LabelWithRelations[]
+  onComplete: (taskId: string) => void
+  onEdit: (task: TaskWithRelations) => void
+  onDelete: (taskId: string) => void
+  onMoveTask: (task: TaskWithRelations, changes: BoardTaskChanges, columnTasks: TaskWithRelations[]) => void
+}
+
+function BoardColumnView({
+  column,
+  onComplete,
+  onEdit,
+  onDelete,
+}: {
+  column: BoardColumn
+  onComplete: (taskId: string) => void
+  onEdit: (task: TaskWithRelations) => void
+  onDelete: (taskId: string) => void
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: `column:${column.key}` })
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`flex w-80 shrink-0 flex-col rounded-lg border bg-muted/40 p-3 ${isOver ? "ring-2 ring-primary/40" : ""}`}
+    >
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="text-sm font-semibold">{column.title}</h2>
+        <Badge variant="secondary" className="text-xs">{column.tasks.length}</Badge>
+      </div>
+      <SortableContext
+        items={column.tasks.map(task => `${column.key}:${task.id}`)}
+        strategy={verticalListSortingStrategy}
+      >
+        <div className="grid min-h-[4rem] gap-3">
+          {column.tasks.map(task => (
+            <TaskCard
+              key={task.id}
+              task={task}
+              sortableId={`${column.key}:${task.id}`}
+              onComplete={onComplete}
+              onEdit={onEdit}
+              onDelete={onDelete}
+            />
+          ))}
+        </div>
+      </SortableContext>
+    </div>
+  )
+}
+
+export function TaskBoard({
+  tasks,
+  groupBy,
+  availableLists,
+  availableLabels,
+  onComplete,
+  onEdit,
+  onDelete,
+  onMoveTask,
+}: TaskBoardProps) {
+  const [customStatuses, setCustomStatuses] = useState<string[]>([])
+  const [newStatus, setNewStatus] = useState("")
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8, // 8px threshold before drag starts
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  )
+
+  const columns = useMemo<BoardColumn[]>(() => {
+    const byOrder = (list: TaskWithRelations[]) => [...list].sort((a, b) => a.order - b.order)
+
+    switch (groupBy) {
+      case "list":
+        return availableLists.map(list => ({
+          key: list.id,
+          title: `${list.emoji ?? ""} ${list.name}`.trim(),
+          tasks: byOrder(tasks.filter(task => task.listId === list.id)),
+        }))
+      case "priority":
+        return PRIORITY_COLUMNS.map(column => ({
+          ...column,
+          tasks: byOrder(tasks.filter(task => task.priority.toString() === column.key)),
+        }))
+      case "label":
+        // A task with several labels shows up in each of their columns
+        return [
+          {
+            key: NO_LABEL,
+            title: "No label",
+            tasks: byOrder(tasks.filter(task => task.labels.length === 0)),
+          },
+          ...availableLabels.map(label => ({
+            key: label.id,
+            title: label.name,
+            tasks: byOrder(tasks.filter(task => task.labels.some(l => l.id === label.id))),
+          })),
+        ]
+      case "status": {
+        const statuses = Array.from(new Set([
+          ...DEFAULT_STATUSES,
+          ...tasks.map(task => task.status).filter((status): status is string => !!status),
+          ...customStatuses,
+        ]))
+        return statuses.map((status, index) => ({
+          key: status,
+          title: status,
+          tasks: byOrder(tasks.filter(task => task.status === status || (index === 0 && !task.status))),
+        }))
+      }
+    }
+  }, [tasks, groupBy, availableLists, availableLabels, customStatuses])
+
+  // Map drag ids back to their column and task
+  const locate = (id: string) => {
+    for (const column of columns) {
+      if (id === `column:${column.key}`) {
+        return { column, task: null }
+      }
+      const task = column.tasks.find(t => `${column.key}:${t.id}` === id)
+      if (task) {
+        return { column, task }
+      }
+    }
+    return null
+  }
+
+  const getChanges = (task: TaskWithRelations, from: BoardColumn, to: BoardColumn): BoardTaskChanges => {
+    switch (groupBy) {
+      case "list":
+        return { listId: to.key }
+      case "priority":
+        return { priority: parseInt(to.key) }
+      case "label": {
+        const labelIds = task.labels.map(label => label.id).filter(id => id !== from.key)
+        return { labels: to.key === NO_LABEL ? [] : Array.from(new Set([...labelIds, to.key])) }
+      }
+      case "status":
+        return { status: to.key }
+    }
+  }
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event
+    if (!over || active.id === over.id) return
+
+    const source = locate(active.id.toString())
+    const target = locate(over.id.toString())
+    if (!source?.task || !target) return
+
+    const task = source.task
+    const columnTasks = target.column.tasks.filter(t => t.id !== task.id)
+    const overIndex = target.task ? columnTasks.findIndex(t => t.id === target.task.id) : -1
+    const insertAt = overIndex === -1 ? columnTasks.length : overIndex
+
+    if (source.column.key === target.column.key) {
+      const fromIndex = source.column.tasks.findIndex(t => t.id === task.id)
+      const toIndex = source.column.tasks.findIndex(t => t.id === target.task?.id)
+      if (toIndex === -1) return
+      onMoveTask(task, {}, arrayMove(source.column.tasks, fromIndex, toIndex))
+      return
+    }
+
+    columnTasks.splice(insertAt, 0, task)
+    onMoveTask(task, getChanges(task, source.column, target.column), columnTasks)
+  }
+
+  const handleAddStatus = (e: React.FormEvent) => {
+    e.preventDefault()
+    const status = newStatus.trim()
+    if (status && !columns.some(column => column.key === status)) {
+      setCustomStatuses(prev => [...prev, status])
+    }
+    setNewStatus("")
+  }
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={closestCorners}
+      onDragEnd={handleDragEnd}
+    >
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {columns.map(column => (
+          <BoardColumnView
+            key={column.key}
+            column={column}
+            onComplete={onComplete}
+            onEdit={onEdit}
+            onDelete={onDelete}
+          />
+        ))}
+        {groupBy === "status" && (
+          <form onSubmit={handleAddStatus} className="flex w-64 shrink-0 items-start gap-2">
+            <Input
+              placeholder="New status..."
+              value={newStatus}
+              onChange={(e) => setNewStatus(e.target.value)}
+              maxLength={50}
+            />
+            <Button type="submit" variant="outline" size="icon" aria-label="Add status column">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+        )}
+      </div>
+    </DndContext>
+  )
+}
@@ -13,7 +13,8 @@ import {
   MoreHorizontal,
   AlertCircle,
   Clock3,
-  GripVertical
+  GripVertical,
+  Lock
 } from "lucide-react"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
@@ -29,16 +30,20 @@ import { TaskWithRelations } from "@/lib/types/api"
 import { useSortable } from "@dnd-kit/sortable"
 import { CSS } from "@dnd-kit/utilities"
 import { ConfirmationDialog } from "@/components/confirmation-dialog"
+import { TaskTimer } from "@/components/task-timer"
+import { getOpenBlockers } from "@/lib/dependency-utils"
 
 interface TaskCardProps {
   task: TaskWithRelations
   onComplete?: (taskId: string) => void
   onEdit?: (task: TaskWithRelations) => void
   onDelete?: (taskId: string) => void
+  // Overrides the drag id when the same task is rendered more than once (e.g. board columns)
+  sortableId?: string
 }
 
 export const TaskCard = React.forwardRef<HTMLDivElement, TaskCardProps>(
-  ({ task, onComplete, onEdit, onDelete }, ref) => {
+  ({ task, onComplete, onEdit, onDelete, sortableId }, ref) => {
   const [isHovered, setIsHovered] = useState(false)
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
   const {
@@ -48,7 +53,7 @@ export const TaskCard = React.forwardRef<HTMLDivElement, TaskCardProps>(
     transform,
     transition,
     isDragging,
-  } = useSortable({ id: task.id })
+  } = useSortable({ id: sortableId ?? task.id })
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -57,6 +62,8 @@ export const TaskCard = React.forwardRef<HTMLDivElement, TaskCardProps>(
     zIndex: isDragging ? 999 : 1,
   }
   
+  const openBlockers = getOpenBlockers(task.blockedBy)
+
   // Calculate subtask completion
   const safeSubtasks = task.subtasks || []
   const completedSubtasks = safeSubtasks.filter(subtask => subtask.completedAt).length
@@ -128,6 +135,16 @@ export const TaskCard = React.forwardRef<HTMLDivElement, TaskCardProps>(
               <Badge className={getPriorityColor(task.priority)}>
                 {getPriorityLabel(task.priority)}
               </Badge>
+              {!task.completedAt && openBlockers.length > 0 && (
+                <Badge
+                  variant="outline"
+                  className="gap-1 border-orange-300 text-orange-700"
+                  title={`Blocked by ${openBlockers.map(blocker => blocker.name).join(", ")}`}
+                >
+                  <Lock className="h-3 w-3" />
+                  Blocked
+                </Badge>
+              )}
             </div>
             
             {/* Task Description */}
@@ -168,9 +185,13 @@ export const TaskCard = React.forwardRef<HTMLDivElement, TaskCardProps>(
               )}
               
               {task.attachments.length > 0 && (
-                <div className="flex items-center gap-1">
+                <div
+                  className="flex items-center gap-1"
+                  title={`${task.attachments.length} attachment(s)`}
+                  aria-label={`${task.attachments.length} attachment(s)`}
+                >
                   <Paperclip className="h-4 w-4" />
-                  <span>{task.attachments.length} attachment(s)</span>
+                  <span>{task.attachments.length}</span>
                 </div>
               )}
             </div>
@@ -189,6 +210,8 @@ export const TaskCard = React.forwardRef<HTMLDivElement, TaskCardProps>(
           
           {/* Task Actions */}
           <div className="flex items-center gap-1 ml-2">
+            {!task.completedAt && <TaskTimer taskId={task.id} />}
+
             {!task.completedAt && (
               <Button
                 variant="ghost"
@@ -0,0 +1,148 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { CheckCircle2, Lock, Unlock, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { TaskSummary } from "@/lib/types/api"
+import toast from "react-hot-toast"
+
+type Dependencies = {
+  blockedBy: TaskSummary[]
+  blocks: TaskSummary[]
+}
+
+type DependencyType = "blockerId" | "blockedId"
+
+interface TaskDependenciesProps {
+  taskId: string
+  availableTasks: TaskSummary[]
+  onChange?: () => void
+}
+
+export function TaskDependencies({ taskId, availableTasks, onChange }: TaskDependenciesProps) {
+  const [dependencies, setDependencies] = useState<Dependencies>({ blockedBy: [], blocks: [] })
+
+  const fetchDependencies = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/dependencies`)
+      if (response.ok) {
+        setDependencies(await response.json())
+      }
+    } catch (error) {
+      console.error("Error fetching dependencies:", error)
+    }
+  }, [taskId])
+
+  useEffect(() => {
+    fetchDependencies()
+  }, [fetchDependencies])
+
+  const handleAdd = async (type: DependencyType, otherId: string) => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/dependencies`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ [type]: otherId }),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        toast.error(result.error || "Failed to add dependency")
+        return
+      }
+
+      setDependencies(result)
+      onChange?.()
+      toast.success("Dependency added!")
+    } catch (error) {
+      console.error("Error adding dependency:", error)
+      toast.error("Failed to add dependency")
+    }
+  }
+
+  const handleRemove = async (type: DependencyType, otherId: string) => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/dependencies?${type}=${otherId}`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        setDependencies(await response.json())
+        onChange?.()
+        toast.success("Dependency removed!")
+      } else {
+        toast.error("Failed to remove dependency")
+      }
+    } catch (error) {
+      console.error("Error removing dependency:", error)
+      toast.error("Failed to remove dependency")
+    }
+  }
+
+  // Tasks that aren't already linked either way
+  const linkedIds = new Set([
+    taskId,
+    ...dependencies.blockedBy.map(task => task.id),
+    ...dependencies.blocks.map(task => task.id),
+  ])
+  const candidates = availableTasks.filter(task => !linkedIds.has(task.id) && !task.completedAt)
+
+  const renderSection = (title: string, type: DependencyType, tasks: TaskSummary[], Icon: typeof Lock) => (
+    <div className="space-y-2">
+      <h4 className="font-medium text-sm flex items-center gap-1">
+        <Icon className="h-4 w-4" />
+        {title}
+      </h4>
+      {tasks.length === 0 ? (
+        <p className="text-sm text-muted-foreground">None</p>
+      ) : (
+        <div className="space-y-2">
+          {tasks.map(task => (
+            <div
+              key={task.id}
+              className="flex items-center justify-between text-sm p-2 bg-muted/50 rounded-md"
+            >
+              <span className={`flex items-center gap-2 ${task.completedAt ? "line-through text-muted-foreground" : ""}`}>
+                {task.completedAt && <CheckCircle2 className="h-3 w-3 text-green-600" />}
+                {task.name}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-red-500 hover:text-red-600 hover:bg-red-50"
+                onClick={() => handleRemove(type, task.id)}
+                aria-label={`Remove dependency on ${task.name}`}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      {candidates.length > 0 && (
+        <Select value="" onValueChange={(value) => handleAdd(type, value)}>
+          <SelectTrigger className="h-8 text-sm" aria-label={`Add to ${title.toLowerCase()}`}>
+            <SelectValue placeholder="Add task..." />
+          </SelectTrigger>
+          <SelectContent>
+            {candidates.map(task => (
+              <SelectItem key={task.id} value={task.id}>
+                {task.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {renderSection("Blocked By", "blockerId", dependencies.blockedBy, Lock)}
+      {renderSection("Blocks", "blockedId", dependencies.blocks, Unlock)}
+    </div>
+  )
+}
@@ -12,10 +12,10 @@ import {
   Edit2,
   CheckCircle2,
   Trash2,
-  ExternalLink,
   X,
   List as ListIcon,
-  CalendarClock
+  CalendarClock,
+  SkipForward
 } from "lucide-react"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
@@ -34,7 +34,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { TaskHistory } from "@/components/task-history"
 import { TaskForm } from "@/components/task-form"
 import { SubtaskList } from "@/components/subtask-list"
-import { TaskWithRelations } from "@/lib/types/api"
+import { TimeEntries } from "@/components/time-entries"
+import { TaskDependencies } from "@/components/task-dependencies"
+import { AttachmentGallery } from "@/components/attachment-gallery"
+import { TaskWithRelations, TaskSummary } from "@/lib/types/api"
+import { parseRecurringPattern, getRecurrenceSummary } from "@/lib/recurring-utils"
+import { describeRelativeReminder, isReminderAnchor } from "@/lib/reminder-utils"
 import toast from "react-hot-toast"
 import { ConfirmationDialog } from "@/components/confirmation-dialog"
 
@@ -44,7 +49,13 @@ interface TaskDetailsProps {
   onOpenChange: (open: boolean) => void
   onComplete?: (taskId: string) => void
   onDelete?: (taskId: string) => void
+  onUpdate?: (taskId: string, data: any) => Promise<void>
+  onSkipOccurrence?: (taskId: string) => void
+  onActualTimeChange?: (taskId: string, actualTime: number | null) => void
+  onDependenciesChange?: () => void
+  onAttachmentsChange?: (taskId: string, attachments: TaskWithRelations["attachments"]) => void
   availableLabels: any[]
+  availableTasks?: TaskSummary[]
 }
 
 export function TaskDetails({ 
@@ -53,11 +64,34 @@ export function TaskDetails({
   onOpenChange, 
   onComplete, 
   onDelete,
-  availableLabels 
+  onUpdate,
+  onSkipOccurrence,
+  onActualTimeChange,
+  onDependenciesChange,
+  onAttachmentsChange,
+  availableLabels,
+  availableTasks = [],
 }: TaskDetailsProps) {
   const [isEditMode, setIsEditMode] = useState(false)
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
 
+  const handleDeleteAttachment = async (attachmentId: string) => {
+    try {
+      const response = await fetch(`/api/attachments/${attachmentId}`, {
+        method: "DELETE",
+      })
+      if (response.ok) {
+        onAttachmentsChange?.(task.id, task.attachments.filter(attachment => attachment.id !== attachmentId))
+        toast.success("Attachment deleted!")
+      } else {
+        toast.error("Failed to delete attachment")
+      }
+    } catch (error) {
+      console.error("Error deleting attachment:", error)
+      toast.error("Failed to delete attachment")
+    }
+  }
+
   // Calculate subtask completion
   const completedSubtasks = task.subtasks.filter(subtask => subtask.completedAt).length
   const subtaskProgress = task.subtasks.length > 0 
@@ -84,6 +118,15 @@ export function TaskDetails({
     }
   }
 
+  // Get human readable recurrence
+  const getRecurrenceLabel = (recurringPattern: string) => {
+    try {
+      return getRecurrenceSummary(parseRecurringPattern(recurringPattern))
+    } catch {
+      return recurringPattern
+    }
+  }
+
   if (isEditMode) {
     return (
       <TaskForm
@@ -95,7 +138,7 @@ export function TaskDetails({
             onOpenChange(false)
           }
         }}
-        onSubmit={(data) => console.log("Update task:", data)}
+        onSubmit={(data) => onUpdate?.(task.id, data)}
         availableLabels={availableLabels}
       />
     )
@@ -109,9 +152,10 @@ export function TaskDetails({
         </DialogHeader>
 
         <Tabs defaultValue="details" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="details">Details</TabsTrigger>
             <TabsTrigger value="subtasks">Subtasks</TabsTrigger>
+            <TabsTrigger value="time">Time</TabsTrigger>
             <TabsTrigger value="history">History</TabsTrigger>
           </TabsList>
 
@@ -128,15 +172,28 @@ export function TaskDetails({
                 </Badge>
               </div>
               {!task.completedAt && (
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => onComplete?.(task.id)}
-                  className="text-green-600 hover:text-green-700 hover:bg-green-50"
-                >
-                  <CheckCircle2 className="h-4 w-4 mr-1" />
-                  Mark Complete
-                </Button>
+                <div className="flex items-center gap-1">
+                  {task.isRecurring && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onSkipOccurrence?.(task.id)}
+                      className="text-muted-foreground"
+                    >
+                      <SkipForward className="h-4 w-4 mr-1" />
+                      Skip Occurrence
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onComplete?.(task.id)}
+                    className="text-green-600 hover:text-green-700 hover:bg-green-50"
+                  >
+                    <CheckCircle2 className="h-4 w-4 mr-1" />
+                    Mark Complete
+                  </Button>
+                </div>
               )}
             </div>
 
@@ -244,6 +301,13 @@ export function TaskDetails({
               </div>
             )}
 
+            {/* Dependencies */}
+            <TaskDependencies
+              taskId={task.id}
+              availableTasks={availableTasks}
+              onChange={onDependenciesChange}
+            />
+
             {/* Recurring Pattern */}
             {task.isRecurring && task.recurringPattern && (
               <div className="space-y-1.5">
@@ -252,7 +316,7 @@ export function TaskDetails({
                   Recurring
                 </h4>
                 <p className="text-muted-foreground text-sm">
-                  {task.recurringPattern}
+                  {getRecurrenceLabel(task.recurringPattern)}
                 </p>
               </div>
             )}
@@ -270,7 +334,15 @@ export function TaskDetails({
                       key={reminder.id}
                       className="flex items-center justify-between text-sm text-muted-foreground p-2 bg-gray-50 rounded-md"
                     >
-                      <span>{new Date(reminder.datetime).toLocaleString()}</span>
+                      <span>
+                        {new Date(reminder.datetime).toLocaleString()}
+                        {isReminderAnchor(reminder.anchor) && reminder.offsetMinutes !== null && (
+                          <span className="ml-1">({describeRelativeReminder(reminder.anchor, reminder.offsetMinutes).toLowerCase()})</span>
+                        )}
+                        {reminder.snoozedUntil && reminder.status === "pending" && (
+                          <span className="ml-1">· snoozed until {new Date(reminder.snoozedUntil).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}</span>
+                        )}
+                      </span>
                       <Button
                         variant="ghost"
                         size="icon"
@@ -305,53 +377,9 @@ export function TaskDetails({
               <div className="space-y-2">
                 <h4 className="font-medium text-sm flex items-center gap-1">
                   <Paperclip className="h-4 w-4" />
-                  Attachments
+                  Attachments ({task.attachments.length})
                 </h4>
-                <div className="space-y-2">
-                  {task.attachments.map((attachment) => (
-                    <div
-                      key={attachment.id}
-                      className="flex items-center justify-between text-sm text-muted-foreground p-2 bg-gray-50 rounded-md"
-                    >
-                      <span>{attachment.name}</span>
-                      <div className="flex gap-1">
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-6 w-6"
-                          onClick={() => {
-                            window.open(attachment.url, '_blank');
-                          }}
-                        >
-                          <ExternalLink className="h-3 w-3" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-6 w-6 text-red-500 hover:text-red-600 hover:bg-red-50"
-                          onClick={async () => {
-                            try {
-                              const response = await fetch(`/api/attachments/${attachment.id}`, {
-                                method: 'DELETE',
-                              });
-                              if (response.ok) {
-                                toast.success("Attachment deleted!")
-                                window.location.reload();
-                              } else {
-                                toast.error("Failed to delete attachment")
-                              }
-                            } catch (error) {
-                              console.error('Error deleting attachment:', error);
-                              toast.error("Failed to delete attachment")
-                            }
-                          }}
-                        >
-                          <X className="h-3 w-3" />
-                        </Button>
-                      </div>
-                    </div>
-                  ))}
-                </div>
+                <AttachmentGallery attachments={task.attachments} onDelete={handleDeleteAttachment} />
               </div>
             )}
           </TabsContent>
@@ -378,6 +406,10 @@ export function TaskDetails({
             </div>
           </TabsContent>
 
+          <TabsContent value="time" className="py-4">
+            <TimeEntries taskId={task.id} onActualTimeChange={onActualTimeChange} />
+          </TabsContent>
+
           <TabsContent value="history" className="py-4">
             <TaskHistory history={task.history} />
           </TabsContent>
@@ -36,17 +36,23 @@ import {
 } from "@/components/ui/dialog"
 import { SubtaskList } from "@/components/subtask-list"
 import { TaskWithRelations } from "@/lib/types/api"
+import { isValidRRule, parseRRule, describeRRule } from "@/lib/rrule"
+import { REMINDER_ANCHORS, ReminderSpec, describeRelativeReminder } from "@/lib/reminder-utils"
 import * as z from "zod"
 import toast from "react-hot-toast"
 
 // Recurring pattern validation schema with comprehensive checks
 const recurringPatternSchema = z.object({
-  type: z.enum(["daily", "weekly", "weekday", "monthly", "yearly", "custom"]).default("daily"),
+  type: z.enum(["daily", "weekly", "weekday", "monthly", "yearly", "custom", "rrule"]).default("daily"),
   interval: z.number().min(1, "Interval must be at least 1").default(1),
   daysOfWeek: z.array(z.number().min(0).max(6)).optional(),
   dayOfMonth: z.number().min(1, "Day of month must be between 1 and 31").max(31, "Day of month must be between 1 and 31").optional(),
   month: z.number().min(1, "Month must be between 1 and 12").max(12, "Month must be between 1 and 12").optional(),
   endDate: z.string().optional(),
+  rrule: z.string().optional(),
+}).refine(data => data.type !== "rrule" || (!!data.rrule && isValidRRule(data.rrule)), {
+  message: "Please enter a valid RRULE, e.g. FREQ=MONTHLY;BYDAY=-1FR",
+  path: ["rrule"],
 }).refine(data => {
   if (data.type === "weekly" && (!data.daysOfWeek || data.daysOfWeek.length === 0)) {
     return false
@@ -67,12 +73,14 @@ const taskFormSchema = z.object({
   date: z.string().optional(),
   deadline: z.string().optional(),
   estimates: z.string().optional().transform(val => val === "" ? undefined : val),
-  actualTime: z.string().optional().transform(val => val === "" ? undefined : val),
   priority: z.string().default("0").refine(val => ["0", "1", "2", "3"].includes(val), "Priority must be 0, 1, 2, or 3"),
   isRecurring: z.boolean().default(false),
   recurringPattern: recurringPatternSchema.optional(),
   labels: z.array(z.string()).default([]),
-  reminders: z.array(z.string()).default([]),
+  reminders: z.array(z.union([
+    z.string(),
+    z.object({ anchor: z.enum(REMINDER_ANCHORS), offsetMinutes: z.number().int() }),
+  ])).default([]),
 })
 .refine(data => {
   if (data.isRecurring && !data.recurringPattern) {
@@ -110,18 +118,9 @@ const taskFormSchema = z.object({
   message: "Estimated time must be a non-negative number",
   path: ["estimates"],
 })
-.refine(data => {
-  if (data.actualTime && parseInt(data.actualTime) < 0) {
-    return false
-  }
-  return true
-}, {
-  message: "Actual time must be a non-negative number",
-  path: ["actualTime"],
-})
 .refine(data => {
   return data.reminders.every(reminder => {
-    if (!reminder) return true
+    if (!reminder || typeof reminder !== "string") return true
     // Validate ISO datetime format (YYYY-MM-DDTHH:MM)
     const dateTimeRegex = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/
     return dateTimeRegex.test(reminder)
@@ -130,6 +129,12 @@ const taskFormSchema = z.object({
   message: "Reminders must be in valid datetime format (YYYY-MM-DDTHH:MM)",
   path: ["reminders"],
 })
+.refine(data => {
+  return data.reminders.every(reminder => typeof reminder === "string" || !!data[reminder.anchor])
+}, {
+  message: "Set the task date or deadline a relative reminder refers to",
+  path: ["reminders"],
+})
 
 interface TaskFormProps {
   task?: TaskWithRelations
@@ -188,14 +193,20 @@ export function TaskForm({
     date: task?.date ? new Date(task.date).toISOString().split("T")[0] : "",
     deadline: task?.deadline ? new Date(task.deadline).toISOString().split("T")[0] : "",
     estimates: task?.estimates?.toString() || "",
-    actualTime: task?.actualTime?.toString() || "",
     priority: task?.priority?.toString() || "0",
     isRecurring: task?.isRecurring || false,
     recurringPattern: parseRecurringPattern(task?.recurringPattern),
     labels: task?.labels?.map(label => label.id) || [],
-    reminders: task?.reminders?.map(reminder => new Date(reminder.datetime).toISOString().slice(0, 16)) || [],
+    reminders: task?.reminders?.map((reminder): ReminderSpec =>
+      reminder.anchor === "date" || reminder.anchor === "deadline"
+        ? { anchor: reminder.anchor, offsetMinutes: reminder.offsetMinutes ?? 0 }
+        : new Date(reminder.datetime).toISOString().slice(0, 16)
+    ) || [],
   })
 
+  // Reminders as the task had them, to only submit them when they changed
+  const [initialReminders] = useState(() => JSON.stringify(formData.reminders))
+
   // Define a simpler type for form management
   const [subtasks, setSubtasks] = useState<{ id: string; name: string; completedAt: Date | null }[]>(
     task?.subtasks.map(subtask => ({
@@ -206,6 +217,7 @@ export function TaskForm({
   )
 
   const [errors, setErrors] = useState<Record<string, string>>({})
+  const [editScope, setEditScope] = useState<"this" | "following" | "all">("this")
   const [selectedFiles, setSelectedFiles] = useState<File[]>([])
 
   const handleChange = (field: string, value: any) => {
@@ -215,6 +227,10 @@ export function TaskForm({
     }
   }
 
+  const handleReminderChange = (index: number, reminder: ReminderSpec) => {
+    handleChange("reminders", formData.reminders.map((current, i) => i === index ? reminder : current))
+  }
+
   const handleLabelToggle = (labelId: string) => {
     setFormData(prev => ({
       ...prev,
@@ -249,6 +265,8 @@ export function TaskForm({
           completedAt: subtask.completedAt,
         })),
         files: selectedFiles,
+        ...(task?.isRecurring ? { scope: editScope } : {}),
+        ...(task && JSON.stringify(formData.reminders) === initialReminders ? { reminders: undefined } : {}),
       }
       
       await onSubmit(submitData)
@@ -277,8 +295,12 @@ export function TaskForm({
     { value: "monthly", label: "Every month" },
     { value: "yearly", label: "Every year" },
     { value: "custom", label: "Custom" },
+    { value: "rrule", label: "Advanced (RRULE)" },
   ]
 
+  // Offsets offered for relative reminders, in minutes before the date or deadline
+  const reminderOffsets = [0, 5, 15, 30, 60, 120, 1440, 2880]
+
   const weekDays = [
     { value: 0, label: "Sunday" },
     { value: 1, label: "Monday" },
@@ -389,17 +411,13 @@ export function TaskForm({
               <Input
                 id="actualTime"
                 type="number"
-                value={formData.actualTime}
-                onChange={(e) => handleChange("actualTime", e.target.value)}
-                placeholder="0"
-                className={errors.actualTime ? "border-red-500 focus:ring-red-500" : ""}
+                value={task?.actualTime ?? 0}
+                readOnly
+                disabled
               />
-              {errors.actualTime && (
-                <p className="text-sm text-red-500 flex items-center gap-1">
-                  <AlertCircle className="h-4 w-4" />
-                  {errors.actualTime}
-                </p>
-              )}
+              <p className="text-xs text-muted-foreground">
+                Tracked with the timer
+              </p>
             </div>
           </div>
 
@@ -499,7 +517,29 @@ export function TaskForm({
                   </Select>
                 </div>
 
+                {/* RRULE (for advanced patterns) */}
+                {formData.recurringPattern.type === "rrule" && (
+                  <div className="space-y-1.5">
+                    <Label>RRULE</Label>
+                    <Input
+                      value={formData.recurringPattern.rrule || ""}
+                      onChange={(e) => handleChange("recurringPattern", {
+                        ...formData.recurringPattern,
+                        rrule: e.target.value,
+                      })}
+                      placeholder="FREQ=MONTHLY;BYDAY=-1FR"
+                      className="font-mono text-sm"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      {formData.recurringPattern.rrule && isValidRRule(formData.recurringPattern.rrule)
+                        ? describeRRule(parseRRule(formData.recurringPattern.rrule))
+                        : "Supports FREQ, INTERVAL, BYDAY (e.g. 2TU, -1FR), BYMONTHDAY, BYMONTH, BYSETPOS, COUNT and UNTIL"}
+                    </p>
+                  </div>
+                )}
+
                 {/* Interval */}
+                {formData.recurringPattern.type !== "rrule" && (
                 <div className="space-y-1.5">
                   <Label>Interval</Label>
                   <div className="flex items-center gap-2">
@@ -521,6 +561,7 @@ export function TaskForm({
                     </span>
                   </div>
                 </div>
+                )}
 
                 {/* Days of Week (for weekly and custom patterns) */}
                 {(formData.recurringPattern.type === "weekly" || formData.recurringPattern.type === "custom") && (
@@ -612,7 +653,8 @@ export function TaskForm({
                   </div>
                 )}
 
-                {/* End Date */}
+                {/* End Date (RRULEs use UNTIL instead) */}
+                {formData.recurringPattern.type !== "rrule" && (
                 <div className="space-y-1.5">
                   <Label>End Date (Optional)</Label>
                   <div className="relative">
@@ -628,6 +670,7 @@ export function TaskForm({
                     />
                   </div>
                 </div>
+                )}
               </motion.div>
             )}
           </div>
@@ -650,18 +693,49 @@ export function TaskForm({
             <div className="space-y-2">
               {formData.reminders.map((reminder, index) => (
                 <div key={index} className="flex items-center gap-2">
+                  <Select
+                    value={typeof reminder === "string" ? "time" : reminder.anchor}
+                    onValueChange={(value) => handleReminderChange(index, value === "time"
+                      ? ""
+                      : { anchor: value as "date" | "deadline", offsetMinutes: typeof reminder === "string" ? 15 : reminder.offsetMinutes })}
+                  >
+                    <SelectTrigger className="w-[140px]" aria-label="Reminder type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="time">At a time</SelectItem>
+                      <SelectItem value="date">Before date</SelectItem>
+                      <SelectItem value="deadline">Before deadline</SelectItem>
+                    </SelectContent>
+                  </Select>
                   <div className="relative flex-1">
-                    <Clock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                    <Input
-                      type="datetime-local"
-                      value={reminder}
-                      onChange={(e) => {
-                        const newReminders = [...formData.reminders];
-                        newReminders[index] = e.target.value;
-                        handleChange("reminders", newReminders);
-                      }}
-                      className={`pl-9 ${errors.reminders ? "border-red-500 focus:ring-red-500" : ""}`}
-                    />
+                    {typeof reminder === "string" ? (
+                      <>
+                        <Clock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          type="datetime-local"
+                          value={reminder}
+                          onChange={(e) => handleReminderChange(index, e.target.value)}
+                          className={`pl-9 ${errors.reminders ? "border-red-500 focus:ring-red-500" : ""}`}
+                        />
+                      </>
+                    ) : (
+                      <Select
+                        value={reminder.offsetMinutes.toString()}
+                        onValueChange={(value) => handleReminderChange(index, { ...reminder, offsetMinutes: parseInt(value) })}
+                      >
+                        <SelectTrigger aria-label="Reminder offset">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Array.from(new Set([...reminderOffsets, reminder.offsetMinutes])).sort((a, b) => a - b).map((offset) => (
+                            <SelectItem key={offset} value={offset.toString()}>
+                              {describeRelativeReminder(reminder.anchor, offset)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
                   </div>
                   <Button
                     variant="ghost"
@@ -730,7 +804,23 @@ export function TaskForm({
           </div>
         </div>
 
-        <DialogFooter>
+        <DialogFooter className="sm:items-center">
+          {/* Which occurrences of a recurring task the changes apply to */}
+          {task?.isRecurring && (
+            <div className="flex items-center gap-2 sm:mr-auto">
+              <Repeat className="h-4 w-4 text-muted-foreground" />
+              <Select value={editScope} onValueChange={(value) => setEditScope(value as typeof editScope)}>
+                <SelectTrigger className="w-[200px]" aria-label="Apply changes to">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="this">This occurrence</SelectItem>
+                  <SelectItem value="following">This and following</SelectItem>
+                  <SelectItem value="all">All occurrences</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           <DialogClose asChild>
             <Button variant="ghost">Cancel</Button>
           </DialogClose>
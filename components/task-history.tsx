@@ -41,6 +41,8 @@ export function TaskHistory({ history }: TaskHistoryProps) {
         return <CheckCircle2 className="h-4 w-4 text-green-600" />
       case "uncompleted":
         return <AlertCircle className="h-4 w-4 text-yellow-600" />
+      case "rolled over":
+        return <Calendar className="h-4 w-4 text-orange-600" />
       default:
         return <Clock className="h-4 w-4 text-gray-600" />
     }
@@ -85,6 +87,15 @@ export function TaskHistory({ history }: TaskHistoryProps) {
       return <span>Task marked as incomplete</span>
     }
 
+    if (item.action.toLowerCase() === "rolled over" && item.oldValue && item.newValue) {
+      return (
+        <span>
+          Moved from {new Date(item.oldValue).toLocaleDateString()} to{" "}
+          {new Date(item.newValue).toLocaleDateString()}
+        </span>
+      )
+    }
+
     if (item.oldValue !== undefined && item.newValue !== undefined) {
       return (
         <div className="space-y-1 mt-1">
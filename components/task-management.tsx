@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback } from "react"
 import { motion } from "framer-motion"
 import { Plus, Search, Filter } from "lucide-react"
 import { Button } from "@/components/ui/button"
@@ -9,15 +9,36 @@ import { TaskCard } from "@/components/task-card"
 import { TaskForm } from "@/components/task-form"
 import { TaskDetails } from "@/components/task-details"
 import { TaskView } from "@/components/task-view"
-import { TaskWithRelations, LabelWithRelations, ListWithRelations } from "@/lib/types/api"
+import { CalendarView } from "@/components/calendar-view"
+import { MatrixView } from "@/components/matrix-view"
+import { TimelineView } from "@/components/timeline-view"
+import { BoardTaskChanges } from "@/components/task-board"
+import { TimerProvider } from "@/components/task-timer"
+import { ConfirmationDialog } from "@/components/confirmation-dialog"
+import { TaskWithRelations, LabelWithRelations, ListWithRelations, VirtualOccurrence, TaskSummary, SmartListWithCount } from "@/lib/types/api"
+import { ReminderSpec } from "@/lib/reminder-utils"
+import { MatrixTaskChanges } from "@/lib/matrix-utils"
+import { TimelineTaskChanges } from "@/lib/timeline-utils"
 import toast from "react-hot-toast"
 
+// Form reminders as the API takes them: local datetimes become ISO strings,
+// relative reminders are sent as they are and empty rows are dropped
+function toReminderSpecs(reminders: ReminderSpec[] = []): ReminderSpec[] {
+  return reminders
+    .filter(reminder => reminder)
+    .map(reminder => typeof reminder === "string" ? new Date(reminder).toISOString() : reminder)
+}
+
 interface TaskManagementProps {
-  activeView: "today" | "next7days" | "upcoming" | "all"
+  activeView: "today" | "next7days" | "upcoming" | "all" | "calendar" | "matrix" | "timeline" | "overdue" | "nodate"
   activeListId: string | null
   activeLabelId: string | null
   isCreateFormOpen: boolean
   setIsCreateFormOpen: (open: boolean) => void
+  activeSmartList?: SmartListWithCount | null
+  onSmartListSaved?: (smartList: SmartListWithCount) => void
+  // Called whenever the tasks change, e.g. to refresh smart list counts
+  onTasksChange?: () => void
 }
 
 export function TaskManagement({
@@ -26,6 +47,9 @@ export function TaskManagement({
   activeLabelId,
   isCreateFormOpen,
   setIsCreateFormOpen,
+  activeSmartList,
+  onSmartListSaved,
+  onTasksChange,
 }: TaskManagementProps) {
   const [tasks, setTasks] = useState<TaskWithRelations[]>([])
   const [labels, setLabels] = useState<LabelWithRelations[]>([])
@@ -34,6 +58,15 @@ export function TaskManagement({
   const [searchQuery, setSearchQuery] = useState("")
   const [filterPriority, setFilterPriority] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const [blockedCompletion, setBlockedCompletion] = useState<{ taskId: string; blockers: TaskSummary[] } | null>(null)
+
+  const fetchTasks = useCallback(async () => {
+    const tasksResponse = await fetch("/api/tasks?limit=1000")
+    if (tasksResponse.ok) {
+      const tasksData = await tasksResponse.json()
+      setTasks(tasksData.data || [])
+    }
+  }, [])
 
   // Fetch tasks, labels, and lists from API
   useEffect(() => {
@@ -42,11 +75,7 @@ export function TaskManagement({
         setIsLoading(true)
         
         // Fetch tasks
-        const tasksResponse = await fetch("/api/tasks?limit=1000")
-        if (tasksResponse.ok) {
-          const tasksData = await tasksResponse.json()
-          setTasks(tasksData.data || [])
-        }
+        await fetchTasks()
 
         // Fetch labels
         const labelsResponse = await fetch("/api/labels")
@@ -69,7 +98,11 @@ export function TaskManagement({
     }
 
     fetchData()
-  }, [])
+  }, [fetchTasks])
+
+  useEffect(() => {
+    onTasksChange?.()
+  }, [tasks, onTasksChange])
 
   // Filter tasks
   const filteredTasks = tasks.filter(task => {
@@ -79,6 +112,34 @@ export function TaskManagement({
     return matchesSearch && matchesPriority
   })
 
+  // Upload the files picked in the task form, reporting any that are rejected
+  const uploadAttachments = async (taskId: string, files: File[] = []) => {
+    const attachments: TaskWithRelations["attachments"] = []
+    for (const file of files) {
+      try {
+        const formData = new FormData()
+        formData.append("file", file)
+        formData.append("taskId", taskId)
+
+        const response = await fetch("/api/attachments", {
+          method: "POST",
+          body: formData,
+        })
+
+        const result = await response.json()
+        if (!response.ok) {
+          toast.error(`${file.name}: ${result.details?.[0]?.message || result.error || "Upload failed"}`)
+          continue
+        }
+        attachments.push(result)
+      } catch (error) {
+        console.error("Error uploading attachment:", error)
+        toast.error(`Failed to upload ${file.name}`)
+      }
+    }
+    return attachments
+  }
+
   const handleCreateTask = async (data: any) => {
     try {
       // Find the default list (Inbox) dynamically
@@ -91,12 +152,10 @@ export function TaskManagement({
         name: data.name,
         description: data.description || undefined,
         estimates: data.estimates ? parseInt(data.estimates) : undefined,
-        actualTime: data.actualTime ? parseInt(data.actualTime) : undefined,
         priority: parseInt(data.priority),
         isRecurring: data.isRecurring || false,
         recurringPattern: data.recurringPattern || undefined,
         listId: defaultList.id, // Dynamically use default list ID
-        userId: "cmki1ekso0000i4ezi4fhaecm", // TODO: Replace with actual user ID
       }
 
       // Only add date fields if they have values
@@ -121,6 +180,11 @@ export function TaskManagement({
         }))
       }
 
+      // Add reminders if set
+      if (data.reminders && data.reminders.length > 0) {
+        taskData.reminders = toReminderSpecs(data.reminders)
+      }
+
       const response = await fetch("/api/tasks", {
         method: "POST",
         headers: {
@@ -134,7 +198,8 @@ export function TaskManagement({
       }
 
       const newTask = await response.json()
-      setTasks(prev => [...prev, newTask])
+      const attachments = await uploadAttachments(newTask.id, data.files)
+      setTasks(prev => [...prev, { ...newTask, attachments: [...newTask.attachments, ...attachments] }])
       toast.success("Task created successfully!")
     } catch (error) {
       console.error("Error creating task:", error)
@@ -142,7 +207,7 @@ export function TaskManagement({
     }
   }
 
-  const handleCompleteTask = async (taskId: string) => {
+  const handleCompleteTask = async (taskId: string, force = false) => {
     try {
       const response = await fetch(`/api/tasks/${taskId}`, {
         method: "PUT",
@@ -151,14 +216,36 @@ export function TaskManagement({
         },
         body: JSON.stringify({
           completedAt: new Date().toISOString(),
+          force: force || undefined,
         }),
       })
 
+      // Tasks with open blockers need confirmation before they're completed
+      if (response.status === 400) {
+        const { blockers } = await response.json()
+        if (blockers) {
+          setBlockedCompletion({ taskId, blockers })
+          return
+        }
+      }
+
       if (response.ok) {
-        setTasks(prev => prev.map(task => 
-          task.id === taskId ? { ...task, completedAt: new Date() } : task
-        ))
-        toast.success("Task completed!")
+        const { nextInstance } = await response.json()
+        setTasks(prev => [
+          ...prev.map(task =>
+            task.id === taskId ? { ...task, completedAt: new Date() } : task
+          ),
+          // Recurring tasks come back with their next occurrence
+          ...(nextInstance && !prev.some(task => task.id === nextInstance.id) ? [nextInstance] : []),
+        ])
+        toast.success(nextInstance
+          ? `Task completed! Next on ${new Date(nextInstance.date).toLocaleDateString()}`
+          : "Task completed!")
+      
+        // Tasks this one was blocking may be unblocked now
+        if (tasks.find(task => task.id === taskId)?.blocks?.length) {
+          fetchTasks()
+        }
       }
     } catch (error) {
       console.error("Error completing task:", error)
@@ -166,6 +253,189 @@ export function TaskManagement({
     }
   }
 
+  const handleUpdateTask = async (taskId: string, data: any) => {
+    try {
+      const taskData: any = {
+        name: data.name,
+        description: data.description || undefined,
+        estimates: data.estimates ? parseInt(data.estimates) : undefined,
+        priority: parseInt(data.priority),
+        isRecurring: data.isRecurring || false,
+        recurringPattern: data.isRecurring ? data.recurringPattern : undefined,
+        labels: data.labels,
+        subtasks: data.subtasks?.map((subtask: any) => ({
+          id: subtask.id,
+          name: subtask.name,
+          completedAt: subtask.completedAt ? new Date(subtask.completedAt).toISOString() : undefined,
+        })),
+        // Left out when unchanged, so delivered reminders aren't sent again
+        reminders: data.reminders ? toReminderSpecs(data.reminders) : undefined,
+        scope: data.scope,
+      }
+
+      if (data.date && data.date.trim()) {
+        taskData.date = new Date(data.date).toISOString()
+      }
+
+      if (data.deadline && data.deadline.trim()) {
+        taskData.deadline = new Date(data.deadline).toISOString()
+      }
+
+      const response = await fetch(`/api/tasks/${taskId}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(taskData),
+      })
+
+      if (!response.ok) {
+        throw new Error("Failed to update task")
+      }
+
+      const updatedTask = await response.json()
+      const attachments = await uploadAttachments(taskId, data.files)
+      setTasks(prev => prev.map(task => task.id === taskId
+        ? { ...updatedTask, attachments: [...updatedTask.attachments, ...attachments] }
+        : task))
+      setSelectedTask(null)
+      toast.success("Task updated successfully!")
+    } catch (error) {
+      console.error("Error updating task:", error)
+      toast.error("Failed to update task")
+    }
+  }
+
+  const handleSkipOccurrence = async (taskId: string) => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/occurrences`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ action: "skip" }),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        toast.error(result.error || "Failed to skip occurrence")
+        return
+      }
+
+      setTasks(prev => prev.map(task => task.id === taskId ? result : task))
+      setSelectedTask(null)
+      toast.success(`Skipped. Next on ${new Date(result.date).toLocaleDateString()}`)
+    } catch (error) {
+      console.error("Error skipping occurrence:", error)
+      toast.error("Failed to skip occurrence")
+    }
+  }
+
+  const handleRescheduleTask = async (task: TaskWithRelations, date: Date) => {
+    try {
+      const response = await fetch(`/api/tasks/${task.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        // Moving one occurrence on the calendar shouldn't shift the rest of the series
+        body: JSON.stringify({
+          date: date.toISOString(),
+          scope: task.isRecurring ? "this" : undefined,
+        }),
+      })
+
+      if (!response.ok) {
+        throw new Error("Failed to reschedule task")
+      }
+
+      const updatedTask = await response.json()
+      setTasks(prev => prev.map(t => t.id === task.id ? updatedTask : t))
+      toast.success(`Moved to ${date.toLocaleDateString()}`)
+    } catch (error) {
+      console.error("Error rescheduling task:", error)
+      toast.error("Failed to reschedule task")
+    }
+  }
+
+  const handleRescheduleOccurrence = async (occurrence: VirtualOccurrence, date: Date) => {
+    try {
+      const response = await fetch(`/api/tasks/${occurrence.taskId}/occurrences`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          action: "reschedule",
+          originalDate: occurrence.originalDate,
+          newDate: date.toISOString(),
+        }),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        toast.error(result.error || "Failed to reschedule occurrence")
+        return
+      }
+
+      toast.success(`Occurrence moved to ${date.toLocaleDateString()}`)
+    } catch (error) {
+      console.error("Error rescheduling occurrence:", error)
+      toast.error("Failed to reschedule occurrence")
+    }
+  }
+
+  // Quick edits from the matrix and timeline views
+  const handleChangeTask = async (task: TaskWithRelations, changes: MatrixTaskChanges | TimelineTaskChanges) => {
+    try {
+      const response = await fetch(`/api/tasks/${task.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        // Like rescheduling on the calendar, only this occurrence of a series changes
+        body: JSON.stringify({
+          ...changes,
+          scope: task.isRecurring ? "this" : undefined,
+        }),
+      })
+
+      if (!response.ok) {
+        throw new Error("Failed to update task")
+      }
+
+      const updatedTask = await response.json()
+      setTasks(prev => prev.map(t => t.id === task.id ? updatedTask : t))
+    } catch (error) {
+      console.error("Error updating task:", error)
+      toast.error("Failed to update task")
+    }
+  }
+
+  const handleRollOver = async () => {
+    try {
+      const response = await fetch("/api/tasks/rollover", {
+        method: "POST",
+      })
+
+      if (!response.ok) {
+        throw new Error("Failed to roll over tasks")
+      }
+
+      const { count } = await response.json()
+      if (count === 0) {
+        toast.success("Nothing left over from yesterday")
+        return
+      }
+
+      await fetchTasks()
+      toast.success(`Moved ${count} task${count !== 1 ? "s" : ""} to today`)
+    } catch (error) {
+      console.error("Error rolling over tasks:", error)
+      toast.error("Failed to roll over tasks")
+    }
+  }
+
   const handleDeleteTask = async (taskId: string) => {
     try {
       const response = await fetch(`/api/tasks/${taskId}`, {
@@ -221,21 +491,93 @@ export function TaskManagement({
     }
   }
 
+  const handleMoveTask = async (movedTask: TaskWithRelations, changes: BoardTaskChanges, columnTasks: TaskWithRelations[]) => {
+    try {
+      if (Object.keys(changes).length > 0) {
+        const response = await fetch(`/api/tasks/${movedTask.id}`, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(changes),
+        })
+
+        if (!response.ok) {
+          throw new Error("Failed to move task")
+        }
+
+        const updatedTask = await response.json()
+        setTasks(prev => prev.map(task => task.id === movedTask.id ? updatedTask : task))
+        columnTasks = columnTasks.map(task => task.id === movedTask.id ? updatedTask : task)
+      }
+
+      // Persist the card order within its new column
+      await handleUpdateTaskOrder(columnTasks)
+    } catch (error) {
+      console.error("Error moving task:", error)
+      toast.error("Failed to move task")
+    }
+  }
+
+  // Timers update a task's actualTime on the server; mirror it locally
+  const handleActualTimeChange = (taskId: string, actualTime: number | null) => {
+    setTasks(prev => prev.map(task => task.id === taskId ? { ...task, actualTime } : task))
+    setSelectedTask(prev => prev?.id === taskId ? { ...prev, actualTime } : prev)
+  }
+
+  const handleAttachmentsChange = (taskId: string, attachments: TaskWithRelations["attachments"]) => {
+    setTasks(prev => prev.map(task => task.id === taskId ? { ...task, attachments } : task))
+    setSelectedTask(prev => prev?.id === taskId ? { ...prev, attachments } : prev)
+  }
+
   return (
-    <>
-      {/* Task View with Filters */}
-      <TaskView
-        tasks={tasks}
-        activeView={activeView}
-        activeListId={activeListId}
-        activeLabelId={activeLabelId}
-        onComplete={handleCompleteTask}
-        onEdit={handleEditTask}
-        onDelete={handleDeleteTask}
-        availableLabels={labels}
-        availableLists={lists}
-        onUpdateTaskOrder={handleUpdateTaskOrder}
-      />
+    <TimerProvider onActualTimeChange={handleActualTimeChange}>
+      {activeView === "calendar" ? (
+        <CalendarView
+          tasks={tasks}
+          activeListId={activeListId}
+          activeLabelId={activeLabelId}
+          onEdit={handleEditTask}
+          onRescheduleTask={handleRescheduleTask}
+          onRescheduleOccurrence={handleRescheduleOccurrence}
+        />
+      ) : activeView === "matrix" ? (
+        <MatrixView
+          tasks={tasks}
+          activeListId={activeListId}
+          activeLabelId={activeLabelId}
+          availableLabels={labels}
+          onComplete={handleCompleteTask}
+          onEdit={handleEditTask}
+          onMoveTask={handleChangeTask}
+        />
+      ) : activeView === "timeline" ? (
+        <TimelineView
+          tasks={tasks}
+          activeListId={activeListId}
+          activeLabelId={activeLabelId}
+          onEdit={handleEditTask}
+          onChangeTask={handleChangeTask}
+        />
+      ) : (
+        /* Task View with Filters */
+        <TaskView
+          tasks={tasks}
+          activeView={activeView}
+          activeListId={activeListId}
+          activeLabelId={activeLabelId}
+          onComplete={handleCompleteTask}
+          onEdit={handleEditTask}
+          onDelete={handleDeleteTask}
+          availableLabels={labels}
+          availableLists={lists}
+          onUpdateTaskOrder={handleUpdateTaskOrder}
+          onMoveTask={handleMoveTask}
+          activeSmartList={activeSmartList}
+          onSmartListSaved={onSmartListSaved}
+          onRollOver={handleRollOver}
+        />
+      )}
 
       {/* Create Task Form */}
       <TaskForm
@@ -253,9 +595,30 @@ export function TaskManagement({
           onOpenChange={() => setSelectedTask(null)}
           onComplete={handleCompleteTask}
           onDelete={handleDeleteTask}
+          onUpdate={handleUpdateTask}
+          onSkipOccurrence={handleSkipOccurrence}
+          onActualTimeChange={handleActualTimeChange}
+          onDependenciesChange={fetchTasks}
+          onAttachmentsChange={handleAttachmentsChange}
           availableLabels={labels}
+          availableTasks={tasks}
         />
       )}
-    </>
+
+      {/* Completing a blocked task */}
+      <ConfirmationDialog
+        isOpen={!!blockedCompletion}
+        onOpenChange={(open) => !open && setBlockedCompletion(null)}
+        title="Task is blocked"
+        description={`This task is still blocked by ${blockedCompletion?.blockers.map(blocker => `"${blocker.name}"`).join(", ")}. Complete it anyway?`}
+        confirmText="Complete Anyway"
+        onConfirm={() => {
+          if (blockedCompletion) {
+            handleCompleteTask(blockedCompletion.taskId, true)
+          }
+          setBlockedCompletion(null)
+        }}
+      />
+    </TimerProvider>
   )
 }
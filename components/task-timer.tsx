@@ -0,0 +1,157 @@
+"use client"
+
+import { createContext, useContext, useState, useEffect } from "react"
+import { Play, Square } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { TimeEntryWithTask } from "@/lib/types/api"
+import toast from "react-hot-toast"
+
+interface TimerContextValue {
+  runningEntry: TimeEntryWithTask | null
+  elapsed: number
+  startTimer: (taskId: string) => Promise<void>
+  stopTimer: () => Promise<void>
+}
+
+const TimerContext = createContext<TimerContextValue | null>(null)
+
+interface TimerProviderProps {
+  children: React.ReactNode
+  // Called with a task's recalculated actualTime whenever one of its timers stops
+  onActualTimeChange?: (taskId: string, actualTime: number | null) => void
+}
+
+// Format seconds as h:mm:ss (or m:ss under an hour)
+export function formatDuration(seconds: number) {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = seconds % 60
+  const pad = (value: number) => value.toString().padStart(2, "0")
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${minutes}:${pad(secs)}`
+}
+
+export function TimerProvider({ children, onActualTimeChange }: TimerProviderProps) {
+  const [runningEntry, setRunningEntry] = useState<TimeEntryWithTask | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  // Pick up a timer that was left running before the page was reloaded
+  useEffect(() => {
+    const fetchRunningEntry = async () => {
+      try {
+        const response = await fetch("/api/time-entries?running=true")
+        if (response.ok) {
+          const { data } = await response.json()
+          setRunningEntry(data?.[0] ?? null)
+        }
+      } catch (error) {
+        console.error("Error fetching running timer:", error)
+      }
+    }
+
+    fetchRunningEntry()
+  }, [])
+
+  useEffect(() => {
+    if (!runningEntry) return
+
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [runningEntry])
+
+  const startTimer = async (taskId: string) => {
+    try {
+      const response = await fetch("/api/time-entries", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ taskId }),
+      })
+
+      if (!response.ok) {
+        throw new Error("Failed to start timer")
+      }
+
+      const { stopped, ...entry } = await response.json()
+      if (stopped) {
+        onActualTimeChange?.(stopped.taskId, stopped.task.actualTime)
+      }
+      setRunningEntry(entry)
+      setNow(Date.now())
+      toast.success(`Timer started for "${entry.task.name}"`)
+    } catch (error) {
+      console.error("Error starting timer:", error)
+      toast.error("Failed to start timer")
+    }
+  }
+
+  const stopTimer = async () => {
+    if (!runningEntry) return
+
+    try {
+      const response = await fetch(`/api/time-entries/${runningEntry.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ stop: true }),
+      })
+
+      if (!response.ok) {
+        throw new Error("Failed to stop timer")
+      }
+
+      const entry = await response.json()
+      onActualTimeChange?.(entry.taskId, entry.task.actualTime)
+      setRunningEntry(null)
+      toast.success(`Logged ${formatDuration(entry.duration ?? 0)} on "${entry.task.name}"`)
+    } catch (error) {
+      console.error("Error stopping timer:", error)
+      toast.error("Failed to stop timer")
+    }
+  }
+
+  const elapsed = runningEntry
+    ? Math.max(0, Math.floor((now - new Date(runningEntry.startedAt).getTime()) / 1000))
+    : 0
+
+  return (
+    <TimerContext.Provider value={{ runningEntry, elapsed, startTimer, stopTimer }}>
+      {children}
+    </TimerContext.Provider>
+  )
+}
+
+// Null outside a TimerProvider, where timer controls are hidden
+export function useTimer() {
+  return useContext(TimerContext)
+}
+
+interface TaskTimerProps {
+  taskId: string
+  showLabel?: boolean
+}
+
+export function TaskTimer({ taskId, showLabel = false }: TaskTimerProps) {
+  const timer = useTimer()
+  if (!timer) return null
+
+  const isRunning = timer.runningEntry?.taskId === taskId
+
+  return (
+    <Button
+      variant={showLabel ? "outline" : "ghost"}
+      size={showLabel ? "sm" : "icon"}
+      onClick={() => (isRunning ? timer.stopTimer() : timer.startTimer(taskId))}
+      className={`${showLabel ? "gap-2" : "h-8 w-auto min-w-8 px-2"} ${
+        isRunning ? "text-red-600 hover:text-red-700 hover:bg-red-50" : "text-muted-foreground hover:text-foreground"
+      }`}
+      title={isRunning ? "Stop timer" : "Start timer"}
+      aria-label={isRunning ? "Stop timer" : "Start timer"}
+    >
+      {isRunning ? <Square className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      {isRunning && <span className="text-xs tabular-nums">{formatDuration(timer.elapsed)}</span>}
+      {showLabel && !isRunning && <span>Start Timer</span>}
+    </Button>
+  )
+}
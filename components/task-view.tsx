@@ -1,8 +1,8 @@
 "use client"
 
-import { useState, useMemo } from "react"
+import { useState, useMemo, useEffect } from "react"
 import { motion, AnimatePresence } from "framer-motion"
-import { Search, Filter, ChevronDown, Calendar, Clock, CheckCircle, AlertCircle } from "lucide-react"
+import { Search, Filter, ChevronDown, Calendar, Clock, CheckCircle, AlertCircle, List, Kanban, Download, Bookmark, CalendarOff, CalendarArrowDown } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
@@ -10,7 +10,21 @@ import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
 import { TaskCard } from "@/components/task-card"
-import { TaskWithRelations } from "@/lib/types/api"
+import { TaskBoard, BoardGroupBy, BoardTaskChanges } from "@/components/task-board"
+import { CsvExportDialog } from "@/components/csv-export-dialog"
+import { SmartListDialog } from "@/components/smart-list-dialog"
+import { SmartListWithCount, TaskWithRelations } from "@/lib/types/api"
+import {
+  DATE_WINDOW_PRESETS,
+  DateWindow,
+  DEFAULT_SMART_LIST_FILTERS,
+  findDateWindowPreset,
+  getDateWindowQuery,
+  needsServerQuery,
+  SmartListFilters,
+  TaskSort,
+} from "@/lib/smart-list-utils"
+import toast from "react-hot-toast"
 import {
   DndContext,
   closestCenter,
@@ -27,9 +41,9 @@ import {
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable"
 
-type ViewType = "today" | "next7days" | "upcoming" | "all"
+type ViewType = "today" | "next7days" | "upcoming" | "all" | "overdue" | "nodate"
 
-type SortBy = "date" | "priority" | "name" | "createdAt"
+type Layout = "list" | "board"
 
 interface TaskViewProps {
   tasks: TaskWithRelations[]
@@ -42,8 +56,15 @@ interface TaskViewProps {
   availableLabels: any[]
   availableLists: any[]
   onUpdateTaskOrder?: (tasks: TaskWithRelations[]) => void
+  onMoveTask?: (task: TaskWithRelations, changes: BoardTaskChanges, columnTasks: TaskWithRelations[]) => void
+  activeSmartList?: SmartListWithCount | null
+  onSmartListSaved?: (smartList: SmartListWithCount) => void
+  onRollOver?: () => void
 }
 
+const ANY_DATE = "any"
+const CUSTOM_DATE = "custom"
+
 export function TaskView({
   tasks,
   activeView,
@@ -55,13 +76,104 @@ export function TaskView({
   availableLabels,
   availableLists,
   onUpdateTaskOrder,
+  onMoveTask,
+  activeSmartList = null,
+  onSmartListSaved,
+  onRollOver,
 }: TaskViewProps) {
   const [searchQuery, setSearchQuery] = useState("")
   const [filterPriority, setFilterPriority] = useState<string | null>(null)
   const [showCompleted, setShowCompleted] = useState(false)
-  const [sortBy, setSortBy] = useState<SortBy>("date")
+  const [sortBy, setSortBy] = useState<TaskSort>("date")
   const [filterLabel, setFilterLabel] = useState<string | null>(null)
   const [filterList, setFilterList] = useState<string | null>(null)
+  const [dateWindow, setDateWindow] = useState<DateWindow | null>(null)
+  const [serverMatches, setServerMatches] = useState<Set<string> | null>(null)
+  const [queryError, setQueryError] = useState<string | null>(null)
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false)
+  const [layout, setLayout] = useState<Layout>("list")
+  const [groupBy, setGroupBy] = useState<BoardGroupBy>("list")
+  const [isExportOpen, setIsExportOpen] = useState(false)
+
+  // Opening a smart list loads its filters; leaving it starts from scratch
+  const smartListKey = activeSmartList ? `${activeSmartList.id}:${JSON.stringify(activeSmartList.filters)}` : null
+  useEffect(() => {
+    const filters = activeSmartList?.filters ?? DEFAULT_SMART_LIST_FILTERS
+    setSearchQuery(filters.query)
+    setFilterPriority(filters.priority !== null ? filters.priority.toString() : null)
+    setFilterList(filters.listId)
+    setFilterLabel(filters.labelId)
+    setDateWindow(filters.dateWindow)
+    setSortBy(filters.sortBy)
+    setShowCompleted(filters.showCompleted)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [smartListKey])
+
+  const currentFilters: SmartListFilters = {
+    query: searchQuery.trim(),
+    priority: filterPriority !== null ? Number(filterPriority) : null,
+    listId: filterList,
+    labelId: filterLabel,
+    dateWindow,
+    sortBy,
+    showCompleted,
+  }
+  const hasUnsavedFilters = !!activeSmartList &&
+    JSON.stringify(currentFilters) !== JSON.stringify({ ...DEFAULT_SMART_LIST_FILTERS, ...activeSmartList.filters })
+
+  // Query filters ("label:x due<friday") and date windows are resolved by
+  // the tasks API; plain search words are matched here
+  const isServerSearch = needsServerQuery(searchQuery)
+  const serverQuery = [isServerSearch ? searchQuery.trim() : "", getDateWindowQuery(dateWindow)].filter(Boolean).join(" ")
+
+  useEffect(() => {
+    if (!serverQuery) {
+      setServerMatches(null)
+      setQueryError(null)
+      return
+    }
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/tasks?limit=1000&q=${encodeURIComponent(serverQuery)}`)
+        const data = await response.json()
+        if (!response.ok) {
+          setQueryError(data.details?.[0]?.message ?? data.error)
+          setServerMatches(new Set())
+          return
+        }
+        setQueryError(null)
+        setServerMatches(new Set(data.data.map((task: TaskWithRelations) => task.id)))
+      } catch (error) {
+        console.error("Error filtering tasks:", error)
+      }
+    }, 300)
+
+    return () => clearTimeout(timeoutId)
+  }, [serverQuery, tasks])
+
+  const handleUpdateSmartList = async () => {
+    if (!activeSmartList) return
+
+    try {
+      const response = await fetch(`/api/smart-lists/${activeSmartList.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ filters: currentFilters }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error)
+      }
+      onSmartListSaved?.(data)
+      toast.success(`Updated "${data.name}"`)
+    } catch (error) {
+      console.error("Error updating smart list:", error)
+      toast.error(error instanceof Error && error.message ? error.message : "Failed to update smart list")
+    }
+  }
 
   // Drag and drop sensors
   const sensors = useSensors(
@@ -106,7 +218,7 @@ export function TaskView({
       }
 
       // Filter by search query
-      const matchesSearch = !searchQuery || 
+      const matchesSearch = !searchQuery || isServerSearch ||
         task.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
         (task.description && task.description.toLowerCase().includes(searchQuery.toLowerCase()))
 
@@ -125,6 +237,9 @@ export function TaskView({
       // Filter by active label (from sidebar)
       const matchesActiveLabel = !activeLabelId || task.labels.some(label => label.id === activeLabelId)
 
+      // Filter by query filters and date window, once the API has answered
+      const matchesServer = !serverQuery || !serverMatches || serverMatches.has(task.id)
+
       // Filter by date based on active view
       let matchesDate = true
       
@@ -145,11 +260,20 @@ export function TaskView({
         const taskDate = new Date(task.date)
         taskDate.setHours(0, 0, 0, 0)
         matchesDate = taskDate >= today
+      } else if (activeView === "overdue") {
+        // Scheduled for an earlier day, or past the deadline
+        if (task.completedAt) return false
+        const taskDate = task.date ? new Date(task.date) : null
+        taskDate?.setHours(0, 0, 0, 0)
+        matchesDate = (!!taskDate && taskDate < today) ||
+          (!!task.deadline && new Date(task.deadline) < new Date())
+      } else if (activeView === "nodate") {
+        matchesDate = !task.date
       }
       // For "all" view, we don't filter by date
 
       return matchesSearch && matchesPriority && matchesList && matchesLabel && 
-             matchesActiveList && matchesActiveLabel && matchesDate
+             matchesActiveList && matchesActiveLabel && matchesDate && matchesServer
     })
   }, [
     tasks,
@@ -157,6 +281,9 @@ export function TaskView({
     activeListId,
     activeLabelId,
     searchQuery,
+    isServerSearch,
+    serverQuery,
+    serverMatches,
     filterPriority,
     filterLabel,
     filterList,
@@ -202,12 +329,17 @@ export function TaskView({
         return { title: "Upcoming", icon: Clock, color: "text-purple-600" }
       case "all":
         return { title: "All Tasks", icon: CheckCircle, color: "text-gray-600" }
+      case "overdue":
+        return { title: "Overdue", icon: AlertCircle, color: "text-red-600" }
+      case "nodate":
+        return { title: "No Date", icon: CalendarOff, color: "text-slate-600" }
       default:
         return { title: "All Tasks", icon: CheckCircle, color: "text-gray-600" }
     }
   }
 
   const viewInfo = getViewInfo() || { title: "All Tasks", icon: CheckCircle, color: "text-gray-600" }
+  const title = activeSmartList ? activeSmartList.name : viewInfo.title
 
   return (
     <div className="space-y-6 p-6">
@@ -218,18 +350,41 @@ export function TaskView({
         className="flex items-center justify-between"
       >
         <div className="flex items-center gap-3">
-          {(() => {
+          {activeSmartList ? (
+            <span className="text-3xl leading-none">{activeSmartList.emoji || "🔍"}</span>
+          ) : (() => {
             const Icon = viewInfo.icon
             return <Icon className={`h-8 w-8 ${viewInfo.color}`} />
           })()}
           <div>
-            <h1 className="text-2xl font-bold text-foreground">{viewInfo.title}</h1>
+            <h1 className="text-2xl font-bold text-foreground">{title}</h1>
             <p className="text-sm text-muted-foreground">
               {filteredTasks.length} task{filteredTasks.length !== 1 ? "s" : ""}
             </p>
           </div>
         </div>
         <div className="flex items-center gap-2">
+          {onRollOver && !activeSmartList && (activeView === "today" || activeView === "overdue") && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onRollOver}
+              className="flex items-center gap-2"
+              title="Move yesterday's unfinished tasks to today"
+            >
+              <CalendarArrowDown className="h-4 w-4" />
+              <span>Roll Over to Today</span>
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setLayout(layout === "list" ? "board" : "list")}
+            className="flex items-center gap-2"
+          >
+            {layout === "list" ? <Kanban className="h-4 w-4" /> : <List className="h-4 w-4" />}
+            <span>{layout === "list" ? "Board" : "List"}</span>
+          </Button>
           <Button
             variant="ghost"
             size="sm"
@@ -239,9 +394,50 @@ export function TaskView({
             <CheckCircle className="h-4 w-4" />
             <span>{showCompleted ? "Hide Completed" : "Show Completed"}</span>
           </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsExportOpen(true)}
+            className="flex items-center gap-2"
+          >
+            <Download className="h-4 w-4" />
+            <span>Export</span>
+          </Button>
+          {activeSmartList ? (
+            hasUnsavedFilters && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleUpdateSmartList}
+                className="flex items-center gap-2"
+              >
+                <Bookmark className="h-4 w-4" />
+                <span>Update Smart List</span>
+              </Button>
+            )
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsSaveDialogOpen(true)}
+              className="flex items-center gap-2"
+            >
+              <Bookmark className="h-4 w-4" />
+              <span>Save Filters</span>
+            </Button>
+          )}
         </div>
       </motion.div>
 
+      <CsvExportDialog isOpen={isExportOpen} onOpenChange={setIsExportOpen} tasks={sortedTasks} />
+
+      <SmartListDialog
+        isOpen={isSaveDialogOpen}
+        onOpenChange={setIsSaveDialogOpen}
+        filters={currentFilters}
+        onSaved={(smartList) => onSmartListSaved?.(smartList)}
+      />
+
       {/* Filters and Search */}
       <motion.div 
         initial={{ opacity: 0, y: 10 }}
@@ -253,11 +449,18 @@ export function TaskView({
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
             type="text"
-            placeholder="Search tasks..."
+            placeholder="Search tasks or filter, e.g. is:overdue"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="pl-9"
+            aria-invalid={!!queryError}
           />
+          {queryError && (
+            <p className="absolute left-0 top-full mt-1 flex items-center gap-1 text-xs text-destructive">
+              <AlertCircle className="h-3 w-3" />
+              {queryError}
+            </p>
+          )}
         </div>
         
         <Select value={filterPriority || "all"} onValueChange={(value) => setFilterPriority(value === "all" ? null : value)}>
@@ -301,73 +504,124 @@ export function TaskView({
           </SelectContent>
         </Select>
 
-        <Select value={sortBy} onValueChange={(value) => setSortBy(value as SortBy)}>
-          <SelectTrigger className="w-[140px]" aria-label="Sort by">
-            <SelectValue placeholder="Sort by" />
+        <Select
+          value={dateWindow ? findDateWindowPreset(dateWindow)?.id ?? CUSTOM_DATE : ANY_DATE}
+          onValueChange={(value) => {
+            if (value === CUSTOM_DATE) return
+            setDateWindow(DATE_WINDOW_PRESETS.find(preset => preset.id === value)?.window ?? null)
+          }}
+        >
+          <SelectTrigger className="w-[160px]" aria-label="Date filter">
+            <SelectValue placeholder="Dates" />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="date">Date</SelectItem>
-            <SelectItem value="priority">Priority</SelectItem>
-            <SelectItem value="name">Name</SelectItem>
-            <SelectItem value="createdAt">Created</SelectItem>
+            <SelectItem value={ANY_DATE}>Any Date</SelectItem>
+            {DATE_WINDOW_PRESETS.map((preset) => (
+              <SelectItem key={preset.id} value={preset.id}>
+                {preset.label}
+              </SelectItem>
+            ))}
+            {dateWindow && !findDateWindowPreset(dateWindow) && (
+              <SelectItem value={CUSTOM_DATE}>Custom</SelectItem>
+            )}
           </SelectContent>
         </Select>
+
+        {layout === "list" ? (
+          <Select value={sortBy} onValueChange={(value) => setSortBy(value as TaskSort)}>
+            <SelectTrigger className="w-[140px]" aria-label="Sort by">
+              <SelectValue placeholder="Sort by" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="date">Date</SelectItem>
+              <SelectItem value="priority">Priority</SelectItem>
+              <SelectItem value="name">Name</SelectItem>
+              <SelectItem value="createdAt">Created</SelectItem>
+            </SelectContent>
+          </Select>
+        ) : (
+          <Select value={groupBy} onValueChange={(value) => setGroupBy(value as BoardGroupBy)}>
+            <SelectTrigger className="w-[140px]" aria-label="Group by">
+              <SelectValue placeholder="Group by" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="list">By List</SelectItem>
+              <SelectItem value="priority">By Priority</SelectItem>
+              <SelectItem value="label">By Label</SelectItem>
+              <SelectItem value="status">By Status</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
       </motion.div>
 
-      {/* Tasks List */}
-      <DndContext
-        sensors={sensors}
-        collisionDetection={closestCenter}
-        onDragEnd={handleDragEnd}
-      >
-        <SortableContext
-          items={sortedTasks.map((task) => task.id)}
-          strategy={verticalListSortingStrategy}
+      {layout === "board" ? (
+        <TaskBoard
+          tasks={filteredTasks}
+          groupBy={groupBy}
+          availableLists={availableLists}
+          availableLabels={availableLabels}
+          onComplete={onComplete}
+          onEdit={onEdit}
+          onDelete={onDelete}
+          onMoveTask={(task, changes, columnTasks) => onMoveTask?.(task, changes, columnTasks)}
+        />
+      ) : (
+        /* Tasks List */
+        <DndContext
+          sensors={sensors}
+          collisionDetection={closestCenter}
+          onDragEnd={handleDragEnd}
         >
-          <div className="grid gap-4">
-            {sortedTasks.length === 0 ? (
-              <motion.div
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                className="text-center py-12"
-              >
-                {(() => {
-                  const Icon = viewInfo.icon
-                  return <Icon className={`h-16 w-16 ${viewInfo.color} mx-auto mb-4 opacity-20`} />
-                })()}
-                <p className="text-muted-foreground mb-4">
-                  {searchQuery || filterPriority || filterLabel || filterList 
-                    ? "No tasks match your filters" 
-                    : `No tasks for ${viewInfo.title.toLowerCase()}`}
-                </p>
-                <Button 
-                  variant="ghost" 
-                  onClick={() => {
-                    setSearchQuery("")
-                    setFilterPriority(null)
-                    setFilterLabel(null)
-                    setFilterList(null)
-                  }}
+          <SortableContext
+            items={sortedTasks.map((task) => task.id)}
+            strategy={verticalListSortingStrategy}
+          >
+            <div className="grid gap-4">
+              {sortedTasks.length === 0 ? (
+                <motion.div
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  className="text-center py-12"
                 >
-                  Clear filters
-                </Button>
-              </motion.div>
-            ) : (
-              <AnimatePresence mode="popLayout">
-                {sortedTasks.map((task) => (
-                  <TaskCard
-                    key={task.id}
-                    task={task}
-                    onComplete={onComplete}
-                    onEdit={onEdit}
-                    onDelete={onDelete}
-                  />
-                ))}
-              </AnimatePresence>
-            )}
-          </div>
-        </SortableContext>
-      </DndContext>
+                  {(() => {
+                    const Icon = viewInfo.icon
+                    return <Icon className={`h-16 w-16 ${viewInfo.color} mx-auto mb-4 opacity-20`} />
+                  })()}
+                  <p className="text-muted-foreground mb-4">
+                    {searchQuery || filterPriority || filterLabel || filterList || dateWindow
+                      ? "No tasks match your filters" 
+                      : `No tasks for ${title.toLowerCase()}`}
+                  </p>
+                  <Button 
+                    variant="ghost" 
+                    onClick={() => {
+                      setSearchQuery("")
+                      setFilterPriority(null)
+                      setFilterLabel(null)
+                      setFilterList(null)
+                      setDateWindow(null)
+                    }}
+                  >
+                    Clear filters
+                  </Button>
+                </motion.div>
+              ) : (
+                <AnimatePresence mode="popLayout">
+                  {sortedTasks.map((task) => (
+                    <TaskCard
+                      key={task.id}
+                      task={task}
+                      onComplete={onComplete}
+                      onEdit={onEdit}
+                      onDelete={onDelete}
+                    />
+                  ))}
+                </AnimatePresence>
+              )}
+            </div>
+          </SortableContext>
+        </DndContext>
+      )}
     </div>
   )
 }
@@ -0,0 +1,194 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Plus, Timer, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { TaskTimer, formatDuration, useTimer } from "@/components/task-timer"
+import { TimeEntryWithTask } from "@/lib/types/api"
+import toast from "react-hot-toast"
+
+interface TimeEntriesProps {
+  taskId: string
+  onActualTimeChange?: (taskId: string, actualTime: number | null) => void
+}
+
+export function TimeEntries({ taskId, onActualTimeChange }: TimeEntriesProps) {
+  const timer = useTimer()
+  const [entries, setEntries] = useState<TimeEntryWithTask[]>([])
+  const [isAdding, setIsAdding] = useState(false)
+  const [newEntry, setNewEntry] = useState({ startedAt: "", endedAt: "", note: "" })
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/time-entries?taskId=${taskId}`)
+      if (response.ok) {
+        const { data } = await response.json()
+        setEntries(data || [])
+      }
+    } catch (error) {
+      console.error("Error fetching time entries:", error)
+    }
+  }, [taskId])
+
+  // Reload when a timer starts or stops
+  const runningEntryId = timer?.runningEntry?.id
+  useEffect(() => {
+    fetchEntries()
+  }, [fetchEntries, runningEntryId])
+
+  const handleAddEntry = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      const response = await fetch("/api/time-entries", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          taskId,
+          startedAt: new Date(newEntry.startedAt).toISOString(),
+          endedAt: new Date(newEntry.endedAt).toISOString(),
+          note: newEntry.note || undefined,
+        }),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        toast.error(result.details?.[0]?.message || result.error || "Failed to add time entry")
+        return
+      }
+
+      onActualTimeChange?.(taskId, result.task.actualTime)
+      setNewEntry({ startedAt: "", endedAt: "", note: "" })
+      setIsAdding(false)
+      fetchEntries()
+      toast.success("Time entry added!")
+    } catch (error) {
+      console.error("Error adding time entry:", error)
+      toast.error("Failed to add time entry")
+    }
+  }
+
+  const handleDeleteEntry = async (entryId: string) => {
+    try {
+      const response = await fetch(`/api/time-entries/${entryId}`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        const { actualTime } = await response.json()
+        onActualTimeChange?.(taskId, actualTime)
+        setEntries(prev => prev.filter(entry => entry.id !== entryId))
+        toast.success("Time entry deleted!")
+      } else {
+        toast.error("Failed to delete time entry")
+      }
+    } catch (error) {
+      console.error("Error deleting time entry:", error)
+      toast.error("Failed to delete time entry")
+    }
+  }
+
+  const totalSeconds = entries.reduce((sum, entry) => sum + (entry.duration ?? 0), 0)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-medium text-sm flex items-center gap-1">
+            <Timer className="h-4 w-4" />
+            Time Tracked
+          </h4>
+          <p className="text-muted-foreground text-sm">{formatDuration(totalSeconds)}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <TaskTimer taskId={taskId} showLabel />
+          <Button variant="ghost" size="sm" onClick={() => setIsAdding(!isAdding)} className="gap-1">
+            <Plus className="h-4 w-4" />
+            Add Entry
+          </Button>
+        </div>
+      </div>
+
+      {isAdding && (
+        <form onSubmit={handleAddEntry} className="grid gap-3 rounded-md border p-3 md:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="entry-start">Start</Label>
+            <Input
+              id="entry-start"
+              type="datetime-local"
+              value={newEntry.startedAt}
+              onChange={(e) => setNewEntry(prev => ({ ...prev, startedAt: e.target.value }))}
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="entry-end">End</Label>
+            <Input
+              id="entry-end"
+              type="datetime-local"
+              value={newEntry.endedAt}
+              onChange={(e) => setNewEntry(prev => ({ ...prev, endedAt: e.target.value }))}
+              required
+            />
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="entry-note">Note</Label>
+            <Input
+              id="entry-note"
+              value={newEntry.note}
+              onChange={(e) => setNewEntry(prev => ({ ...prev, note: e.target.value }))}
+              placeholder="What did you work on?"
+              maxLength={500}
+            />
+          </div>
+          <div className="flex justify-end gap-2 md:col-span-2">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setIsAdding(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm">Save</Button>
+          </div>
+        </form>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No time tracked yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {entries.map(entry => (
+            <div
+              key={entry.id}
+              className="flex items-center justify-between gap-2 rounded-md bg-muted/50 p-2 text-sm"
+            >
+              <div className="min-w-0">
+                <p className="text-muted-foreground">
+                  {new Date(entry.startedAt).toLocaleString()}
+                  {entry.endedAt && ` – ${new Date(entry.endedAt).toLocaleTimeString()}`}
+                </p>
+                {entry.note && <p className="truncate">{entry.note}</p>}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="tabular-nums font-medium">
+                  {entry.endedAt ? formatDuration(entry.duration ?? 0) : "Running"}
+                </span>
+                {entry.endedAt && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 text-red-500 hover:text-red-600 hover:bg-red-50"
+                    onClick={() => handleDeleteEntry(entry.id)}
+                    aria-label="Delete time entry"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,340 @@
+"use client"
+
+import { useState, useMemo, useRef, useEffect } from "react"
+import { motion } from "framer-motion"
+import { ChartGantt } from "lucide-react"
+import {
+  addDays,
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  eachWeekOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { TaskWithRelations } from "@/lib/types/api"
+import {
+  buildTimelineRows,
+  DAY_MS,
+  getDependencyLinks,
+  getSpanChanges,
+  moveSpan,
+  TIMELINE_DAY_WIDTH,
+  TimelineDragEdge,
+  TimelineRow,
+  TimelineSpan,
+  TimelineTaskChanges,
+  TimelineZoom,
+} from "@/lib/timeline-utils"
+
+interface TimelineViewProps {
+  tasks: TaskWithRelations[]
+  activeListId: string | null
+  activeLabelId: string | null
+  onEdit: (task: TaskWithRelations) => void
+  onChangeTask: (task: TaskWithRelations, changes: TimelineTaskChanges) => Promise<void>
+}
+
+type DragState = {
+  taskId: string
+  edge: TimelineDragEdge
+  startX: number
+  days: number
+}
+
+const LABEL_WIDTH = 240
+const ROW_HEIGHT = 36
+const BAR_HEIGHT = 20
+const HEADER_HEIGHT = 32
+const MIN_BAR_WIDTH = 6
+
+// Empty days kept around the scheduled tasks at each zoom level
+const PADDING_DAYS: Record<TimelineZoom, number> = { day: 3, week: 7, month: 30 }
+
+const getPriorityColor = (priority: number) => {
+  switch (priority) {
+    case 1: return "bg-green-400 dark:bg-green-700"
+    case 2: return "bg-yellow-400 dark:bg-yellow-700"
+    case 3: return "bg-red-400 dark:bg-red-700"
+    default: return "bg-blue-400 dark:bg-blue-700"
+  }
+}
+
+export function TimelineView({
+  tasks,
+  activeListId,
+  activeLabelId,
+  onEdit,
+  onChangeTask,
+}: TimelineViewProps) {
+  const [zoom, setZoom] = useState<TimelineZoom>("week")
+  const [drag, setDrag] = useState<DragState | null>(null)
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  const dayWidth = TIMELINE_DAY_WIDTH[zoom]
+
+  const rows = useMemo(() => buildTimelineRows(tasks.filter(task =>
+    !task.completedAt &&
+    (!activeListId || task.listId === activeListId) &&
+    (!activeLabelId || task.labels.some(label => label.id === activeLabelId))
+  )), [tasks, activeListId, activeLabelId])
+
+  // Visible range: every bar and today, padded and aligned to the zoom's unit
+  const range = useMemo(() => {
+    const today = startOfDay(new Date())
+    const starts = rows.map(row => row.span!.start.getTime())
+    const ends = rows.map(row => row.span!.end.getTime())
+    const first = addDays(new Date(Math.min(today.getTime(), ...starts)), -PADDING_DAYS[zoom])
+    const last = addDays(new Date(Math.max(today.getTime(), ...ends)), PADDING_DAYS[zoom])
+
+    switch (zoom) {
+      case "month":
+        return { start: startOfMonth(first), end: endOfMonth(last) }
+      case "week":
+        return { start: startOfWeek(first, { weekStartsOn: 1 }), end: endOfWeek(last, { weekStartsOn: 1 }) }
+      default:
+        return { start: startOfDay(first), end: addDays(startOfDay(last), 1) }
+    }
+  }, [rows, zoom])
+
+  const ticks = useMemo(() => {
+    switch (zoom) {
+      case "month":
+        return eachMonthOfInterval(range).map(date => ({ date, label: format(date, "MMM yyyy") }))
+      case "week":
+        return eachWeekOfInterval(range, { weekStartsOn: 1 }).map(date => ({ date, label: format(date, "MMM d") }))
+      default:
+        return eachDayOfInterval(range).map(date => ({ date, label: format(date, "EEE d") }))
+    }
+  }, [range, zoom])
+
+  const getX = (date: Date) => ((date.getTime() - range.start.getTime()) / DAY_MS) * dayWidth
+  const chartWidth = getX(range.end)
+
+  // Bars follow the pointer while they're dragged
+  const getDisplaySpan = (row: TimelineRow<TaskWithRelations>): TimelineSpan =>
+    drag && drag.taskId === row.task.id ? moveSpan(row.span!, drag.days, drag.edge) : row.span!
+
+  const todayX = getX(new Date())
+
+  const scrollToToday = () => {
+    scrollRef.current?.scrollTo({ left: Math.max(0, todayX - 2 * LABEL_WIDTH), behavior: "smooth" })
+  }
+
+  // Start at today, and keep it in view when zooming or when the range grows
+  const rangeStart = range.start.getTime()
+  useEffect(() => {
+    const x = ((Date.now() - rangeStart) / DAY_MS) * dayWidth
+    scrollRef.current?.scrollTo({ left: Math.max(0, x - 2 * LABEL_WIDTH) })
+  }, [rangeStart, dayWidth])
+
+  const handlePointerDown = (e: React.PointerEvent, row: TimelineRow<TaskWithRelations>, edge: TimelineDragEdge) => {
+    if (row.isSummary) return
+    e.stopPropagation()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDrag({ taskId: row.task.id, edge, startX: e.clientX, days: 0 })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return
+    const days = Math.round((e.clientX - drag.startX) / dayWidth)
+    if (days !== drag.days) {
+      setDrag({ ...drag, days })
+    }
+  }
+
+  const handlePointerUp = async (e: React.PointerEvent, row: TimelineRow<TaskWithRelations>) => {
+    if (!drag) return
+    const { edge, days, startX } = drag
+    setDrag(null)
+
+    if (days === 0) {
+      // A click rather than a drag opens the task
+      if (edge === "move" && Math.abs(e.clientX - startX) < 4) {
+        onEdit(row.task)
+      }
+      return
+    }
+
+    await onChangeTask(row.task, getSpanChanges(row.task, moveSpan(row.span!, days, edge), edge))
+  }
+
+  // Elbow from the end of the blocking task's bar to the start of the blocked one
+  const rowIndex = new Map(rows.map((row, index) => [row.task.id, index]))
+  const links = getDependencyLinks(rows).map(({ fromId, toId }) => {
+    const from = rows[rowIndex.get(fromId)!]
+    const to = rows[rowIndex.get(toId)!]
+    const x1 = getX(getDisplaySpan(from).end)
+    const x2 = getX(getDisplaySpan(to).start)
+    const y1 = rowIndex.get(fromId)! * ROW_HEIGHT + ROW_HEIGHT / 2
+    const y2 = rowIndex.get(toId)! * ROW_HEIGHT + ROW_HEIGHT / 2
+    const midY = (y1 + y2) / 2
+    return {
+      id: `${fromId}:${toId}`,
+      path: `M ${x1} ${y1} H ${x1 + 8} V ${midY} H ${x2 - 8} V ${y2} H ${x2 - 2}`,
+    }
+  })
+
+  return (
+    <div className="space-y-6 p-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-wrap items-center justify-between gap-4"
+      >
+        <div className="flex items-center gap-3">
+          <ChartGantt className="h-8 w-8 text-indigo-600" />
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Timeline</h1>
+            <p className="text-sm text-muted-foreground">
+              {`${format(range.start, "MMM d, yyyy")} – ${format(range.end, "MMM d, yyyy")}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={scrollToToday}>
+            Today
+          </Button>
+          <Tabs value={zoom} onValueChange={(value) => setZoom(value as TimelineZoom)}>
+            <TabsList>
+              <TabsTrigger value="day">Day</TabsTrigger>
+              <TabsTrigger value="week">Week</TabsTrigger>
+              <TabsTrigger value="month">Month</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+      </motion.div>
+
+      {rows.length === 0 ? (
+        <div className="rounded-lg border border-dashed p-12 text-center text-muted-foreground">
+          No scheduled tasks. Give tasks a date or a deadline to see them here.
+        </div>
+      ) : (
+        <div ref={scrollRef} className="overflow-x-auto rounded-lg border">
+          <div className="relative" style={{ width: LABEL_WIDTH + chartWidth }}>
+            {/* Scale */}
+            <div className="flex border-b" style={{ height: HEADER_HEIGHT }}>
+              <div
+                className="sticky left-0 z-20 shrink-0 border-r bg-background px-3 py-2 text-xs font-medium text-muted-foreground"
+                style={{ width: LABEL_WIDTH }}
+              >
+                Task
+              </div>
+              <div className="relative flex-1">
+                {ticks.map(tick => (
+                  <div
+                    key={tick.date.toISOString()}
+                    className="absolute top-0 h-full truncate border-l px-1 py-2 text-xs text-muted-foreground"
+                    style={{ left: getX(tick.date) }}
+                  >
+                    {tick.label}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Rows */}
+            <div className="relative">
+              {/* Grid lines and today marker */}
+              <div className="pointer-events-none absolute inset-y-0" style={{ left: LABEL_WIDTH, width: chartWidth }}>
+                {ticks.map(tick => (
+                  <div
+                    key={tick.date.toISOString()}
+                    className="absolute inset-y-0 border-l border-dashed border-muted"
+                    style={{ left: getX(tick.date) }}
+                  />
+                ))}
+                <div className="absolute inset-y-0 z-10 w-0.5 bg-red-500" style={{ left: todayX }} title="Today" />
+              </div>
+
+              {rows.map(row => {
+                const span = getDisplaySpan(row)
+                const left = getX(span.start)
+                const width = Math.max(MIN_BAR_WIDTH, getX(span.end) - left)
+
+                return (
+                  <div key={row.task.id} className="flex border-b last:border-b-0" style={{ height: ROW_HEIGHT }}>
+                    <button
+                      type="button"
+                      onClick={() => onEdit(row.task)}
+                      className={`sticky left-0 z-20 shrink-0 truncate border-r bg-background px-3 text-left text-sm hover:bg-muted ${
+                        row.isSummary ? "font-semibold" : ""
+                      }`}
+                      style={{ width: LABEL_WIDTH, paddingLeft: 12 + row.depth * 16 }}
+                      title={row.task.name}
+                    >
+                      {row.task.name}
+                    </button>
+                    <div className="relative flex-1">
+                      {row.isSummary ? (
+                        <div
+                          className="absolute rounded-sm bg-muted-foreground/40"
+                          style={{ left, width, top: (ROW_HEIGHT - 8) / 2, height: 8 }}
+                          title={`${row.task.name}: ${format(span.start, "MMM d")} – ${format(span.end, "MMM d")}`}
+                        />
+                      ) : (
+                        <div
+                          onPointerDown={(e) => handlePointerDown(e, row, "move")}
+                          onPointerMove={handlePointerMove}
+                          onPointerUp={(e) => handlePointerUp(e, row)}
+                          className={`group absolute z-10 cursor-grab touch-none select-none rounded text-xs text-white shadow-sm ${getPriorityColor(row.task.priority)} ${
+                            drag?.taskId === row.task.id ? "cursor-grabbing opacity-80" : ""
+                          }`}
+                          style={{ left, width, top: (ROW_HEIGHT - BAR_HEIGHT) / 2, height: BAR_HEIGHT }}
+                          title={`${row.task.name}: ${format(span.start, "MMM d, HH:mm")} – ${format(span.end, "MMM d, HH:mm")}`}
+                          aria-label={`Move ${row.task.name}`}
+                        >
+                          <div
+                            onPointerDown={(e) => handlePointerDown(e, row, "start")}
+                            className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize rounded-l bg-black/20 opacity-0 group-hover:opacity-100"
+                            aria-label={`Change the start of ${row.task.name}`}
+                          />
+                          {width > 60 && <span className="block truncate px-2 leading-5">{row.task.name}</span>}
+                          <div
+                            onPointerDown={(e) => handlePointerDown(e, row, "end")}
+                            className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize rounded-r bg-black/20 opacity-0 group-hover:opacity-100"
+                            aria-label={`Change the end of ${row.task.name}`}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+
+              {/* Dependency arrows */}
+              <svg
+                className="pointer-events-none absolute top-0 z-10 text-muted-foreground"
+                style={{ left: LABEL_WIDTH }}
+                width={chartWidth}
+                height={rows.length * ROW_HEIGHT}
+              >
+                <defs>
+                  <marker id="timeline-arrow" viewBox="0 0 6 6" refX="5" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M 0 0 L 6 3 L 0 6 z" fill="currentColor" />
+                  </marker>
+                </defs>
+                {links.map(link => (
+                  <path
+                    key={link.id}
+                    d={link.path}
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth={1.5}
+                    markerEnd="url(#timeline-arrow)"
+                  />
+                ))}
+              </svg>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+// Attachment helpers shared by the preview route and the gallery
+
+export type PreviewKind = 'image' | 'text'
+
+export const TEXT_SNIPPET_LENGTH = 600
+
+// Which kind of preview a file type gets, or null when it has none.
+// PDFs are previewed as an image of their first page.
+export function getPreviewKind(type: string): PreviewKind | null {
+  if (type.startsWith('image/') || type === 'application/pdf') {
+    return 'image'
+  }
+  if (type === 'text/plain' || type === 'text/markdown') {
+    return 'text'
+  }
+  return null
+}
+
+// The start of a text, cut at the last full line that fits
+export function getTextSnippet(text: string, length = TEXT_SNIPPET_LENGTH): string {
+  const normalized = text.replace(/\r\n/g, '\n')
+  if (normalized.length <= length) {
+    return normalized
+  }
+
+  const snippet = normalized.slice(0, length)
+  const lastLineBreak = snippet.lastIndexOf('\n')
+  return `${lastLineBreak > 0 ? snippet.slice(0, lastLineBreak) : snippet}…`
+}
+
+// Attachments linked by URL must point at a web page; the download route
+// redirects to them
+export function isLinkUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value)
+    return protocol === 'https:' || protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`
+  }
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
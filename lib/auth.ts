@@ -0,0 +1,147 @@
+import { randomBytes, scrypt, timingSafeEqual, createHash } from 'crypto';
+import { promisify } from 'util';
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from './prisma';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'session';
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const KEY_LENGTH = 64;
+
+// Hash a password as "salt:hash" using scrypt
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const derivedKey = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt}:${derivedKey.toString('hex')}`;
+}
+
+// Compare a password against a stored "salt:hash" value in constant time
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [salt, key] = storedHash.split(':');
+  if (!salt || !key) {
+    return false;
+  }
+
+  const storedKey = Buffer.from(key, 'hex');
+  const derivedKey = await scryptAsync(password, salt, storedKey.length);
+  return storedKey.length === derivedKey.length && timingSafeEqual(storedKey, derivedKey);
+}
+
+// Session tokens are only stored hashed so a leaked database can't be replayed
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export async function createSession(userId: string) {
+  const token = randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await prisma.session.create({
+    data: {
+      tokenHash: hashToken(token),
+      userId,
+      expiresAt,
+    },
+  });
+
+  return { token, expiresAt };
+}
+
+// Resolve the signed-in user from the session cookie, or null if there is none
+export async function getSessionUser(request: NextRequest) {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) {
+    return null;
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true },
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  if (session.expiresAt < new Date()) {
+    await prisma.session.delete({ where: { id: session.id } }).catch(() => undefined);
+    return null;
+  }
+
+  return session.user;
+}
+
+export async function destroySession(request: NextRequest) {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) {
+    return;
+  }
+
+  await prisma.session.deleteMany({
+    where: { tokenHash: hashToken(token) },
+  });
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: new Date(0),
+  });
+}
+
+// Scheduled jobs authenticate with "Authorization: Bearer <CRON_SECRET>",
+// which is what Vercel Cron sends. Without a secret configured they're disabled.
+export function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get('authorization') ?? '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Calendar apps can't sign in, so the feed URL carries its own secret token.
+// Creating a new one replaces (and invalidates) the previous token.
+export async function createCalendarToken(userId: string): Promise<string> {
+  const token = randomBytes(32).toString('hex');
+  await prisma.user.update({
+    where: { id: userId },
+    data: { calendarTokenHash: hashToken(token) },
+  });
+  return token;
+}
+
+export async function getCalendarFeedUser(token: string) {
+  return prisma.user.findUnique({
+    where: { calendarTokenHash: hashToken(token) },
+  });
+}
+
+export function unauthorizedResponse() {
+  return NextResponse.json(
+    { error: 'Unauthorized' },
+    { status: 401 }
+  );
+}
+
+// Strip credentials before a user record is returned to the client
+export function toPublicUser<T extends { passwordHash?: string | null; calendarTokenHash?: string | null }>(user: T) {
+  const { passwordHash, calendarTokenHash, ...publicUser } = user;
+  return publicUser;
+}
@@ -0,0 +1,170 @@
+// Versioned JSON backup of a user's account. Records keep the ids they had
+// when exported; a restore maps them to new ids.
+
+export const BACKUP_FORMAT = 'daily-task-planner-backup'
+export const BACKUP_VERSION = 1
+
+// What a restore does with records that already exist in the account:
+// keep them (skip), replace them with the backup (overwrite) or import the
+// backup as new copies (duplicate)
+export const CONFLICT_STRATEGIES = ['skip', 'overwrite', 'duplicate'] as const
+
+export type ConflictStrategy = typeof CONFLICT_STRATEGIES[number]
+
+export type BackupList = {
+  id: string
+  name: string
+  emoji: string | null
+  color: string | null
+  isDefault: boolean
+  isFavorite: boolean
+  createdAt: Date
+}
+
+export type BackupLabel = {
+  id: string
+  name: string
+  color: string
+  createdAt: Date
+}
+
+export type BackupReminder = {
+  datetime: Date
+  anchor: string | null
+  offsetMinutes: number | null
+  snoozedUntil: Date | null
+  status: string
+  deliveredAt: Date | null
+}
+
+export type BackupAttachment = {
+  id: string
+  name: string
+  url: string
+  type: string
+  size: number
+  storageKey: string | null
+  createdAt: Date
+}
+
+export type BackupHistoryEntry = {
+  action: string
+  oldValue: string | null
+  newValue: string | null
+  createdAt: Date
+}
+
+export type BackupTask = {
+  id: string
+  name: string
+  description: string | null
+  date: Date | null
+  deadline: Date | null
+  estimates: number | null
+  actualTime: number | null
+  priority: number
+  status: string | null
+  isRecurring: boolean
+  recurringPattern: string | null
+  seriesId: string | null
+  occurrenceDate: Date | null
+  completedAt: Date | null
+  icalUid: string | null
+  listId: string
+  parentId: string | null
+  order: number
+  createdAt: Date
+  labelIds: string[]
+  // Tasks that must be completed before this one
+  blockedByIds: string[]
+  reminders: BackupReminder[]
+  attachments: BackupAttachment[]
+  history: BackupHistoryEntry[]
+}
+
+export type BackupRecurrenceException = {
+  seriesId: string
+  originalDate: Date
+  isSkipped: boolean
+  newDate: Date | null
+  overrides: string | null
+  originalValues: string | null
+}
+
+export type Backup = {
+  format: typeof BACKUP_FORMAT
+  version: number
+  exportedAt: Date
+  lists: BackupList[]
+  labels: BackupLabel[]
+  tasks: BackupTask[]
+  recurrenceExceptions: BackupRecurrenceException[]
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BackupError'
+  }
+}
+
+export type BackupDocument = Record<string, unknown> & { version: number }
+
+export type BackupMigrations = Record<number, (document: BackupDocument) => BackupDocument>
+
+// Upgrades from each version to the next. When the document shape changes,
+// bump BACKUP_VERSION and add the step from the previous version here so
+// older backups keep loading.
+const MIGRATIONS: BackupMigrations = {}
+
+// Bring a parsed backup file up to the current version. Throws a BackupError
+// for files that aren't backups or come from a newer version of the app.
+export function upgradeBackup(
+  document: unknown,
+  version: number = BACKUP_VERSION,
+  migrations: BackupMigrations = MIGRATIONS
+): BackupDocument {
+  if (typeof document !== 'object' || document === null || (document as BackupDocument).format !== BACKUP_FORMAT) {
+    throw new BackupError('Not a Daily Task Planner backup')
+  }
+
+  let upgraded = document as BackupDocument
+  if (!Number.isInteger(upgraded.version) || upgraded.version < 1) {
+    throw new BackupError('Backup has no valid version')
+  }
+  if (upgraded.version > version) {
+    throw new BackupError(`Backup version ${upgraded.version} is newer than this app supports (${version})`)
+  }
+
+  while (upgraded.version < version) {
+    const migrate = migrations[upgraded.version]
+    if (!migrate) {
+      throw new BackupError(`Backup version ${upgraded.version} can't be upgraded`)
+    }
+    upgraded = { ...migrate(upgraded), version: upgraded.version + 1 }
+  }
+
+  return upgraded
+}
+
+// Tasks must refer to lists and labels that are part of the backup. Returns
+// a message for the first one that doesn't, or null.
+export function findMissingReference(backup: Pick<Backup, 'lists' | 'labels' | 'tasks'>): string | null {
+  const listIds = new Set(backup.lists.map(list => list.id))
+  const labelIds = new Set(backup.labels.map(label => label.id))
+
+  for (const task of backup.tasks) {
+    if (!listIds.has(task.listId)) {
+      return `Task "${task.name}" is in a list that is not in the backup`
+    }
+    if (task.labelIds.some(labelId => !labelIds.has(labelId))) {
+      return `Task "${task.name}" has a label that is not in the backup`
+    }
+  }
+  return null
+}
+
+// e.g. "daily-task-planner-2026-03-01.json"
+export function getBackupFileName(exportedAt: Date): string {
+  return `daily-task-planner-${exportedAt.toISOString().slice(0, 10)}.json`
+}
@@ -0,0 +1,368 @@
+import prisma from './prisma';
+import type { Prisma } from '@prisma/client';
+import {
+  Backup,
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  BackupError,
+  BackupTask,
+  ConflictStrategy,
+  findMissingReference,
+} from './backup-utils';
+
+export type RestoreCounts = {
+  created: number;
+  updated: number;
+  skipped: number;
+};
+
+export type RestoreSummary = {
+  strategy: ConflictStrategy;
+  lists: RestoreCounts;
+  labels: RestoreCounts;
+  tasks: RestoreCounts;
+  warnings: string[];
+};
+
+// Restoring a large backup writes many rows, which takes longer than
+// Prisma's default transaction timeout
+const RESTORE_TIMEOUT_MS = 60_000;
+
+const emptyCounts = (): RestoreCounts => ({ created: 0, updated: 0, skipped: 0 });
+
+// Everything a user owns, as a versioned backup document
+export async function exportAccount(userId: string, now: Date = new Date()): Promise<Backup> {
+  const [lists, labels, tasks, recurrenceExceptions] = await Promise.all([
+    prisma.list.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.label.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.task.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        labels: { select: { id: true } },
+        blockedBy: { select: { id: true } },
+        reminders: { orderBy: { datetime: 'asc' } },
+        attachments: { orderBy: { createdAt: 'asc' } },
+        history: { orderBy: { createdAt: 'asc' } },
+      },
+    }),
+    prisma.recurrenceException.findMany({ where: { userId }, orderBy: { originalDate: 'asc' } }),
+  ]);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: now,
+    lists: lists.map(list => ({
+      id: list.id,
+      name: list.name,
+      emoji: list.emoji,
+      color: list.color,
+      isDefault: list.isDefault,
+      isFavorite: list.isFavorite,
+      createdAt: list.createdAt,
+    })),
+    labels: labels.map(label => ({
+      id: label.id,
+      name: label.name,
+      color: label.color,
+      createdAt: label.createdAt,
+    })),
+    tasks: tasks.map(task => ({
+      id: task.id,
+      name: task.name,
+      description: task.description,
+      date: task.date,
+      deadline: task.deadline,
+      estimates: task.estimates,
+      actualTime: task.actualTime,
+      priority: task.priority,
+      status: task.status,
+      isRecurring: task.isRecurring,
+      recurringPattern: task.recurringPattern,
+      seriesId: task.seriesId,
+      occurrenceDate: task.occurrenceDate,
+      completedAt: task.completedAt,
+      icalUid: task.icalUid,
+      listId: task.listId,
+      parentId: task.parentId,
+      order: task.order,
+      createdAt: task.createdAt,
+      labelIds: task.labels.map(label => label.id),
+      blockedByIds: task.blockedBy.map(blocker => blocker.id),
+      reminders: task.reminders.map(reminder => ({
+        datetime: reminder.datetime,
+        anchor: reminder.anchor,
+        offsetMinutes: reminder.offsetMinutes,
+        snoozedUntil: reminder.snoozedUntil,
+        status: reminder.status,
+        deliveredAt: reminder.deliveredAt,
+      })),
+      attachments: task.attachments.map(attachment => ({
+        id: attachment.id,
+        name: attachment.name,
+        url: attachment.url,
+        type: attachment.type,
+        size: attachment.size,
+        storageKey: attachment.storageKey,
+        createdAt: attachment.createdAt,
+      })),
+      history: task.history.map(entry => ({
+        action: entry.action,
+        oldValue: entry.oldValue,
+        newValue: entry.newValue,
+        createdAt: entry.createdAt,
+      })),
+    })),
+    recurrenceExceptions: recurrenceExceptions.map(exception => ({
+      seriesId: exception.seriesId,
+      originalDate: exception.originalDate,
+      isSkipped: exception.isSkipped,
+      newDate: exception.newDate,
+      overrides: exception.overrides,
+      originalValues: exception.originalValues,
+    })),
+  };
+}
+
+function taskFields(task: BackupTask, listId: string, labelIds: string[]) {
+  return {
+    name: task.name,
+    description: task.description,
+    date: task.date,
+    deadline: task.deadline,
+    estimates: task.estimates,
+    actualTime: task.actualTime,
+    priority: task.priority,
+    status: task.status,
+    isRecurring: task.isRecurring,
+    recurringPattern: task.recurringPattern,
+    occurrenceDate: task.occurrenceDate,
+    completedAt: task.completedAt,
+    icalUid: task.icalUid,
+    order: task.order,
+    listId,
+    labels: { set: labelIds.map(id => ({ id })) },
+    // Reminders that were mid-delivery go back in the queue
+    reminders: {
+      create: task.reminders.map(reminder => ({
+        ...reminder,
+        status: reminder.status === 'processing' ? 'pending' : reminder.status,
+      })),
+    },
+  };
+}
+
+// Restore a backup into the user's account. Every record gets a new id, so
+// a backup can be restored into any account. Lists and labels conflict with
+// existing ones of the same id or name, tasks only with the same id. A
+// restore that fails part way leaves the account as it was.
+export async function restoreBackup(userId: string, backup: Backup, strategy: ConflictStrategy): Promise<RestoreSummary> {
+  const missingReference = findMissingReference(backup);
+  if (missingReference) {
+    throw new BackupError(missingReference);
+  }
+
+  return prisma.$transaction(
+    tx => restoreRecords(tx, userId, backup, strategy),
+    { timeout: RESTORE_TIMEOUT_MS }
+  );
+}
+
+async function restoreRecords(
+  db: Prisma.TransactionClient,
+  userId: string,
+  backup: Backup,
+  strategy: ConflictStrategy
+): Promise<RestoreSummary> {
+  const summary: RestoreSummary = {
+    strategy,
+    lists: emptyCounts(),
+    labels: emptyCounts(),
+    tasks: emptyCounts(),
+    warnings: [],
+  };
+
+  // Backup id -> id in this account
+  const listIds = new Map<string, string>();
+  const labelIds = new Map<string, string>();
+  const taskIds = new Map<string, string>();
+
+  const existingLists = await db.list.findMany({ where: { userId } });
+  let hasDefaultList = existingLists.some(list => list.isDefault);
+  for (const list of backup.lists) {
+    const match = strategy === 'duplicate'
+      ? undefined
+      : existingLists.find(existing => existing.id === list.id) ??
+        existingLists.find(existing => existing.name.toLowerCase() === list.name.toLowerCase());
+
+    if (match && strategy === 'skip') {
+      summary.lists.skipped++;
+    } else if (match) {
+      await db.list.update({
+        where: { id: match.id },
+        data: { name: list.name, emoji: list.emoji, color: list.color, isFavorite: list.isFavorite },
+      });
+      summary.lists.updated++;
+    }
+
+    if (match) {
+      listIds.set(list.id, match.id);
+      continue;
+    }
+
+    // An account has one default list
+    const created = await db.list.create({
+      data: {
+        name: list.name,
+        emoji: list.emoji,
+        color: list.color,
+        isFavorite: list.isFavorite,
+        isDefault: list.isDefault && !hasDefaultList,
+        createdAt: list.createdAt,
+        userId,
+      },
+    });
+    hasDefaultList = hasDefaultList || created.isDefault;
+    listIds.set(list.id, created.id);
+    summary.lists.created++;
+  }
+
+  const existingLabels = await db.label.findMany({ where: { userId } });
+  for (const label of backup.labels) {
+    const match = strategy === 'duplicate'
+      ? undefined
+      : existingLabels.find(existing => existing.id === label.id) ??
+        existingLabels.find(existing => existing.name.toLowerCase() === label.name.toLowerCase());
+
+    if (match && strategy === 'skip') {
+      summary.labels.skipped++;
+    } else if (match) {
+      await db.label.update({
+        where: { id: match.id },
+        data: { name: label.name, color: label.color },
+      });
+      summary.labels.updated++;
+    }
+
+    if (match) {
+      labelIds.set(label.id, match.id);
+      continue;
+    }
+
+    const created = await db.label.create({
+      data: { name: label.name, color: label.color, createdAt: label.createdAt, userId },
+    });
+    labelIds.set(label.id, created.id);
+    summary.labels.created++;
+  }
+
+  const existingTaskIds = new Set(
+    strategy === 'duplicate'
+      ? []
+      : (await db.task.findMany({
+          where: { userId, id: { in: backup.tasks.map(task => task.id) } },
+          select: { id: true },
+        })).map(task => task.id)
+  );
+
+  // Tasks first, then the links between them once every task has its new id
+  const restored: BackupTask[] = [];
+  for (const task of backup.tasks) {
+    const listId = listIds.get(task.listId)!;
+    const taskLabelIds = task.labelIds.map(labelId => labelIds.get(labelId)!);
+
+    if (existingTaskIds.has(task.id)) {
+      taskIds.set(task.id, task.id);
+      if (strategy === 'skip') {
+        summary.tasks.skipped++;
+        continue;
+      }
+
+      await db.reminder.deleteMany({ where: { taskId: task.id } });
+      await db.task.update({
+        where: { id: task.id },
+        data: taskFields(task, listId, taskLabelIds),
+      });
+      summary.tasks.updated++;
+      restored.push(task);
+      continue;
+    }
+
+    const created = await db.task.create({
+      data: {
+        ...taskFields(task, listId, taskLabelIds),
+        labels: { connect: taskLabelIds.map(id => ({ id })) },
+        createdAt: task.createdAt,
+        userId,
+        history: {
+          create: task.history.map(entry => ({ ...entry, changedBy: userId })),
+        },
+      },
+    });
+    taskIds.set(task.id, created.id);
+    summary.tasks.created++;
+    restored.push(task);
+
+    for (const attachment of task.attachments) {
+      // Uploaded files are not part of the backup. Sharing a stored file
+      // between two attachments would delete it for both.
+      if (attachment.storageKey && await db.attachment.count({ where: { storageKey: attachment.storageKey } }) > 0) {
+        summary.warnings.push(`Attachment "${attachment.name}" of "${task.name}" was not restored because its file is in use`);
+        continue;
+      }
+
+      const restoredAttachment = await db.attachment.create({
+        data: {
+          name: attachment.name,
+          url: attachment.url,
+          type: attachment.type,
+          size: attachment.size,
+          storageKey: attachment.storageKey,
+          createdAt: attachment.createdAt,
+          taskId: created.id,
+        },
+      });
+      if (attachment.url === `/api/attachments/${attachment.id}/download`) {
+        await db.attachment.update({
+          where: { id: restoredAttachment.id },
+          data: { url: `/api/attachments/${restoredAttachment.id}/download` },
+        });
+      }
+    }
+  }
+
+  const mapTaskId = (id: string | null) => (id && taskIds.get(id)) || null;
+  for (const task of restored) {
+    await db.task.update({
+      where: { id: taskIds.get(task.id)! },
+      data: {
+        parentId: mapTaskId(task.parentId),
+        seriesId: mapTaskId(task.seriesId),
+        blockedBy: {
+          set: task.blockedByIds
+            .map(mapTaskId)
+            .filter((id): id is string => id !== null)
+            .map(id => ({ id })),
+        },
+      },
+    });
+  }
+
+  const restoredSeries = new Set(restored.map(task => task.id));
+  for (const exception of backup.recurrenceExceptions) {
+    const seriesId = mapTaskId(exception.seriesId);
+    if (!seriesId || !restoredSeries.has(exception.seriesId)) {
+      continue;
+    }
+
+    const { seriesId: _, ...fields } = exception;
+    await db.recurrenceException.upsert({
+      where: { seriesId_originalDate: { seriesId, originalDate: exception.originalDate } },
+      create: { ...fields, seriesId, userId },
+      update: fields,
+    });
+  }
+
+  return summary;
+}
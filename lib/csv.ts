@@ -0,0 +1,268 @@
+import { Task } from '@prisma/client'
+
+// CSV (RFC 4180) export and import of tasks, for spreadsheets
+
+export const CSV_COLUMNS = [
+  'name',
+  'description',
+  'list',
+  'labels',
+  'priority',
+  'date',
+  'deadline',
+  'estimates',
+  'actualTime',
+  'completedAt',
+] as const
+
+export type CsvColumn = typeof CSV_COLUMNS[number]
+
+// Columns an import can read. Actual time is only exported, because it is
+// the sum of the task's time entries.
+export const CSV_IMPORT_COLUMNS = [
+  'name',
+  'description',
+  'list',
+  'labels',
+  'priority',
+  'date',
+  'deadline',
+  'estimates',
+  'completedAt',
+] as const satisfies readonly CsvColumn[]
+
+export type CsvImportColumn = typeof CSV_IMPORT_COLUMNS[number]
+
+export const CSV_COLUMN_HEADERS: Record<CsvColumn, string> = {
+  name: 'Name',
+  description: 'Description',
+  list: 'List',
+  labels: 'Labels',
+  priority: 'Priority',
+  date: 'Date',
+  deadline: 'Deadline',
+  estimates: 'Estimate (min)',
+  actualTime: 'Actual time (min)',
+  completedAt: 'Completed at',
+}
+
+// Column index in the file for each task field it provides
+export type CsvMapping = Partial<Record<CsvImportColumn, number>>
+
+export type CsvTask = Pick<
+  Task,
+  'name' | 'description' | 'priority' | 'date' | 'deadline' | 'estimates' | 'actualTime' | 'completedAt'
+> & {
+  list: { name: string }
+  labels: { name: string }[]
+}
+
+// A CSV row read into task fields, before validation
+export type CsvRowValues = {
+  name?: string
+  description?: string
+  list?: string
+  labels: string[]
+  priority?: number
+  date?: string
+  deadline?: string
+  estimates?: number
+  completedAt?: string
+}
+
+export type CsvFieldError = {
+  field: string
+  message: string
+}
+
+const PRIORITY_NAMES = ['None', 'Low', 'Medium', 'High']
+
+// Other names spreadsheets and task apps use for our columns
+const HEADER_ALIASES: Record<CsvImportColumn, string[]> = {
+  name: ['name', 'title', 'task', 'summary', 'subject'],
+  description: ['description', 'notes', 'note', 'details'],
+  list: ['list', 'project', 'folder'],
+  labels: ['labels', 'label', 'tags', 'tag', 'categories'],
+  priority: ['priority'],
+  date: ['date', 'start', 'startdate', 'scheduled'],
+  deadline: ['deadline', 'due', 'duedate'],
+  estimates: ['estimate', 'estimates', 'estimatemin', 'estimatedtime'],
+  completedAt: ['completedat', 'completed', 'done', 'completiondate'],
+}
+
+// Cells starting with these run as formulas in spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      rows.push([...row, cell])
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell || row.length > 0) {
+    rows.push([...row, cell])
+  }
+  // Blank lines carry no data
+  return rows.filter(cells => cells.some(value => value.trim()))
+}
+
+function escapeCell(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n'
+}
+
+function formatCsvDate(date: Date | null): string {
+  if (!date) return ''
+  // All-day dates are stored at midnight UTC
+  return date.getTime() % (24 * 60 * 60 * 1000) === 0
+    ? date.toISOString().slice(0, 10)
+    : date.toISOString()
+}
+
+function getCell(task: CsvTask, column: CsvColumn): string {
+  switch (column) {
+    case 'list':
+      return task.list.name
+    case 'labels':
+      return task.labels.map(label => label.name).join(', ')
+    case 'priority':
+      return PRIORITY_NAMES[task.priority] ?? String(task.priority)
+    case 'date':
+    case 'deadline':
+    case 'completedAt':
+      return formatCsvDate(task[column])
+    case 'estimates':
+    case 'actualTime':
+      return task[column]?.toString() ?? ''
+    default:
+      return task[column] ?? ''
+  }
+}
+
+export function buildTasksCsv(tasks: CsvTask[], columns: readonly CsvColumn[] = CSV_COLUMNS): string {
+  return toCsv([
+    columns.map(column => CSV_COLUMN_HEADERS[column]),
+    ...tasks.map(task => columns.map(column => getCell(task, column))),
+  ])
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, '')
+}
+
+// Match the file's header row to task fields by name
+export function guessCsvMapping(headers: string[]): CsvMapping {
+  const mapping: CsvMapping = {}
+  headers.forEach((header, index) => {
+    const normalized = normalizeHeader(header)
+    const column = CSV_IMPORT_COLUMNS.find(candidate =>
+      mapping[candidate] === undefined &&
+      (HEADER_ALIASES[candidate].includes(normalized) || normalizeHeader(CSV_COLUMN_HEADERS[candidate]) === normalized)
+    )
+    if (column) {
+      mapping[column] = index
+    }
+  })
+  return mapping
+}
+
+// "High", "h" or "3" on our 0-3 scale
+function parsePriority(value: string): number | null {
+  const number = Number(value)
+  if (Number.isInteger(number) && number >= 0 && number <= 3) {
+    return number
+  }
+  const index = PRIORITY_NAMES.findIndex(name => name.toLowerCase().startsWith(value.toLowerCase()))
+  return index === -1 ? null : index
+}
+
+// Dates as YYYY-MM-DD (all-day) or any ISO datetime
+function parseCsvDate(value: string): string | null {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00Z`) : new Date(value)
+  return isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+// Read a row through the mapping, converting cells to the types the task
+// API expects. Cells that can't be converted are reported as errors.
+export function readCsvRow(row: string[], mapping: CsvMapping): { values: CsvRowValues; errors: CsvFieldError[] } {
+  const values: CsvRowValues = { labels: [] }
+  const errors: CsvFieldError[] = []
+
+  for (const column of CSV_IMPORT_COLUMNS) {
+    const index = mapping[column]
+    const raw = index === undefined ? '' : (row[index] ?? '').trim()
+    // Undo the formula guard added on export
+    const value = raw.replace(/^'(?=[=+\-@])/, '')
+    if (!value) continue
+
+    switch (column) {
+      case 'labels':
+        values.labels = Array.from(new Set(value.split(',').map(label => label.trim()).filter(Boolean)))
+        break
+      case 'priority': {
+        const priority = parsePriority(value)
+        if (priority === null) {
+          errors.push({ field: column, message: `Unknown priority "${value}"` })
+        } else {
+          values.priority = priority
+        }
+        break
+      }
+      case 'date':
+      case 'deadline':
+      case 'completedAt': {
+        const date = parseCsvDate(value)
+        if (date === null) {
+          errors.push({ field: column, message: `Invalid date "${value}"` })
+        } else {
+          values[column] = date
+        }
+        break
+      }
+      case 'estimates': {
+        const minutes = Number(value)
+        if (!Number.isInteger(minutes) || minutes < 0) {
+          errors.push({ field: column, message: `Expected whole minutes, got "${value}"` })
+        } else {
+          values[column] = minutes
+        }
+        break
+      }
+      default:
+        values[column] = value
+    }
+  }
+
+  return { values, errors }
+}
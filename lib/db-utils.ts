@@ -1,5 +1,13 @@
 import prisma from './prisma';
-import type { Task, List, Label, User, Reminder, Attachment } from '@prisma/client';
+import type { Prisma, Task, List, Label, User, Reminder, Attachment, TimeEntry, SmartList } from '@prisma/client';
+import { getNextOccurrenceAfter, findOccurrenceException, isTaskActive, anchorRecurringPattern } from './recurring-utils';
+import { createStorageKey, deleteStoredFiles, getStorage } from './storage';
+import { pendingDeliveryState } from './reminder-delivery';
+import { getRelativeReminderTime, isReminderAnchor } from './reminder-utils';
+import { parseDateValue, QueryContext } from './task-query';
+import { addLocalDays, getLocalDayKey, getLocalDayStart } from './notification-utils';
+import { isAllDay } from './ical';
+import { buildSmartListConditions, parseSmartListFilters } from './smart-list-utils';
 
 // Task operations
 export async function getTasksByUserId(userId: string) {
@@ -196,14 +204,409 @@ export async function updateTask(id: string, data: any) {
 }
 
 export async function deleteTask(id: string) {
-  // Delete task history first to avoid foreign key constraints
+  const storageKeys = await getAttachmentStorageKeys([id]);
+
+  // Delete task history, attachments and reminders first to avoid foreign key constraints
   await prisma.taskHistory.deleteMany({
     where: { taskId: id },
   });
+  await prisma.attachment.deleteMany({
+    where: { taskId: id },
+  });
+  await prisma.reminder.deleteMany({
+    where: { taskId: id },
+  });
 
-  return prisma.task.delete({
+  const task = await prisma.task.delete({
     where: { id },
   });
+
+  await deleteStoredFiles(storageKeys);
+  return task;
+}
+
+// Recurring task operations
+
+const taskInclude = {
+  list: true,
+  labels: true,
+  reminders: true,
+  attachments: true,
+  subtasks: true,
+  history: true,
+};
+
+// Fields that can be changed for a single occurrence of a series
+export const OCCURRENCE_FIELDS = ['name', 'description', 'priority', 'estimates'] as const;
+
+export type OccurrenceOverrides = Partial<Pick<Task, typeof OCCURRENCE_FIELDS[number]>>;
+
+export type OccurrenceChange =
+  | { action: 'skip' }
+  | { action: 'reschedule'; newDate: Date }
+  | { action: 'edit'; overrides: OccurrenceOverrides }
+  | { action: 'restore' };
+
+function parseOverrides(value: string | null | undefined): OccurrenceOverrides {
+  return value ? JSON.parse(value) : {};
+}
+
+function pickOccurrenceFields(task: OccurrenceOverrides, keys: string[]): OccurrenceOverrides {
+  return Object.fromEntries(
+    OCCURRENCE_FIELDS.filter((field) => keys.includes(field)).map((field) => [field, task[field]])
+  );
+}
+
+export async function getSeriesExceptions(seriesId: string) {
+  return prisma.recurrenceException.findMany({
+    where: { seriesId },
+    orderBy: { originalDate: 'asc' },
+  });
+}
+
+// The series a task belongs to, starting one with the task itself if needed
+async function ensureSeriesId(task: Task) {
+  if (task.seriesId) {
+    return task.seriesId;
+  }
+
+  await prisma.task.update({
+    where: { id: task.id },
+    data: { seriesId: task.id },
+  });
+  return task.id;
+}
+
+// Move a task to another date, shifting its deadline and reminders by the same offset
+async function moveTaskDate(task: Task, date: Date, data: Prisma.TaskUpdateInput = {}) {
+  const offset = task.date ? date.getTime() - task.date.getTime() : 0;
+  const shift = (value: Date) => new Date(value.getTime() + offset);
+
+  if (offset !== 0) {
+    // Relative reminders follow the task on their own below. Moved
+    // reminders go off again at their new time.
+    const reminders = await prisma.reminder.findMany({ where: { taskId: task.id, anchor: null } });
+    await Promise.all(reminders.map((reminder) =>
+      prisma.reminder.update({
+        where: { id: reminder.id },
+        data: {
+          datetime: shift(reminder.datetime),
+          snoozedUntil: null,
+          ...pendingDeliveryState,
+          deliveries: { deleteMany: {} },
+        },
+      })
+    ));
+  }
+
+  const movedTask = await prisma.task.update({
+    where: { id: task.id },
+    data: {
+      ...data,
+      date,
+      ...(task.deadline ? { deadline: shift(task.deadline) } : {}),
+    },
+  });
+  await syncRelativeReminders(movedTask);
+  return movedTask;
+}
+
+// Roll a completed recurring task forward by creating its next instance.
+// The new instance keeps the labels, gets fresh incomplete subtasks and has its
+// deadline and reminders shifted by the same offset as its date. Skipped, moved
+// and edited occurrences are respected. Returns the open instance of the
+// series, or null once the series has ended.
+export async function createNextRecurringInstance(taskId: string, completedAt: Date = new Date()) {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    include: {
+      labels: true,
+      subtasks: true,
+      reminders: true,
+    },
+  });
+
+  if (!task || !task.isRecurring || !task.date || !isTaskActive(task)) {
+    return null;
+  }
+
+  const seriesId = task.seriesId ?? task.id;
+
+  // Completing an instance twice must not fork the series
+  const openInstance = await prisma.task.findFirst({
+    where: { seriesId, completedAt: null, id: { not: task.id } },
+    include: taskInclude,
+  });
+  if (openInstance) {
+    return openInstance;
+  }
+
+  const exceptions = await getSeriesExceptions(seriesId);
+  const occurrenceDate = getNextOccurrenceAfter(task, completedAt, exceptions);
+  if (!occurrenceDate) {
+    return null;
+  }
+
+  const exception = findOccurrenceException(exceptions, occurrenceDate);
+  const nextDate = exception?.newDate ?? occurrenceDate;
+  const offset = nextDate.getTime() - task.date.getTime();
+  const shift = (date: Date) => new Date(date.getTime() + offset);
+
+  // Edits made to the completed occurrence alone don't carry over
+  const completedException = findOccurrenceException(exceptions, task.occurrenceDate ?? task.date);
+  const template = {
+    ...pickOccurrenceFields(task, [...OCCURRENCE_FIELDS]),
+    ...parseOverrides(completedException?.originalValues),
+  };
+  const overrides = parseOverrides(exception?.overrides);
+
+  if (exception?.overrides) {
+    await prisma.recurrenceException.update({
+      where: { id: exception.id },
+      data: { originalValues: JSON.stringify(pickOccurrenceFields(template, Object.keys(overrides))) },
+    });
+  }
+
+  if (!task.seriesId) {
+    await prisma.task.update({
+      where: { id: task.id },
+      data: { seriesId },
+    });
+  }
+
+  const nextInstance = await prisma.task.create({
+    data: {
+      ...template,
+      ...overrides,
+      name: overrides.name ?? template.name ?? task.name,
+      date: nextDate,
+      occurrenceDate,
+      deadline: task.deadline ? shift(task.deadline) : null,
+      isRecurring: true,
+      recurringPattern: anchorRecurringPattern(task.recurringPattern, task.date),
+      seriesId,
+      order: task.order,
+      listId: task.listId,
+      userId: task.userId,
+      labels: {
+        connect: task.labels.map((label) => ({ id: label.id })),
+      },
+      subtasks: {
+        create: task.subtasks.map((subtask) => ({
+          name: subtask.name,
+          userId: task.userId,
+          listId: task.listId,
+        })),
+      },
+      reminders: {
+        create: task.reminders.map((reminder) => ({
+          datetime: shift(reminder.datetime),
+          anchor: reminder.anchor,
+          offsetMinutes: reminder.offsetMinutes,
+        })),
+      },
+    },
+  });
+
+  await prisma.taskHistory.create({
+    data: {
+      taskId: nextInstance.id,
+      action: 'created',
+      newValue: JSON.stringify({ recurredFrom: task.id }),
+      changedBy: task.userId,
+    },
+  });
+
+  return prisma.task.findUnique({
+    where: { id: nextInstance.id },
+    include: taskInclude,
+  });
+}
+
+// Skip, move, edit or restore a single occurrence of a recurring task's series.
+// originalDate is the date the pattern generated for the occurrence. When it is
+// the occurrence the task itself stands for, the task is updated to match;
+// later occurrences only get an exception that applies once they come up.
+// Returns the updated task, or null when asked to skip the series' last occurrence.
+export async function changeOccurrence(task: Task, originalDate: Date, change: OccurrenceChange) {
+  const seriesId = await ensureSeriesId(task);
+  const isCurrent = originalDate.getTime() === (task.occurrenceDate ?? task.date)?.getTime();
+  const exceptions = await getSeriesExceptions(seriesId);
+  const existing = findOccurrenceException(exceptions, originalDate);
+
+  switch (change.action) {
+    case 'restore':
+      if (existing) {
+        await prisma.recurrenceException.delete({ where: { id: existing.id } });
+      }
+      if (isCurrent) {
+        await moveTaskDate(task, originalDate, parseOverrides(existing?.originalValues));
+      }
+      break;
+
+    case 'skip': {
+      // Skipping the current occurrence moves the task on to the next one
+      const nextOriginal = isCurrent
+        ? getNextOccurrenceAfter({ ...task, occurrenceDate: originalDate }, originalDate, exceptions)
+        : null;
+      if (isCurrent && !nextOriginal) {
+        return null;
+      }
+
+      await prisma.recurrenceException.upsert({
+        where: { seriesId_originalDate: { seriesId, originalDate } },
+        create: { seriesId, originalDate, userId: task.userId, isSkipped: true },
+        update: { isSkipped: true, newDate: null },
+      });
+
+      if (nextOriginal) {
+        const next = findOccurrenceException(exceptions, nextOriginal);
+        const template = { ...pickOccurrenceFields(task, [...OCCURRENCE_FIELDS]), ...parseOverrides(existing?.originalValues) };
+        const overrides = parseOverrides(next?.overrides);
+        if (next?.overrides) {
+          await prisma.recurrenceException.update({
+            where: { id: next.id },
+            data: { originalValues: JSON.stringify(pickOccurrenceFields(template, Object.keys(overrides))) },
+          });
+        }
+        await moveTaskDate(task, next?.newDate ?? nextOriginal, {
+          ...template,
+          ...overrides,
+          occurrenceDate: nextOriginal,
+        });
+      }
+      break;
+    }
+
+    case 'reschedule':
+      await prisma.recurrenceException.upsert({
+        where: { seriesId_originalDate: { seriesId, originalDate } },
+        create: { seriesId, originalDate, userId: task.userId, newDate: change.newDate },
+        update: { isSkipped: false, newDate: change.newDate },
+      });
+      if (isCurrent) {
+        await moveTaskDate(task, change.newDate, { occurrenceDate: originalDate });
+      }
+      break;
+
+    case 'edit': {
+      const overrides = JSON.stringify({ ...parseOverrides(existing?.overrides), ...change.overrides });
+      // Remember what the current instance looked like so the next one can be restored
+      const originalValues = isCurrent
+        ? JSON.stringify({ ...pickOccurrenceFields(task, Object.keys(change.overrides)), ...parseOverrides(existing?.originalValues) })
+        : existing?.originalValues ?? null;
+
+      await prisma.recurrenceException.upsert({
+        where: { seriesId_originalDate: { seriesId, originalDate } },
+        create: { seriesId, originalDate, userId: task.userId, overrides, originalValues },
+        update: { overrides, originalValues },
+      });
+      if (isCurrent) {
+        await prisma.task.update({
+          where: { id: task.id },
+          data: { ...change.overrides, occurrenceDate: originalDate },
+        });
+      }
+      break;
+    }
+  }
+
+  return prisma.task.findUnique({
+    where: { id: task.id },
+    include: taskInclude,
+  });
+}
+
+// Move the user's unfinished tasks from yesterday to today, keeping their time
+// of day. Days start at midnight in the user's timezone; all-day dates are
+// stored at UTC midnight of their day, so they're matched by that day instead.
+// Recurring tasks move just this occurrence. Returns the moved task IDs.
+export async function rollOverTasks(user: Pick<User, 'id' | 'timezone'>, now: Date = new Date()) {
+  const yesterdayStart = getLocalDayStart(now, user.timezone, -1);
+  const todayStart = getLocalDayStart(now, user.timezone);
+  const allDayYesterday = parseDateValue('yesterday', now, user.timezone)!;
+
+  const tasks = (await prisma.task.findMany({
+    where: {
+      userId: user.id,
+      completedAt: null,
+      OR: [
+        { date: { gte: yesterdayStart, lt: todayStart } },
+        { date: allDayYesterday },
+      ],
+    },
+  })).filter(task => !isAllDay(task.date!) || task.date!.getTime() === allDayYesterday.getTime());
+
+  for (const task of tasks) {
+    const oldDate = task.date!;
+    const newDate = addLocalDays(oldDate, 1, isAllDay(oldDate) ? 'UTC' : user.timezone);
+
+    if (task.isRecurring) {
+      await changeOccurrence(task, task.occurrenceDate ?? oldDate, { action: 'reschedule', newDate });
+    } else {
+      await prisma.task.update({
+        where: { id: task.id },
+        data: { date: newDate },
+      });
+      await syncRelativeReminders({ id: task.id, date: newDate, deadline: task.deadline });
+    }
+
+    await prisma.taskHistory.create({
+      data: {
+        taskId: task.id,
+        action: 'rolled over',
+        oldValue: oldDate.toISOString(),
+        newValue: newDate.toISOString(),
+        changedBy: user.id,
+      },
+    });
+  }
+
+  return tasks.map(task => task.id);
+}
+
+// Roll over tasks for users with automatic rollover whose day has started
+// since the last run (called by a cron job)
+export async function processRollovers(now: Date = new Date()) {
+  const summary = { users: 0, tasks: 0, failed: 0 };
+
+  const users = await prisma.user.findMany({
+    where: { autoRollover: true },
+    select: { id: true, timezone: true, lastRolloverDate: true },
+  });
+
+  for (const user of users) {
+    const dayKey = getLocalDayKey(now, user.timezone);
+    if (dayKey === user.lastRolloverDate) {
+      continue;
+    }
+
+    // Claim the day first so overlapping runs don't move tasks twice
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, lastRolloverDate: user.lastRolloverDate },
+      data: { lastRolloverDate: dayKey },
+    });
+    if (count !== 1) {
+      continue;
+    }
+
+    try {
+      const moved = await rollOverTasks(user, now);
+      summary.users++;
+      summary.tasks += moved.length;
+    } catch (error) {
+      summary.failed++;
+      console.error('Error rolling over tasks:', error instanceof Error ? error.message : 'Unknown error');
+      // Give the day back so the next run tries again. Tasks already moved
+      // are no longer in yesterday, so they aren't moved twice.
+      await prisma.user.updateMany({
+        where: { id: user.id, lastRolloverDate: dayKey },
+        data: { lastRolloverDate: user.lastRolloverDate },
+      });
+    }
+  }
+
+  return summary;
 }
 
 // List operations
@@ -268,6 +671,7 @@ export async function deleteList(id: string) {
 
   // Delete all related records for each task
   const taskIds = tasks.map(task => task.id);
+  const storageKeys = await getAttachmentStorageKeys(taskIds);
   if (taskIds.length > 0) {
     // Delete attachments
     await prisma.attachment.deleteMany({
@@ -290,9 +694,12 @@ export async function deleteList(id: string) {
     where: { listId: id },
   });
   
-  return prisma.list.delete({
+  const list = await prisma.list.delete({
     where: { id },
   });
+
+  await deleteStoredFiles(storageKeys);
+  return list;
 }
 
 // Label operations
@@ -324,6 +731,36 @@ export async function deleteLabel(id: string) {
   });
 }
 
+// What task queries (lib/task-query.ts) resolve names and dates against
+export async function getQueryContext(user: Pick<User, 'id' | 'timezone'>, now: Date = new Date()): Promise<QueryContext> {
+  const [lists, labels] = await Promise.all([
+    prisma.list.findMany({ where: { userId: user.id }, select: { id: true, name: true } }),
+    prisma.label.findMany({ where: { userId: user.id }, select: { id: true, name: true } }),
+  ]);
+  return { now, timeZone: user.timezone, lists, labels };
+}
+
+// Smart list operations
+export const smartListOrderBy: Prisma.SmartListOrderByWithRelationInput[] = [
+  { isFavorite: 'desc' },
+  { order: 'asc' },
+  { createdAt: 'asc' },
+];
+
+// Smart lists as the API returns them: filters parsed, plus the number of
+// open tasks each matches. The count is null when the saved query no longer
+// compiles, e.g. after a label it names was deleted.
+export async function withTaskCounts(smartLists: SmartList[], context: QueryContext, userId: string) {
+  return Promise.all(smartLists.map(async smartList => {
+    const filters = parseSmartListFilters(smartList.filters);
+    const { conditions, errors } = buildSmartListConditions(filters, context);
+    const count = errors.length > 0
+      ? null
+      : await prisma.task.count({ where: { userId, completedAt: null, AND: conditions } });
+    return { ...smartList, filters, count };
+  }));
+}
+
 // User operations
 export async function getUserByEmail(email: string) {
   return prisma.user.findFirst({
@@ -369,10 +806,53 @@ export async function createAttachment(data: any) {
   });
 }
 
+// Store an uploaded file and create an attachment served by the download route
+export async function createUploadedAttachment(taskId: string, file: File) {
+  const storageKey = createStorageKey(taskId);
+  await getStorage().put(storageKey, Buffer.from(await file.arrayBuffer()), file.type);
+
+  try {
+    const attachment = await prisma.attachment.create({
+      data: {
+        name: file.name,
+        url: '',
+        type: file.type,
+        size: file.size,
+        storageKey,
+        taskId,
+      },
+    });
+
+    return prisma.attachment.update({
+      where: { id: attachment.id },
+      data: { url: `/api/attachments/${attachment.id}/download` },
+    });
+  } catch (error) {
+    await deleteStoredFiles([storageKey]);
+    throw error;
+  }
+}
+
 export async function deleteAttachment(id: string) {
-  return prisma.attachment.delete({
+  const attachment = await prisma.attachment.delete({
     where: { id },
   });
+
+  await deleteStoredFiles([attachment.storageKey]);
+  return attachment;
+}
+
+// Storage keys of uploaded files, read before the tasks' attachments are deleted
+export async function getAttachmentStorageKeys(taskIds: string[]) {
+  if (taskIds.length === 0) {
+    return [];
+  }
+
+  const attachments = await prisma.attachment.findMany({
+    where: { taskId: { in: taskIds } },
+    select: { storageKey: true },
+  });
+  return attachments.map(attachment => attachment.storageKey);
 }
 
 // Reminder operations
@@ -388,6 +868,134 @@ export async function deleteReminder(id: string) {
   });
 }
 
+// Recompute the task's relative reminders after its date or deadline changed.
+// Moved reminders go back in the delivery queue and lose any snooze; those
+// whose anchor was cleared are skipped until it is set again.
+export async function syncRelativeReminders(task: Pick<Task, 'id' | 'date' | 'deadline'>) {
+  const reminders = await prisma.reminder.findMany({
+    where: { taskId: task.id, anchor: { not: null } },
+  });
+
+  await Promise.all(reminders.map((reminder) => {
+    if (!isReminderAnchor(reminder.anchor) || reminder.offsetMinutes === null) {
+      return null;
+    }
+
+    const datetime = getRelativeReminderTime(task, reminder.anchor, reminder.offsetMinutes);
+    const missingAnchor = `Task has no ${reminder.anchor}`;
+    const wasMissingAnchor = reminder.status === 'skipped' && reminder.lastError === missingAnchor;
+    if (!datetime) {
+      return wasMissingAnchor ? null : prisma.reminder.update({
+        where: { id: reminder.id },
+        data: { status: 'skipped', lockedUntil: null, lastError: missingAnchor },
+      });
+    }
+
+    if (datetime.getTime() === reminder.datetime.getTime() && !wasMissingAnchor) {
+      return null;
+    }
+    return prisma.reminder.update({
+      where: { id: reminder.id },
+      data: { datetime, snoozedUntil: null, ...pendingDeliveryState, deliveries: { deleteMany: {} } },
+    });
+  }));
+}
+
+// Time tracking operations
+
+export const timeEntryInclude = {
+  task: { select: { id: true, name: true, actualTime: true } },
+};
+
+function getDurationSeconds(startedAt: Date, endedAt: Date) {
+  return Math.max(0, Math.round((endedAt.getTime() - startedAt.getTime()) / 1000));
+}
+
+// Recompute a task's actualTime (in minutes) from its finished time entries
+export async function syncActualTime(taskId: string, db: Prisma.TransactionClient = prisma) {
+  const { _sum } = await db.timeEntry.aggregate({
+    where: { taskId, endedAt: { not: null } },
+    _sum: { duration: true },
+  });
+
+  return db.task.update({
+    where: { id: taskId },
+    data: { actualTime: Math.round((_sum.duration ?? 0) / 60) },
+  });
+}
+
+export async function stopTimeEntry(entry: TimeEntry, endedAt: Date = new Date(), db: Prisma.TransactionClient = prisma) {
+  await db.timeEntry.update({
+    where: { id: entry.id },
+    data: { endedAt, duration: getDurationSeconds(entry.startedAt, endedAt) },
+  });
+  await syncActualTime(entry.taskId, db);
+
+  return db.timeEntry.findUniqueOrThrow({
+    where: { id: entry.id },
+    include: timeEntryInclude,
+  });
+}
+
+// Start a timer on a task. Users can only have one running timer, so one that
+// is already running is stopped first and returned alongside the new entry.
+// Both happen in one transaction so quick repeated starts can't leave two
+// timers running.
+export async function startTimer(userId: string, taskId: string, note?: string) {
+  return prisma.$transaction(async (tx) => {
+    const running = await tx.timeEntry.findFirst({
+      where: { userId, endedAt: null },
+    });
+    const stopped = running ? await stopTimeEntry(running, new Date(), tx) : null;
+
+    const entry = await tx.timeEntry.create({
+      data: { taskId, userId, note, startedAt: new Date() },
+      include: timeEntryInclude,
+    });
+
+    return { entry, stopped };
+  });
+}
+
+// Record a finished stretch of time after the fact
+export async function createTimeEntry(data: { taskId: string; userId: string; startedAt: Date; endedAt: Date; note?: string }) {
+  const entry = await prisma.timeEntry.create({
+    data: { ...data, duration: getDurationSeconds(data.startedAt, data.endedAt) },
+  });
+  await syncActualTime(entry.taskId);
+
+  return prisma.timeEntry.findUniqueOrThrow({
+    where: { id: entry.id },
+    include: timeEntryInclude,
+  });
+}
+
+export async function updateTimeEntry(entry: TimeEntry, data: { startedAt?: Date; endedAt?: Date; note?: string | null }) {
+  const startedAt = data.startedAt ?? entry.startedAt;
+  const endedAt = data.endedAt ?? entry.endedAt;
+
+  await prisma.timeEntry.update({
+    where: { id: entry.id },
+    data: {
+      ...data,
+      duration: endedAt ? getDurationSeconds(startedAt, endedAt) : null,
+    },
+  });
+  await syncActualTime(entry.taskId);
+
+  return prisma.timeEntry.findUniqueOrThrow({
+    where: { id: entry.id },
+    include: timeEntryInclude,
+  });
+}
+
+export async function deleteTimeEntry(entry: TimeEntry) {
+  await prisma.timeEntry.delete({
+    where: { id: entry.id },
+  });
+  return syncActualTime(entry.taskId);
+}
+
 // Task history operations
 export async function createTaskHistory(data: any) {
   return prisma.taskHistory.create({
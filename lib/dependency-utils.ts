@@ -0,0 +1,44 @@
+// A "blocks" edge: blockerId has to be completed before blockedId
+export type DependencyEdge = {
+  blockerId: string
+  blockedId: string
+}
+
+// What task responses include about the tasks on either side of a dependency
+export const dependencySummary = {
+  select: { id: true, name: true, completedAt: true },
+} as const
+
+// Check whether making blockerId block blockedId would close a loop, i.e.
+// blockedId already blocks blockerId directly or through other tasks
+export function wouldCreateCycle(edges: DependencyEdge[], blockerId: string, blockedId: string): boolean {
+  if (blockerId === blockedId) {
+    return true
+  }
+
+  const blocks = new Map<string, string[]>()
+  edges.forEach(edge => {
+    blocks.set(edge.blockerId, [...(blocks.get(edge.blockerId) ?? []), edge.blockedId])
+  })
+
+  const visited = new Set<string>()
+  const queue = [blockedId]
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    if (current === blockerId) {
+      return true
+    }
+    if (visited.has(current)) {
+      continue
+    }
+    visited.add(current)
+    queue.push(...(blocks.get(current) ?? []))
+  }
+
+  return false
+}
+
+// Blockers that still have to be completed
+export function getOpenBlockers<T extends { completedAt: Date | string | null }>(blockers: T[] = []): T[] {
+  return blockers.filter(blocker => !blocker.completedAt)
+}
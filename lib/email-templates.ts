@@ -0,0 +1,103 @@
+import type { Digest, DigestTask } from './notification-utils'
+
+export type EmailContent = {
+  subject: string
+  text: string
+  html: string
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function formatDue(date: Date, timeZone: string): string {
+  return date.toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short', timeZone })
+}
+
+function formatDay(dayKey: string): string {
+  return new Date(`${dayKey}T12:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'long', month: 'long', day: 'numeric', timeZone: 'UTC',
+  })
+}
+
+function describeTask(task: DigestTask, timeZone: string): string {
+  const due = task.deadline ?? task.date
+  return due ? `${task.name} (due ${formatDue(due, timeZone)})` : task.name
+}
+
+function layout(title: string, body: string, appUrl: string): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html><body style="font-family: -apple-system, Segoe UI, Roboto, sans-serif; color: #111827; line-height: 1.5;">',
+    `<h2 style="margin: 0 0 16px;">${escapeHtml(title)}</h2>`,
+    body,
+    `<p style="margin-top: 24px;"><a href="${escapeHtml(appUrl)}" style="color: #2563eb;">Open Daily Task Planner</a></p>`,
+    '<p style="color: #6b7280; font-size: 12px;">You can change email notifications under Settings.</p>',
+    '</body></html>',
+  ].join('\n')
+}
+
+function taskListHtml(tasks: DigestTask[], timeZone: string): string {
+  const items = tasks.map(task => `<li>${escapeHtml(describeTask(task, timeZone))}</li>`)
+  return `<ul style="padding-left: 20px;">${items.join('')}</ul>`
+}
+
+function taskListText(tasks: DigestTask[], timeZone: string): string {
+  return tasks.map(task => `- ${describeTask(task, timeZone)}`).join('\n')
+}
+
+const footerText = (appUrl: string) =>
+  `Open Daily Task Planner: ${appUrl}\nYou can change email notifications under Settings.`
+
+export function renderReminderEmail(task: DigestTask, timeZone: string, appUrl: string): EmailContent {
+  const due = task.deadline ?? task.date
+  const dueLine = due ? `Due ${formatDue(due, timeZone)}` : 'You asked to be reminded about this task.'
+
+  return {
+    subject: `Reminder: ${task.name}`,
+    text: `${task.name}\n${dueLine}\n\n${footerText(appUrl)}`,
+    html: layout(task.name, `<p>${escapeHtml(dueLine)}</p>`, appUrl),
+  }
+}
+
+export function renderOverdueEmail(tasks: DigestTask[], timeZone: string, appUrl: string): EmailContent {
+  const subject = tasks.length === 1
+    ? `Overdue: ${tasks[0].name}`
+    : `${tasks.length} tasks are overdue`
+  const intro = tasks.length === 1
+    ? 'This task has passed its deadline:'
+    : 'These tasks have passed their deadline:'
+
+  return {
+    subject,
+    text: `${intro}\n${taskListText(tasks, timeZone)}\n\n${footerText(appUrl)}`,
+    html: layout(subject, `<p>${intro}</p>${taskListHtml(tasks, timeZone)}`, appUrl),
+  }
+}
+
+export function renderDigestEmail(digest: Digest, dayKey: string, timeZone: string, appUrl: string): EmailContent {
+  const sections = [
+    { title: 'Today', tasks: digest.today },
+    { title: 'Overdue', tasks: digest.overdue },
+    { title: 'Upcoming deadlines', tasks: digest.upcoming },
+  ].filter(section => section.tasks.length > 0)
+
+  const title = `Your agenda for ${formatDay(dayKey)}`
+  const text = sections
+    .map(section => `${section.title}\n${taskListText(section.tasks, timeZone)}`)
+    .join('\n\n')
+  const html = sections
+    .map(section => `<h3 style="margin: 16px 0 4px;">${section.title}</h3>${taskListHtml(section.tasks, timeZone)}`)
+    .join('\n')
+
+  return {
+    subject: title,
+    text: `${title}\n\n${text}\n\n${footerText(appUrl)}`,
+    html: layout(title, html, appUrl),
+  }
+}
@@ -0,0 +1,177 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import prisma from './prisma';
+import type { ReminderChannel } from './reminder-delivery';
+import { buildDigest, getLocalDayKey, isDigestDue, isDigestEmpty } from './notification-utils';
+import { EmailContent, renderDigestEmail, renderOverdueEmail, renderReminderEmail } from './email-templates';
+
+// Deadlines missed longer ago than this (e.g. before emails were enabled)
+// don't send an overdue email
+const MAX_OVERDUE_AGE_MS = 24 * 60 * 60 * 1000;
+const UPCOMING_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_BATCH_SIZE = 100;
+
+export type NotificationRunSummary = {
+  digests: number;
+  overdue: number;
+  failed: number;
+};
+
+const digestTaskSelect = {
+  id: true,
+  name: true,
+  date: true,
+  deadline: true,
+  priority: true,
+  completedAt: true,
+} as const;
+
+let transporter: Transporter | null = null;
+
+export function isEmailConfigured(): boolean {
+  return Boolean(process.env.SMTP_HOST);
+}
+
+// Base URL used for links in emails
+export function getAppUrl(): string {
+  return (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+}
+
+function getTransporter(): Transporter {
+  if (!transporter) {
+    const port = Number(process.env.SMTP_PORT) || 587;
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+  }
+  return transporter;
+}
+
+export async function sendEmail(to: string, content: EmailContent): Promise<void> {
+  await getTransporter().sendMail({
+    from: process.env.SMTP_FROM || process.env.SMTP_USER,
+    to,
+    subject: content.subject,
+    text: content.text,
+    html: content.html,
+  });
+}
+
+// Email a due reminder, unless the user turned email notifications off
+export function createEmailChannel(): ReminderChannel {
+  return {
+    name: 'email',
+    async send(reminder) {
+      const { user } = reminder.task;
+      if (!user.emailNotifications) {
+        return;
+      }
+      await sendEmail(user.email, renderReminderEmail(reminder.task, user.timezone, getAppUrl()));
+    },
+  };
+}
+
+// Send the morning agenda to every user whose send time has passed today.
+// Claiming the day through lastDigestDate keeps concurrent runs from sending
+// it twice; a failed send releases the claim so the next run retries.
+export async function processDigests(now: Date = new Date()): Promise<NotificationRunSummary> {
+  const summary: NotificationRunSummary = { digests: 0, overdue: 0, failed: 0 };
+
+  const users = await prisma.user.findMany({
+    where: { digestEnabled: true },
+    select: { id: true, email: true, timezone: true, digestEnabled: true, digestTime: true, lastDigestDate: true },
+  });
+
+  for (const user of users.filter(user => isDigestDue(user, now))) {
+    const dayKey = getLocalDayKey(now, user.timezone);
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, lastDigestDate: user.lastDigestDate },
+      data: { lastDigestDate: dayKey },
+    });
+    if (count !== 1) {
+      continue;
+    }
+
+    try {
+      const horizon = new Date(now.getTime() + UPCOMING_WINDOW_MS);
+      const tasks = await prisma.task.findMany({
+        where: {
+          userId: user.id,
+          completedAt: null,
+          OR: [{ date: { lte: horizon } }, { deadline: { lte: horizon } }],
+        },
+        select: digestTaskSelect,
+      });
+
+      const digest = buildDigest(tasks, now, user.timezone);
+      if (isDigestEmpty(digest)) {
+        continue;
+      }
+
+      await sendEmail(user.email, renderDigestEmail(digest, dayKey, user.timezone, getAppUrl()));
+      summary.digests++;
+    } catch (error) {
+      summary.failed++;
+      console.error('Error sending digest:', error instanceof Error ? error.message : 'Unknown error');
+      await prisma.user.updateMany({
+        where: { id: user.id, lastDigestDate: dayKey },
+        data: { lastDigestDate: user.lastDigestDate },
+      });
+    }
+  }
+
+  return summary;
+}
+
+// Email each user once about tasks whose deadline just passed, grouping
+// several tasks into one message
+export async function processOverdueNotifications(now: Date = new Date()): Promise<NotificationRunSummary> {
+  const summary: NotificationRunSummary = { digests: 0, overdue: 0, failed: 0 };
+
+  const candidates = await prisma.task.findMany({
+    where: {
+      completedAt: null,
+      overdueNotifiedAt: null,
+      deadline: { lt: now, gte: new Date(now.getTime() - MAX_OVERDUE_AGE_MS) },
+      user: { emailNotifications: true },
+    },
+    orderBy: { deadline: 'asc' },
+    take: DEFAULT_BATCH_SIZE,
+    select: {
+      ...digestTaskSelect,
+      user: { select: { id: true, email: true, timezone: true } },
+    },
+  });
+
+  const byUser = new Map<string, typeof candidates>();
+  for (const task of candidates) {
+    const { count } = await prisma.task.updateMany({
+      where: { id: task.id, overdueNotifiedAt: null },
+      data: { overdueNotifiedAt: now },
+    });
+    if (count === 1) {
+      byUser.set(task.user.id, [...(byUser.get(task.user.id) ?? []), task]);
+    }
+  }
+
+  for (const tasks of byUser.values()) {
+    const { user } = tasks[0];
+    try {
+      await sendEmail(user.email, renderOverdueEmail(tasks, user.timezone, getAppUrl()));
+      summary.overdue += tasks.length;
+    } catch (error) {
+      summary.failed++;
+      console.error('Error sending overdue email:', error instanceof Error ? error.message : 'Unknown error');
+      await prisma.task.updateMany({
+        where: { id: { in: tasks.map(task => task.id) } },
+        data: { overdueNotifiedAt: null },
+      });
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,471 @@
+import { Reminder, Task } from '@prisma/client'
+import { parseRecurringPattern, patternFromRRule, patternToRRule } from './recurring-utils'
+import { expandRRule, formatRRule, parseRRule } from './rrule'
+import { isValidTimeZone, zonedTimeToUtc } from './notification-utils'
+import type { ReminderSpec } from './reminder-utils'
+
+// iCalendar (RFC 5545) export and import of tasks. Scheduled tasks (with a
+// date) are exported as VEVENTs so they show up in any calendar app; tasks
+// with a deadline become VTODOs with a DUE date. Dates at midnight UTC are
+// treated as all-day. Imports read VTODOs.
+
+export type CalendarTask = Pick<
+  Task,
+  'id' | 'name' | 'description' | 'date' | 'deadline' | 'estimates' | 'priority' |
+  'completedAt' | 'isRecurring' | 'recurringPattern' | 'createdAt' | 'updatedAt'
+> & {
+  labels: { name: string }[]
+  reminders: Pick<Reminder, 'datetime' | 'anchor' | 'offsetMinutes'>[]
+  // Occurrences of the series that were skipped, exported as EXDATE
+  skippedDates?: Date[]
+}
+
+export type CalendarOptions = {
+  name: string
+  now?: Date
+}
+
+const PRODUCT_ID = '-//Daily Task Planner//Tasks//EN'
+const UID_DOMAIN = 'daily-task-planner'
+const MAX_LINE_OCTETS = 75
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Our priorities (0 none, 1 low, 2 medium, 3 high) on the iCalendar 0-9 scale,
+// where 1 is the highest
+const ICAL_PRIORITIES = [0, 9, 5, 1]
+
+export function toICalPriority(priority: number): number {
+  return ICAL_PRIORITIES[priority] ?? 0
+}
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+function utf8Length(char: string): number {
+  const codePoint = char.codePointAt(0) ?? 0
+  return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+export function foldLine(line: string): string {
+  const lines: string[] = []
+  let current = ''
+  let octets = 0
+
+  for (const char of line) {
+    const size = utf8Length(char)
+    if (octets + size > MAX_LINE_OCTETS) {
+      lines.push(current)
+      current = ' '
+      octets = 1
+    }
+    current += char
+    octets += size
+  }
+
+  return [...lines, current].join('\r\n')
+}
+
+export function isAllDay(date: Date): boolean {
+  return date.getTime() % DAY_MS === 0
+}
+
+export function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '')
+}
+
+// e.g. "DTSTART;VALUE=DATE:20260302" or "DUE:20260302T170000Z"
+function dateProperty(name: string, date: Date): string {
+  return isAllDay(date) ? `${name};VALUE=DATE:${formatDate(date)}` : `${name}:${formatDateTime(date)}`
+}
+
+function formatDuration(minutes: number): string {
+  return `${minutes < 0 ? '-' : ''}PT${Math.abs(minutes)}M`
+}
+
+// RRULE for the series from the open occurrence on. RRULE patterns pinned to
+// an earlier DTSTART count COUNT from there, so only what is left is kept.
+function getSeriesRule(task: CalendarTask): string | null {
+  if (!task.isRecurring || !task.recurringPattern || !task.date) {
+    return null
+  }
+
+  try {
+    const pattern = parseRecurringPattern(task.recurringPattern)
+    if (pattern.type !== 'rrule' || !pattern.rrule) {
+      return patternToRRule(pattern)
+    }
+
+    const rule = parseRRule(pattern.rrule)
+    if (rule.count !== undefined && rule.dtstart) {
+      const past = expandRRule(rule, rule.dtstart, { before: new Date(task.date.getTime() - 1) }).length
+      return formatRRule({ ...rule, count: Math.max(1, rule.count - past), dtstart: undefined })
+    }
+    return formatRRule({ ...rule, dtstart: undefined })
+  } catch {
+    return null
+  }
+}
+
+// Relative reminders become relative alarms when the component has the date
+// they're anchored to; everything else is exported at its absolute time
+function buildAlarms(task: CalendarTask, component: 'VEVENT' | 'VTODO'): string[] {
+  return task.reminders.flatMap(reminder => {
+    let trigger = `TRIGGER;VALUE=DATE-TIME:${formatDateTime(reminder.datetime)}`
+    if (reminder.offsetMinutes !== null) {
+      if (reminder.anchor === 'date' && task.date) {
+        trigger = `TRIGGER:${formatDuration(-reminder.offsetMinutes)}`
+      } else if (reminder.anchor === 'deadline' && component === 'VTODO') {
+        trigger = `TRIGGER;RELATED=END:${formatDuration(-reminder.offsetMinutes)}`
+      }
+    }
+
+    return [
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(task.name)}`,
+      trigger,
+      'END:VALARM',
+    ]
+  })
+}
+
+function buildComponent(task: CalendarTask, now: Date): string[] {
+  const component = task.deadline ? 'VTODO' : 'VEVENT'
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${task.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `CREATED:${formatDateTime(task.createdAt)}`,
+    `LAST-MODIFIED:${formatDateTime(task.updatedAt)}`,
+    `SUMMARY:${escapeText(task.name)}`,
+  ]
+
+  if (task.description) {
+    lines.push(`DESCRIPTION:${escapeText(task.description)}`)
+  }
+  if (task.date) {
+    lines.push(dateProperty('DTSTART', task.date))
+  }
+
+  if (component === 'VTODO') {
+    lines.push(dateProperty('DUE', task.deadline!))
+    lines.push(`STATUS:${task.completedAt ? 'COMPLETED' : 'NEEDS-ACTION'}`)
+    if (task.completedAt) {
+      lines.push(`COMPLETED:${formatDateTime(task.completedAt)}`)
+    }
+  } else if (task.date && !isAllDay(task.date)) {
+    lines.push(`DURATION:${formatDuration(task.estimates || 30)}`)
+  }
+
+  if (task.priority > 0) {
+    lines.push(`PRIORITY:${toICalPriority(task.priority)}`)
+  }
+  if (task.labels.length > 0) {
+    lines.push(`CATEGORIES:${task.labels.map(label => escapeText(label.name)).join(',')}`)
+  }
+
+  const rrule = getSeriesRule(task)
+  if (rrule) {
+    lines.push(`RRULE:${rrule}`)
+    for (const skipped of task.skippedDates ?? []) {
+      lines.push(dateProperty('EXDATE', skipped))
+    }
+  }
+
+  return [...lines, ...buildAlarms(task, component), `END:${component}`]
+}
+
+export function buildCalendar(tasks: CalendarTask[], options: CalendarOptions): string {
+  const now = options.now ?? new Date()
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...tasks
+      .filter(task => task.date || task.deadline)
+      .flatMap(task => buildComponent(task, now)),
+    'END:VCALENDAR',
+  ]
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+// Import
+
+export type ICalProperty = {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+export type ICalComponent = {
+  type: string
+  properties: ICalProperty[]
+  components: ICalComponent[]
+}
+
+// A VTODO mapped onto task fields, before it is saved
+export type ParsedTodo = {
+  uid: string | null
+  name: string
+  description: string | null
+  date: Date | null
+  deadline: Date | null
+  priority: number
+  completedAt: Date | null
+  recurringPattern: string | null
+  labels: string[]
+  reminders: ReminderSpec[]
+  warnings: string[]
+}
+
+export type ParseOptions = {
+  // Used for times without a UTC marker or a known TZID
+  timeZone?: string
+  now?: Date
+}
+
+export class ICalError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ICalError'
+  }
+}
+
+// iCalendar PRIORITY (1 highest - 9 lowest, 0 undefined) on our 0-3 scale
+export function fromICalPriority(priority: number): number {
+  if (priority >= 1 && priority <= 4) return 3
+  if (priority === 5) return 2
+  if (priority >= 6 && priority <= 9) return 1
+  return 0
+}
+
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => char.toLowerCase() === 'n' ? '\n' : char)
+}
+
+// Split a list value (e.g. CATEGORIES) on commas that aren't escaped
+function splitList(value: string): string[] {
+  return value.split(/(?<!\\),/).map(item => unescapeText(item).trim()).filter(Boolean)
+}
+
+function parseProperty(line: string): ICalProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false
+  let colon = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes
+    if (line[i] === ':' && !inQuotes) {
+      colon = i
+      break
+    }
+  }
+  if (colon === -1) {
+    return null
+  }
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';')
+  const params: Record<string, string> = {}
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=')
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '')
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) }
+}
+
+// Parse an iCalendar document into its component tree. Throws an ICalError
+// when it isn't one.
+export function parseICal(text: string): ICalComponent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.trim())
+  const root: ICalComponent = { type: 'ROOT', properties: [], components: [] }
+  const stack = [root]
+
+  for (const line of lines) {
+    const property = parseProperty(line)
+    if (!property) {
+      continue
+    }
+
+    const current = stack[stack.length - 1]
+    if (property.name === 'BEGIN') {
+      const component = { type: property.value.toUpperCase(), properties: [], components: [] }
+      current.components.push(component)
+      stack.push(component)
+    } else if (property.name === 'END') {
+      if (stack.length === 1 || current.type !== property.value.toUpperCase()) {
+        throw new ICalError(`Unexpected END:${property.value}`)
+      }
+      stack.pop()
+    } else {
+      current.properties.push(property)
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new ICalError(`Missing END:${stack[stack.length - 1].type}`)
+  }
+  if (!root.components.some(component => component.type === 'VCALENDAR')) {
+    throw new ICalError('Not an iCalendar file')
+  }
+  return root.components
+}
+
+// DATE values become midnight UTC (all-day); DATE-TIME values are UTC, in
+// their TZID or, when floating, in the given timezone
+export function parseICalDate(property: ICalProperty, timeZone = 'UTC'): Date | null {
+  const match = property.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i)
+  if (!match) {
+    return null
+  }
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match
+  const wallClock = Date.UTC(
+    Number(year), Number(month) - 1, Number(day),
+    Number(hours ?? 0), Number(minutes ?? 0), Number(seconds ?? 0)
+  )
+  if (hours === undefined || utc) {
+    return new Date(wallClock)
+  }
+
+  const zone = property.params.TZID && isValidTimeZone(property.params.TZID) ? property.params.TZID : timeZone
+  return zonedTimeToUtc(wallClock, zone)
+}
+
+// e.g. "-PT15M" or "P1DT2H", in minutes
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i)
+  if (!match) {
+    return null
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match
+  const total = Number(weeks ?? 0) * 10080 + Number(days ?? 0) * 1440 +
+    Number(hours ?? 0) * 60 + Number(minutes ?? 0) + Math.round(Number(seconds ?? 0) / 60)
+  return sign === '-' ? -total : total
+}
+
+function parseAlarm(alarm: ICalComponent, todo: Pick<ParsedTodo, 'date' | 'deadline'>, timeZone: string): ReminderSpec | null {
+  const trigger = alarm.properties.find(property => property.name === 'TRIGGER')
+  if (!trigger) {
+    return null
+  }
+
+  if (trigger.params.VALUE === 'DATE-TIME') {
+    return parseICalDate(trigger, timeZone)?.toISOString() ?? null
+  }
+
+  const minutes = parseDuration(trigger.value)
+  if (minutes === null) {
+    return null
+  }
+
+  // Relative to DTSTART by default, or to DUE with RELATED=END
+  const anchor = trigger.params.RELATED === 'END' || !todo.date ? 'deadline' : 'date'
+  return todo[anchor] ? { anchor, offsetMinutes: -minutes } : null
+}
+
+function parseTodo(todo: ICalComponent, options: Required<ParseOptions>): ParsedTodo {
+  const { timeZone, now } = options
+  const get = (name: string) => todo.properties.find(property => property.name === name)
+  const getDate = (name: string) => {
+    const property = get(name)
+    return property ? parseICalDate(property, timeZone) : null
+  }
+  const warnings: string[] = []
+
+  const summary = get('SUMMARY')?.value
+  const description = get('DESCRIPTION')?.value
+  let date = getDate('DTSTART')
+  let deadline = getDate('DUE')
+  const duration = get('DURATION')
+  if (!deadline && date && duration) {
+    const minutes = parseDuration(duration.value)
+    deadline = minutes !== null ? new Date(date.getTime() + minutes * 60 * 1000) : null
+  }
+
+  const status = get('STATUS')?.value.toUpperCase()
+  let completedAt = getDate('COMPLETED')
+  if (!completedAt && (status === 'COMPLETED' || status === 'CANCELLED')) {
+    completedAt = getDate('LAST-MODIFIED') ?? now
+  }
+  if (status === 'CANCELLED') {
+    warnings.push('Cancelled in the calendar, imported as completed')
+  }
+
+  let recurringPattern: string | null = null
+  const rrule = get('RRULE')
+  if (rrule) {
+    try {
+      recurringPattern = JSON.stringify(patternFromRRule(rrule.value))
+      // Recurring tasks repeat from their date
+      date = date ?? deadline
+      if (!date) {
+        recurringPattern = null
+        warnings.push('Repeats without a start or due date, imported once')
+      }
+    } catch {
+      warnings.push(`Unsupported repeat rule "${rrule.value}", imported once`)
+    }
+  }
+
+  const labels = Array.from(new Set(
+    todo.properties
+      .filter(property => property.name === 'CATEGORIES')
+      .flatMap(property => splitList(property.value))
+  ))
+
+  const reminders: ReminderSpec[] = []
+  for (const alarm of todo.components.filter(component => component.type === 'VALARM')) {
+    const reminder = parseAlarm(alarm, { date, deadline }, timeZone)
+    if (reminder) {
+      reminders.push(reminder)
+    } else {
+      warnings.push('Skipped an alarm that could not be converted to a reminder')
+    }
+  }
+
+  if (!summary) {
+    warnings.push('No title, imported as "Untitled task"')
+  }
+
+  return {
+    uid: get('UID')?.value.trim() || null,
+    name: summary ? unescapeText(summary).trim() || 'Untitled task' : 'Untitled task',
+    description: description ? unescapeText(description) : null,
+    date,
+    deadline,
+    priority: fromICalPriority(Number(get('PRIORITY')?.value ?? 0)),
+    completedAt,
+    recurringPattern,
+    labels,
+    reminders,
+    warnings,
+  }
+}
+
+// All VTODOs of an iCalendar document. Overrides of single occurrences
+// (RECURRENCE-ID) can't be represented and are left out.
+export function parseTodos(text: string, options: ParseOptions = {}): ParsedTodo[] {
+  const resolved = { timeZone: options.timeZone ?? 'UTC', now: options.now ?? new Date() }
+
+  return parseICal(text)
+    .filter(component => component.type === 'VCALENDAR')
+    .flatMap(calendar => calendar.components)
+    .filter(component => component.type === 'VTODO')
+    .filter(todo => !todo.properties.some(property => property.name === 'RECURRENCE-ID'))
+    .map(todo => parseTodo(todo, resolved))
+}
@@ -0,0 +1,130 @@
+import { Task } from '@prisma/client'
+
+// Eisenhower matrix: open tasks sorted by whether they're urgent and important.
+// Days are the browser's local days, like the task views.
+
+export type MatrixQuadrant = 'do' | 'schedule' | 'delegate' | 'eliminate'
+
+export type MatrixSettings = {
+  // Tasks whose date or deadline is at most this many days away are urgent,
+  // as are overdue ones
+  urgentDays: number
+  // Tasks at this priority or above are important...
+  importantPriority: number
+  // ...and so are tasks with any of these labels
+  importantLabelIds: string[]
+}
+
+export const DEFAULT_MATRIX_SETTINGS: MatrixSettings = {
+  urgentDays: 2,
+  importantPriority: 2,
+  importantLabelIds: [],
+}
+
+export const MATRIX_QUADRANTS: {
+  id: MatrixQuadrant
+  title: string
+  description: string
+  urgent: boolean
+  important: boolean
+}[] = [
+  { id: 'do', title: 'Do first', description: 'Urgent and important', urgent: true, important: true },
+  { id: 'schedule', title: 'Schedule', description: 'Important, not urgent', urgent: false, important: true },
+  { id: 'delegate', title: 'Delegate', description: 'Urgent, not important', urgent: true, important: false },
+  { id: 'eliminate', title: 'Eliminate', description: 'Neither urgent nor important', urgent: false, important: false },
+]
+
+export type MatrixTask = Pick<Task, 'priority'> & {
+  date: Date | string | null
+  deadline: Date | string | null
+  labels: { id: string }[]
+}
+
+// Fields sent to the server when a task is dragged to another quadrant
+export type MatrixTaskChanges = {
+  priority?: number
+  labels?: string[]
+  date?: string
+  deadline?: string
+}
+
+const startOfLocalDay = (date: Date, offsetDays = 0) => {
+  const day = new Date(date)
+  day.setHours(0, 0, 0, 0)
+  day.setDate(day.getDate() + offsetDays)
+  return day
+}
+
+// First day that's no longer urgent
+const getUrgentEnd = (settings: MatrixSettings, now: Date) => startOfLocalDay(now, settings.urgentDays + 1)
+
+const isBefore = (value: Date | string | null, end: Date) => value !== null && new Date(value) < end
+
+export function isUrgent(task: MatrixTask, settings: MatrixSettings, now: Date = new Date()): boolean {
+  const end = getUrgentEnd(settings, now)
+  return isBefore(task.date, end) || isBefore(task.deadline, end)
+}
+
+export function isImportant(task: MatrixTask, settings: MatrixSettings): boolean {
+  return task.priority >= settings.importantPriority ||
+    task.labels.some(label => settings.importantLabelIds.includes(label.id))
+}
+
+export function getQuadrant(task: MatrixTask, settings: MatrixSettings, now: Date = new Date()): MatrixQuadrant {
+  const urgent = isUrgent(task, settings, now)
+  const important = isImportant(task, settings)
+  return MATRIX_QUADRANTS.find(quadrant => quadrant.urgent === urgent && quadrant.important === important)!.id
+}
+
+// Move a date to another day, keeping its time of day. Without a date the
+// task gets the day as an all-day date, stored at UTC midnight like the
+// dates picked in the task form.
+const moveToDay = (value: Date | string | null, day: Date) => {
+  if (value === null) {
+    return new Date(Date.UTC(day.getFullYear(), day.getMonth(), day.getDate())).toISOString()
+  }
+
+  const date = new Date(day)
+  const current = new Date(value)
+  date.setHours(current.getHours(), current.getMinutes(), 0, 0)
+  return date.toISOString()
+}
+
+// The smallest change that puts a task in the target quadrant: priority and
+// labels decide importance, the date and deadline decide urgency
+export function getQuadrantChanges(
+  task: MatrixTask,
+  target: MatrixQuadrant,
+  settings: MatrixSettings,
+  now: Date = new Date()
+): MatrixTaskChanges {
+  const { urgent, important } = MATRIX_QUADRANTS.find(quadrant => quadrant.id === target)!
+  const changes: MatrixTaskChanges = {}
+
+  if (important && !isImportant(task, settings)) {
+    changes.priority = settings.importantPriority
+  } else if (!important && isImportant(task, settings)) {
+    if (task.priority >= settings.importantPriority) {
+      changes.priority = settings.importantPriority - 1
+    }
+    if (task.labels.some(label => settings.importantLabelIds.includes(label.id))) {
+      changes.labels = task.labels
+        .filter(label => !settings.importantLabelIds.includes(label.id))
+        .map(label => label.id)
+    }
+  }
+
+  if (urgent && !isUrgent(task, settings, now)) {
+    changes.date = moveToDay(task.date, startOfLocalDay(now))
+  } else if (!urgent && isUrgent(task, settings, now)) {
+    const end = getUrgentEnd(settings, now)
+    if (isBefore(task.date, end)) {
+      changes.date = moveToDay(task.date, end)
+    }
+    if (isBefore(task.deadline, end)) {
+      changes.deadline = moveToDay(task.deadline, end)
+    }
+  }
+
+  return changes
+}
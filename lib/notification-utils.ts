@@ -0,0 +1,111 @@
+import { Task } from '@prisma/client'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const UPCOMING_DAYS = 7
+
+export type DigestTask = Pick<Task, 'id' | 'name' | 'date' | 'deadline' | 'priority' | 'completedAt'>
+
+export type Digest = {
+  today: DigestTask[]
+  overdue: DigestTask[]
+  upcoming: DigestTask[]
+}
+
+export type DigestPreferences = {
+  timezone: string
+  digestEnabled: boolean
+  digestTime: string
+  lastDigestDate: string | null
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Calendar day (YYYY-MM-DD) of a date in an IANA timezone
+export function getLocalDayKey(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date)
+}
+
+// Milliseconds the timezone is ahead of UTC at a date
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date)
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value)
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - date.getTime()
+}
+
+// Wall-clock time in a timezone to the instant it refers to
+export function zonedTimeToUtc(wallClock: number, timeZone: string): Date {
+  const firstGuess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone)
+  return new Date(wallClock - getTimeZoneOffset(new Date(firstGuess), timeZone))
+}
+
+// Instant the user's day starts, offsetDays from the day of the date
+export function getLocalDayStart(date: Date, timeZone: string, offsetDays = 0): Date {
+  const [year, month, day] = getLocalDayKey(date, timeZone).split('-').map(Number)
+  return zonedTimeToUtc(Date.UTC(year, month - 1, day + offsetDays), timeZone)
+}
+
+// The same wall-clock time some days later, across DST changes
+export function addLocalDays(date: Date, days: number, timeZone: string): Date {
+  return zonedTimeToUtc(date.getTime() + getTimeZoneOffset(date, timeZone) + days * DAY_MS, timeZone)
+}
+
+// Time of day (HH:mm, 24-hour) of a date in an IANA timezone
+export function getLocalTime(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(date)
+}
+
+// A digest is due once the user's send time has passed on a day that hasn't had one yet
+export function isDigestDue(user: DigestPreferences, now: Date): boolean {
+  return user.digestEnabled &&
+    getLocalTime(now, user.timezone) >= user.digestTime &&
+    getLocalDayKey(now, user.timezone) !== user.lastDigestDate
+}
+
+const byDueDate = (getDate: (task: DigestTask) => Date | null) => (a: DigestTask, b: DigestTask) =>
+  (getDate(a)?.getTime() ?? 0) - (getDate(b)?.getTime() ?? 0) || b.priority - a.priority
+
+// Split open tasks into the digest sections. "Today" matches the Today view
+// in task-view.tsx (tasks dated on the user's current day) minus anything
+// already overdue; each task is listed once.
+export function buildDigest(tasks: DigestTask[], now: Date, timeZone: string): Digest {
+  const todayKey = getLocalDayKey(now, timeZone)
+  const upcomingEnd = new Date(now.getTime() + UPCOMING_DAYS * DAY_MS)
+  const openTasks = tasks.filter(task => !task.completedAt)
+
+  const overdue = openTasks.filter(task =>
+    task.deadline ? task.deadline < now : !!task.date && getLocalDayKey(task.date, timeZone) < todayKey
+  )
+  const today = openTasks.filter(task =>
+    !overdue.includes(task) && !!task.date && getLocalDayKey(task.date, timeZone) === todayKey
+  )
+  const upcoming = openTasks.filter(task =>
+    !overdue.includes(task) && !today.includes(task) &&
+    !!task.deadline && task.deadline >= now && task.deadline <= upcomingEnd
+  )
+
+  return {
+    today: today.sort(byDueDate(task => task.date)),
+    overdue: overdue.sort(byDueDate(task => task.deadline ?? task.date)),
+    upcoming: upcoming.sort(byDueDate(task => task.deadline)),
+  }
+}
+
+export function isDigestEmpty(digest: Digest): boolean {
+  return digest.today.length === 0 && digest.overdue.length === 0 && digest.upcoming.length === 0
+}
@@ -0,0 +1,57 @@
+import prisma from './prisma';
+
+export type OwnedResource = 'task' | 'list' | 'label' | 'reminder' | 'attachment' | 'timeEntry' | 'smartList';
+
+// Check whether a record belongs to the user. Reminders and attachments
+// have no userId of their own and belong to whoever owns their task.
+export async function isOwnedBy(resource: OwnedResource, id: string, userId: string): Promise<boolean> {
+  switch (resource) {
+    case 'task':
+      return (await prisma.task.count({ where: { id, userId } })) > 0;
+    case 'list':
+      return (await prisma.list.count({ where: { id, userId } })) > 0;
+    case 'label':
+      return (await prisma.label.count({ where: { id, userId } })) > 0;
+    case 'reminder':
+      return (await prisma.reminder.count({ where: { id, task: { userId } } })) > 0;
+    case 'attachment':
+      return (await prisma.attachment.count({ where: { id, task: { userId } } })) > 0;
+    case 'timeEntry':
+      return (await prisma.timeEntry.count({ where: { id, userId } })) > 0;
+    case 'smartList':
+      return (await prisma.smartList.count({ where: { id, userId } })) > 0;
+    default:
+      return false;
+  }
+}
+
+type References = {
+  listId?: string;
+  labelIds?: string[];
+  taskId?: string;
+};
+
+// Verify that every record referenced by a request body belongs to the user.
+// Returns an error message for the first foreign or missing reference, or null.
+export async function findForeignReference(userId: string, references: References): Promise<string | null> {
+  if (references.listId && !(await isOwnedBy('list', references.listId, userId))) {
+    return 'List not found';
+  }
+
+  if (references.taskId && !(await isOwnedBy('task', references.taskId, userId))) {
+    return 'Task not found';
+  }
+
+  if (references.labelIds && references.labelIds.length > 0) {
+    const uniqueLabelIds = Array.from(new Set(references.labelIds));
+    const ownedCount = await prisma.label.count({
+      where: { id: { in: uniqueLabelIds }, userId },
+    });
+
+    if (ownedCount !== uniqueLabelIds.length) {
+      return 'Label not found';
+    }
+  }
+
+  return null;
+}
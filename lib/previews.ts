@@ -0,0 +1,118 @@
+import { execFile } from 'child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import sharp from 'sharp';
+import { getPreviewKey, getStorage } from './storage';
+import { PreviewKind, TEXT_SNIPPET_LENGTH, getPreviewKind, getTextSnippet } from './attachment-utils';
+
+const execFileAsync = promisify(execFile);
+
+export const THUMBNAIL_SIZE = 320;
+const PDF_RENDER_TIMEOUT_MS = 15_000;
+
+const PREVIEW_CONTENT_TYPES: Record<PreviewKind, string> = {
+  image: 'image/webp',
+  text: 'text/plain; charset=utf-8',
+};
+
+// Render the first page of a PDF to PNG with poppler's pdftoppm, which has
+// to be installed on the server for PDF previews.
+async function renderPdfFirstPage(data: Buffer): Promise<Buffer> {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'attachment-preview-'));
+  try {
+    const input = path.join(dir, 'input.pdf');
+    await writeFile(input, data);
+    await execFileAsync(
+      'pdftoppm',
+      ['-png', '-singlefile', '-f', '1', '-l', '1', '-scale-to', String(THUMBNAIL_SIZE * 2), input, path.join(dir, 'page')],
+      { timeout: PDF_RENDER_TIMEOUT_MS }
+    );
+    return await readFile(path.join(dir, 'page.png'));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+export async function createPreview(type: string, data: Buffer): Promise<Buffer | null> {
+  const kind = getPreviewKind(type);
+  if (kind === 'text') {
+    // Decode a little extra so a multi-byte character isn't split at the cut
+    return Buffer.from(getTextSnippet(data.subarray(0, TEXT_SNIPPET_LENGTH * 4).toString('utf8')));
+  }
+  if (kind === 'image') {
+    const image = type === 'application/pdf' ? await renderPdfFirstPage(data) : data;
+    return sharp(image)
+      .rotate() // Respect EXIF orientation
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+  }
+  return null;
+}
+
+// How long a file whose preview failed is left alone before trying again.
+// Failures are only kept in memory, so a missing tool (e.g. pdftoppm) or a
+// passing error doesn't leave the file without a preview for good.
+export const FAILED_PREVIEW_RETRY_MS = 10 * 60 * 1000;
+
+// Preview key -> when making the preview last failed
+const failedPreviews = new Map<string, number>();
+
+function rememberFailure(previewKey: string, now: number) {
+  for (const [key, failedAt] of failedPreviews) {
+    if (now - failedAt >= FAILED_PREVIEW_RETRY_MS) {
+      failedPreviews.delete(key);
+    }
+  }
+  failedPreviews.set(previewKey, now);
+}
+
+// Serve the cached preview of an uploaded file, generating and caching it on
+// first use. Resolves to null when the file has no preview or it can't be made.
+export async function getPreview(storageKey: string, type: string, now: Date = new Date()) {
+  const kind = getPreviewKind(type);
+  if (!kind) {
+    return null;
+  }
+
+  const storage = getStorage();
+  const previewKey = getPreviewKey(storageKey);
+  const contentType = PREVIEW_CONTENT_TYPES[kind];
+
+  const cached = await storage.get(previewKey);
+  if (cached) {
+    const body = new Uint8Array(await new Response(cached).arrayBuffer());
+    // Empty previews were stored for failures by earlier versions
+    if (body.length > 0) {
+      return { body, contentType };
+    }
+  }
+
+  const failedAt = failedPreviews.get(previewKey);
+  if (failedAt !== undefined && now.getTime() - failedAt < FAILED_PREVIEW_RETRY_MS) {
+    return null;
+  }
+
+  const original = await storage.get(storageKey);
+  if (!original) {
+    return null;
+  }
+
+  let preview: Buffer | null = null;
+  try {
+    preview = await createPreview(type, Buffer.from(await new Response(original).arrayBuffer()));
+  } catch (error) {
+    console.error('Error generating preview:', error instanceof Error ? error.message : 'Unknown error');
+  }
+
+  if (!preview || preview.length === 0) {
+    rememberFailure(previewKey, now.getTime());
+    return null;
+  }
+
+  failedPreviews.delete(previewKey);
+  await storage.put(previewKey, preview, contentType);
+  return { body: new Uint8Array(preview), contentType };
+}
@@ -1,12 +1,23 @@
 import { Task } from '@prisma/client'
+import { RRule, parseRRule, formatRRule, formatRRuleWithStart, expandRRule, describeRRule, isRRuleString } from './rrule'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Longest range, in days, occurrences are listed for at once
+export const MAX_OCCURRENCE_RANGE_DAYS = 366
+
+// Upper bound on the occurrences a series is stepped through, so a date far
+// in the future can't keep the server busy
+const MAX_OCCURRENCE_STEPS = 10000
 
 export interface RecurringPattern {
-  type: 'daily' | 'weekly' | 'weekday' | 'monthly' | 'yearly' | 'custom'
+  type: 'daily' | 'weekly' | 'weekday' | 'monthly' | 'yearly' | 'custom' | 'rrule'
   interval: number
   daysOfWeek?: number[]
   dayOfMonth?: number
   month?: number
   endDate?: string
+  rrule?: string // RFC 5545 rule, only for type 'rrule'
 }
 
 // Parse a recurring pattern from string (JSON or legacy format)
@@ -15,6 +26,11 @@ export function parseRecurringPattern(pattern: string | RecurringPattern): Recur
     return validateRecurringPattern(pattern)
   }
   
+  // Raw RRULE strings, as imported from calendars
+  if (isRRuleString(pattern)) {
+    return patternFromRRule(pattern)
+  }
+  
   // Try to parse as JSON first
   try {
     const parsed = JSON.parse(pattern)
@@ -30,8 +46,13 @@ export function parseRecurringPattern(pattern: string | RecurringPattern): Recur
 
 // Validate recurring pattern and ensure required fields are present
 export function validateRecurringPattern(pattern: any): RecurringPattern {
-  const validTypes = ['daily', 'weekly', 'weekday', 'monthly', 'yearly', 'custom']
+  const validTypes = ['daily', 'weekly', 'weekday', 'monthly', 'yearly', 'custom', 'rrule']
   const type = validTypes.includes(pattern.type) ? pattern.type : 'daily'
+  
+  // RRULE patterns carry everything in the rule itself
+  if (type === 'rrule') {
+    return patternFromRRule(pattern.rrule || '')
+  }
   const interval = Math.max(1, pattern.interval || 1)
   
   const validatedPattern: RecurringPattern = {
@@ -129,6 +150,9 @@ export function getNextOccurrence(task: Task): Date | null {
       case 'custom':
         return getCustomNextOccurrence(lastDate, pattern)
         
+      case 'rrule':
+        return getRRuleNextOccurrence(lastDate, pattern)
+        
       default:
         return null
     }
@@ -145,6 +169,234 @@ export function getNextOccurrence(task: Task): Date | null {
   }
 }
 
+// A skipped, moved or edited occurrence of a recurring series, keyed by the
+// date the pattern originally generated for it
+export interface OccurrenceException {
+  originalDate: Date
+  isSkipped: boolean
+  newDate: Date | null
+}
+
+export interface Occurrence<T extends OccurrenceException = OccurrenceException> {
+  date: Date
+  originalDate: Date
+  exception?: T
+}
+
+export function findOccurrenceException<T extends OccurrenceException>(exceptions: T[], originalDate: Date): T | undefined {
+  return exceptions.find(exception => new Date(exception.originalDate).getTime() === originalDate.getTime())
+}
+
+// Find the first occurrence strictly after a given moment, stepping through
+// the series so overdue tasks don't spawn instances that are already late.
+// Returns the pattern date; skipped occurrences are passed over.
+export function getNextOccurrenceAfter(task: Task, after: Date, exceptions: OccurrenceException[] = []): Date | null {
+  // Rescheduled instances keep stepping from the date the pattern gave them
+  const seriesStart = task.occurrenceDate ?? task.date
+  let current = {
+    ...task,
+    date: seriesStart && skipAhead(seriesStart, after, parseRecurringPattern(task.recurringPattern || '')),
+  }
+
+  for (let i = 0; i < MAX_OCCURRENCE_STEPS; i++) {
+    const nextDate = getNextOccurrence(current)
+    if (!nextDate) {
+      return null
+    }
+    if (nextDate > after && !findOccurrenceException(exceptions, nextDate)?.isSkipped) {
+      return nextDate
+    }
+    current = { ...current, date: nextDate }
+  }
+
+  return null
+}
+
+// List the occurrences of a recurring task between two dates (inclusive),
+// starting with the task's own occurrence. Skipped occurrences are left out
+// and moved ones are listed on their new date.
+export function getOccurrencesBetween<T extends OccurrenceException>(
+  task: Task,
+  start: Date,
+  end: Date,
+  exceptions: T[] = [],
+  limit: number = 500
+): Occurrence<T>[] {
+  if (!task.isRecurring || !task.date) {
+    return []
+  }
+  
+  const taskDate = new Date(task.date)
+  const seriesStart = new Date(task.occurrenceDate ?? task.date)
+  // The task itself is the first occurrence, wherever it has been moved to
+  const occurrences: Occurrence<T>[] = [{ date: taskDate, originalDate: seriesStart }]
+  
+  for (const originalDate of getPatternDatesBetween(task, seriesStart, start, end, limit)) {
+    const exception = findOccurrenceException(exceptions, originalDate)
+    if (originalDate > seriesStart && !exception?.isSkipped) {
+      occurrences.push({ date: new Date(exception?.newDate ?? originalDate), originalDate, ...(exception ? { exception } : {}) })
+    }
+  }
+  
+  // Occurrences moved into the range from outside of it
+  for (const exception of exceptions) {
+    const originalDate = new Date(exception.originalDate)
+    const isListed = occurrences.some(occurrence => occurrence.originalDate.getTime() === originalDate.getTime())
+    if (!exception.isSkipped && exception.newDate && !isListed && originalDate > seriesStart) {
+      const date = new Date(exception.newDate)
+      if (date >= start && date <= end) {
+        occurrences.push({ date, originalDate, exception })
+      }
+    }
+  }
+  
+  return occurrences
+    .filter(occurrence => occurrence.date >= start && occurrence.date <= end)
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .slice(0, limit)
+}
+
+// Check whether a date is one the series generates, from the task's own occurrence on
+export function isSeriesOccurrence(task: Task, originalDate: Date): boolean {
+  if (!task.isRecurring || !task.date) {
+    return false
+  }
+  
+  const seriesStart = new Date(task.occurrenceDate ?? task.date)
+  if (originalDate.getTime() === seriesStart.getTime()) {
+    return true
+  }
+  
+  return getPatternDatesBetween(task, seriesStart, originalDate, originalDate, 1)
+    .some(date => date.getTime() === originalDate.getTime())
+}
+
+// Dates generated by the recurrence pattern from seriesStart, limited to a range
+function getPatternDatesBetween(task: Task, seriesStart: Date, start: Date, end: Date, limit: number): Date[] {
+  const pattern = parseRecurringPattern(task.recurringPattern || '')
+  
+  // RRULEs expand directly instead of stepping one occurrence at a time
+  if (pattern.type === 'rrule' && pattern.rrule) {
+    const rule = parseRRule(pattern.rrule)
+    const from = start > seriesStart ? start : seriesStart
+    return expandRRule(rule, rule.dtstart ?? seriesStart, {
+      after: new Date(from.getTime() - 1),
+      before: end,
+      limit,
+    })
+  }
+  
+  const dates: Date[] = []
+  let current = { ...task, date: seriesStart }
+  let date: Date | null = skipAhead(seriesStart, start, pattern)
+  
+  for (let i = 0; date && date <= end && dates.length < limit && i < MAX_OCCURRENCE_STEPS; i++) {
+    if (date >= start) {
+      dates.push(date)
+    }
+    current = { ...current, date }
+    date = getNextOccurrence(current)
+  }
+  
+  return dates
+}
+
+// Jump a pattern date forward by whole periods to shortly before a moment,
+// for patterns that repeat every so many days, so long-running daily series
+// aren't stepped through one day at a time
+function skipAhead(date: Date, before: Date, pattern: RecurringPattern): Date {
+  const periodDays = pattern.type === 'daily'
+    ? pattern.interval
+    : pattern.type === 'weekly' && !pattern.daysOfWeek?.length ? pattern.interval * 7 : 0
+  // One period less than fits, so daylight saving shifts can't overshoot
+  const periods = periodDays ? Math.floor((before.getTime() - date.getTime()) / (periodDays * DAY_MS)) - 1 : 0
+  if (periods <= 0) {
+    return date
+  }
+  
+  const skipped = new Date(date)
+  skipped.setDate(date.getDate() + periods * periodDays)
+  return skipped
+}
+
+// Build a pattern from an RRULE string. Throws an RRuleError if it is invalid.
+export function patternFromRRule(rrule: string): RecurringPattern {
+  const rule = parseRRule(rrule)
+  
+  return {
+    type: 'rrule',
+    interval: rule.interval,
+    rrule: formatRRuleWithStart(rule).replace(/^RRULE:/, ''),
+    ...(rule.until ? { endDate: rule.until.toISOString() } : {}),
+  }
+}
+
+// Convert any pattern to an RRULE value (without the "RRULE:" prefix) for export
+export function patternToRRule(pattern: RecurringPattern): string {
+  if (pattern.type === 'rrule' && pattern.rrule) {
+    return formatRRule(parseRRule(pattern.rrule))
+  }
+  
+  const rule: RRule = { freq: 'DAILY', interval: pattern.interval, weekStart: 1 }
+  const byDay = pattern.daysOfWeek?.map(weekday => ({ weekday }))
+  
+  switch (pattern.type) {
+    case 'weekly':
+      rule.freq = 'WEEKLY'
+      rule.byDay = byDay
+      break
+    case 'weekday':
+      rule.byDay = [1, 2, 3, 4, 5].map(weekday => ({ weekday }))
+      break
+    case 'monthly':
+      rule.freq = 'MONTHLY'
+      rule.byMonthDay = pattern.dayOfMonth ? [pattern.dayOfMonth] : undefined
+      break
+    case 'yearly':
+      rule.freq = 'YEARLY'
+      rule.byMonth = pattern.month ? [pattern.month] : undefined
+      rule.byMonthDay = pattern.dayOfMonth ? [pattern.dayOfMonth] : undefined
+      break
+    case 'custom':
+      if (byDay) {
+        rule.freq = 'WEEKLY'
+        rule.byDay = byDay
+      } else if (pattern.dayOfMonth) {
+        rule.freq = 'MONTHLY'
+        rule.byMonthDay = [pattern.dayOfMonth]
+      }
+      break
+  }
+  
+  if (pattern.endDate) {
+    const until = new Date(pattern.endDate)
+    until.setHours(23, 59, 59, 0)
+    rule.until = until
+  }
+  
+  return formatRRule(rule)
+}
+
+// Pin an RRULE series to its first occurrence so COUNT keeps counting from
+// there after later instances have been rolled forward
+export function anchorRecurringPattern(recurringPattern: string | null, start: Date): string | null {
+  if (!recurringPattern) {
+    return recurringPattern
+  }
+  
+  const pattern = parseRecurringPattern(recurringPattern)
+  if (pattern.type !== 'rrule' || !pattern.rrule) {
+    return recurringPattern
+  }
+  
+  const rule = parseRRule(pattern.rrule)
+  if (rule.dtstart) {
+    return recurringPattern
+  }
+  
+  return JSON.stringify(patternFromRRule(formatRRuleWithStart({ ...rule, dtstart: start })))
+}
+
 // Helper to find next date that matches any of the specified days of week
 function findNextDayOfWeek(baseDate: Date, targetDays: number[]): Date | null {
   const currentDay = baseDate.getDay()
@@ -187,6 +439,18 @@ function getCustomNextOccurrence(lastDate: Date, pattern: RecurringPattern): Dat
   return nextDate
 }
 
+// Calculate next occurrence for RRULE patterns. The series starts at DTSTART
+// when the rule has one, otherwise at the current occurrence.
+function getRRuleNextOccurrence(lastDate: Date, pattern: RecurringPattern): Date | null {
+  if (!pattern.rrule) {
+    return null
+  }
+  
+  const rule = parseRRule(pattern.rrule)
+  const [nextDate] = expandRRule(rule, rule.dtstart ?? lastDate, { after: lastDate, limit: 1 })
+  return nextDate ?? null
+}
+
 // Check if a task is currently active based on recurrence pattern
 export function isTaskActive(task: Task): boolean {
   if (!task.isRecurring) {
@@ -247,6 +511,13 @@ export function getRecurrenceSummary(pattern: RecurringPattern): string {
       }
       return `Every ${pattern.interval} years`
       
+    case 'rrule':
+      try {
+        return describeRRule(parseRRule(pattern.rrule || ''))
+      } catch {
+        return 'Recurring'
+      }
+      
     case 'custom':
       const parts: string[] = []
       if (pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
@@ -0,0 +1,243 @@
+import prisma from './prisma';
+import type { Prisma } from '@prisma/client';
+import { createPushChannel, getVapidDetails } from './web-push';
+import { createEmailChannel, isEmailConfigured } from './email';
+import { getReminderFireTime } from './reminder-utils';
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+// How long a worker owns a reminder it claimed before others may take it over
+const CLAIM_DURATION_MS = 5 * 60 * 1000;
+// Reminders this late (e.g. after downtime) are skipped rather than sent
+const MAX_LATENESS_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_BATCH_SIZE = 100;
+
+const dueReminderInclude = {
+  task: {
+    select: {
+      id: true,
+      name: true,
+      date: true,
+      deadline: true,
+      priority: true,
+      completedAt: true,
+      user: { select: { id: true, email: true, name: true, timezone: true, emailNotifications: true } },
+    },
+  },
+} satisfies Prisma.ReminderInclude;
+
+export type DueReminder = Prisma.ReminderGetPayload<{ include: typeof dueReminderInclude }>;
+
+// A way of telling the user about a reminder. send() should throw when the
+// reminder could not be delivered so it gets retried.
+export interface ReminderChannel {
+  name: string;
+  send(reminder: DueReminder): Promise<void>;
+}
+
+export type ReminderRunSummary = {
+  delivered: number;
+  retrying: number;
+  failed: number;
+  skipped: number;
+};
+
+// Fields that put a reminder back in the queue, e.g. after it was moved
+export const pendingDeliveryState = {
+  status: 'pending',
+  attempts: 0,
+  nextAttemptAt: null,
+  lockedUntil: null,
+  deliveredAt: null,
+  lastError: null,
+} as const;
+
+// Wait 1, 2, 4, 8... minutes between attempts
+export function getRetryDelay(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+}
+
+// POST the reminder as JSON to a URL, e.g. a chat or automation webhook
+export function createWebhookChannel(url: string): ReminderChannel {
+  return {
+    name: 'webhook',
+    async send(reminder) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          reminderId: reminder.id,
+          datetime: reminder.datetime,
+          task: {
+            id: reminder.task.id,
+            name: reminder.task.name,
+            date: reminder.task.date,
+            deadline: reminder.task.deadline,
+          },
+          user: { email: reminder.task.user.email, name: reminder.task.user.name },
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded with status ${response.status}`);
+      }
+    },
+  };
+}
+
+// Channels enabled by the environment
+export function getReminderChannels(): ReminderChannel[] {
+  const channels: ReminderChannel[] = [];
+  if (process.env.REMINDER_WEBHOOK_URL) {
+    channels.push(createWebhookChannel(process.env.REMINDER_WEBHOOK_URL));
+  }
+  const vapid = getVapidDetails();
+  if (vapid) {
+    channels.push(createPushChannel(vapid));
+  }
+  if (isEmailConfigured()) {
+    channels.push(createEmailChannel());
+  }
+  return channels;
+}
+
+// Take ownership of a reminder. Only one worker can win the update, so a
+// reminder is never processed twice at the same time; claims left behind by
+// a crashed worker expire and are picked up again.
+async function claimReminder(id: string, now: Date): Promise<boolean> {
+  const { count } = await prisma.reminder.updateMany({
+    where: {
+      id,
+      OR: [
+        { status: 'pending' },
+        { status: 'processing', lockedUntil: { lt: now } },
+      ],
+    },
+    data: {
+      status: 'processing',
+      lockedUntil: new Date(now.getTime() + CLAIM_DURATION_MS),
+    },
+  });
+  return count === 1;
+}
+
+async function deliverReminder(
+  reminder: DueReminder,
+  channels: ReminderChannel[],
+  now: Date
+): Promise<keyof ReminderRunSummary> {
+  if (reminder.task.completedAt || getReminderFireTime(reminder).getTime() < now.getTime() - MAX_LATENESS_MS) {
+    await prisma.reminder.update({
+      where: { id: reminder.id },
+      data: {
+        status: 'skipped',
+        lockedUntil: null,
+        lastError: reminder.task.completedAt ? 'Task already completed' : 'Reminder is too late to send',
+      },
+    });
+    return 'skipped';
+  }
+
+  // Channels that already succeeded on an earlier attempt aren't sent again
+  const deliveries = await prisma.reminderDelivery.findMany({
+    where: { reminderId: reminder.id },
+    select: { channel: true },
+  });
+  const delivered = new Set(deliveries.map(delivery => delivery.channel));
+
+  const errors: string[] = [];
+  for (const channel of channels) {
+    if (delivered.has(channel.name)) {
+      continue;
+    }
+    try {
+      await channel.send(reminder);
+      await prisma.reminderDelivery.create({
+        data: { reminderId: reminder.id, channel: channel.name },
+      });
+    } catch (error) {
+      errors.push(`${channel.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  const attempts = reminder.attempts + 1;
+  if (errors.length === 0) {
+    await prisma.reminder.update({
+      where: { id: reminder.id },
+      data: { status: 'delivered', attempts, deliveredAt: now, lockedUntil: null, lastError: null },
+    });
+    return 'delivered';
+  }
+
+  const hasAttemptsLeft = attempts < MAX_DELIVERY_ATTEMPTS;
+  await prisma.reminder.update({
+    where: { id: reminder.id },
+    data: {
+      status: hasAttemptsLeft ? 'pending' : 'failed',
+      attempts,
+      nextAttemptAt: hasAttemptsLeft ? new Date(now.getTime() + getRetryDelay(attempts)) : null,
+      lockedUntil: null,
+      lastError: errors.join('; '),
+    },
+  });
+  return hasAttemptsLeft ? 'retrying' : 'failed';
+}
+
+// Send every reminder that is due, one batch at a time. Safe to run from
+// several schedulers at once.
+export async function processDueReminders(options: {
+  now?: Date;
+  limit?: number;
+  channels?: ReminderChannel[];
+} = {}): Promise<ReminderRunSummary> {
+  const now = options.now ?? new Date();
+  const channels = options.channels ?? getReminderChannels();
+  const summary: ReminderRunSummary = { delivered: 0, retrying: 0, failed: 0, skipped: 0 };
+
+  const due = await prisma.reminder.findMany({
+    where: {
+      AND: [
+        // Snoozed reminders wait for the end of the snooze instead
+        { OR: [{ snoozedUntil: null, datetime: { lte: now } }, { snoozedUntil: { lte: now } }] },
+        {
+          OR: [
+            { status: 'pending', OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }] },
+            { status: 'processing', lockedUntil: { lt: now } },
+          ],
+        },
+      ],
+    },
+    orderBy: { datetime: 'asc' },
+    take: options.limit ?? DEFAULT_BATCH_SIZE,
+    select: { id: true },
+  });
+
+  // With nowhere to send them, due reminders stay pending until a channel is
+  // configured instead of being marked as delivered
+  if (due.length > 0 && channels.length === 0) {
+    console.warn(`${due.length} reminders are due but no reminder channel is configured`);
+    return summary;
+  }
+
+  for (const { id } of due) {
+    if (!(await claimReminder(id, now))) {
+      continue;
+    }
+
+    const reminder = await prisma.reminder.findUnique({
+      where: { id },
+      include: dueReminderInclude,
+    });
+    if (!reminder) {
+      continue;
+    }
+
+    try {
+      summary[await deliverReminder(reminder, channels, now)]++;
+    } catch (error) {
+      // Leave the claim to expire so the reminder is retried on a later run
+      console.error('Error delivering reminder:', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  return summary;
+}
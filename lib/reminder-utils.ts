@@ -0,0 +1,92 @@
+import { Reminder, Task } from '@prisma/client'
+
+const MINUTE_MS = 60 * 1000
+
+// Task fields a relative reminder can be anchored to
+export const REMINDER_ANCHORS = ['date', 'deadline'] as const
+
+export type ReminderAnchor = typeof REMINDER_ANCHORS[number]
+
+// offsetMinutes before the anchor; negative values remind after it
+export type RelativeReminder = {
+  anchor: ReminderAnchor
+  offsetMinutes: number
+}
+
+// How reminders are given to the API: an absolute ISO datetime or relative to the task
+export type ReminderSpec = string | RelativeReminder
+
+export type ResolvedReminder = {
+  datetime: Date
+  anchor: ReminderAnchor | null
+  offsetMinutes: number | null
+}
+
+type ReminderTask = Pick<Task, 'date' | 'deadline'>
+
+export function isReminderAnchor(value: string | null): value is ReminderAnchor {
+  return REMINDER_ANCHORS.includes(value as ReminderAnchor)
+}
+
+export function getRelativeReminderTime(task: ReminderTask, anchor: ReminderAnchor, offsetMinutes: number): Date | null {
+  const anchorDate = task[anchor]
+  return anchorDate ? new Date(anchorDate.getTime() - offsetMinutes * MINUTE_MS) : null
+}
+
+// Turn a reminder spec into the columns stored on a Reminder. Returns null
+// for a relative reminder whose anchor isn't set on the task.
+export function resolveReminder(spec: ReminderSpec, task: ReminderTask): ResolvedReminder | null {
+  if (typeof spec === 'string') {
+    return { datetime: new Date(spec), anchor: null, offsetMinutes: null }
+  }
+
+  const datetime = getRelativeReminderTime(task, spec.anchor, spec.offsetMinutes)
+  return datetime ? { datetime, anchor: spec.anchor, offsetMinutes: spec.offsetMinutes } : null
+}
+
+type StoredReminder = Pick<Reminder, 'id' | 'datetime' | 'anchor' | 'offsetMinutes'>
+
+function isSameReminder(stored: StoredReminder, reminder: ResolvedReminder): boolean {
+  return reminder.anchor
+    ? stored.anchor === reminder.anchor && stored.offsetMinutes === reminder.offsetMinutes
+    : !stored.anchor && stored.datetime.getTime() === reminder.datetime.getTime()
+}
+
+// Match the reminders a task should have against the ones it has. Reminders
+// that stay keep their row, along with their delivery and snooze state; only
+// new ones are created and ones that are gone removed.
+export function diffReminders<T extends StoredReminder>(existing: T[], wanted: ResolvedReminder[]): { create: ResolvedReminder[]; remove: T[] } {
+  const unmatched = [...existing]
+  const create = wanted.filter(reminder => {
+    const index = unmatched.findIndex(stored => isSameReminder(stored, reminder))
+    if (index === -1) {
+      return true
+    }
+    unmatched.splice(index, 1)
+    return false
+  })
+
+  return { create, remove: unmatched }
+}
+
+// When a reminder goes off: a snooze postpones it without changing its original time
+export function getReminderFireTime(reminder: Pick<Reminder, 'datetime' | 'snoozedUntil'>): Date {
+  return reminder.snoozedUntil ?? reminder.datetime
+}
+
+function formatOffset(minutes: number): string {
+  const [value, unit] = minutes % 1440 === 0
+    ? [minutes / 1440, 'day']
+    : minutes % 60 === 0
+      ? [minutes / 60, 'hour']
+      : [minutes, 'minute']
+  return `${value} ${unit}${value === 1 ? '' : 's'}`
+}
+
+// e.g. "15 minutes before deadline", "1 day after date" or "At deadline"
+export function describeRelativeReminder(anchor: ReminderAnchor, offsetMinutes: number): string {
+  if (offsetMinutes === 0) {
+    return `At ${anchor}`
+  }
+  return `${formatOffset(Math.abs(offsetMinutes))} ${offsetMinutes > 0 ? 'before' : 'after'} ${anchor}`
+}
@@ -0,0 +1,474 @@
+// RFC 5545 recurrence rules (the subset tasks need): FREQ, INTERVAL, BYDAY
+// with ordinals, BYMONTHDAY, BYMONTH, BYSETPOS, COUNT, UNTIL and WKST.
+// Dates are expanded in local time and keep the time of day of DTSTART.
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+export interface RRuleWeekday {
+  weekday: number // 0-6, where 0 is Sunday
+  ordinal?: number // e.g. 2 for 2TU, -1 for -1FR
+}
+
+export interface RRule {
+  freq: RRuleFrequency
+  interval: number
+  byDay?: RRuleWeekday[]
+  byMonthDay?: number[]
+  byMonth?: number[]
+  bySetPos?: number[]
+  count?: number
+  until?: Date
+  weekStart: number
+  dtstart?: Date
+}
+
+export interface ExpandOptions {
+  after?: Date // only occurrences strictly after this moment
+  before?: Date // only occurrences up to and including this moment
+  limit?: number
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+const FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']
+
+// Guard against rules that never produce a match (e.g. BYMONTHDAY=31;BYMONTH=2)
+const MAX_PERIODS = 10000
+const DEFAULT_LIMIT = 1000
+
+export class RRuleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RRuleError'
+  }
+}
+
+// Check whether a string looks like an RRULE rather than a JSON or legacy pattern
+export function isRRuleString(value: string): boolean {
+  return /^\s*(RRULE:|DTSTART[:;]|FREQ=)/i.test(value)
+}
+
+export function isValidRRule(value: string): boolean {
+  try {
+    parseRRule(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Parse "FREQ=...", "RRULE:FREQ=..." or a DTSTART line followed by an RRULE line
+export function parseRRule(input: string): RRule {
+  let dtstart: Date | undefined
+  let ruleText: string | undefined
+
+  for (const rawLine of input.trim().split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line) continue
+
+    const dtstartMatch = line.match(/^DTSTART(?:;[^:]*)?:(.+)$/i)
+    if (dtstartMatch) {
+      dtstart = parseRRuleDate(dtstartMatch[1])
+      continue
+    }
+
+    ruleText = line.replace(/^RRULE:/i, '')
+  }
+
+  if (!ruleText) {
+    throw new RRuleError('RRULE is empty')
+  }
+
+  const parts: Record<string, string> = {}
+  for (const part of ruleText.split(';')) {
+    if (!part) continue
+    const [key, value] = part.split('=')
+    if (!key || value === undefined || value === '') {
+      throw new RRuleError(`Invalid RRULE part "${part}"`)
+    }
+    parts[key.toUpperCase()] = value.toUpperCase()
+  }
+
+  const freq = parts.FREQ as RRuleFrequency
+  if (!FREQUENCIES.includes(freq)) {
+    throw new RRuleError(`Unsupported FREQ "${parts.FREQ ?? ''}"`)
+  }
+
+  const rule: RRule = {
+    freq,
+    interval: 1,
+    weekStart: 1,
+    ...(dtstart ? { dtstart } : {}),
+  }
+
+  for (const [key, value] of Object.entries(parts)) {
+    switch (key) {
+      case 'FREQ':
+        break
+      case 'INTERVAL':
+        rule.interval = parseInteger(value, key, 1)
+        break
+      case 'COUNT':
+        rule.count = parseInteger(value, key, 1)
+        break
+      case 'UNTIL':
+        rule.until = parseRRuleDate(value, true)
+        break
+      case 'WKST':
+        rule.weekStart = parseWeekdayCode(value)
+        break
+      case 'BYDAY':
+        rule.byDay = value.split(',').map(parseWeekday)
+        break
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntegerList(value, key, 31)
+        break
+      case 'BYMONTH':
+        rule.byMonth = parseIntegerList(value, key, 12, false)
+        break
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntegerList(value, key, 366)
+        break
+      default:
+        throw new RRuleError(`Unsupported RRULE part "${key}"`)
+    }
+  }
+
+  if (rule.count !== undefined && rule.until) {
+    throw new RRuleError('COUNT and UNTIL cannot be used together')
+  }
+
+  return rule
+}
+
+// Serialize a rule back to its canonical RRULE value (without the "RRULE:" prefix)
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`]
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`)
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`)
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${WEEKDAY_CODES[day.weekday]}`).join(',')}`)
+  }
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`)
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`)
+  if (rule.until) parts.push(`UNTIL=${formatRRuleDate(rule.until)}`)
+  if (rule.weekStart !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart]}`)
+
+  return parts.join(';')
+}
+
+// Serialize a rule including its DTSTART line, when it has one
+export function formatRRuleWithStart(rule: RRule): string {
+  const value = `RRULE:${formatRRule(rule)}`
+  return rule.dtstart ? `DTSTART:${formatRRuleDate(rule.dtstart)}\n${value}` : value
+}
+
+// Expand a rule into occurrence dates in ascending order. DTSTART is the first
+// occurrence and COUNT is counted from there, regardless of options.after.
+export function expandRRule(rule: RRule, dtstart: Date = rule.dtstart ?? new Date(), options: ExpandOptions = {}): Date[] {
+  const limit = options.limit ?? DEFAULT_LIMIT
+  const occurrences: Date[] = []
+  let produced = 0
+
+  const emit = (date: Date): boolean => {
+    if (rule.until && date > rule.until) return false
+    if (options.before && date > options.before) return false
+    if (rule.count !== undefined && produced >= rule.count) return false
+
+    produced++
+    if (!options.after || date > options.after) {
+      occurrences.push(date)
+    }
+    return occurrences.length < limit
+  }
+
+  // DTSTART always counts as the first occurrence, even if the rule wouldn't match it
+  if (!emit(new Date(dtstart))) {
+    return occurrences
+  }
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const candidates = applySetPos(getPeriodCandidates(rule, dtstart, period), rule.bySetPos)
+
+    for (const candidate of candidates) {
+      if (candidate <= dtstart) continue
+      if (!emit(candidate)) {
+        return occurrences
+      }
+    }
+  }
+
+  return occurrences
+}
+
+// Describe a rule in plain English for display
+export function describeRRule(rule: RRule): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq]
+  const parts = [rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`]
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map(day => {
+      const name = DAY_NAMES[day.weekday]
+      return day.ordinal ? `${formatOrdinal(day.ordinal)} ${name}` : name
+    })
+    const hasOrdinal = rule.byDay.some(day => day.ordinal)
+    parts.push(`on ${hasOrdinal ? 'the ' : ''}${days.join(', ')}`)
+  }
+  if (rule.byMonthDay?.length) {
+    parts.push(`on day ${rule.byMonthDay.map(day => day < 0 ? formatOrdinal(day) : day).join(', ')}`)
+  }
+  if (rule.byMonth?.length) {
+    parts.push(`in ${rule.byMonth.map(month => MONTH_NAMES[month - 1]).join(', ')}`)
+  }
+  if (rule.bySetPos?.length) {
+    parts.push(`(${rule.bySetPos.map(formatOrdinal).join(', ')} match)`)
+  }
+  if (rule.count !== undefined) {
+    parts.push(`for ${rule.count} ${rule.count === 1 ? 'time' : 'times'}`)
+  }
+  if (rule.until) {
+    parts.push(`until ${rule.until.toLocaleDateString()}`)
+  }
+
+  return parts.join(' ')
+}
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+function formatOrdinal(n: number): string {
+  if (n === -1) return 'last'
+  if (n < 0) return `${formatOrdinal(-n)} to last`
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'
+  return `${n}${suffix}`
+}
+
+// Candidate dates for the n-th period (day, week, month or year) of the rule,
+// sorted ascending and before BYSETPOS is applied
+function getPeriodCandidates(rule: RRule, dtstart: Date, period: number): Date[] {
+  const step = period * rule.interval
+  const at = (year: number, month: number, day: number) =>
+    new Date(year, month, day, dtstart.getHours(), dtstart.getMinutes(), dtstart.getSeconds(), dtstart.getMilliseconds())
+
+  let days: Date[] = []
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      days = [at(dtstart.getFullYear(), dtstart.getMonth(), dtstart.getDate() + step)]
+      break
+    }
+
+    case 'WEEKLY': {
+      const offset = (dtstart.getDay() - rule.weekStart + 7) % 7
+      const weekStart = dtstart.getDate() - offset + step * 7
+      const weekdays = rule.byDay?.map(day => day.weekday) ?? [dtstart.getDay()]
+      for (let i = 0; i < 7; i++) {
+        const day = at(dtstart.getFullYear(), dtstart.getMonth(), weekStart + i)
+        if (weekdays.includes(day.getDay())) {
+          days.push(day)
+        }
+      }
+      break
+    }
+
+    case 'MONTHLY': {
+      const year = dtstart.getFullYear()
+      const month = dtstart.getMonth() + step
+      days = getMonthCandidates(rule, dtstart, new Date(year, month, 1).getFullYear(), ((month % 12) + 12) % 12, at)
+      break
+    }
+
+    case 'YEARLY': {
+      const year = dtstart.getFullYear() + step
+
+      if (rule.byDay?.length && !rule.byMonth?.length && !rule.byMonthDay?.length) {
+        // BYDAY ordinals are relative to the whole year when no month is given
+        days = getWeekdaysInRange(rule.byDay, at(year, 0, 1), daysInYear(year))
+      } else {
+        const months = rule.byMonth?.length
+          ? rule.byMonth.map(month => month - 1)
+          : rule.byMonthDay?.length && !rule.byMonth?.length
+            ? Array.from({ length: 12 }, (_, i) => i)
+            : [dtstart.getMonth()]
+        for (const month of months) {
+          days.push(...getMonthCandidates(rule, dtstart, year, month, at))
+        }
+      }
+      break
+    }
+  }
+
+  return days
+    .filter(day => matchesFilters(rule, day))
+    .sort((a, b) => a.getTime() - b.getTime())
+}
+
+// Days of a single month selected by BYMONTHDAY and/or BYDAY, falling back to
+// the day of month of DTSTART. Months without that day are skipped, per RFC 5545.
+function getMonthCandidates(
+  rule: RRule,
+  dtstart: Date,
+  year: number,
+  month: number,
+  at: (year: number, month: number, day: number) => Date
+): Date[] {
+  const length = daysInMonth(year, month)
+  const monthDays = rule.byMonthDay?.length
+    ? rule.byMonthDay
+        .map(day => day > 0 ? day : length + day + 1)
+        .filter(day => day >= 1 && day <= length)
+    : null
+
+  if (rule.byDay?.length) {
+    const weekdays = getWeekdaysInRange(rule.byDay, at(year, month, 1), length)
+    return monthDays ? weekdays.filter(day => monthDays.includes(day.getDate())) : weekdays
+  }
+
+  if (monthDays) {
+    return Array.from(new Set(monthDays)).map(day => at(year, month, day))
+  }
+
+  const day = dtstart.getDate()
+  return day <= length ? [at(year, month, day)] : []
+}
+
+// Resolve BYDAY entries (with optional ordinals) within a run of consecutive days
+function getWeekdaysInRange(byDay: RRuleWeekday[], start: Date, length: number): Date[] {
+  const result: Date[] = []
+
+  for (const { weekday, ordinal } of byDay) {
+    const matches: Date[] = []
+    for (let i = 0; i < length; i++) {
+      const day = new Date(start)
+      day.setDate(start.getDate() + i)
+      if (day.getDay() === weekday) {
+        matches.push(day)
+      }
+    }
+
+    if (!ordinal) {
+      result.push(...matches)
+    } else {
+      const match = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal]
+      if (match) {
+        result.push(match)
+      }
+    }
+  }
+
+  return result
+}
+
+// BYMONTH always limits; BYDAY and BYMONTHDAY limit when they don't already expand
+function matchesFilters(rule: RRule, day: Date): boolean {
+  if (rule.byMonth?.length && !rule.byMonth.includes(day.getMonth() + 1)) {
+    return false
+  }
+
+  if (rule.freq === 'DAILY') {
+    if (rule.byDay?.length && !rule.byDay.some(d => d.weekday === day.getDay())) {
+      return false
+    }
+    if (rule.byMonthDay?.length) {
+      const length = daysInMonth(day.getFullYear(), day.getMonth())
+      const matches = rule.byMonthDay.some(d => (d > 0 ? d : length + d + 1) === day.getDate())
+      if (!matches) return false
+    }
+  }
+
+  if (rule.freq === 'WEEKLY' && rule.byMonthDay?.length) {
+    const length = daysInMonth(day.getFullYear(), day.getMonth())
+    return rule.byMonthDay.some(d => (d > 0 ? d : length + d + 1) === day.getDate())
+  }
+
+  return true
+}
+
+function applySetPos(candidates: Date[], bySetPos?: number[]): Date[] {
+  if (!bySetPos?.length) {
+    return candidates
+  }
+
+  const selected = bySetPos
+    .map(pos => pos > 0 ? candidates[pos - 1] : candidates[candidates.length + pos])
+    .filter((date): date is Date => !!date)
+
+  return Array.from(new Set(selected)).sort((a, b) => a.getTime() - b.getTime())
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate()
+}
+
+function daysInYear(year: number): number {
+  return daysInMonth(year, 1) === 29 ? 366 : 365
+}
+
+function parseInteger(value: string, key: string, min: number): number {
+  const number = Number(value)
+  if (!Number.isInteger(number) || number < min) {
+    throw new RRuleError(`Invalid ${key} "${value}"`)
+  }
+  return number
+}
+
+function parseIntegerList(value: string, key: string, max: number, allowNegative = true): number[] {
+  return value.split(',').map(item => {
+    const number = Number(item)
+    const magnitude = Math.abs(number)
+    if (!Number.isInteger(number) || magnitude < 1 || magnitude > max || (!allowNegative && number < 0)) {
+      throw new RRuleError(`Invalid ${key} "${item}"`)
+    }
+    return number
+  })
+}
+
+function parseWeekdayCode(code: string): number {
+  const weekday = WEEKDAY_CODES.indexOf(code)
+  if (weekday === -1) {
+    throw new RRuleError(`Invalid weekday "${code}"`)
+  }
+  return weekday
+}
+
+// "TU", "2TU", "+2TU" or "-1FR"
+function parseWeekday(value: string): RRuleWeekday {
+  const match = value.match(/^([+-]?\d{1,2})?([A-Z]{2})$/)
+  if (!match) {
+    throw new RRuleError(`Invalid BYDAY "${value}"`)
+  }
+
+  const weekday = parseWeekdayCode(match[2])
+  if (!match[1]) {
+    return { weekday }
+  }
+
+  const ordinal = Number(match[1])
+  if (ordinal === 0 || Math.abs(ordinal) > 53) {
+    throw new RRuleError(`Invalid BYDAY "${value}"`)
+  }
+  return { weekday, ordinal }
+}
+
+// "20240131" (a whole day), "20240131T090000" (local) or "20240131T090000Z" (UTC)
+function parseRRuleDate(value: string, endOfDay = false): Date {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i)
+  if (!match) {
+    throw new RRuleError(`Invalid date "${value}"`)
+  }
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match
+  const parts = [Number(year), Number(month) - 1, Number(day)] as const
+
+  if (hours === undefined) {
+    return endOfDay ? new Date(...parts, 23, 59, 59, 999) : new Date(...parts)
+  }
+
+  const time = [Number(hours), Number(minutes), Number(seconds)] as const
+  return utc ? new Date(Date.UTC(...parts, ...time)) : new Date(...parts, ...time)
+}
+
+function formatRRuleDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
@@ -0,0 +1,270 @@
+// In-memory inverted index for task search. Results are ranked with BM25
+// over weighted fields; query words also match words that start with them
+// or are a typo or two away.
+
+export const SEARCH_FIELDS = ['name', 'labels', 'list', 'subtasks', 'description', 'attachments'] as const
+
+export type SearchField = typeof SEARCH_FIELDS[number]
+
+export type SearchDocument = {
+  id: string
+  fields: Partial<Record<SearchField, string>>
+}
+
+export type SearchToken = {
+  term: string
+  // Position in the original text
+  start: number
+  end: number
+}
+
+type FieldCounts = Partial<Record<SearchField, number>>
+
+export type SearchIndex = {
+  documents: SearchDocument[]
+  // term -> document index -> occurrences per field
+  postings: Map<string, Map<number, FieldCounts>>
+  lengths: FieldCounts[]
+  averageLengths: Record<SearchField, number>
+}
+
+export type SearchHit = {
+  id: string
+  score: number
+  // Indexed terms the query matched, for highlighting
+  terms: string[]
+}
+
+export type SnippetPart = {
+  text: string
+  highlight: boolean
+}
+
+export type SearchSnippet = {
+  field: SearchField
+  parts: SnippetPart[]
+}
+
+// Matches in the name count most, then labels and the list
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  labels: 2,
+  list: 1.5,
+  subtasks: 1.2,
+  description: 1,
+  attachments: 1,
+}
+
+const K1 = 1.2
+const B = 0.75
+const PREFIX_WEIGHT = 0.8
+const TYPO_WEIGHTS = [1, 0.6, 0.4]
+const SNIPPET_LENGTH = 120
+const SNIPPET_CONTEXT = 30
+
+// Lowercase without accents, so "Café" matches "cafe"
+export function normalizeTerm(word: string): string {
+  return word.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase()
+}
+
+export function tokenize(text: string): SearchToken[] {
+  return Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), match => ({
+    term: normalizeTerm(match[0]),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }))
+}
+
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const postings = new Map<string, Map<number, FieldCounts>>()
+  const lengths: FieldCounts[] = []
+  const totals: Record<SearchField, number> = { name: 0, labels: 0, list: 0, subtasks: 0, description: 0, attachments: 0 }
+
+  documents.forEach((document, index) => {
+    const documentLengths: FieldCounts = {}
+    for (const field of SEARCH_FIELDS) {
+      const tokens = tokenize(document.fields[field] ?? '')
+      documentLengths[field] = tokens.length
+      totals[field] += tokens.length
+
+      for (const { term } of tokens) {
+        const documentsWithTerm = postings.get(term) ?? new Map<number, FieldCounts>()
+        const counts = documentsWithTerm.get(index) ?? {}
+        counts[field] = (counts[field] ?? 0) + 1
+        documentsWithTerm.set(index, counts)
+        postings.set(term, documentsWithTerm)
+      }
+    }
+    lengths.push(documentLengths)
+  })
+
+  const averageLengths = { ...totals }
+  for (const field of SEARCH_FIELDS) {
+    averageLengths[field] = documents.length > 0 ? totals[field] / documents.length : 0
+  }
+
+  return { documents, postings, lengths, averageLengths }
+}
+
+// Edit distance counting a swap of neighbouring letters as one edit. Gives
+// up (returns max + 1) once the distance is known to exceed max.
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1
+  }
+
+  let previousPrevious: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMinimum = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previousPrevious[j - 2] + 1)
+      }
+      rowMinimum = Math.min(rowMinimum, current[j])
+    }
+    if (rowMinimum > max) {
+      return max + 1
+    }
+    previousPrevious = previous
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Longer words tolerate more typos; short ones have to be right
+function allowedTypos(term: string): number {
+  return term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0
+}
+
+// Indexed terms a query word matches, with how closely they match
+function expandTerm(index: SearchIndex, term: string): Map<string, number> {
+  const matches = new Map<string, number>()
+  const maxTypos = allowedTypos(term)
+
+  for (const indexed of index.postings.keys()) {
+    if (indexed === term) {
+      matches.set(indexed, 1)
+    } else if (term.length >= 2 && indexed.startsWith(term)) {
+      matches.set(indexed, PREFIX_WEIGHT)
+    } else if (maxTypos > 0) {
+      const distance = editDistance(term, indexed, maxTypos)
+      if (distance <= maxTypos) {
+        matches.set(indexed, TYPO_WEIGHTS[distance])
+      }
+    }
+  }
+  return matches
+}
+
+function scoreTerm(index: SearchIndex, term: string, documentIndex: number): number {
+  const documentsWithTerm = index.postings.get(term)!
+  const counts = documentsWithTerm.get(documentIndex)
+  if (!counts) {
+    return 0
+  }
+
+  const total = index.documents.length
+  const idf = Math.log(1 + (total - documentsWithTerm.size + 0.5) / (documentsWithTerm.size + 0.5))
+  let weighted = 0
+  for (const field of SEARCH_FIELDS) {
+    const frequency = counts[field] ?? 0
+    if (frequency === 0) continue
+    const length = index.lengths[documentIndex][field] ?? 0
+    const average = index.averageLengths[field] || 1
+    weighted += FIELD_WEIGHTS[field] * frequency / (frequency + K1 * (1 - B + B * length / average))
+  }
+  return idf * (K1 + 1) * weighted
+}
+
+// Documents matching every word of the query, best first
+export function searchIndex(index: SearchIndex, query: string): SearchHit[] {
+  const queryTerms = Array.from(new Set(tokenize(query).map(token => token.term)))
+  if (queryTerms.length === 0) {
+    return []
+  }
+
+  const scores = new Map<number, { score: number; terms: Set<string> }>()
+  queryTerms.forEach((queryTerm, position) => {
+    const expansions = expandTerm(index, queryTerm)
+    const termScores = new Map<number, { score: number; terms: string[] }>()
+
+    for (const [term, weight] of Array.from(expansions)) {
+      for (const documentIndex of Array.from(index.postings.get(term)!.keys())) {
+        // Only documents that matched the earlier words can still match all
+        if (position > 0 && !scores.has(documentIndex)) continue
+        const best = termScores.get(documentIndex) ?? { score: 0, terms: [] }
+        best.score = Math.max(best.score, weight * scoreTerm(index, term, documentIndex))
+        best.terms.push(term)
+        termScores.set(documentIndex, best)
+      }
+    }
+
+    for (const documentIndex of Array.from(scores.keys())) {
+      if (!termScores.has(documentIndex)) scores.delete(documentIndex)
+    }
+    for (const [documentIndex, { score, terms }] of Array.from(termScores)) {
+      const current = scores.get(documentIndex) ?? { score: 0, terms: new Set<string>() }
+      current.score += score
+      terms.forEach(term => current.terms.add(term))
+      scores.set(documentIndex, current)
+    }
+  })
+
+  // Names that are or contain the whole query rank above scattered matches
+  const phrase = normalizeTerm(query.trim())
+  return Array.from(scores)
+    .map(([documentIndex, { score, terms }]) => {
+      const name = normalizeTerm(index.documents[documentIndex].fields.name ?? '')
+      const boost = name === phrase ? 2 : name.includes(phrase) ? 1.25 : 1
+      return { documentIndex, hit: { id: index.documents[documentIndex].id, score: score * boost, terms: Array.from(terms) } }
+    })
+    .sort((a, b) => b.hit.score - a.hit.score || a.documentIndex - b.documentIndex)
+    .map(({ hit }) => hit)
+}
+
+// The text around the first match, with matched words highlighted
+export function buildSnippet(text: string, terms: Set<string>, maxLength = SNIPPET_LENGTH): SnippetPart[] | null {
+  const matches = tokenize(text).filter(token => terms.has(token.term))
+  if (matches.length === 0) {
+    return null
+  }
+
+  let start = 0
+  if (text.length > maxLength && matches[0].start > SNIPPET_CONTEXT) {
+    const boundary = text.lastIndexOf(' ', matches[0].start - SNIPPET_CONTEXT)
+    start = boundary === -1 ? 0 : boundary + 1
+  }
+  const end = Math.min(text.length, start + maxLength)
+
+  const parts: SnippetPart[] = []
+  let position = start
+  for (const match of matches) {
+    if (match.start < position || match.end > end) continue
+    if (match.start > position) {
+      parts.push({ text: text.slice(position, match.start), highlight: false })
+    }
+    parts.push({ text: text.slice(match.start, match.end), highlight: true })
+    position = match.end
+  }
+  if (position < end) {
+    parts.push({ text: text.slice(position, end), highlight: false })
+  }
+
+  if (start > 0) parts.unshift({ text: '…', highlight: false })
+  if (end < text.length) parts.push({ text: '…', highlight: false })
+  return parts
+}
+
+// A snippet for every field the hit matched in
+export function getSnippets(document: SearchDocument, terms: string[]): SearchSnippet[] {
+  const termSet = new Set(terms)
+  return SEARCH_FIELDS.flatMap(field => {
+    const text = document.fields[field]
+    const parts = text ? buildSnippet(text, termSet, field === 'name' ? text.length : SNIPPET_LENGTH) : null
+    return parts ? [{ field, parts }] : []
+  })
+}
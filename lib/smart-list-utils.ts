@@ -0,0 +1,103 @@
+import { Prisma } from '@prisma/client'
+import { compileQuery, QueryContext, QueryError, textConditions } from './task-query'
+
+// Smart lists save the filters of the task view under a name
+
+export const TASK_SORTS = ['date', 'priority', 'name', 'createdAt'] as const
+
+export type TaskSort = typeof TASK_SORTS[number]
+
+// Days relative to today, both ends included; the end is open when null
+export type DateWindow = {
+  field: 'date' | 'deadline'
+  from: number | null
+  to: number | null
+}
+
+export type SmartListFilters = {
+  // Search text, which may use the query language (lib/task-query.ts)
+  query: string
+  priority: number | null
+  listId: string | null
+  labelId: string | null
+  dateWindow: DateWindow | null
+  sortBy: TaskSort
+  showCompleted: boolean
+}
+
+export const DEFAULT_SMART_LIST_FILTERS: SmartListFilters = {
+  query: '',
+  priority: null,
+  listId: null,
+  labelId: null,
+  dateWindow: null,
+  sortBy: 'date',
+  showCompleted: false,
+}
+
+export const DATE_WINDOW_PRESETS: { id: string; label: string; window: DateWindow }[] = [
+  { id: 'today', label: 'Today', window: { field: 'date', from: 0, to: 0 } },
+  { id: 'next7', label: 'Next 7 days', window: { field: 'date', from: 0, to: 6 } },
+  { id: 'next14', label: 'Next 14 days', window: { field: 'date', from: 0, to: 13 } },
+  { id: 'next30', label: 'Next 30 days', window: { field: 'date', from: 0, to: 29 } },
+  { id: 'past7', label: 'Last 7 days', window: { field: 'date', from: -6, to: 0 } },
+  { id: 'due7', label: 'Due in 7 days', window: { field: 'deadline', from: 0, to: 6 } },
+  { id: 'due14', label: 'Due in 14 days', window: { field: 'deadline', from: 0, to: 13 } },
+  { id: 'overdue', label: 'Due before today', window: { field: 'deadline', from: null, to: -1 } },
+]
+
+export function findDateWindowPreset(window: DateWindow | null) {
+  return window
+    ? DATE_WINDOW_PRESETS.find(preset =>
+        preset.window.field === window.field && preset.window.from === window.from && preset.window.to === window.to)
+    : undefined
+}
+
+// Saved filters, with defaults for anything missing from older rows
+export function parseSmartListFilters(json: string): SmartListFilters {
+  try {
+    return { ...DEFAULT_SMART_LIST_FILTERS, ...JSON.parse(json) }
+  } catch {
+    return DEFAULT_SMART_LIST_FILTERS
+  }
+}
+
+const formatOffset = (days: number) => `${days < 0 ? '-' : '+'}${Math.abs(days)}d`
+
+// The window in the query language, so it's resolved against the user's
+// current day the same way typed filters are
+export function getDateWindowQuery(window: DateWindow | null): string {
+  if (!window) return ''
+  const key = window.field === 'deadline' ? 'due' : 'date'
+  return [
+    window.from !== null ? `${key}>=${formatOffset(window.from)}` : '',
+    window.to !== null ? `${key}<=${formatOffset(window.to)}` : '',
+  ].filter(Boolean).join(' ')
+}
+
+// Whether a search needs the server: plain words are matched in the
+// browser, filters like "label:x" are not
+export function needsServerQuery(query: string): boolean {
+  return /(^|\s)-?[a-z]+(<=|>=|[:=<>])/i.test(query)
+}
+
+// Prisma conditions for the tasks a smart list matches, whether or not
+// they're completed
+export function buildSmartListConditions(
+  filters: SmartListFilters,
+  context: QueryContext
+): { conditions: Prisma.TaskWhereInput[]; errors: QueryError[] } {
+  const compiled = compileQuery(filters.query, context)
+  const window = compileQuery(getDateWindowQuery(filters.dateWindow), context)
+
+  const conditions: Prisma.TaskWhereInput[] = [
+    ...compiled.conditions,
+    ...textConditions(compiled.text),
+    ...window.conditions,
+  ]
+  if (filters.priority !== null) conditions.push({ priority: filters.priority })
+  if (filters.listId) conditions.push({ listId: filters.listId })
+  if (filters.labelId) conditions.push({ labels: { some: { id: filters.labelId } } })
+
+  return { conditions, errors: [...compiled.errors, ...window.errors] }
+}
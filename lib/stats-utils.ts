@@ -0,0 +1,164 @@
+import { Task } from '@prisma/client'
+import { getLocalDayKey } from './notification-utils'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type StatsTask = Pick<Task, 'id' | 'listId' | 'createdAt' | 'completedAt' | 'date' | 'deadline' | 'estimates' | 'actualTime'> & {
+  labels: { id: string }[]
+}
+
+export type StatsGroup = {
+  id: string
+  name: string
+  color: string | null
+  total: number
+  completed: number
+}
+
+export type TaskStats = {
+  range: { from: string; to: string }
+  total: number
+  completed: number
+  open: number
+  overdue: number
+  completionRate: number
+  time: {
+    estimated: number
+    actual: number
+  }
+  byList: StatsGroup[]
+  byLabel: StatsGroup[]
+  daily: { date: string; completed: number; created: number }[]
+  streak: {
+    current: number
+    longest: number
+  }
+}
+
+export type StatsInput = {
+  tasks: StatsTask[]
+  lists: { id: string; name: string; color: string | null }[]
+  labels: { id: string; name: string; color: string | null }[]
+  from: Date
+  to: Date
+  now?: Date
+  // The user's IANA timezone, which decides where days start
+  timeZone?: string
+}
+
+// Calendar day (YYYY-MM-DD) of a date in the user's timezone
+export function getDayKey(date: Date, timeZone = 'UTC'): string {
+  return getLocalDayKey(date, timeZone)
+}
+
+function shiftDayKey(dayKey: string, days: number): string {
+  return new Date(Date.parse(dayKey) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+function isWithin(date: Date | null, from: Date, to: Date): date is Date {
+  return !!date && date >= from && date <= to
+}
+
+// Open tasks are overdue once their deadline has passed, or when they have
+// no deadline and were scheduled for an earlier day.
+export function isOverdue(task: Pick<StatsTask, 'completedAt' | 'date' | 'deadline'>, now: Date, timeZone = 'UTC'): boolean {
+  if (task.completedAt) {
+    return false
+  }
+  if (task.deadline) {
+    return task.deadline < now
+  }
+  return !!task.date && getDayKey(task.date, timeZone) < getDayKey(now, timeZone)
+}
+
+// Streaks count consecutive days with at least one completion. The current
+// streak is still alive if nothing was completed today yet.
+export function getCompletionStreaks(completedDays: Set<string>, today: string): { current: number; longest: number } {
+  let current = 0
+  let day = completedDays.has(today) ? today : shiftDayKey(today, -1)
+  while (completedDays.has(day)) {
+    current++
+    day = shiftDayKey(day, -1)
+  }
+
+  let longest = 0
+  completedDays.forEach(start => {
+    // Only count runs from their first day
+    if (completedDays.has(shiftDayKey(start, -1))) {
+      return
+    }
+    let length = 0
+    let cursor = start
+    while (completedDays.has(cursor)) {
+      length++
+      cursor = shiftDayKey(cursor, 1)
+    }
+    longest = Math.max(longest, length)
+  })
+
+  return { current, longest }
+}
+
+// Computes dashboard statistics for the tasks that were active during
+// [from, to]: created by the end of the range and not completed before it.
+export function computeTaskStats({ tasks, lists, labels, from, to, now = new Date(), timeZone = 'UTC' }: StatsInput): TaskStats {
+  const activeTasks = tasks.filter(task =>
+    task.createdAt <= to && (!task.completedAt || task.completedAt >= from)
+  )
+  const completedTasks = activeTasks.filter(task => isWithin(task.completedAt, from, to))
+  const completedIds = new Set(completedTasks.map(task => task.id))
+
+  const groupBy = (groups: StatsInput['lists'], belongsTo: (task: StatsTask, groupId: string) => boolean): StatsGroup[] =>
+    groups.map(group => {
+      const groupTasks = activeTasks.filter(task => belongsTo(task, group.id))
+      return {
+        id: group.id,
+        name: group.name,
+        color: group.color,
+        total: groupTasks.length,
+        completed: groupTasks.filter(task => completedIds.has(task.id)).length,
+      }
+    })
+
+  const daily: TaskStats['daily'] = []
+  const lastDay = getDayKey(to, timeZone)
+  for (let day = getDayKey(from, timeZone); day <= lastDay; day = shiftDayKey(day, 1)) {
+    daily.push({ date: day, completed: 0, created: 0 })
+  }
+  const dailyIndex = new Map(daily.map((entry, index) => [entry.date, index]))
+
+  activeTasks.forEach(task => {
+    if (isWithin(task.createdAt, from, to)) {
+      const index = dailyIndex.get(getDayKey(task.createdAt, timeZone))
+      if (index !== undefined) daily[index].created++
+    }
+  })
+  completedTasks.forEach(task => {
+    const index = dailyIndex.get(getDayKey(task.completedAt!, timeZone))
+    if (index !== undefined) daily[index].completed++
+  })
+
+  // Streaks look at every completion, not just the ones in range
+  const completedDays = new Set(
+    tasks
+      .filter(task => task.completedAt)
+      .map(task => getDayKey(task.completedAt!, timeZone))
+  )
+
+  return {
+    range: { from: from.toISOString(), to: to.toISOString() },
+    total: activeTasks.length,
+    completed: completedTasks.length,
+    open: activeTasks.filter(task => !task.completedAt).length,
+    overdue: activeTasks.filter(task => isOverdue(task, now, timeZone)).length,
+    completionRate: activeTasks.length > 0 ? completedTasks.length / activeTasks.length : 0,
+    time: {
+      estimated: completedTasks.reduce((sum, task) => sum + (task.estimates ?? 0), 0),
+      actual: completedTasks.reduce((sum, task) => sum + (task.actualTime ?? 0), 0),
+    },
+    byList: groupBy(lists, (task, listId) => task.listId === listId),
+    byLabel: groupBy(labels, (task, labelId) => task.labels.some(label => label.id === labelId)),
+    daily,
+    streak: getCompletionStreaks(completedDays, getDayKey(now, timeZone)),
+  }
+}
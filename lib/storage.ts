@@ -0,0 +1,213 @@
+import { createHash, createHmac, randomUUID } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+
+// Where uploaded attachment files live. The database only keeps a storage
+// key, so the backend can be swapped without touching attachment rows.
+export interface StorageDriver {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Resolves to null when nothing is stored under the key
+  get(key: string): Promise<ReadableStream<Uint8Array> | null>;
+  delete(key: string): Promise<void>;
+}
+
+export const MAX_ATTACHMENT_SIZE = Number(process.env.ATTACHMENT_MAX_SIZE) || 10 * 1024 * 1024; // 10MB
+
+// Types that can be uploaded. HTML and SVG are left out on purpose since
+// they could run scripts when opened from our own origin.
+export const ALLOWED_ATTACHMENT_TYPES = process.env.ATTACHMENT_ALLOWED_TYPES
+  ? process.env.ATTACHMENT_ALLOWED_TYPES.split(',').map((type) => type.trim())
+  : [
+      'image/png',
+      'image/jpeg',
+      'image/gif',
+      'image/webp',
+      'application/pdf',
+      'text/plain',
+      'text/markdown',
+      'text/csv',
+      'application/json',
+      'application/zip',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-powerpoint',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    ];
+
+// Keys are "<taskId>/<uuid>" so they never contain user-supplied file names
+export function createStorageKey(taskId: string): string {
+  return `${taskId.replace(/[^a-zA-Z0-9_-]/g, '')}/${randomUUID()}`;
+}
+
+// Generated previews are cached next to the file they were made from
+export function getPreviewKey(storageKey: string): string {
+  return `${storageKey}.preview`;
+}
+
+class LocalStorage implements StorageDriver {
+  constructor(private root: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<ReadableStream<Uint8Array> | null> {
+    const filePath = this.resolve(key);
+    try {
+      await stat(filePath);
+    } catch {
+      return null;
+    }
+    return Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>;
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+interface S3Config {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+function sha256(value: string | Buffer): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function hmac(key: string | Buffer, value: string): Buffer {
+  return createHmac('sha256', key).update(value).digest();
+}
+
+// Any S3-compatible service (AWS, MinIO, R2...) using path-style URLs and
+// Signature Version 4, so no SDK is needed.
+class S3Storage implements StorageDriver {
+  constructor(private config: S3Config) {}
+
+  private async send(method: 'PUT' | 'GET' | 'DELETE', key: string, body?: Buffer, contentType?: string) {
+    const { endpoint, bucket, region, accessKeyId, secretAccessKey } = this.config;
+    const url = new URL(`${endpoint.replace(/\/$/, '')}/${bucket}/${key}`);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256(body ?? '');
+
+    const signedHeaders: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    const headerNames = Object.keys(signedHeaders).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      headerNames.map((name) => `${name}:${signedHeaders[name]}\n`).join(''),
+      headerNames.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), 's3'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    // fetch sets Host itself
+    return fetch(url, {
+      method,
+      headers: {
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate,
+        ...(contentType ? { 'Content-Type': contentType } : {}),
+        Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${headerNames.join(';')}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.send('PUT', key, data, contentType);
+    if (!response.ok) {
+      throw new Error(`S3 upload failed with status ${response.status}`);
+    }
+  }
+
+  async get(key: string): Promise<ReadableStream<Uint8Array> | null> {
+    const response = await this.send('GET', key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(`S3 download failed with status ${response.status}`);
+    }
+    return response.body;
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.send('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete failed with status ${response.status}`);
+    }
+  }
+}
+
+let storage: StorageDriver | null = null;
+
+// Pick the backend from STORAGE_DRIVER ("local" by default, or "s3")
+export function getStorage(): StorageDriver {
+  if (storage) {
+    return storage;
+  }
+
+  if (process.env.STORAGE_DRIVER === 's3') {
+    const { S3_ENDPOINT, S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('S3 storage requires S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    storage = new S3Storage({
+      endpoint: S3_ENDPOINT,
+      bucket: S3_BUCKET,
+      region: S3_REGION || 'us-east-1',
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+    });
+  } else {
+    storage = new LocalStorage(path.resolve(process.env.STORAGE_LOCAL_DIR || 'uploads'));
+  }
+
+  return storage;
+}
+
+// Remove stored files and their cached previews once their attachment rows
+// are gone. Failures are only logged: the records are already deleted and a
+// stray blob is harmless.
+export async function deleteStoredFiles(keys: (string | null)[]): Promise<void> {
+  const results = await Promise.allSettled(
+    keys
+      .filter((key): key is string => !!key)
+      .flatMap((key) => [key, getPreviewKey(key)])
+      .map((key) => getStorage().delete(key))
+  );
+
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      console.error('Error deleting stored file:', result.reason instanceof Error ? result.reason.message : 'Unknown error');
+    }
+  }
+}
@@ -0,0 +1,240 @@
+import prisma from './prisma';
+import type { Prisma } from '@prisma/client';
+import { ReminderSpec, resolveReminder } from './reminder-utils';
+
+// Large imports write many rows, which takes longer than Prisma's default
+// transaction timeout
+const IMPORT_TIMEOUT_MS = 60_000;
+
+// Tasks exported by this app carry "<task id>@daily-task-planner" UIDs
+const OWN_UID_PATTERN = /^([^@\s]+)@daily-task-planner$/;
+const DEFAULT_LABEL_COLOR = 'gray';
+
+// A task read from an import file, mapped onto task fields
+export type ImportedTask = {
+  // Identifies the task in the source, used to detect duplicates
+  uid: string | null;
+  name: string;
+  description: string | null;
+  date: Date | null;
+  deadline: Date | null;
+  priority: number;
+  completedAt: Date | null;
+  recurringPattern: string | null;
+  labels: string[];
+  reminders: ReminderSpec[];
+  warnings: string[];
+  estimates?: number | null;
+  // Name of the list to import into, instead of the list the import targets
+  list?: string | null;
+};
+
+export type ImportDuplicate = 'existing' | 'file';
+
+export type ImportPreviewTask = {
+  uid: string | null;
+  name: string;
+  list: string | null;
+  date: Date | null;
+  deadline: Date | null;
+  priority: number;
+  completed: boolean;
+  isRecurring: boolean;
+  labels: string[];
+  reminders: number;
+  // Already imported or exported from here ('existing'), or repeated in the
+  // file ('file'). Duplicates are not imported.
+  duplicate: ImportDuplicate | null;
+  warnings: string[];
+};
+
+export type ImportSummary = {
+  dryRun: boolean;
+  listId: string;
+  total: number;
+  created: number;
+  duplicates: number;
+  // Lists and labels that don't exist yet and are created by the import
+  newLists: string[];
+  newLabels: string[];
+  tasks: ImportPreviewTask[];
+};
+
+export type ImportOptions = {
+  dryRun?: boolean;
+  // Recorded in the task history, e.g. "ics"
+  source: string;
+};
+
+// Find tasks whose UID matches a task imported before, a task of ours that
+// was exported, or an earlier task in the file. Returns them by index.
+async function findDuplicates(db: Prisma.TransactionClient, userId: string, tasks: ImportedTask[]): Promise<Map<number, ImportDuplicate>> {
+  const uids = Array.from(new Set(tasks.map(task => task.uid).filter((uid): uid is string => !!uid)));
+  const ownIds = uids.map(uid => uid.match(OWN_UID_PATTERN)?.[1]).filter((id): id is string => !!id);
+
+  const existing = await db.task.findMany({
+    where: { userId, OR: [{ icalUid: { in: uids } }, { id: { in: ownIds } }] },
+    select: { id: true, icalUid: true },
+  });
+  const existingUids = new Set(existing.flatMap(task => [
+    `${task.id}@daily-task-planner`,
+    ...(task.icalUid ? [task.icalUid] : []),
+  ]));
+
+  const duplicates = new Map<number, ImportDuplicate>();
+  const seen = new Set<string>();
+  tasks.forEach((task, index) => {
+    if (!task.uid) {
+      return;
+    }
+    if (existingUids.has(task.uid)) {
+      duplicates.set(index, 'existing');
+    } else if (seen.has(task.uid)) {
+      duplicates.set(index, 'file');
+    }
+    seen.add(task.uid);
+  });
+
+  return duplicates;
+}
+
+// Find the user's lists or labels by name (case-insensitively), creating
+// missing ones unless this is a dry run. Returns ids by lowercased name and
+// the names that are new.
+async function resolveNames(
+  existing: { id: string; name: string }[],
+  names: string[],
+  create: ((name: string) => Promise<{ id: string }>) | null
+): Promise<{ ids: Map<string, string>; created: string[] }> {
+  const ids = new Map(existing.map(record => [record.name.toLowerCase(), record.id]));
+
+  const created: string[] = [];
+  for (const name of names) {
+    const key = name.toLowerCase();
+    if (ids.has(key) || created.some(createdName => createdName.toLowerCase() === key)) {
+      continue;
+    }
+    created.push(name);
+    if (create) {
+      ids.set(key, (await create(name)).id);
+    }
+  }
+
+  return { ids, created };
+}
+
+// Save imported tasks to a list, or with dryRun only report what would be
+// imported. Tasks that duplicate an existing task are skipped. Nothing is
+// saved unless the whole import succeeds, so a failed import can be retried.
+export async function importTasks(
+  userId: string,
+  listId: string,
+  tasks: ImportedTask[],
+  options: ImportOptions
+): Promise<ImportSummary> {
+  return prisma.$transaction(
+    tx => saveImportedTasks(tx, userId, listId, tasks, options),
+    { timeout: IMPORT_TIMEOUT_MS }
+  );
+}
+
+async function saveImportedTasks(
+  db: Prisma.TransactionClient,
+  userId: string,
+  listId: string,
+  tasks: ImportedTask[],
+  options: ImportOptions
+): Promise<ImportSummary> {
+  const dryRun = options.dryRun ?? false;
+  const duplicates = await findDuplicates(db, userId, tasks);
+  const toImport = tasks.filter((_, index) => !duplicates.has(index));
+
+  const { ids: listIds, created: newLists } = await resolveNames(
+    await db.list.findMany({ where: { userId }, select: { id: true, name: true } }),
+    toImport.flatMap(task => task.list ? [task.list] : []),
+    dryRun ? null : name => db.list.create({ data: { name, userId } })
+  );
+  const { ids: labelIds, created: newLabels } = await resolveNames(
+    await db.label.findMany({ where: { userId }, select: { id: true, name: true } }),
+    toImport.flatMap(task => task.labels),
+    dryRun ? null : name => db.label.create({ data: { name, color: DEFAULT_LABEL_COLOR, userId } })
+  );
+
+  const preview = tasks.map((task, index): ImportPreviewTask => ({
+    uid: task.uid,
+    name: task.name,
+    list: task.list ?? null,
+    date: task.date,
+    deadline: task.deadline,
+    priority: task.priority,
+    completed: task.completedAt !== null,
+    isRecurring: task.recurringPattern !== null,
+    labels: task.labels,
+    reminders: task.reminders.length,
+    duplicate: duplicates.get(index) ?? null,
+    warnings: task.warnings,
+  }));
+
+  if (!dryRun) {
+    for (const task of toImport) {
+      const reminders = task.reminders
+        .map(reminder => resolveReminder(reminder, task))
+        .filter(reminder => reminder !== null);
+
+      const created = await db.task.create({
+        data: {
+          name: task.name,
+          description: task.description,
+          date: task.date,
+          deadline: task.deadline,
+          priority: task.priority,
+          estimates: task.estimates,
+          completedAt: task.completedAt,
+          isRecurring: task.recurringPattern !== null,
+          recurringPattern: task.recurringPattern,
+          icalUid: task.uid,
+          listId: (task.list && listIds.get(task.list.toLowerCase())) || listId,
+          userId,
+          labels: {
+            connect: Array.from(new Set(task.labels.map(name => labelIds.get(name.toLowerCase()))))
+              .filter((id): id is string => !!id)
+              .map(id => ({ id })),
+          },
+          reminders: {
+            create: reminders,
+          },
+        },
+      });
+
+      await db.taskHistory.create({
+        data: {
+          taskId: created.id,
+          action: 'created',
+          newValue: JSON.stringify({ importedFrom: options.source }),
+          changedBy: userId,
+        },
+      });
+    }
+  }
+
+  return {
+    dryRun,
+    listId,
+    total: tasks.length,
+    created: dryRun ? 0 : toImport.length,
+    duplicates: duplicates.size,
+    newLists,
+    newLabels,
+    tasks: preview,
+  };
+}
+
+// The list imports go to when none is given: the default list, else the first
+export async function getImportListId(userId: string): Promise<string | null> {
+  const list = await prisma.list.findFirst({
+    where: { userId },
+    orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+    select: { id: true },
+  });
+  return list?.id ?? null;
+}
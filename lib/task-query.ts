@@ -0,0 +1,388 @@
+import { Prisma } from '@prisma/client'
+import { getLocalDayKey } from './notification-utils'
+
+// Query language for the search box, e.g.
+//   list:Work label:"Follow up" priority>=2 due<friday is:open -has:attachment
+// Filters narrow the tasks; any other words, including ones with an unknown
+// key, are searched as text.
+
+export const QUERY_KEYS = ['list', 'label', 'priority', 'due', 'date', 'created', 'is', 'has'] as const
+
+export type QueryKey = typeof QUERY_KEYS[number]
+
+export type QueryOperator = ':' | '=' | '<' | '<=' | '>' | '>='
+
+export type QueryFilter = {
+  key: QueryKey
+  operator: QueryOperator
+  value: string
+  negated: boolean
+  // Position of the whole token in the query
+  start: number
+  end: number
+}
+
+export type QueryError = {
+  message: string
+  start: number
+  end: number
+}
+
+export type ParsedQuery = {
+  text: string
+  filters: QueryFilter[]
+  errors: QueryError[]
+}
+
+export type QueryContext = {
+  now: Date
+  timeZone: string
+  lists: { id: string; name: string }[]
+  labels: { id: string; name: string }[]
+}
+
+export type CompiledQuery = {
+  text: string
+  // Combine with AND; empty when the query has no filters
+  conditions: Prisma.TaskWhereInput[]
+  errors: QueryError[]
+}
+
+export type QuerySuggestions = {
+  // Part of the query a suggestion replaces
+  start: number
+  end: number
+  suggestions: string[]
+}
+
+const KEY_ALIASES: Record<string, QueryKey> = {
+  p: 'priority',
+  deadline: 'due',
+  scheduled: 'date',
+  labels: 'label',
+  tag: 'label',
+}
+
+const IS_VALUES = ['open', 'done', 'completed', 'overdue', 'recurring', 'blocked'] as const
+const HAS_VALUES = ['attachment', 'deadline', 'date', 'description', 'label', 'subtask', 'reminder', 'estimate'] as const
+const PRIORITY_NAMES = ['none', 'low', 'medium', 'high']
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+const DATE_WORDS = ['today', 'tomorrow', 'yesterday', ...WEEKDAYS]
+
+// Keys that compare values; the others only take ":" (or "=")
+const COMPARABLE_KEYS: QueryKey[] = ['priority', 'due', 'date', 'created']
+const DATE_FIELDS = { due: 'deadline', date: 'date', created: 'createdAt' } as const
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_SUGGESTIONS = 8
+
+type RawToken = {
+  text: string
+  start: number
+  end: number
+}
+
+// Split on spaces outside double quotes
+function splitTokens(input: string): RawToken[] {
+  const tokens: RawToken[] = []
+  let start = -1
+  let inQuotes = false
+
+  for (let i = 0; i <= input.length; i++) {
+    const char = input[i]
+    if (char === undefined || (!inQuotes && /\s/.test(char))) {
+      if (start !== -1) {
+        tokens.push({ text: input.slice(start, i), start, end: i })
+        start = -1
+      }
+      continue
+    }
+    if (start === -1) start = i
+    if (char === '"') inQuotes = !inQuotes
+  }
+  return tokens
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"/, '').replace(/"$/, '')
+}
+
+// "-key<=value", with the key and operator split off
+function splitFilter(text: string) {
+  const match = text.match(/^(-?)([a-z]+)(<=|>=|[:=<>])(.*)$/i)
+  if (!match) return null
+  const [, negated, key, operator, value] = match
+  return { negated: negated === '-', key: key.toLowerCase(), operator: operator as QueryOperator, value }
+}
+
+function resolveKey(key: string): QueryKey | null {
+  return (QUERY_KEYS as readonly string[]).includes(key) ? key as QueryKey : KEY_ALIASES[key] ?? null
+}
+
+// 0-3 or a priority name (or the start of one)
+export function parsePriorityValue(value: string): number | null {
+  if (/^[0-3]$/.test(value)) return Number(value)
+  const lower = value.toLowerCase()
+  const index = PRIORITY_NAMES.findIndex(name => name.startsWith(lower))
+  return lower && index !== -1 ? index : null
+}
+
+// Start of the UTC day a date word refers to. Days are UTC like stored
+// all-day dates; "today" is the user's current day in their timezone.
+export function parseDateValue(value: string, now: Date, timeZone: string): Date | null {
+  const lower = value.toLowerCase()
+  const today = new Date(`${getLocalDayKey(now, timeZone)}T00:00:00Z`)
+  const addDays = (days: number) => new Date(today.getTime() + days * DAY_MS)
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(lower)) {
+    const date = new Date(`${lower}T00:00:00Z`)
+    return isNaN(date.getTime()) ? null : date
+  }
+  if (lower === 'today') return today
+  if (lower === 'tomorrow') return addDays(1)
+  if (lower === 'yesterday') return addDays(-1)
+
+  // "+3d", "-2w" or "10d" relative to today
+  const offset = lower.match(/^([+-]?\d+)([dw])$/)
+  if (offset) {
+    return addDays(Number(offset[1]) * (offset[2] === 'w' ? 7 : 1))
+  }
+
+  // The next such weekday, today included; "fri" works too
+  const weekday = lower.length >= 3 ? WEEKDAYS.findIndex(day => day.startsWith(lower)) : -1
+  if (weekday !== -1) {
+    return addDays((weekday - today.getUTCDay() + 7) % 7)
+  }
+  return null
+}
+
+export function parseQuery(input: string): ParsedQuery {
+  const words: string[] = []
+  const filters: QueryFilter[] = []
+  const errors: QueryError[] = []
+
+  for (const token of splitTokens(input)) {
+    const { start, end } = token
+    const fail = (message: string) => errors.push({ message, start, end })
+
+    if ((token.text.match(/"/g) ?? []).length % 2 === 1) {
+      fail('Missing closing quote')
+      continue
+    }
+
+    const parts = token.text.startsWith('"') ? null : splitFilter(token.text)
+    if (!parts) {
+      words.push(unquote(token.text))
+      continue
+    }
+
+    // Words like "http://example.com" or "a<b" only look like filters
+    const key = resolveKey(parts.key)
+    if (!key) {
+      words.push(unquote(token.text))
+      continue
+    }
+    const value = unquote(parts.value)
+    if (!value) {
+      fail(`Missing value for "${parts.key}"`)
+      continue
+    }
+    if (parts.operator !== ':' && parts.operator !== '=' && !COMPARABLE_KEYS.includes(key)) {
+      fail(`"${parts.key}" can't be compared with ${parts.operator}`)
+      continue
+    }
+
+    const lower = value.toLowerCase()
+    if (key === 'is' && !(IS_VALUES as readonly string[]).includes(lower)) {
+      fail(`Unknown value "${value}" for is:, expected ${IS_VALUES.join(', ')}`)
+      continue
+    }
+    if (key === 'has' && !HAS_VALUES.some(name => lower === name || lower === `${name}s`)) {
+      fail(`Unknown value "${value}" for has:, expected ${HAS_VALUES.join(', ')}`)
+      continue
+    }
+    if (key === 'priority' && parsePriorityValue(value) === null) {
+      fail(`Invalid priority "${value}", expected 0-3 or ${PRIORITY_NAMES.join(', ')}`)
+      continue
+    }
+    // Checked against a fixed day; the real one is only needed when compiling
+    if (key in DATE_FIELDS && parseDateValue(value, new Date(0), 'UTC') === null) {
+      fail(`Invalid date "${value}", expected YYYY-MM-DD, today, a weekday or an offset like +3d`)
+      continue
+    }
+
+    filters.push({ key, operator: parts.operator, value, negated: parts.negated, start, end })
+  }
+
+  return { text: words.join(' '), filters, errors }
+}
+
+function compareDay(field: 'deadline' | 'date' | 'createdAt', operator: QueryOperator, day: Date): Prisma.TaskWhereInput {
+  const nextDay = new Date(day.getTime() + DAY_MS)
+  switch (operator) {
+    case '<':
+      return { [field]: { lt: day } }
+    case '<=':
+      return { [field]: { lt: nextDay } }
+    case '>':
+      return { [field]: { gte: nextDay } }
+    case '>=':
+      return { [field]: { gte: day } }
+    default:
+      return { [field]: { gte: day, lt: nextDay } }
+  }
+}
+
+function comparePriority(operator: QueryOperator, priority: number): Prisma.TaskWhereInput {
+  const filters: Record<QueryOperator, Prisma.IntFilter> = {
+    ':': { equals: priority },
+    '=': { equals: priority },
+    '<': { lt: priority },
+    '<=': { lte: priority },
+    '>': { gt: priority },
+    '>=': { gte: priority },
+  }
+  return { priority: filters[operator] }
+}
+
+function isCondition(value: string, now: Date): Prisma.TaskWhereInput {
+  switch (value) {
+    case 'open':
+      return { completedAt: null }
+    case 'done':
+    case 'completed':
+      return { completedAt: { not: null } }
+    case 'overdue':
+      return { completedAt: null, deadline: { lt: now } }
+    case 'recurring':
+      return { isRecurring: true }
+    default:
+      return { blockedBy: { some: { completedAt: null } } }
+  }
+}
+
+function hasCondition(value: string): Prisma.TaskWhereInput {
+  switch (value.replace(/s$/, '')) {
+    case 'attachment':
+      return { attachments: { some: {} } }
+    case 'deadline':
+      return { deadline: { not: null } }
+    case 'date':
+      return { date: { not: null } }
+    case 'description':
+      return { AND: [{ description: { not: null } }, { description: { not: '' } }] }
+    case 'label':
+      return { labels: { some: {} } }
+    case 'subtask':
+      return { subtasks: { some: {} } }
+    case 'reminder':
+      return { reminders: { some: {} } }
+    default:
+      return { estimates: { not: null } }
+  }
+}
+
+const matchingIds = (items: { id: string; name: string }[], name: string) =>
+  items.filter(item => item.name.toLowerCase() === name.toLowerCase()).map(item => item.id)
+
+// Parse a query into Prisma conditions for the user's tasks. List and label
+// names are matched case-insensitively against the context.
+export function compileQuery(input: string, context: QueryContext): CompiledQuery {
+  const { text, filters, errors } = parseQuery(input)
+  const conditions: Prisma.TaskWhereInput[] = []
+
+  for (const filter of filters) {
+    const { key, operator, value } = filter
+    let condition: Prisma.TaskWhereInput
+
+    if (key === 'list' || key === 'label') {
+      const ids = matchingIds(key === 'list' ? context.lists : context.labels, value)
+      if (ids.length === 0) {
+        errors.push({ message: `No ${key} named "${value}"`, start: filter.start, end: filter.end })
+        continue
+      }
+      condition = key === 'list' ? { listId: { in: ids } } : { labels: { some: { id: { in: ids } } } }
+    } else if (key === 'priority') {
+      condition = comparePriority(operator, parsePriorityValue(value)!)
+    } else if (key === 'is') {
+      condition = isCondition(value.toLowerCase(), context.now)
+    } else if (key === 'has') {
+      condition = hasCondition(value.toLowerCase())
+    } else {
+      condition = compareDay(DATE_FIELDS[key], operator, parseDateValue(value, context.now, context.timeZone)!)
+    }
+
+    conditions.push(filter.negated ? { NOT: condition } : condition)
+  }
+
+  return { text, conditions, errors: errors.sort((a, b) => a.start - b.start) }
+}
+
+// Conditions for the text of a query where it isn't ranked by the search
+// index: every word has to appear in the name or description
+export function textConditions(text: string): Prisma.TaskWhereInput[] {
+  return text.split(' ').filter(Boolean).map(word => ({
+    OR: [
+      { name: { contains: word } },
+      { description: { contains: word } },
+    ],
+  }))
+}
+
+const quoteIfNeeded = (value: string) => (/[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value)
+
+// Completions for the token the cursor is in: filter keys while typing a
+// word, and values (list and label names included) after "key:"
+export function suggestQuery(
+  input: string,
+  cursor: number,
+  names: Pick<QueryContext, 'lists' | 'labels'>
+): QuerySuggestions {
+  const token = splitTokens(input).find(candidate => candidate.start <= cursor && cursor <= candidate.end)
+  const start = token?.start ?? cursor
+  const end = token?.end ?? cursor
+  const text = token?.text ?? ''
+  const none = { start, end, suggestions: [] }
+
+  const parts = splitFilter(text)
+  if (!parts) {
+    const negation = text.startsWith('-') ? '-' : ''
+    const word = text.slice(negation.length).toLowerCase()
+    if (!word || text.includes('"')) return none
+    const suggestions = QUERY_KEYS.filter(key => key.startsWith(word) && key !== word).map(key => `${negation}${key}:`)
+    return { start, end, suggestions }
+  }
+
+  const key = resolveKey(parts.key)
+  const prefix = unquote(parts.value).toLowerCase()
+  let values: string[]
+  switch (key) {
+    case 'list':
+      values = names.lists.map(list => list.name)
+      break
+    case 'label':
+      values = names.labels.map(label => label.name)
+      break
+    case 'is':
+      values = [...IS_VALUES]
+      break
+    case 'has':
+      values = [...HAS_VALUES]
+      break
+    case 'priority':
+      values = PRIORITY_NAMES
+      break
+    case null:
+      return none
+    default:
+      values = DATE_WORDS
+  }
+
+  const head = `${parts.negated ? '-' : ''}${parts.key}${parts.operator}`
+  const suggestions = Array.from(new Set(values))
+    .filter(value => value.toLowerCase().startsWith(prefix) && value.toLowerCase() !== prefix)
+    .sort((a, b) => a.localeCompare(b))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(value => head + quoteIfNeeded(value))
+  return { start, end, suggestions }
+}
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { isValidRRule } from './rrule';
+import { REMINDER_ANCHORS } from './reminder-utils';
+import { DEFAULT_SMART_LIST_FILTERS, TASK_SORTS } from './smart-list-utils';
+
+// Recurring pattern schema for API validation
+export const apiRecurringPatternSchema = z.object({
+  type: z.enum(["daily", "weekly", "weekday", "monthly", "yearly", "custom", "rrule"]),
+  interval: z.number().min(1).default(1),
+  daysOfWeek: z.array(z.number().min(0).max(6)).optional(),
+  dayOfMonth: z.number().min(1).max(31).optional(),
+  month: z.number().min(1).max(12).optional(),
+  endDate: z.string().optional(),
+  rrule: z.string().refine(isValidRRule, { message: "Invalid RRULE" }).optional(),
+}).refine(data => data.type !== "rrule" || !!data.rrule, {
+  message: "RRULE is required for rrule patterns",
+  path: ["rrule"],
+});
+
+// Body of POST /api/tasks; CSV imports validate their rows with it too
+export const createTaskSchema = z.object({
+  name: z.string().min(1, 'Task name is required'),
+  description: z.string().optional(),
+  date: z.string().optional(),
+  deadline: z.string().optional(),
+  estimates: z.number().optional(),
+  priority: z.number().default(0),
+  status: z.string().trim().min(1).max(50).optional(),
+  isRecurring: z.boolean().default(false),
+  recurringPattern: z.union([
+    z.string(),
+    apiRecurringPatternSchema,
+  ]).optional(),
+  listId: z.string().min(1, 'List ID is required'),
+  labels: z.array(z.string()).optional(),
+  subtasks: z.array(z.object({
+    name: z.string().min(1),
+  })).optional(),
+  // Absolute ISO datetimes, or relative to the task's date or deadline
+  reminders: z.array(z.union([
+    z.string(),
+    z.object({
+      anchor: z.enum(REMINDER_ANCHORS),
+      offsetMinutes: z.number().int(),
+    }),
+  ])).optional(),
+}).refine(data => {
+  if (data.isRecurring && !data.recurringPattern) {
+    return false
+  }
+  return true
+}, {
+  message: "Recurring pattern is required for recurring tasks",
+  path: ["recurringPattern"],
+});
+
+const dayOffsetSchema = z.number().int().min(-366).max(366).nullable();
+
+// Saved task view filters of a smart list; anything left out keeps its default
+export const smartListFiltersSchema = z.object({
+  query: z.string().max(500).default(DEFAULT_SMART_LIST_FILTERS.query),
+  priority: z.number().int().min(0).max(3).nullable().default(DEFAULT_SMART_LIST_FILTERS.priority),
+  listId: z.string().min(1).nullable().default(DEFAULT_SMART_LIST_FILTERS.listId),
+  labelId: z.string().min(1).nullable().default(DEFAULT_SMART_LIST_FILTERS.labelId),
+  dateWindow: z.object({
+    field: z.enum(['date', 'deadline']),
+    from: dayOffsetSchema,
+    to: dayOffsetSchema,
+  }).refine(window => window.from === null || window.to === null || window.from <= window.to, {
+    message: 'Window must not end before it starts',
+    path: ['to'],
+  }).nullable().default(DEFAULT_SMART_LIST_FILTERS.dateWindow),
+  sortBy: z.enum(TASK_SORTS).default(DEFAULT_SMART_LIST_FILTERS.sortBy),
+  showCompleted: z.boolean().default(DEFAULT_SMART_LIST_FILTERS.showCompleted),
+});
@@ -0,0 +1,165 @@
+import { Task } from '@prisma/client'
+
+// Timeline (Gantt) view: each scheduled task is a bar from its date to its
+// deadline, with subtasks nested under their parent
+
+export const DAY_MS = 24 * 60 * 60 * 1000
+
+export type TimelineZoom = 'day' | 'week' | 'month'
+
+// Width of one day in pixels at each zoom level
+export const TIMELINE_DAY_WIDTH: Record<TimelineZoom, number> = {
+  day: 48,
+  week: 16,
+  month: 4,
+}
+
+export type TimelineTask = Pick<Task, 'id' | 'parentId' | 'estimates'> & {
+  date: Date | string | null
+  deadline: Date | string | null
+  blockedBy?: { id: string }[]
+}
+
+export type TimelineSpan = {
+  start: Date
+  end: Date
+}
+
+export type TimelineRow<T extends TimelineTask = TimelineTask> = {
+  task: T
+  span: TimelineSpan | null
+  depth: number
+  // Spans only the task's subtasks because the task itself isn't scheduled
+  isSummary: boolean
+}
+
+// Which part of a bar is dragged: the whole bar or one of its ends
+export type TimelineDragEdge = 'move' | 'start' | 'end'
+
+// Fields sent to the server when a bar is moved or resized
+export type TimelineTaskChanges = {
+  date?: string
+  deadline?: string
+}
+
+// From the date to the deadline; without a deadline the task lasts as long
+// as its estimate (in minutes) or a day, and without a date it ends at the
+// deadline
+export function getTaskSpan(task: TimelineTask): TimelineSpan | null {
+  const duration = task.estimates ? task.estimates * 60 * 1000 : DAY_MS
+
+  if (task.date) {
+    const start = new Date(task.date)
+    const deadline = task.deadline ? new Date(task.deadline) : null
+    const end = deadline && deadline > start ? deadline : new Date(start.getTime() + duration)
+    return { start, end }
+  }
+
+  if (task.deadline) {
+    const end = new Date(task.deadline)
+    return { start: new Date(end.getTime() - duration), end }
+  }
+
+  return null
+}
+
+const byStart = <T extends TimelineTask>(a: TimelineRow<T>, b: TimelineRow<T>) =>
+  (a.span?.start.getTime() ?? Infinity) - (b.span?.start.getTime() ?? Infinity)
+
+// Rows in display order: top-level tasks by start, each followed by its
+// subtasks. Tasks that aren't scheduled are left out unless one of their
+// subtasks is, in which case they get a summary bar spanning the subtasks.
+export function buildTimelineRows<T extends TimelineTask>(tasks: T[]): TimelineRow<T>[] {
+  const ids = new Set(tasks.map(task => task.id))
+  const children = new Map<string, T[]>()
+  tasks.forEach(task => {
+    if (task.parentId && ids.has(task.parentId)) {
+      children.set(task.parentId, [...(children.get(task.parentId) ?? []), task])
+    }
+  })
+
+  // Each task with its subtasks' rows, or null when nothing in it is scheduled
+  const buildTree = (task: T, depth: number): TimelineRow<T>[] | null => {
+    const subtrees = (children.get(task.id) ?? [])
+      .map(child => buildTree(child, depth + 1))
+      .filter((subtree): subtree is TimelineRow<T>[] => subtree !== null)
+      .sort((a, b) => byStart(a[0], b[0]))
+
+    const span = getTaskSpan(task)
+    if (span) {
+      return [{ task, span, depth, isSummary: false }, ...subtrees.flat()]
+    }
+    if (subtrees.length === 0) {
+      return null
+    }
+
+    const childSpans = subtrees.map(subtree => subtree[0].span!)
+    return [
+      {
+        task,
+        span: {
+          start: new Date(Math.min(...childSpans.map(childSpan => childSpan.start.getTime()))),
+          end: new Date(Math.max(...childSpans.map(childSpan => childSpan.end.getTime()))),
+        },
+        depth,
+        isSummary: true,
+      },
+      ...subtrees.flat(),
+    ]
+  }
+
+  return tasks
+    .filter(task => !task.parentId || !ids.has(task.parentId))
+    .map(task => buildTree(task, 0))
+    .filter((tree): tree is TimelineRow<T>[] => tree !== null)
+    .sort((a, b) => byStart(a[0], b[0]))
+    .flat()
+}
+
+// Shift a span by whole days; resizing never makes it shorter than an hour
+export function moveSpan(span: TimelineSpan, days: number, edge: TimelineDragEdge): TimelineSpan {
+  const offset = days * DAY_MS
+  const minDuration = 60 * 60 * 1000
+
+  switch (edge) {
+    case 'start':
+      return {
+        start: new Date(Math.min(span.start.getTime() + offset, span.end.getTime() - minDuration)),
+        end: span.end,
+      }
+    case 'end':
+      return {
+        start: span.start,
+        end: new Date(Math.max(span.end.getTime() + offset, span.start.getTime() + minDuration)),
+      }
+    default:
+      return { start: new Date(span.start.getTime() + offset), end: new Date(span.end.getTime() + offset) }
+  }
+}
+
+// Moving a bar shifts the dates the task already has by the same amount;
+// dragging an end sets the date or the deadline
+export function getSpanChanges(task: TimelineTask, span: TimelineSpan, edge: TimelineDragEdge): TimelineTaskChanges {
+  if (edge === 'move') {
+    // The bar doesn't end at a deadline on or before the date, so shift the
+    // stored dates rather than reading them off the bar
+    const offset = span.start.getTime() - (getTaskSpan(task)?.start.getTime() ?? span.start.getTime())
+    const shift = (value: Date | string) => new Date(new Date(value).getTime() + offset).toISOString()
+    return {
+      ...(task.date && { date: shift(task.date) }),
+      ...(task.deadline && { deadline: shift(task.deadline) }),
+    }
+  }
+
+  return edge === 'start' ? { date: span.start.toISOString() } : { deadline: span.end.toISOString() }
+}
+
+// Dependency arrows between rows that are both on the timeline
+export function getDependencyLinks(rows: TimelineRow[]): { fromId: string; toId: string }[] {
+  const ids = new Set(rows.map(row => row.task.id))
+  return rows.flatMap(row =>
+    (row.task.blockedBy ?? [])
+      .filter(blocker => ids.has(blocker.id))
+      .map(blocker => ({ fromId: blocker.id, toId: row.task.id }))
+  )
+}
@@ -1,4 +1,6 @@
-import { Task, List, Label, Attachment, Reminder, TaskHistory } from '@prisma/client';
+import { Task, List, Label, Attachment, Reminder, TaskHistory, TimeEntry, SmartList } from '@prisma/client';
+import type { SearchSnippet } from '../search-index';
+import type { SmartListFilters } from '../smart-list-utils';
 
 // Base entity types with relations
 export type TaskWithRelations = Task & {
@@ -8,8 +10,13 @@ export type TaskWithRelations = Task & {
   attachments: Attachment[];
   reminders: Reminder[];
   history: TaskHistory[];
+  blockedBy?: TaskSummary[];
+  blocks?: TaskSummary[];
 };
 
+// The other side of a task dependency
+export type TaskSummary = Pick<Task, 'id' | 'name' | 'completedAt'>;
+
 export type ListWithRelations = List & {
   tasks: Task[];
 };
@@ -18,6 +25,27 @@ export type LabelWithRelations = Label & {
   tasks: Task[];
 };
 
+// Saved filters with the number of open tasks they match (null when the
+// saved query no longer compiles)
+export type SmartListWithCount = Omit<SmartList, 'filters'> & {
+  filters: SmartListFilters;
+  count: number | null;
+};
+
+export type TimeEntryWithTask = TimeEntry & {
+  task: Pick<Task, 'id' | 'name' | 'actualTime'>;
+};
+
+// A future occurrence of a recurring task that only exists on the calendar
+export type VirtualOccurrence = {
+  taskId: string;
+  date: string;
+  originalDate: string;
+  name: string;
+  priority: number;
+  isMoved: boolean;
+};
+
 // API Response types
 export type PaginatedResponse<T> = {
   data: T[];
@@ -29,7 +57,7 @@ export type PaginatedResponse<T> = {
   };
 };
 
-export type SearchResponse = PaginatedResponse<TaskWithRelations & { score: number }> & {
+export type SearchResponse = PaginatedResponse<TaskWithRelations & { score: number; snippets: SearchSnippet[] }> & {
   query: string;
 };
 
@@ -46,7 +74,6 @@ export type CreateTaskRequest = {
   date?: string;
   deadline?: string;
   estimates?: number;
-  actualTime?: number;
   priority?: number;
   isRecurring?: boolean;
   recurringPattern?: string;
@@ -0,0 +1,167 @@
+import { isIP } from 'net';
+import webpush from 'web-push';
+import prisma from './prisma';
+import type { DueReminder, ReminderChannel } from './reminder-delivery';
+
+export type VapidDetails = {
+  subject: string;
+  publicKey: string;
+  privateKey: string;
+};
+
+export type PushTarget = {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+};
+
+// What the service worker in public/sw.js turns into a notification
+export type PushPayload = {
+  title: string;
+  body: string;
+  tag: string;
+  data: { taskId: string; reminderId: string };
+  actions: { action: 'complete' | 'snooze'; title: string }[];
+};
+
+export const SNOOZE_MINUTES = 10;
+const PUSH_TTL_SECONDS = 60 * 60;
+
+// Push services of the major browsers. Self-hosted push services can be
+// added with PUSH_ALLOWED_HOSTS.
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',
+  'android.googleapis.com',
+  'updates.push.services.mozilla.com',
+  'push.apple.com',
+  'notify.windows.com',
+];
+
+function getExtraPushHosts(): string[] {
+  return process.env.PUSH_ALLOWED_HOSTS?.split(',').map(host => host.trim().toLowerCase()).filter(Boolean) ?? [];
+}
+
+// Loopback, private and link-local addresses, which must never be reached
+// on behalf of a user
+function isInternalHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return true;
+  }
+
+  if (isIP(host) === 4) {
+    const [a, b] = host.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127);
+  }
+  if (isIP(host) === 6) {
+    return host === '::' || host === '::1' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) || host.startsWith('::ffff:');
+  }
+  return false;
+}
+
+// Subscriptions may only point at known push services over HTTPS, since the
+// server sends requests to whatever endpoint a browser hands it. Outside
+// production, hosts listed in PUSH_ALLOWED_HOSTS may also be local and use
+// plain HTTP, so the push flow can be tested against a stand-in service.
+export function isAllowedPushEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+
+  const host = url.hostname.toLowerCase();
+  const extraHosts = getExtraPushHosts();
+  if (process.env.NODE_ENV !== 'production' && extraHosts.includes(host)) {
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  }
+
+  if (url.protocol !== 'https:' || isInternalHost(host)) {
+    return false;
+  }
+  return [...PUSH_SERVICE_HOSTS, ...extraHosts].some(allowed => host === allowed || host.endsWith(`.${allowed}`));
+}
+
+// VAPID keys are generated once with `npx web-push generate-vapid-keys`
+export function getVapidDetails(): VapidDetails | null {
+  const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = process.env;
+  if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) {
+    return null;
+  }
+  return {
+    subject: VAPID_SUBJECT || 'mailto:admin@example.com',
+    publicKey: VAPID_PUBLIC_KEY,
+    privateKey: VAPID_PRIVATE_KEY,
+  };
+}
+
+export function buildReminderPayload(reminder: DueReminder): PushPayload {
+  const due = reminder.task.deadline ?? reminder.task.date;
+  return {
+    title: reminder.task.name,
+    body: due
+      ? `Due ${due.toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short', timeZone: reminder.task.user.timezone })}`
+      : 'Reminder',
+    tag: reminder.id,
+    data: { taskId: reminder.task.id, reminderId: reminder.id },
+    actions: [
+      { action: 'complete', title: 'Complete' },
+      { action: 'snooze', title: `Snooze ${SNOOZE_MINUTES} min` },
+    ],
+  };
+}
+
+// Send one encrypted notification. web-push only builds the request; sending
+// it with fetch keeps plain-HTTP push services (e.g. a local stand-in) usable.
+// Resolves to false when the push service reports the subscription as gone,
+// so the caller can forget it.
+export async function sendPushNotification(target: PushTarget, payload: PushPayload, vapid: VapidDetails): Promise<boolean> {
+  const request = webpush.generateRequestDetails(
+    { endpoint: target.endpoint, keys: { p256dh: target.p256dh, auth: target.auth } },
+    JSON.stringify(payload),
+    { vapidDetails: vapid, TTL: PUSH_TTL_SECONDS }
+  );
+
+  const response = await fetch(request.endpoint, {
+    method: request.method,
+    headers: request.headers as Record<string, string>,
+    body: new Uint8Array(request.body),
+  });
+
+  if (response.status === 404 || response.status === 410) {
+    return false;
+  }
+  if (!response.ok) {
+    throw new Error(`Push service responded with status ${response.status}`);
+  }
+  return true;
+}
+
+// Push a reminder to every browser the user subscribed
+export function createPushChannel(vapid: VapidDetails): ReminderChannel {
+  return {
+    name: 'push',
+    async send(reminder) {
+      const subscriptions = await prisma.pushSubscription.findMany({
+        where: { userId: reminder.task.user.id },
+      });
+      const payload = buildReminderPayload(reminder);
+
+      const results = await Promise.allSettled(
+        subscriptions.map(async (subscription) => {
+          // Subscriptions saved before endpoints were checked are dropped
+          if (!isAllowedPushEndpoint(subscription.endpoint) || !(await sendPushNotification(subscription, payload, vapid))) {
+            await prisma.pushSubscription.delete({ where: { id: subscription.id } });
+          }
+        })
+      );
+
+      const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failure) {
+        throw failure.reason;
+      }
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Cookie name mirrors SESSION_COOKIE in lib/auth.ts, which can't be imported on the edge runtime
+const SESSION_COOKIE = 'session';
+
+// Send visitors without a session cookie to the login page.
+// API routes validate the session themselves and answer with 401 instead.
+export function middleware(request: NextRequest) {
+  if (!request.cookies.has(SESSION_COOKIE)) {
+    const loginUrl = new URL('/login', request.url);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/((?!api|login|register|_next/static|_next/image|favicon.ico|sw.js).*)'],
+};
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "seriesId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Task_seriesId_idx" ON "Task"("seriesId");
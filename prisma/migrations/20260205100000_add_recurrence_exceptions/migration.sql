@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "occurrenceDate" DATETIME;
+
+-- CreateTable
+CREATE TABLE "RecurrenceException" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "seriesId" TEXT NOT NULL,
+    "originalDate" DATETIME NOT NULL,
+    "isSkipped" BOOLEAN NOT NULL DEFAULT false,
+    "newDate" DATETIME,
+    "overrides" TEXT,
+    "originalValues" TEXT,
+    "userId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "RecurrenceException_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "RecurrenceException_userId_idx" ON "RecurrenceException"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecurrenceException_seriesId_originalDate_key" ON "RecurrenceException"("seriesId", "originalDate");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Attachment" ADD COLUMN "storageKey" TEXT;
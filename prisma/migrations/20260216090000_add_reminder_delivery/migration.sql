@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Reminder" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'pending';
+ALTER TABLE "Reminder" ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Reminder" ADD COLUMN "nextAttemptAt" DATETIME;
+ALTER TABLE "Reminder" ADD COLUMN "lockedUntil" DATETIME;
+ALTER TABLE "Reminder" ADD COLUMN "deliveredAt" DATETIME;
+ALTER TABLE "Reminder" ADD COLUMN "lastError" TEXT;
+
+-- CreateTable
+CREATE TABLE "ReminderDelivery" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "reminderId" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ReminderDelivery_reminderId_fkey" FOREIGN KEY ("reminderId") REFERENCES "Reminder" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Reminder_status_datetime_idx" ON "Reminder"("status", "datetime");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReminderDelivery_reminderId_channel_key" ON "ReminderDelivery"("reminderId", "channel");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "timezone" TEXT NOT NULL DEFAULT 'UTC';
+ALTER TABLE "User" ADD COLUMN "emailNotifications" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "User" ADD COLUMN "digestEnabled" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "User" ADD COLUMN "digestTime" TEXT NOT NULL DEFAULT '08:00';
+ALTER TABLE "User" ADD COLUMN "lastDigestDate" TEXT;
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "overdueNotifiedAt" DATETIME;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Reminder" ADD COLUMN "anchor" TEXT;
+ALTER TABLE "Reminder" ADD COLUMN "offsetMinutes" INTEGER;
+ALTER TABLE "Reminder" ADD COLUMN "snoozedUntil" DATETIME;
+
+-- CreateTable
+CREATE TABLE "ReminderSnooze" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "reminderId" TEXT NOT NULL,
+    "minutes" INTEGER NOT NULL,
+    "until" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ReminderSnooze_reminderId_fkey" FOREIGN KEY ("reminderId") REFERENCES "Reminder" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ReminderSnooze_reminderId_idx" ON "ReminderSnooze"("reminderId");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "calendarTokenHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_calendarTokenHash_key" ON "User"("calendarTokenHash");
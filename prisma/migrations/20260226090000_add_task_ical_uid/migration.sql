@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "icalUid" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Task_userId_icalUid_idx" ON "Task"("userId", "icalUid");
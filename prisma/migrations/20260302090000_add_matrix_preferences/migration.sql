@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "matrixUrgentDays" INTEGER NOT NULL DEFAULT 2;
+ALTER TABLE "User" ADD COLUMN "matrixImportantPriority" INTEGER NOT NULL DEFAULT 2;
+ALTER TABLE "User" ADD COLUMN "matrixImportantLabelIds" TEXT NOT NULL DEFAULT '[]';
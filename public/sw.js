@@ -0,0 +1,57 @@
+// Service worker for reminder notifications. Payloads are built by
+// buildReminderPayload in lib/web-push.ts.
+
+const SNOOZE_MINUTES = 10
+
+self.addEventListener("push", (event) => {
+  if (!event.data) return
+
+  const payload = event.data.json()
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      tag: payload.tag,
+      data: payload.data,
+      actions: payload.actions,
+      requireInteraction: true,
+    })
+  )
+})
+
+async function focusPlanner() {
+  const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true })
+  const existing = windows.find((client) => new URL(client.url).origin === self.location.origin)
+  if (existing) {
+    return existing.focus()
+  }
+  return self.clients.openWindow("/")
+}
+
+async function handleAction(action, data) {
+  let response
+  if (action === "complete") {
+    response = await fetch(`/api/tasks/${data.taskId}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ completedAt: new Date().toISOString() }),
+    })
+  } else if (action === "snooze") {
+    response = await fetch(`/api/reminders/${data.reminderId}/snooze`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ minutes: SNOOZE_MINUTES }),
+    })
+  } else {
+    return focusPlanner()
+  }
+
+  // e.g. a blocked task or an expired session: let the user sort it out in the app
+  if (!response.ok) {
+    return focusPlanner()
+  }
+}
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close()
+  event.waitUntil(handleAction(event.action, event.notification.data))
+})
@@ -1,5 +1,8 @@
 #!/usr/bin/env bun
 import prisma from '../lib/prisma';
+import { hashPassword } from '../lib/auth';
+
+const DEMO_PASSWORD = 'demo1234';
 
 async function initializeDatabase() {
   console.log('Initializing database...');
@@ -17,6 +20,7 @@ async function initializeDatabase() {
           email: 'demo@example.com',
           name: 'Demo User',
           avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=demo',
+          passwordHash: await hashPassword(DEMO_PASSWORD),
           lists: {
             create: [
               {
@@ -78,7 +82,7 @@ async function initializeDatabase() {
         },
       });
 
-      console.log('Default user created:', defaultUser.email);
+      console.log(`Default user created: ${defaultUser.email} (password: ${DEMO_PASSWORD})`);
       
       // Create sample tasks for inbox
       const inboxList = defaultUser.lists.find(list => list.isDefault);
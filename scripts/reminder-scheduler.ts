@@ -0,0 +1,72 @@
+#!/usr/bin/env bun
+import prisma from '../lib/prisma';
+import { processDueReminders } from '../lib/reminder-delivery';
+import { isEmailConfigured, processDigests, processOverdueNotifications } from '../lib/email';
+import { processRollovers } from '../lib/db-utils';
+
+// Long-running alternative to the /api/cron/reminders,
+// /api/cron/notifications and /api/cron/rollover routes for servers without
+// an external cron.
+// Runs alongside `next start`.
+const INTERVAL_MS = Number(process.env.REMINDER_INTERVAL_MS) || 30 * 1000;
+
+let isStopping = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+async function tick() {
+  try {
+    const summary = await processDueReminders();
+    const total = summary.delivered + summary.retrying + summary.failed + summary.skipped;
+    if (total > 0) {
+      console.log(
+        `Reminders: ${summary.delivered} delivered, ${summary.retrying} retrying, ` +
+        `${summary.failed} failed, ${summary.skipped} skipped`
+      );
+    }
+  } catch (error) {
+    console.error('Error processing reminders:', error instanceof Error ? error.message : 'Unknown error');
+  }
+
+  if (isEmailConfigured()) {
+    try {
+      const digests = await processDigests();
+      const overdue = await processOverdueNotifications();
+      if (digests.digests + overdue.overdue + digests.failed + overdue.failed > 0) {
+        console.log(
+          `Emails: ${digests.digests} digests, ${overdue.overdue} overdue tasks, ` +
+          `${digests.failed + overdue.failed} failed`
+        );
+      }
+    } catch (error) {
+      console.error('Error processing notifications:', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  try {
+    const rollovers = await processRollovers();
+    if (rollovers.users + rollovers.failed > 0) {
+      console.log(`Rollover: ${rollovers.tasks} tasks for ${rollovers.users} users, ${rollovers.failed} failed`);
+    }
+  } catch (error) {
+    console.error('Error rolling over tasks:', error instanceof Error ? error.message : 'Unknown error');
+  }
+
+  if (!isStopping) {
+    timer = setTimeout(tick, INTERVAL_MS);
+  }
+}
+
+async function stop() {
+  isStopping = true;
+  if (timer) {
+    clearTimeout(timer);
+  }
+  await prisma.$disconnect();
+  process.exit(0);
+}
+
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);
+
+console.log(`Reminder scheduler checking every ${INTERVAL_MS / 1000}s`);
+tick();